@@ -14,6 +14,7 @@ interface AdminUser {
     password: string;
     roles: string[];
     isActive: boolean;
+    emailVerified: boolean;
     createdAt: Date;
     updatedAt: Date;
 }
@@ -60,6 +61,7 @@ async function seedAdmin() {
             password: hashedPassword,
             roles: ['admin'],
             isActive: true,
+            emailVerified: true,
             createdAt: new Date(),
             updatedAt: new Date(),
         };
@@ -9,6 +9,14 @@ import { CommonModule } from './common/common.module';
 import { configuration } from './config/configuration';
 import { AuthModule } from './modules/auth/auth.module';
 import { UsersModule } from './modules/users/users.module';
+import { ApiKeysModule } from './modules/api-keys/api-keys.module';
+import { InvitationsModule } from './modules/invitations/invitations.module';
+import { CooperativesModule } from './modules/cooperatives/cooperatives.module';
+import { OrganisationsModule } from './modules/organisations/organisations.module';
+import { MeteringModule } from './modules/metering/metering.module';
+import { PermissionsModule } from './modules/permissions/permissions.module';
+import { DataExportModule } from './modules/data-export/data-export.module';
+import { ErasureModule } from './modules/erasure/erasure.module';
 import { HealthModule } from './modules/health/health.module';
 import { ImageClassificationModule } from './modules/image-classification/image-classification.module';
 import { RecommendationsModule } from './modules/recommendations/recommendations.module';
@@ -51,6 +59,14 @@ import { RecommendationsModule } from './modules/recommendations/recommendations
     CommonModule,
     AuthModule,
     UsersModule,
+    ApiKeysModule,
+    InvitationsModule,
+    CooperativesModule,
+    OrganisationsModule,
+    MeteringModule,
+    PermissionsModule,
+    DataExportModule,
+    ErasureModule,
 
     // Feature modules
     ImageClassificationModule,
@@ -1,15 +1,20 @@
 import { Module, MiddlewareConsumer, NestModule } from '@nestjs/common';
+import { APP_INTERCEPTOR } from '@nestjs/core';
 import { HttpModule } from '@nestjs/axios';
 import { AuditLoggingMiddleware } from './middleware/audit-logging.middleware';
+import { TenantContextMiddleware } from './middleware/tenant-context.middleware';
+import { TenantScopeInterceptor } from './interceptors/tenant-scope.interceptor';
+import { OrganisationsModule } from '../modules/organisations/organisations.module';
 
 @Module({
-  imports: [HttpModule],
+  imports: [HttpModule, OrganisationsModule],
+  providers: [{ provide: APP_INTERCEPTOR, useClass: TenantScopeInterceptor }],
   exports: [HttpModule],
 })
 export class CommonModule implements NestModule {
   configure(consumer: MiddlewareConsumer) {
     consumer
-      .apply(AuditLoggingMiddleware)
+      .apply(AuditLoggingMiddleware, TenantContextMiddleware)
       .forRoutes('*');
   }
-}
\ No newline at end of file
+}
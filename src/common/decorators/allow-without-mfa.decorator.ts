@@ -0,0 +1,9 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const ALLOW_WITHOUT_MFA_KEY = 'allowWithoutMfa';
+
+/**
+ * Marks a route as reachable by users whose role requires MFA but who have
+ * not enrolled yet (e.g. the enrolment endpoints themselves).
+ */
+export const AllowWithoutMfa = () => SetMetadata(ALLOW_WITHOUT_MFA_KEY, true);
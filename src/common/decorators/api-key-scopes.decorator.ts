@@ -0,0 +1,10 @@
+import { SetMetadata } from '@nestjs/common';
+import { ApiKeyScope } from '../enums/api-key-scope.enum';
+
+export const API_KEY_SCOPES_KEY = 'apiKeyScopes';
+
+/**
+ * Allows API key authentication on a route. The key must carry every listed
+ * scope; routes without this decorator only accept JWT bearer tokens.
+ */
+export const ApiKeyScopes = (...scopes: ApiKeyScope[]) => SetMetadata(API_KEY_SCOPES_KEY, scopes);
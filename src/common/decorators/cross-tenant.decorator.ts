@@ -0,0 +1,9 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const CROSS_TENANT_KEY = 'crossTenant';
+
+/**
+ * Lets admins work across cooperatives on a route. Everyone else stays
+ * restricted to their own cooperative.
+ */
+export const CrossTenant = () => SetMetadata(CROSS_TENANT_KEY, true);
@@ -0,0 +1,10 @@
+import { SetMetadata } from '@nestjs/common';
+import { UsageQuota } from '../enums/usage-metric.enum';
+
+export const QUOTAS_KEY = 'quotas';
+
+/**
+ * Refuses the route with 429 once the caller's cooperative has used up any
+ * of the listed monthly quotas. Checked by QuotaGuard.
+ */
+export const EnforceQuota = (...quotas: UsageQuota[]) => SetMetadata(QUOTAS_KEY, quotas);
@@ -1,3 +1,9 @@
-export * from './roles.decorator';
+export * from './require-permissions.decorator';
 export * from './current-user.decorator';
 export * from './public.decorator';
+export * from './require-verified-email.decorator';
+export * from './allow-without-mfa.decorator';
+export * from './not-while-impersonating.decorator';
+export * from './api-key-scopes.decorator';
+export * from './cross-tenant.decorator';
+export * from './enforce-quota.decorator';
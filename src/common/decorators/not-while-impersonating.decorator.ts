@@ -0,0 +1,9 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const NOT_WHILE_IMPERSONATING_KEY = 'notWhileImpersonating';
+
+/**
+ * Marks a sensitive route (credentials, MFA, sessions, API keys) that an
+ * admin may not use while impersonating another user.
+ */
+export const NotWhileImpersonating = () => SetMetadata(NOT_WHILE_IMPERSONATING_KEY, true);
@@ -0,0 +1,10 @@
+import { SetMetadata } from '@nestjs/common';
+import { Permission } from '../enums/permission.enum';
+
+
+export const PERMISSIONS_KEY = 'permissions';
+
+/**
+ * Restricts a route to users whose roles grant every listed permission.
+ */
+export const RequirePermissions = (...permissions: Permission[]) => SetMetadata(PERMISSIONS_KEY, permissions);
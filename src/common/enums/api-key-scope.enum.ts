@@ -0,0 +1,5 @@
+export enum ApiKeyScope {
+    CLASSIFY = 'classify',
+    RECOMMENDATIONS_READ = 'recommendations:read',
+    RECOMMENDATIONS_WRITE = 'recommendations:write',
+}
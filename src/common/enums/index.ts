@@ -1 +1,5 @@
 export * from './user-role.enum';
+export * from './api-key-scope.enum';
+export * from './permission.enum';
+export * from './language.enum';
+export * from './usage-metric.enum';
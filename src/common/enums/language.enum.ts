@@ -0,0 +1,6 @@
+export enum Language {
+    ENGLISH = 'en',
+    KINYARWANDA = 'rw',
+    FRENCH = 'fr',
+    SWAHILI = 'sw',
+}
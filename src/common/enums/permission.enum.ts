@@ -0,0 +1,25 @@
+/**
+ * Named permissions checked by PermissionsGuard. Roles map to sets of these
+ * in the `role_permissions` collection; see DEFAULT_ROLE_PERMISSIONS for the
+ * bundles each role starts with.
+ */
+export enum Permission {
+    SCAN_CREATE = 'scan:create',
+    RECOMMENDATION_CREATE = 'recommendation:create',
+    RECOMMENDATION_READ_ANY = 'recommendation:read:any',
+    RECOMMENDATION_FEEDBACK = 'recommendation:feedback',
+    RECOMMENDATION_ANALYTICS = 'recommendation:analytics',
+    API_KEY_MANAGE_OWN = 'api-key:manage:own',
+    PROFILE_UPDATE_OWN = 'profile:update:own',
+    USER_READ_ANY = 'user:read:any',
+    USER_MANAGE_ANY = 'user:manage:any',
+    USER_MANAGE_COOPERATIVE = 'user:manage:cooperative',
+    USER_IMPERSONATE = 'user:impersonate',
+    COOPERATIVE_READ = 'cooperative:read',
+    COOPERATIVE_MANAGE = 'cooperative:manage',
+    ORGANISATION_READ = 'organisation:read',
+    ORGANISATION_MANAGE = 'organisation:manage',
+    USAGE_READ = 'usage:read',
+    SYSTEM_HEALTH_READ = 'system:health:read',
+    ROLE_MANAGE = 'role:manage',
+}
@@ -0,0 +1,26 @@
+/**
+ * Metered operations that call a paid or rate-limited backend
+ */
+export enum UsageMetric {
+    // Single images sent to the ML API
+    CLASSIFICATION = 'classification',
+    // Images sent to the ML API as part of a batch
+    BATCH_ITEM = 'batch_item',
+    // Recommendations generated by the AI service
+    RECOMMENDATION = 'recommendation',
+}
+
+
+/**
+ * Monthly quotas of a cooperative, each covering one or more metrics
+ */
+export enum UsageQuota {
+    CLASSIFICATIONS = 'classifications',
+    RECOMMENDATIONS = 'recommendations',
+}
+
+
+export const QUOTA_METRICS: Record<UsageQuota, UsageMetric[]> = {
+    [UsageQuota.CLASSIFICATIONS]: [UsageMetric.CLASSIFICATION, UsageMetric.BATCH_ITEM],
+    [UsageQuota.RECOMMENDATIONS]: [UsageMetric.RECOMMENDATION],
+};
@@ -0,0 +1,35 @@
+import { Injectable, CanActivate, ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { ConfigService } from '@nestjs/config';
+import { REQUIRE_VERIFIED_EMAIL_KEY } from '../decorators/require-verified-email.decorator';
+import { RequestWithUser } from '../interfaces/request-with-user.interface';
+
+
+@Injectable()
+export class EmailVerifiedGuard implements CanActivate {
+    constructor(
+        private reflector: Reflector,
+        private configService: ConfigService,
+    ) { }
+
+    canActivate(context: ExecutionContext): boolean {
+        const requiresVerifiedEmail = this.reflector.getAllAndOverride<boolean>(REQUIRE_VERIFIED_EMAIL_KEY, [
+            context.getHandler(),
+            context.getClass(),
+        ]);
+
+        // Policy is opt-in per route and can be switched off globally
+        if (!requiresVerifiedEmail || !this.configService.get<boolean>('auth.requireEmailVerification')) {
+            return true;
+        }
+
+        const request = context.switchToHttp().getRequest<RequestWithUser>();
+
+        // Farmers without an email address qualify through their verified phone number
+        if (!request.user?.emailVerified && !request.user?.phoneVerified) {
+            throw new ForbiddenException('Access denied: Email address has not been verified');
+        }
+
+        return true;
+    }
+}
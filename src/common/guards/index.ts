@@ -1,2 +1,4 @@
 export * from './jwt-auth.guard';
-export * from './roles.guard';
+export * from './permissions.guard';
+export * from './email-verified.guard';
+export * from './quota.guard';
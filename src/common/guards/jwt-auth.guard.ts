@@ -1,11 +1,14 @@
-import { Injectable, ExecutionContext, UnauthorizedException } from '@nestjs/common';
+import { Injectable, ExecutionContext, UnauthorizedException, ForbiddenException } from '@nestjs/common';
 import { AuthGuard } from '@nestjs/passport';
 import { Reflector } from '@nestjs/core';
 import { IS_PUBLIC_KEY } from '../decorators/public.decorator';
+import { ALLOW_WITHOUT_MFA_KEY } from '../decorators/allow-without-mfa.decorator';
+import { NOT_WHILE_IMPERSONATING_KEY } from '../decorators/not-while-impersonating.decorator';
+import { API_KEY_SCOPES_KEY } from '../decorators/api-key-scopes.decorator';
 
 
 @Injectable()
-export class JwtAuthGuard extends AuthGuard('jwt') {
+export class JwtAuthGuard extends AuthGuard(['api-key', 'jwt']) {
   constructor(private reflector: Reflector) {
     super();
   }
@@ -20,11 +23,16 @@ export class JwtAuthGuard extends AuthGuard('jwt') {
       return true;
     }
 
-    // Otherwise, validate JWT
+    // Otherwise, validate the X-API-Key header or fall back to the JWT
     return super.canActivate(context);
   }
 
-  handleRequest(err: any, user: any, info: any) {
+  handleRequest(err: any, user: any, info: any, context: ExecutionContext) {
+    // With several strategies passport reports one failure per strategy
+    if (Array.isArray(info)) {
+      info = info.find((failure) => failure?.name);
+    }
+
     if (err || !user) {
       if (info?.name === 'TokenExpiredError') {
         throw new UnauthorizedException('Token has expired');
@@ -34,6 +42,41 @@ export class JwtAuthGuard extends AuthGuard('jwt') {
       }
       throw err || new UnauthorizedException('Authentication required');
     }
+
+    if (user.apiKeyId) {
+      const apiKeyScopes = this.reflector.getAllAndOverride<string[]>(API_KEY_SCOPES_KEY, [
+        context.getHandler(),
+        context.getClass(),
+      ]);
+
+      if (!apiKeyScopes) {
+        throw new ForbiddenException('API keys are not accepted for this endpoint');
+      }
+    }
+
+    if (user.impersonatedBy) {
+      const notWhileImpersonating = this.reflector.getAllAndOverride<boolean>(NOT_WHILE_IMPERSONATING_KEY, [
+        context.getHandler(),
+        context.getClass(),
+      ]);
+
+      if (notWhileImpersonating) {
+        throw new ForbiddenException('This action is not available while impersonating a user');
+      }
+    }
+
+    // Users whose role mandates MFA may only reach the enrolment routes until they enrol
+    if (user.mfaEnrollmentRequired) {
+      const allowWithoutMfa = this.reflector.getAllAndOverride<boolean>(ALLOW_WITHOUT_MFA_KEY, [
+        context.getHandler(),
+        context.getClass(),
+      ]);
+
+      if (!allowWithoutMfa) {
+        throw new ForbiddenException('Two-factor authentication must be enabled for your role');
+      }
+    }
+
     return user;
   }
 }
@@ -0,0 +1,46 @@
+import { ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { PermissionsGuard } from './permissions.guard';
+import { PERMISSIONS_KEY } from '../decorators/require-permissions.decorator';
+import { API_KEY_SCOPES_KEY } from '../decorators/api-key-scopes.decorator';
+import { ApiKeyScope } from '../enums/api-key-scope.enum';
+import { Permission } from '../enums/permission.enum';
+import { UserRole } from '../enums/user-role.enum';
+
+describe('PermissionsGuard', () => {
+  const metadata: Record<string, any> = {
+    [PERMISSIONS_KEY]: [Permission.SCAN_CREATE],
+    [API_KEY_SCOPES_KEY]: [ApiKeyScope.CLASSIFY],
+  };
+
+  const reflector = { getAllAndOverride: (key: string) => metadata[key] } as unknown as Reflector;
+  const permissionsService = { getPermissionsForRoles: jest.fn(async () => [Permission.SCAN_CREATE]) };
+  const guard = new PermissionsGuard(reflector, permissionsService as any);
+
+  const contextFor = (user: any): any => ({
+    getHandler: () => undefined,
+    getClass: () => undefined,
+    switchToHttp: () => ({ getRequest: () => ({ user }) }),
+  });
+
+  it('should let an API key through with the scope the route requires', async () => {
+    const user = { sub: 'user-1', roles: [UserRole.FARMER], apiKeyId: 'key-1', apiKeyScopes: [ApiKeyScope.CLASSIFY] };
+
+    await expect(guard.canActivate(contextFor(user))).resolves.toBe(true);
+  });
+
+  it('should refuse an API key without the scope the route requires', async () => {
+    const user = {
+      sub: 'user-1',
+      roles: [UserRole.FARMER],
+      apiKeyId: 'key-1',
+      apiKeyScopes: [ApiKeyScope.RECOMMENDATIONS_READ],
+    };
+
+    await expect(guard.canActivate(contextFor(user))).rejects.toThrow(ForbiddenException);
+  });
+
+  it('should not apply API key scopes to bearer tokens', async () => {
+    await expect(guard.canActivate(contextFor({ sub: 'user-1', roles: [UserRole.FARMER] }))).resolves.toBe(true);
+  });
+});
@@ -0,0 +1,71 @@
+import { Injectable, CanActivate, ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Permission } from '../enums/permission.enum';
+import { PERMISSIONS_KEY } from '../decorators/require-permissions.decorator';
+import { API_KEY_SCOPES_KEY } from '../decorators/api-key-scopes.decorator';
+import { ApiKeyScope } from '../enums/api-key-scope.enum';
+import { RequestWithUser } from '../interfaces/request-with-user.interface';
+import { PermissionsService } from '../../modules/permissions/permissions.service';
+
+
+@Injectable()
+export class PermissionsGuard implements CanActivate {
+    constructor(
+        private reflector: Reflector,
+        private permissionsService: PermissionsService,
+    ) { }
+
+    async canActivate(context: ExecutionContext): Promise<boolean> {
+        this.checkApiKeyScopes(context);
+
+        const requiredPermissions = this.reflector.getAllAndOverride<Permission[]>(PERMISSIONS_KEY, [
+            context.getHandler(),
+            context.getClass(),
+        ]);
+        if (!requiredPermissions || requiredPermissions.length === 0) {
+            return true;
+        }
+
+        const request = context.switchToHttp().getRequest<RequestWithUser>();
+        const user = request.user;
+
+        if (!user || !user.roles) {
+            throw new ForbiddenException('Access denied: User roles not found');
+        }
+
+        // Resolved per request so that changes to the role mapping apply to existing tokens
+        user.permissions = await this.permissionsService.getPermissionsForRoles(user.roles);
+
+        const missingPermissions = requiredPermissions.filter((permission) => !user.permissions.includes(permission));
+
+        if (missingPermissions.length > 0) {
+            throw new ForbiddenException(
+                `Access denied: Missing the following permissions: ${missingPermissions.join(', ')}`,
+            );
+        }
+
+        return true;
+    }
+
+    private checkApiKeyScopes(context: ExecutionContext): void {
+        const request = context.switchToHttp().getRequest<RequestWithUser>();
+        const user = request.user;
+
+        if (!user?.apiKeyId) {
+            return;
+        }
+
+        const requiredScopes = this.reflector.getAllAndOverride<ApiKeyScope[]>(API_KEY_SCOPES_KEY, [
+            context.getHandler(),
+            context.getClass(),
+        ]) ?? [];
+
+        const missingScopes = requiredScopes.filter((scope) => !user.apiKeyScopes?.includes(scope));
+
+        if (missingScopes.length > 0) {
+            throw new ForbiddenException(
+                `Access denied: API key is missing the following scopes: ${missingScopes.join(', ')}`,
+            );
+        }
+    }
+}
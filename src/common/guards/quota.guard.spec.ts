@@ -0,0 +1,60 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Reflector } from '@nestjs/core';
+import { QuotaGuard } from './quota.guard';
+import { QUOTAS_KEY } from '../decorators/enforce-quota.decorator';
+import { UsageQuota } from '../enums/usage-metric.enum';
+import { UserRole } from '../enums/user-role.enum';
+import { MeteringService } from '../../modules/metering/metering.service';
+
+describe('QuotaGuard', () => {
+  // Free-form cooperative id from before cooperatives were stored
+  const farmer = { sub: 'farmer-1', roles: [UserRole.FARMER], cooperativeId: 'coop-123' };
+
+  let used: number;
+  let cooperativeModel: { findById: jest.Mock };
+  let response: { setHeader: jest.Mock; append: jest.Mock };
+  let guard: QuotaGuard;
+
+  beforeEach(() => {
+    used = 0;
+    cooperativeModel = { findById: jest.fn() };
+    response = { setHeader: jest.fn(), append: jest.fn() };
+
+    const meteringService = new MeteringService(
+      { aggregate: jest.fn(async () => (used ? [{ _id: null, quantity: used }] : [])) } as any,
+      {} as any,
+      cooperativeModel as any,
+      new ConfigService({ metering: { warningThreshold: 0.8, classificationsPerMonth: 10 } }),
+      {} as any,
+      { record: jest.fn() } as any,
+    );
+    const reflector = { getAllAndOverride: (key: string) => (key === QUOTAS_KEY ? [UsageQuota.CLASSIFICATIONS] : undefined) };
+
+    guard = new QuotaGuard(reflector as unknown as Reflector, meteringService);
+  });
+
+  const contextFor = (user: any): any => ({
+    getHandler: () => undefined,
+    getClass: () => undefined,
+    switchToHttp: () => ({ getRequest: () => ({ user }), getResponse: () => response }),
+  });
+
+  it('should apply the default quota to cooperative ids that are not ObjectIds', async () => {
+    used = 4;
+
+    await expect(guard.canActivate(contextFor(farmer))).resolves.toBe(true);
+    expect(response.setHeader).toHaveBeenCalledWith('X-Quota-Classifications-Remaining', 6);
+    expect(cooperativeModel.findById).not.toHaveBeenCalled();
+  });
+
+  it('should refuse with 429 once that default quota is used up', async () => {
+    used = 10;
+
+    const error: HttpException = await guard.canActivate(contextFor(farmer)).then(() => undefined, (e) => e);
+
+    expect(error).toBeInstanceOf(HttpException);
+    expect(error.getStatus()).toBe(HttpStatus.TOO_MANY_REQUESTS);
+    expect(response.setHeader).toHaveBeenCalledWith('Retry-After', expect.any(Number));
+  });
+});
@@ -0,0 +1,60 @@
+import { Injectable, CanActivate, ExecutionContext } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Response } from 'express';
+import { QUOTAS_KEY } from '../decorators/enforce-quota.decorator';
+import { UsageQuota } from '../enums/usage-metric.enum';
+import { RequestWithUser } from '../interfaces/request-with-user.interface';
+import { MeteringService } from '../../modules/metering/metering.service';
+
+
+/**
+ * Refuses routes early once a monthly quota listed by @EnforceQuota is used
+ * up, and reports the remaining units. The units themselves are reserved by
+ * MeteringService.reserve right before the ML API or the AI service is
+ * called. Must run after JwtAuthGuard.
+ */
+@Injectable()
+export class QuotaGuard implements CanActivate {
+    constructor(
+        private reflector: Reflector,
+        private meteringService: MeteringService,
+    ) { }
+
+    async canActivate(context: ExecutionContext): Promise<boolean> {
+        const quotas = this.reflector.getAllAndOverride<UsageQuota[]>(QUOTAS_KEY, [
+            context.getHandler(),
+            context.getClass(),
+        ]);
+        if (!quotas || quotas.length === 0) {
+            return true;
+        }
+
+        const request = context.switchToHttp().getRequest<RequestWithUser>();
+        const response = context.switchToHttp().getResponse<Response>();
+
+        for (const quota of quotas) {
+            const status = await this.meteringService.getQuotaStatusFor(request.user, quota);
+
+            if (!status || status.limit === null) {
+                continue;
+            }
+
+            if (status.exceeded) {
+                response.setHeader('Retry-After', Math.ceil((status.resetsAt.getTime() - Date.now()) / 1000));
+                throw this.meteringService.toQuotaExceeded(status);
+            }
+
+            response.setHeader(`X-Quota-${quota[0].toUpperCase()}${quota.slice(1)}-Remaining`, status.remaining);
+
+            // Soft warning: the call goes through, but clients can tell the quota is running out
+            if (status.warning) {
+                response.append(
+                    'Warning',
+                    `299 - "${status.used} of the monthly ${quota} quota of ${status.limit} used"`,
+                );
+            }
+        }
+
+        return true;
+    }
+}
@@ -1,38 +0,0 @@
-import { Injectable, CanActivate, ExecutionContext, ForbiddenException } from '@nestjs/common';
-import { Reflector } from '@nestjs/core';
-import { UserRole } from '../enums/user-role.enum';
-import { ROLES_KEY } from '../decorators/roles.decorator';
-import { RequestWithUser } from '../interfaces/request-with-user.interface';
-
-
-@Injectable()
-export class RolesGuard implements CanActivate {
-    constructor(private reflector: Reflector) { }
-
-    canActivate(context: ExecutionContext): boolean {
-        const requiredRoles = this.reflector.getAllAndOverride<UserRole[]>(ROLES_KEY, [
-            context.getHandler(),
-            context.getClass(),
-        ]);
-        if (!requiredRoles || requiredRoles.length === 0) {
-            return true;
-        }
-
-        const request = context.switchToHttp().getRequest<RequestWithUser>();
-        const user = request.user;
-
-        if (!user || !user.roles) {
-            throw new ForbiddenException('Access denied: User roles not found');
-        }
-
-        const hasRole = requiredRoles.some((role) => user.roles.includes(role));
-
-        if (!hasRole) {
-            throw new ForbiddenException(
-                `Access denied: Requires one of the following roles: ${requiredRoles.join(', ')}`,
-            );
-        }
-
-        return true;
-    }
-}
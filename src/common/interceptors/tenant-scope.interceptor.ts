@@ -0,0 +1,55 @@
+import {
+  Injectable,
+  NestInterceptor,
+  ExecutionContext,
+  CallHandler,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Observable, from, switchMap } from 'rxjs';
+import { CROSS_TENANT_KEY } from '../decorators/cross-tenant.decorator';
+import { UserRole } from '../enums/user-role.enum';
+import { RequestWithUser } from '../interfaces/request-with-user.interface';
+import { scopeToTenant } from '../tenancy/tenant-context';
+import { OrganisationsService } from '../../modules/organisations/organisations.service';
+
+/**
+ * Restricts the request to the caller's cooperative, or to every cooperative
+ * below the region or district they manage. Runs after the guards, so
+ * `request.user` is known; public routes are left unrestricted.
+ *
+ * The resolved cooperatives and organisations are also put on `request.user`
+ * for services that check access themselves.
+ */
+@Injectable()
+export class TenantScopeInterceptor implements NestInterceptor {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly organisationsService: OrganisationsService,
+  ) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    const { user } = context.switchToHttp().getRequest<RequestWithUser>();
+
+    if (!user) {
+      return next.handle();
+    }
+
+    const crossTenant = this.reflector.getAllAndOverride<boolean>(CROSS_TENANT_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+
+    return from(this.organisationsService.resolveTenantScope(user)).pipe(
+      switchMap((scope) => {
+        user.cooperativeIds = scope.cooperativeIds.filter(Boolean);
+        user.organisationIds = scope.organisationIds;
+
+        if (!crossTenant || !user.roles?.includes(UserRole.ADMIN)) {
+          scopeToTenant(scope);
+        }
+
+        return next.handle();
+      }),
+    );
+  }
+}
@@ -1,10 +1,27 @@
 import { UserRole } from '../enums/user-role.enum';
+import { ApiKeyScope } from '../enums/api-key-scope.enum';
 
 export interface JwtPayload {
     sub: string;
-    email: string;
+    email?: string;
     roles: UserRole[];
     cooperativeId?: string;
+    // Region or district office of a manager assigned above the cooperatives
+    organisationId?: string;
+    emailVerified?: boolean;
+    phoneVerified?: boolean;
+    sid?: string;
+    ver?: number;
+    mfaEnrollmentRequired?: boolean;
+    apiKeyId?: string;
+    apiKeyScopes?: ApiKeyScope[];
+    // Set on impersonation tokens: the admin acting as `sub` and their token version
+    impersonatedBy?: string;
+    impersonatorVer?: number;
+    // Resolved on each request by TenantScopeInterceptor: the cooperatives and
+    // organisations the caller can reach, their own included
+    cooperativeIds?: string[];
+    organisationIds?: string[];
     iat?: number;
     exp?: number;
 }
@@ -1,12 +1,25 @@
 import { Request } from 'express';
 import { UserRole } from '../enums/user-role.enum';
+import { ApiKeyScope } from '../enums/api-key-scope.enum';
+import { Permission } from '../enums/permission.enum';
 
 
 export interface RequestWithUser extends Request {
     user: {
         sub: string;
-        email: string;
+        email?: string;
         roles: UserRole[];
         cooperativeId?: string;
+        organisationId?: string;
+        cooperativeIds?: string[];
+        organisationIds?: string[];
+        emailVerified?: boolean;
+        phoneVerified?: boolean;
+        sid?: string;
+        mfaEnrollmentRequired?: boolean;
+        apiKeyId?: string;
+        apiKeyScopes?: ApiKeyScope[];
+        permissions?: Permission[];
+        impersonatedBy?: string;
     };
 }
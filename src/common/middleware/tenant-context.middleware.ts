@@ -0,0 +1,15 @@
+import { Injectable, NestMiddleware } from '@nestjs/common';
+import { Request, Response, NextFunction } from 'express';
+import { runInTenantContext } from '../tenancy/tenant-context';
+
+
+/**
+ * Gives every request its own tenant context, scoped by
+ * TenantScopeInterceptor once the caller has been authenticated.
+ */
+@Injectable()
+export class TenantContextMiddleware implements NestMiddleware {
+    use(req: Request, res: Response, next: NextFunction) {
+        runInTenantContext(() => next());
+    }
+}
@@ -0,0 +1,121 @@
+import { ForbiddenException } from '@nestjs/common';
+import mongoose, { Schema, Types } from 'mongoose';
+import { tenancyPlugin } from './tenancy.plugin';
+import { TenantScope, runInTenantContext, scopeToTenant, withoutTenantScope } from './tenant-context';
+
+describe('tenancyPlugin', () => {
+  // Never connected: hooks run, then the driver call fails
+  const connection = mongoose.createConnection();
+  const schema = new Schema({ name: String, cooperativeId: String, organisationId: String }, { bufferCommands: false });
+  schema.plugin(tenancyPlugin);
+  const Model = connection.model('TenantScoped', schema);
+
+  const cooperativeScope = (cooperativeId: string | null): TenantScope => ({
+    cooperativeId,
+    organisationId: null,
+    cooperativeIds: [cooperativeId],
+    organisationIds: [],
+    userId: null,
+  });
+
+  const districtScope: TenantScope = {
+    cooperativeId: null,
+    organisationId: 'district-1',
+    cooperativeIds: ['coop-a', 'coop-b'],
+    organisationIds: ['district-1'],
+    userId: null,
+  };
+
+  const inTenant = (scope: TenantScope, callback: () => Promise<void>) =>
+    runInTenantContext(async () => {
+      scopeToTenant(scope);
+      await callback();
+    });
+
+  const settle = (promise: Promise<unknown>) => promise.then(() => undefined, (error) => error);
+
+  it('should add the tenant to queries without overriding explicit filters', async () => {
+    const query = Model.find({ cooperativeId: 'coop-b' });
+
+    await inTenant(cooperativeScope('coop-a'), () => settle(query.exec()));
+
+    expect(query.getFilter()).toEqual({ cooperativeId: 'coop-b', $and: [{ cooperativeId: { $in: ['coop-a'] } }] });
+  });
+
+  it('should restrict users without a cooperative to their own documents', async () => {
+    const aggregate = Model.aggregate([{ $group: { _id: null, count: { $sum: 1 } } }]);
+    const query = Model.find({});
+    const ownScope = { ...cooperativeScope(null), userId: 'user-1' };
+
+    await inTenant(ownScope, () => settle(aggregate.exec()));
+    await inTenant(ownScope, () => settle(query.exec()));
+
+    expect(aggregate.pipeline()[0]).toEqual({ $match: { cooperativeId: { $in: [null] }, userId: 'user-1' } });
+    expect(query.getFilter()).toEqual({ $and: [{ cooperativeId: { $in: [null] }, userId: 'user-1' }] });
+  });
+
+  it('should match owners stored as ObjectIds in aggregations', async () => {
+    const ownedSchema = new Schema({ cooperativeId: String }, { bufferCommands: false });
+    ownedSchema.plugin(tenancyPlugin, { ownerField: '_id' });
+    const userId = new Types.ObjectId().toString();
+    const aggregate = connection.model('TenantOwned', ownedSchema).aggregate([]);
+
+    await inTenant({ ...cooperativeScope(null), userId }, () => settle(aggregate.exec()));
+
+    expect(aggregate.pipeline()[0]).toEqual({ $match: { cooperativeId: { $in: [null] }, _id: new Types.ObjectId(userId) } });
+  });
+
+  it('should let district managers reach every cooperative below them and their own documents', async () => {
+    const query = Model.find({});
+    const own = new Model({ name: 'own' });
+    let error: unknown;
+
+    await inTenant(districtScope, async () => {
+      await settle(query.exec());
+      await settle(own.save());
+      error = await settle(new Model({ name: 'other', cooperativeId: 'coop-c' }).save());
+    });
+
+    expect(query.getFilter()).toEqual({
+      $and: [{
+        $or: [
+          { cooperativeId: { $in: ['coop-a', 'coop-b'] } },
+          { cooperativeId: null, organisationId: { $in: ['district-1'] } },
+        ],
+      }],
+    });
+    expect(own.organisationId).toBe('district-1');
+    expect(error).toBeInstanceOf(ForbiddenException);
+  });
+
+  it('should attach the tenant to new documents and refuse other cooperatives', async () => {
+    const own = new Model({ name: 'own' });
+    let error: unknown;
+
+    await inTenant(cooperativeScope('coop-a'), async () => {
+      await settle(own.save());
+      error = await settle(new Model({ name: 'other', cooperativeId: 'coop-b' }).save());
+    });
+
+    expect(own.cooperativeId).toBe('coop-a');
+    expect(error).toBeInstanceOf(ForbiddenException);
+  });
+
+  it('should refuse updates that move documents to another cooperative', async () => {
+    let error: unknown;
+
+    await inTenant(cooperativeScope('coop-a'), async () => {
+      error = await settle(Model.updateMany({}, { $set: { cooperativeId: 'coop-b' } }).exec());
+    });
+
+    expect(error).toBeInstanceOf(ForbiddenException);
+  });
+
+  it('should leave queries alone without a scope', async () => {
+    const query = Model.find({ name: 'any' });
+
+    await inTenant(cooperativeScope('coop-a'), () => withoutTenantScope(() => settle(query.exec())));
+
+    expect(query.getFilter()).toEqual({ name: 'any' });
+  });
+});
@@ -0,0 +1,173 @@
+import { ForbiddenException } from '@nestjs/common';
+import { Aggregate, FilterQuery, MongooseQueryMiddleware, Query, Schema, Types, isValidObjectId } from 'mongoose';
+import { TenantScope, getTenantScope } from './tenant-context';
+
+
+const SCOPED_QUERIES: MongooseQueryMiddleware[] = [
+    'find',
+    'findOne',
+    'countDocuments',
+    'distinct',
+    'updateOne',
+    'updateMany',
+    'replaceOne',
+    'findOneAndUpdate',
+    'findOneAndReplace',
+    'findOneAndDelete',
+    'deleteOne',
+    'deleteMany',
+];
+
+const CROSS_TENANT_WRITE = 'Access denied: Document belongs to another cooperative';
+
+interface TenantFields {
+    cooperativeId?: string;
+    organisationId?: string;
+}
+
+export interface TenancyPluginOptions {
+    // Field holding the id of the user a document belongs to, `userId` by default
+    ownerField?: string;
+}
+
+
+/**
+ * Documents of the scope's cooperatives, and those held directly by its
+ * organisations (such as district managers) for documents that have them.
+ * Callers without either only get the documents they own.
+ */
+function toFilter(scope: TenantScope, owner: (userId: string) => FilterQuery<unknown>): FilterQuery<unknown> {
+    const inCooperatives = { cooperativeId: { $in: scope.cooperativeIds } };
+
+    if (scope.userId) {
+        return { ...inCooperatives, ...owner(scope.userId) };
+    }
+
+    if (!scope.organisationIds.length) {
+        return inCooperatives;
+    }
+
+    return { $or: [inCooperatives, { cooperativeId: null, organisationId: { $in: scope.organisationIds } }] };
+}
+
+
+function isInScope({ cooperativeId, organisationId }: TenantFields, scope: TenantScope): boolean {
+    if (cooperativeId == null && organisationId != null) {
+        return scope.organisationIds.includes(organisationId);
+    }
+
+    return scope.cooperativeIds.includes(cooperativeId ?? null);
+}
+
+
+/**
+ * Refuse updates that would move documents out of the scope
+ */
+function assertUpdateStaysInScope(update: Record<string, any> | null, scope: TenantScope): void {
+    if (!update || Array.isArray(update)) {
+        return;
+    }
+
+    for (const values of [update, update.$set, update.$setOnInsert]) {
+        if (!values) {
+            continue;
+        }
+
+        if ('cooperativeId' in values && !scope.cooperativeIds.includes(values.cooperativeId ?? null)) {
+            throw new ForbiddenException(CROSS_TENANT_WRITE);
+        }
+
+        if (values.organisationId != null && !scope.organisationIds.includes(values.organisationId)) {
+            throw new ForbiddenException(CROSS_TENANT_WRITE);
+        }
+    }
+
+    if (update.$unset && 'cooperativeId' in update.$unset && !scope.cooperativeIds.includes(null)) {
+        throw new ForbiddenException(CROSS_TENANT_WRITE);
+    }
+}
+
+
+/**
+ * Attach the caller's cooperative, or their organisation when they manage
+ * one, to a new document, refusing documents meant for someone else
+ */
+function attachTenant(document: TenantFields, scope: TenantScope, holdsOrganisation: boolean): void {
+    if (document.cooperativeId == null && document.organisationId == null) {
+        if (scope.cooperativeId) {
+            document.cooperativeId = scope.cooperativeId;
+        } else if (scope.organisationId && holdsOrganisation) {
+            document.organisationId = scope.organisationId;
+        }
+    }
+
+    if (!isInScope(document, scope)) {
+        throw new ForbiddenException(CROSS_TENANT_WRITE);
+    }
+}
+
+
+/**
+ * Restricts a collection with a `cooperativeId` field, and optionally an
+ * `organisationId` field, to the tenant scope of the current request:
+ * queries and aggregations only see its documents and writes cannot leave
+ * it. Callers outside any cooperative or organisation are further limited
+ * to the documents whose owner field holds their id. Requests without a
+ * caller, routes marked `@CrossTenant()` for admins and
+ * `withoutTenantScope()` are not restricted.
+ *
+ * Lookups into other collections from an aggregation are not restricted;
+ * filter them explicitly.
+ */
+export function tenancyPlugin(schema: Schema, options: TenancyPluginOptions = {}): void {
+    const holdsOrganisation = Boolean(schema.path('organisationId'));
+    const ownerField = options.ownerField ?? 'userId';
+    // Aggregations are not cast to the schema, so ObjectId owners are matched as ObjectIds
+    const ownedByObjectId = schema.path(ownerField)?.instance === 'ObjectId';
+    const owner = (userId: string) => ({
+        [ownerField]: ownedByObjectId && isValidObjectId(userId) ? new Types.ObjectId(userId) : userId,
+    });
+
+    schema.pre(SCOPED_QUERIES, function (this: Query<unknown, unknown>) {
+        const scope = getTenantScope();
+
+        if (!scope) {
+            return;
+        }
+
+        // Added as a separate condition so that an explicit cooperativeId filter still applies
+        this.and([toFilter(scope, owner)]);
+        assertUpdateStaysInScope(this.getUpdate() as Record<string, any>, scope);
+    });
+
+    schema.pre('aggregate', function (this: Aggregate<unknown>) {
+        const scope = getTenantScope();
+
+        if (scope) {
+            this.pipeline().unshift({ $match: toFilter(scope, owner) });
+        }
+    });
+
+    schema.pre('save', function () {
+        const scope = getTenantScope();
+
+        if (scope) {
+            attachTenant(this as TenantFields, scope, holdsOrganisation);
+        }
+    });
+
+    schema.pre('insertMany', function (next: (error?: Error) => void, documents: TenantFields[]) {
+        const scope = getTenantScope();
+
+        try {
+            if (scope) {
+                for (const document of [].concat(documents)) {
+                    attachTenant(document, scope, holdsOrganisation);
+                }
+            }
+            next();
+        } catch (error) {
+            next(error);
+        }
+    });
+}
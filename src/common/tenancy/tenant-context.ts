@@ -0,0 +1,60 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+
+/**
+ * What a caller may access. Managers of a region or district reach every
+ * organisation and cooperative below them; callers without a cooperative or
+ * organisation only reach their own documents.
+ */
+export interface TenantScope {
+    // Attached to the documents the caller creates
+    cooperativeId: string | null;
+    organisationId: string | null;
+    // null stands for documents without a cooperative
+    cooperativeIds: (string | null)[];
+    organisationIds: string[];
+    // Set when the caller is restricted to the documents they own
+    userId: string | null;
+}
+
+interface TenantStore {
+    scope?: TenantScope;
+}
+
+const storage = new AsyncLocalStorage<TenantStore>();
+
+
+/**
+ * Run a request in its own, not yet scoped, tenant context. The context is
+ * scoped once the caller is known.
+ */
+export function runInTenantContext<T>(callback: () => T): T {
+    return storage.run({}, callback);
+}
+
+
+export function scopeToTenant(scope: TenantScope): void {
+    const store = storage.getStore();
+
+    if (store) {
+        store.scope = scope;
+    }
+}
+
+
+/**
+ * Run work that legitimately spans cooperatives, such as global uniqueness
+ * checks and background jobs started from a request. Queries have to be
+ * executed, not only built, inside the callback.
+ */
+export function withoutTenantScope<T>(callback: () => T): T {
+    return storage.run({}, callback);
+}
+
+
+/**
+ * The scope queries are restricted to, or undefined when they are not restricted
+ */
+export function getTenantScope(): TenantScope | undefined {
+    return storage.getStore()?.scope;
+}
@@ -0,0 +1,38 @@
+import { parseCsv, parseCsvRecords, toCsvLine } from './csv.util';
+
+describe('csv.util', () => {
+  describe('parseCsv', () => {
+    it('should parse quoted cells with commas, quotes and line breaks', () => {
+      const text = '﻿name,notes\r\n"Uwase, Jane","Said ""hi""\r\nthen left"\n\nBosco,\r\n';
+
+      expect(parseCsv(text)).toEqual([
+        ['name', 'notes'],
+        ['Uwase, Jane', 'Said "hi"\r\nthen left'],
+        ['Bosco', ''],
+      ]);
+    });
+  });
+
+  describe('toCsvLine', () => {
+    it('should quote cells only where needed', () => {
+      expect(toCsvLine(['plain', 'a,b', 'say "hi"', null, 3, true])).toBe('plain,"a,b","say ""hi""",,3,true\r\n');
+    });
+
+    it('should guard cells that spreadsheets would run as formulas', () => {
+      expect(toCsvLine(['=SUM(A1:A2)', '+250788123456', '-1', '@cmd'])).toBe("'=SUM(A1:A2),'+250788123456,'-1,'@cmd\r\n");
+    });
+  });
+
+  describe('parseCsvRecords', () => {
+    it('should read back what toCsvLine wrote', () => {
+      const cells = ['=HYPERLINK("http://evil")', 'line one\nline two', 'Uwase, Jane', "'quoted", '+250788123456'];
+      const text = toCsvLine(['a', 'b', 'c', 'd', 'e']) + toCsvLine(cells);
+
+      expect(parseCsvRecords(text)).toEqual([{ a: cells[0], b: cells[1], c: cells[2], d: cells[3], e: cells[4] }]);
+    });
+
+    it('should key cells by trimmed header names and fill missing cells', () => {
+      expect(parseCsvRecords(' name , email \nJane\n')).toEqual([{ name: 'Jane', email: '' }]);
+    });
+  });
+});
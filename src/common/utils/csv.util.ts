@@ -0,0 +1,106 @@
+/**
+ * Minimal RFC 4180 CSV support for spreadsheet imports and exports.
+ */
+
+/**
+ * Parse CSV text into rows of raw cell values. Handles quoted cells with
+ * embedded commas, quotes and line breaks, CRLF line endings and a UTF-8 BOM.
+ * Blank lines are skipped.
+ */
+export function parseCsv(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let inQuotes = false;
+
+    const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+    const endRow = () => {
+        row.push(cell);
+        if (row.length > 1 || row[0].trim() !== '') {
+            rows.push(row);
+        }
+        row = [];
+        cell = '';
+    };
+
+    for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+
+        if (inQuotes) {
+            if (char === '"' && input[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                cell += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            row.push(cell);
+            cell = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && input[i + 1] === '\n') {
+                i++;
+            }
+            endRow();
+        } else {
+            cell += char;
+        }
+    }
+
+    if (cell !== '' || row.length > 0) {
+        endRow();
+    }
+
+    return rows;
+}
+
+
+/**
+ * Parse CSV text whose first row is a header into one record per data row,
+ * keyed by trimmed header names. Reverses the formula guard added by
+ * toCsvLine, so exported files can be imported again unchanged.
+ */
+export function parseCsvRecords(text: string): Record<string, string>[] {
+    const [header = [], ...rows] = parseCsv(text);
+    const columns = header.map((column) => column.trim());
+
+    return rows.map((row) =>
+        Object.fromEntries(columns.map((column, index) => [column, unescapeCell((row[index] ?? '').trim())])),
+    );
+}
+
+
+/**
+ * Serialise one CSV line, quoting cells where needed. Cells starting with a
+ * formula character are prefixed with a quote so spreadsheets treat them as text.
+ */
+export function toCsvLine(cells: unknown[]): string {
+    return cells.map((cell) => escapeCell(cell)).join(',') + '\r\n';
+}
+
+
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+
+function escapeCell(value: unknown): string {
+    if (value === null || value === undefined) {
+        return '';
+    }
+
+    let text = value instanceof Date ? value.toISOString() : String(value);
+
+    if (FORMULA_PREFIX.test(text)) {
+        text = `'${text}`;
+    }
+
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+
+function unescapeCell(text: string): string {
+    return text.startsWith("'") && FORMULA_PREFIX.test(text.slice(1)) ? text.slice(1) : text;
+}
@@ -1,8 +1,19 @@
+import { createHmac } from 'crypto';
+
+// Single-purpose tokens (verification links, MFA challenges, ...) are never signed
+// with JWT_SECRET itself, which also signs HS256 access tokens
+const purposeSecret = (variable: string, purpose: string): string | undefined =>
+  process.env[variable] ||
+  (process.env.JWT_SECRET && createHmac('sha256', process.env.JWT_SECRET).update(purpose).digest('hex'));
+
 export const configuration = () => ({
   port: parseInt(process.env.PORT, 10) || 3000,
   cors: {
     origin: process.env.CORS_ORIGIN || 'http://localhost:4200',
   },
+  frontendUrl: process.env.FRONTEND_URL || 'http://localhost:4200',
+  // Public base URL of this API, for links that point straight at an endpoint
+  publicApiUrl: process.env.PUBLIC_API_URL || `http://localhost:${parseInt(process.env.PORT, 10) || 3000}/api/v1`,
   database: {
     uri: process.env.MONGODB_URI || 'mongodb://localhost:27017/angular-leaf-api',
   },
@@ -11,7 +22,93 @@ export const configuration = () => ({
     jwtExpiresIn: process.env.JWT_EXPIRES_IN || '1h',
     jwtRefreshSecret: process.env.JWT_REFRESH_SECRET,
     jwtRefreshExpiresIn: process.env.JWT_REFRESH_EXPIRES_IN || '7d',
+    signing: {
+      algorithm: process.env.JWT_ALGORITHM || 'RS256',
+      rotationInterval: process.env.JWT_KEY_ROTATION_INTERVAL || '30d',
+      prePublish: process.env.JWT_KEY_PRE_PUBLISH || '1d',
+    },
     bcryptSaltRounds: parseInt(process.env.BCRYPT_SALT_ROUNDS, 10) || 12,
+    emailVerificationSecret: purposeSecret('JWT_EMAIL_VERIFICATION_SECRET', 'email-verification'),
+    emailVerificationExpiresIn: process.env.EMAIL_VERIFICATION_EXPIRES_IN || '24h',
+    requireEmailVerification: process.env.REQUIRE_EMAIL_VERIFICATION === 'true',
+    passwordResetExpiresIn: process.env.PASSWORD_RESET_EXPIRES_IN || '1h',
+    invitationSecret: purposeSecret('JWT_INVITATION_SECRET', 'invitation'),
+    invitationExpiresIn: process.env.INVITATION_EXPIRES_IN || '7d',
+    passwordPolicy: {
+      minLength: parseInt(process.env.PASSWORD_MIN_LENGTH, 10) || 8,
+      maxLength: parseInt(process.env.PASSWORD_MAX_LENGTH, 10) || 72,
+      requireUppercase: process.env.PASSWORD_REQUIRE_UPPERCASE !== 'false',
+      requireLowercase: process.env.PASSWORD_REQUIRE_LOWERCASE !== 'false',
+      requireNumber: process.env.PASSWORD_REQUIRE_NUMBER !== 'false',
+      requireSymbol: process.env.PASSWORD_REQUIRE_SYMBOL !== 'false',
+      historySize: parseInt(process.env.PASSWORD_HISTORY_SIZE ?? '5', 10),
+      maxAge: process.env.PASSWORD_MAX_AGE || '',
+      changeSecret: purposeSecret('JWT_PASSWORD_CHANGE_SECRET', 'password-change'),
+      changeTokenExpiresIn: process.env.PASSWORD_CHANGE_TOKEN_EXPIRES_IN || '10m',
+    },
+    lockout: {
+      maxAccountAttempts: parseInt(process.env.LOCKOUT_MAX_ACCOUNT_ATTEMPTS, 10) || 5,
+      maxIpAttempts: parseInt(process.env.LOCKOUT_MAX_IP_ATTEMPTS, 10) || 20,
+      attemptWindow: process.env.LOCKOUT_ATTEMPT_WINDOW || '15m',
+      baseDuration: process.env.LOCKOUT_BASE_DURATION || '1m',
+      maxDuration: process.env.LOCKOUT_MAX_DURATION || '24h',
+    },
+    otp: {
+      length: parseInt(process.env.OTP_LENGTH, 10) || 6,
+      expiresIn: process.env.OTP_EXPIRES_IN || '5m',
+      maxAttempts: parseInt(process.env.OTP_MAX_ATTEMPTS, 10) || 5,
+      resendInterval: process.env.OTP_RESEND_INTERVAL || '60s',
+      maxSendsPerWindow: parseInt(process.env.OTP_MAX_SENDS_PER_WINDOW, 10) || 5,
+      sendWindow: process.env.OTP_SEND_WINDOW || '1h',
+    },
+    oidc: {
+      enabled: !!process.env.OIDC_ISSUER,
+      issuer: process.env.OIDC_ISSUER,
+      clientId: process.env.OIDC_CLIENT_ID,
+      clientSecret: process.env.OIDC_CLIENT_SECRET,
+      redirectUri:
+        process.env.OIDC_REDIRECT_URI || `${process.env.FRONTEND_URL || 'http://localhost:4200'}/auth/oidc/callback`,
+      scopes: process.env.OIDC_SCOPES || 'openid email profile',
+      stateExpiresIn: process.env.OIDC_STATE_EXPIRES_IN || '10m',
+      roleClaim: process.env.OIDC_ROLE_CLAIM || 'roles',
+      // Comma-separated claimValue=role pairs, e.g. "leaf-admins=admin,leaf-staff=manager"
+      roleMapping: Object.fromEntries(
+        (process.env.OIDC_ROLE_MAPPING ?? '')
+          .split(',')
+          .map((pair) => pair.split('=').map((part) => part.trim()))
+          .filter(([claimValue, role]) => claimValue && role),
+      ),
+      defaultRole: process.env.OIDC_DEFAULT_ROLE || 'farmer',
+      allowProvisioning: process.env.OIDC_ALLOW_PROVISIONING !== 'false',
+    },
+    impersonation: {
+      expiresIn: process.env.IMPERSONATION_EXPIRES_IN || '15m',
+    },
+    mfa: {
+      issuer: process.env.MFA_ISSUER || 'Angular Leaf',
+      challengeSecret: purposeSecret('JWT_MFA_CHALLENGE_SECRET', 'mfa-challenge'),
+      challengeExpiresIn: process.env.MFA_CHALLENGE_EXPIRES_IN || '5m',
+      requiredRoles: (process.env.MFA_REQUIRED_ROLES ?? 'admin,manager')
+        .split(',')
+        .map((role) => role.trim())
+        .filter(Boolean),
+    },
+  },
+  dataExport: {
+    secret: purposeSecret('JWT_DATA_EXPORT_SECRET', 'data-export'),
+    expiresIn: process.env.DATA_EXPORT_EXPIRES_IN || '48h',
+  },
+  erasure: {
+    gracePeriod: process.env.ERASURE_GRACE_PERIOD || '30d',
+  },
+  mail: {
+    transport: process.env.MAIL_TRANSPORT || 'console',
+    from: process.env.MAIL_FROM || 'Angular Leaf <no-reply@angular-leaf.local>',
+    outputDir: process.env.MAIL_OUTPUT_DIR || './mail-outbox',
+  },
+  sms: {
+    provider: process.env.SMS_PROVIDER || 'log',
+    senderId: process.env.SMS_SENDER_ID || 'AngularLeaf',
   },
   openai: {
     apiKey: process.env.OPENAI_API_KEY,
@@ -19,6 +116,13 @@ export const configuration = () => ({
     maxTokens: parseInt(process.env.OPENAI_MAX_TOKENS, 10) || 1000,
     useMock: process.env.USE_MOCK_AI === 'true' || !process.env.OPENAI_API_KEY,
   },
+  metering: {
+    // Monthly defaults for cooperatives without their own quotas; 0 means unlimited
+    classificationsPerMonth: parseInt(process.env.QUOTA_CLASSIFICATIONS_PER_MONTH, 10) || 0,
+    recommendationsPerMonth: parseInt(process.env.QUOTA_RECOMMENDATIONS_PER_MONTH, 10) || 0,
+    // Share of a quota after which responses carry a warning
+    warningThreshold: parseFloat(process.env.QUOTA_WARNING_THRESHOLD) || 0.8,
+  },
   ml: {
     apiUrl: process.env.ML_API_URL || 'http://localhost:5000',
     timeout: parseInt(process.env.ML_API_TIMEOUT, 10) || 30000,
@@ -1,5 +1,5 @@
 import { NestFactory } from '@nestjs/core';
-import { ValidationPipe } from '@nestjs/common';
+import { RequestMethod, ValidationPipe } from '@nestjs/common';
 import { SwaggerModule, DocumentBuilder } from '@nestjs/swagger';
 import { ConfigService } from '@nestjs/config';
 import helmet from 'helmet';
@@ -22,7 +22,10 @@ async function bootstrap() {
     credentials: true,
   });
 
-  app.setGlobalPrefix('api/v1');
+  // The JWKS lives at the well-known location verifiers expect
+  app.setGlobalPrefix('api/v1', {
+    exclude: [{ path: '.well-known/jwks.json', method: RequestMethod.GET }],
+  });
 
 
   app.useGlobalPipes(
@@ -54,6 +57,11 @@ async function bootstrap() {
     .setVersion('1.0')
     .addTag('Authentication', 'User authentication and authorization')
     .addTag('Users', 'User management (admin only)')
+    .addTag('API Keys', 'API keys for field devices and partner integrations')
+    .addTag('Invitations', 'Cooperative onboarding invitations')
+    .addTag('Organisations', 'Regions and districts above the cooperatives')
+    .addTag('Usage', 'Metered usage and monthly quotas of cooperatives')
+    .addTag('Permissions', 'Role-to-permission mapping (admin only)')
     .addTag('image-classification', 'ML-powered image classification')
     .addTag('recommendations', 'AI-powered recommendations')
     .addTag('health', 'API health monitoring')
@@ -68,6 +76,15 @@ async function bootstrap() {
       },
       'bearer',
     )
+    .addApiKey(
+      {
+        type: 'apiKey',
+        name: 'X-API-Key',
+        in: 'header',
+        description: 'API key for devices and partner integrations',
+      },
+      'api-key',
+    )
     .build();
 
   const document = SwaggerModule.createDocument(app, config);
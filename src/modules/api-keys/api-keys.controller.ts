@@ -0,0 +1,125 @@
+import {
+    Controller,
+    Get,
+    Post,
+    Body,
+    Param,
+    Delete,
+    UseGuards,
+    HttpCode,
+    HttpStatus,
+} from '@nestjs/common';
+import {
+    ApiTags,
+    ApiOperation,
+    ApiResponse,
+    ApiBearerAuth,
+    ApiParam,
+} from '@nestjs/swagger';
+import { ApiKeysService } from './api-keys.service';
+import { CreateApiKeyDto } from './dto/create-api-key.dto';
+import { ApiKeyResponseDto, CreatedApiKeyResponseDto } from './dto/api-key-response.dto';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../../common/guards/permissions.guard';
+import { RequirePermissions } from '../../common/decorators/require-permissions.decorator';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { NotWhileImpersonating } from '../../common/decorators/not-while-impersonating.decorator';
+import { Permission } from '../../common/enums/permission.enum';
+import { JwtPayload } from '../../common/interfaces/jwt-payload.interface';
+
+
+@ApiTags('API Keys')
+@ApiBearerAuth()
+@Controller('api-keys')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+export class ApiKeysController {
+    constructor(private readonly apiKeysService: ApiKeysService) { }
+
+
+    @Post()
+    @RequirePermissions(Permission.API_KEY_MANAGE_OWN)
+    @NotWhileImpersonating()
+    @HttpCode(HttpStatus.CREATED)
+    @ApiOperation({
+        summary: 'Create an API key',
+        description: 'Create a scoped API key for a field device or partner integration. ' +
+            'Personal keys act as the caller; cooperative keys act with farmer access inside the cooperative. ' +
+            'The full key is returned only once.',
+    })
+    @ApiResponse({
+        status: HttpStatus.CREATED,
+        description: 'API key created',
+        type: CreatedApiKeyResponseDto,
+    })
+    @ApiResponse({
+        status: HttpStatus.BAD_REQUEST,
+        description: 'Validation error',
+    })
+    @ApiResponse({
+        status: HttpStatus.UNAUTHORIZED,
+        description: 'Authentication required',
+    })
+    @ApiResponse({
+        status: HttpStatus.FORBIDDEN,
+        description: 'Not allowed to create keys for this cooperative',
+    })
+    async create(
+        @CurrentUser() user: JwtPayload,
+        @Body() createApiKeyDto: CreateApiKeyDto,
+    ): Promise<CreatedApiKeyResponseDto> {
+        return this.apiKeysService.create(user, createApiKeyDto);
+    }
+
+
+    @Get()
+    @RequirePermissions(Permission.API_KEY_MANAGE_OWN)
+    @ApiOperation({
+        summary: 'List API keys',
+        description: 'List your own keys. Managers also see their cooperative keys; admins see all keys.',
+    })
+    @ApiResponse({
+        status: HttpStatus.OK,
+        description: 'API keys retrieved successfully',
+        type: [ApiKeyResponseDto],
+    })
+    @ApiResponse({
+        status: HttpStatus.UNAUTHORIZED,
+        description: 'Authentication required',
+    })
+    async findAll(@CurrentUser() user: JwtPayload): Promise<ApiKeyResponseDto[]> {
+        return this.apiKeysService.findAll(user);
+    }
+
+
+    @Delete(':id')
+    @RequirePermissions(Permission.API_KEY_MANAGE_OWN)
+    @NotWhileImpersonating()
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({
+        summary: 'Revoke an API key',
+        description: 'Revoke a key immediately. Owners, managers of the key cooperative and admins may revoke.',
+    })
+    @ApiParam({
+        name: 'id',
+        description: 'API key ID',
+        example: '507f1f77bcf86cd799439011',
+    })
+    @ApiResponse({
+        status: HttpStatus.OK,
+        description: 'API key revoked successfully',
+    })
+    @ApiResponse({
+        status: HttpStatus.NOT_FOUND,
+        description: 'API key not found',
+    })
+    @ApiResponse({
+        status: HttpStatus.UNAUTHORIZED,
+        description: 'Authentication required',
+    })
+    async revoke(
+        @CurrentUser() user: JwtPayload,
+        @Param('id') id: string,
+    ): Promise<{ message: string }> {
+        return this.apiKeysService.revoke(user, id);
+    }
+}
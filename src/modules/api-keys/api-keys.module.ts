@@ -0,0 +1,28 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { ApiKeysController } from './api-keys.controller';
+import { ApiKeysService } from './api-keys.service';
+import { ApiKeyStrategy } from './strategies/api-key.strategy';
+import { ApiKey, ApiKeySchema } from './schemas/api-key.schema';
+import { User, UserSchema } from '../users/schemas/user.schema';
+import { PermissionsModule } from '../permissions/permissions.module';
+
+/**
+ * API Keys Module
+ *
+ * Hashed, scoped keys for field devices and partner integrations. Registers
+ * the `api-key` passport strategy used by JwtAuthGuard for the X-API-Key header.
+ */
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: ApiKey.name, schema: ApiKeySchema },
+      { name: User.name, schema: UserSchema },
+    ]),
+    PermissionsModule,
+  ],
+  controllers: [ApiKeysController],
+  providers: [ApiKeysService, ApiKeyStrategy],
+  exports: [ApiKeysService],
+})
+export class ApiKeysModule {}
@@ -0,0 +1,95 @@
+import { ForbiddenException, NotFoundException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { ApiKeysService } from './api-keys.service';
+import { UserRole } from '../../common/enums/user-role.enum';
+import { ApiKeyScope } from '../../common/enums/api-key-scope.enum';
+
+describe('ApiKeysService', () => {
+  const owner = { sub: new Types.ObjectId().toString(), roles: [UserRole.MANAGER], cooperativeId: 'coop-a' };
+
+  let records: any[];
+  let user: any;
+  let apiKeyModel: any;
+  let service: ApiKeysService;
+
+  beforeEach(() => {
+    records = [];
+    user = { _id: new Types.ObjectId(owner.sub), roles: [UserRole.MANAGER], isActive: true, cooperativeId: 'coop-a' };
+
+    apiKeyModel = function (this: any, data: any) {
+      Object.assign(this, data, { _id: new Types.ObjectId() });
+      this.save = jest.fn(async () => {
+        if (!records.includes(this)) records.push(this);
+        return this;
+      });
+    };
+    apiKeyModel.findOne = jest.fn(({ prefix }) => ({
+      select: async () => records.find((record) => record.prefix === prefix) ?? null,
+    }));
+    apiKeyModel.findById = jest.fn(async (id: string) => records.find((record) => record._id.toString() === id) ?? null);
+    apiKeyModel.updateOne = jest.fn();
+
+    service = new ApiKeysService(apiKeyModel, { findById: jest.fn(async () => user) } as any);
+  });
+
+  const createKey = (overrides: Record<string, any> = {}) =>
+    service.create(owner, { name: 'Kiosk', scopes: [ApiKeyScope.CLASSIFY], ...overrides });
+
+  it('should resolve a valid key to its owner with the key scopes', async () => {
+    const { key, id } = await createKey();
+
+    await expect(service.validate(key)).resolves.toEqual(expect.objectContaining({
+      sub: owner.sub,
+      apiKeyId: id,
+      apiKeyScopes: [ApiKeyScope.CLASSIFY],
+    }));
+  });
+
+  it('should reject a key with the right prefix but the wrong secret', async () => {
+    const { key } = await createKey();
+
+    await expect(service.validate(`${key.slice(0, -1)}x`)).resolves.toBeNull();
+    expect(apiKeyModel.updateOne).not.toHaveBeenCalled();
+  });
+
+  it('should reject revoked keys', async () => {
+    const { key, id } = await createKey();
+
+    await service.revoke(owner, id);
+
+    await expect(service.validate(key)).resolves.toBeNull();
+  });
+
+  it('should reject expired keys', async () => {
+    const { key } = await createKey({ expiresAt: new Date(Date.now() + 60_000).toISOString() });
+    records[0].expiresAt = new Date(Date.now() - 1000);
+
+    await expect(service.validate(key)).resolves.toBeNull();
+  });
+
+  it('should reject keys of deactivated users', async () => {
+    const { key } = await createKey();
+    user.isActive = false;
+
+    await expect(service.validate(key)).resolves.toBeNull();
+  });
+
+  it('should narrow cooperative keys to farmer access', async () => {
+    const { key } = await createKey({ cooperativeId: 'coop-a' });
+
+    await expect(service.validate(key)).resolves.toEqual(expect.objectContaining({
+      roles: [UserRole.FARMER],
+      cooperativeId: 'coop-a',
+    }));
+  });
+
+  it('should not let managers create or revoke keys outside their cooperatives', async () => {
+    await expect(createKey({ cooperativeId: 'coop-b' })).rejects.toThrow(ForbiddenException);
+
+    const { id } = await createKey();
+    const otherManager = { sub: 'manager-2', roles: [UserRole.MANAGER], cooperativeId: 'coop-b' };
+
+    await expect(service.revoke(otherManager, id)).rejects.toThrow(NotFoundException);
+    expect(records[0].revokedAt).toBeUndefined();
+  });
+});
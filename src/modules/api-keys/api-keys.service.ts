@@ -0,0 +1,187 @@
+import {
+    Injectable,
+    NotFoundException,
+    ForbiddenException,
+    BadRequestException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, isValidObjectId } from 'mongoose';
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { ApiKey, ApiKeyDocument } from './schemas/api-key.schema';
+import { CreateApiKeyDto } from './dto/create-api-key.dto';
+import { ApiKeyResponseDto, CreatedApiKeyResponseDto } from './dto/api-key-response.dto';
+import { User, UserDocument } from '../users/schemas/user.schema';
+import { getCooperativeIds } from '../cooperatives/cooperative-scope';
+import { JwtPayload } from '../../common/interfaces/jwt-payload.interface';
+import { UserRole } from '../../common/enums/user-role.enum';
+
+
+const KEY_PREFIX = 'alk';
+
+
+@Injectable()
+export class ApiKeysService {
+    constructor(
+        @InjectModel(ApiKey.name) private apiKeyModel: Model<ApiKeyDocument>,
+        @InjectModel(User.name) private userModel: Model<UserDocument>,
+    ) { }
+
+
+    async create(currentUser: JwtPayload, createApiKeyDto: CreateApiKeyDto): Promise<CreatedApiKeyResponseDto> {
+        const { name, scopes, expiresAt, cooperativeId } = createApiKeyDto;
+
+        if (cooperativeId) {
+            this.assertCanManageCooperative(currentUser, cooperativeId);
+        }
+
+        if (expiresAt && new Date(expiresAt) <= new Date()) {
+            throw new BadRequestException('Expiry must be in the future');
+        }
+
+        const prefix = `${KEY_PREFIX}_${randomBytes(4).toString('hex')}`;
+        const secret = randomBytes(24).toString('base64url');
+        const key = `${prefix}_${secret}`;
+
+        const apiKey = await new this.apiKeyModel({
+            name,
+            prefix,
+            keyHash: this.hashKey(key),
+            userId: currentUser.sub,
+            cooperativeId,
+            scopes,
+            expiresAt: expiresAt ? new Date(expiresAt) : undefined,
+        }).save();
+
+        return {
+            ...this.toResponseDto(apiKey),
+            key,
+        };
+    }
+
+
+    async findAll(currentUser: JwtPayload): Promise<ApiKeyResponseDto[]> {
+        const query: any = {};
+
+        if (!currentUser.roles.includes(UserRole.ADMIN)) {
+            query.$or = [{ userId: currentUser.sub }];
+
+            const cooperativeIds = getCooperativeIds(currentUser);
+
+            if (currentUser.roles.includes(UserRole.MANAGER) && cooperativeIds.length) {
+                query.$or.push({ cooperativeId: { $in: cooperativeIds } });
+            }
+        }
+
+        const apiKeys = await this.apiKeyModel.find(query).sort({ createdAt: -1 });
+
+        return apiKeys.map((apiKey) => this.toResponseDto(apiKey));
+    }
+
+
+    async revoke(currentUser: JwtPayload, id: string): Promise<{ message: string }> {
+        const apiKey = isValidObjectId(id) ? await this.apiKeyModel.findById(id) : null;
+
+        if (!apiKey || !this.canManage(currentUser, apiKey)) {
+            throw new NotFoundException('API key not found');
+        }
+
+        if (!apiKey.revokedAt) {
+            apiKey.revokedAt = new Date();
+            await apiKey.save();
+        }
+
+        return { message: 'API key revoked successfully' };
+    }
+
+
+    /**
+     * Resolve a raw X-API-Key header value to the same principal shape the JWT
+     * strategy produces, or null if the key is unknown, expired or revoked.
+     */
+    async validate(key: string): Promise<JwtPayload | null> {
+        const prefix = key.split('_').slice(0, 2).join('_');
+
+        const apiKey = await this.apiKeyModel.findOne({ prefix }).select('+keyHash');
+
+        if (!apiKey || !this.hashMatches(key, apiKey.keyHash)) {
+            return null;
+        }
+
+        if (apiKey.revokedAt || (apiKey.expiresAt && apiKey.expiresAt <= new Date())) {
+            return null;
+        }
+
+        const user = await this.userModel.findById(apiKey.userId);
+
+        if (!user || !user.isActive) {
+            return null;
+        }
+
+        await this.apiKeyModel.updateOne({ _id: apiKey._id }, { lastUsedAt: new Date() });
+
+        return {
+            sub: user._id.toString(),
+            email: user.email,
+            roles: apiKey.cooperativeId ? [UserRole.FARMER] : user.roles,
+            cooperativeId: apiKey.cooperativeId ?? user.cooperativeId,
+            organisationId: apiKey.cooperativeId ? undefined : user.organisationId,
+            emailVerified: user.emailVerified,
+            phoneVerified: user.phoneVerified,
+            apiKeyId: apiKey._id.toString(),
+            apiKeyScopes: apiKey.scopes,
+        };
+    }
+
+
+    private assertCanManageCooperative(currentUser: JwtPayload, cooperativeId: string): void {
+        if (currentUser.roles.includes(UserRole.ADMIN)) {
+            return;
+        }
+
+        if (!currentUser.roles.includes(UserRole.MANAGER) || !getCooperativeIds(currentUser).includes(cooperativeId)) {
+            throw new ForbiddenException('Access denied: Cannot create keys for this cooperative');
+        }
+    }
+
+
+    private canManage(currentUser: JwtPayload, apiKey: ApiKeyDocument): boolean {
+        if (currentUser.roles.includes(UserRole.ADMIN) || apiKey.userId === currentUser.sub) {
+            return true;
+        }
+
+        return (
+            currentUser.roles.includes(UserRole.MANAGER) &&
+            !!apiKey.cooperativeId &&
+            getCooperativeIds(currentUser).includes(apiKey.cooperativeId)
+        );
+    }
+
+
+    private hashKey(key: string): string {
+        return createHash('sha256').update(key).digest('hex');
+    }
+
+
+    private hashMatches(key: string, expectedHash: string): boolean {
+        const actual = Buffer.from(this.hashKey(key), 'hex');
+        const expected = Buffer.from(expectedHash, 'hex');
+
+        return actual.length === expected.length && timingSafeEqual(actual, expected);
+    }
+
+
+    private toResponseDto(apiKey: ApiKeyDocument): ApiKeyResponseDto {
+        return {
+            id: apiKey._id.toString(),
+            name: apiKey.name,
+            prefix: apiKey.prefix,
+            userId: apiKey.userId,
+            cooperativeId: apiKey.cooperativeId,
+            scopes: apiKey.scopes,
+            expiresAt: apiKey.expiresAt,
+            lastUsedAt: apiKey.lastUsedAt,
+            revokedAt: apiKey.revokedAt,
+            createdAt: apiKey.createdAt,
+        };
+    }
+}
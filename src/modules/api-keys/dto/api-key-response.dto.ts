@@ -0,0 +1,78 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { ApiKeyScope } from '../../../common/enums/api-key-scope.enum';
+
+
+export class ApiKeyResponseDto {
+    @ApiProperty({
+        description: 'API key ID',
+        example: '507f1f77bcf86cd799439011',
+    })
+    id: string;
+
+    @ApiProperty({
+        description: 'Key name',
+        example: 'Kiosk - Kamonyi market',
+    })
+    name: string;
+
+    @ApiProperty({
+        description: 'Public key prefix used to identify the key',
+        example: 'alk_3f9a1c2b',
+    })
+    prefix: string;
+
+    @ApiProperty({
+        description: 'User the key authenticates as',
+        example: '507f1f77bcf86cd799439011',
+    })
+    userId: string;
+
+    @ApiProperty({
+        description: 'Cooperative the key is bound to (cooperative keys only)',
+        example: '507f1f77bcf86cd799439011',
+        required: false,
+    })
+    cooperativeId?: string;
+
+    @ApiProperty({
+        description: 'Scopes granted to the key',
+        enum: ApiKeyScope,
+        isArray: true,
+    })
+    scopes: ApiKeyScope[];
+
+    @ApiProperty({
+        description: 'Expiry timestamp',
+        example: '2026-12-31T23:59:59.000Z',
+        required: false,
+    })
+    expiresAt?: Date;
+
+    @ApiProperty({
+        description: 'Last time the key was used',
+        example: '2026-02-24T10:30:00.000Z',
+        required: false,
+    })
+    lastUsedAt?: Date;
+
+    @ApiProperty({
+        description: 'Revocation timestamp',
+        required: false,
+    })
+    revokedAt?: Date;
+
+    @ApiProperty({
+        description: 'Creation timestamp',
+        example: '2026-01-01T00:00:00.000Z',
+    })
+    createdAt: Date;
+}
+
+
+export class CreatedApiKeyResponseDto extends ApiKeyResponseDto {
+    @ApiProperty({
+        description: 'Full API key. Shown only once; send it in the X-API-Key header.',
+        example: 'alk_3f9a1c2b_Qm9vT2FkR3lZbVp4d0lYQ2pNd2N1ZkVQ',
+    })
+    key: string;
+}
@@ -0,0 +1,44 @@
+import { IsString, IsEnum, IsArray, IsOptional, IsDateString, MinLength, MaxLength, ArrayNotEmpty } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ApiKeyScope } from '../../../common/enums/api-key-scope.enum';
+
+
+export class CreateApiKeyDto {
+    @ApiProperty({
+        description: 'Human-readable name for the key',
+        example: 'Kiosk - Kamonyi market',
+        minLength: 2,
+        maxLength: 100,
+    })
+    @IsString()
+    @MinLength(2)
+    @MaxLength(100)
+    name: string;
+
+    @ApiProperty({
+        description: 'Scopes granted to the key',
+        enum: ApiKeyScope,
+        isArray: true,
+        example: [ApiKeyScope.CLASSIFY, ApiKeyScope.RECOMMENDATIONS_READ],
+    })
+    @IsArray()
+    @ArrayNotEmpty()
+    @IsEnum(ApiKeyScope, { each: true })
+    scopes: ApiKeyScope[];
+
+    @ApiPropertyOptional({
+        description: 'Expiry timestamp. Keys without expiry stay valid until revoked.',
+        example: '2026-12-31T23:59:59.000Z',
+    })
+    @IsOptional()
+    @IsDateString()
+    expiresAt?: string;
+
+    @ApiPropertyOptional({
+        description: 'Create a cooperative key instead of a personal key. Managers may only use their own cooperative.',
+        example: '507f1f77bcf86cd799439011',
+    })
+    @IsOptional()
+    @IsString()
+    cooperativeId?: string;
+}
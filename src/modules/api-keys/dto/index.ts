@@ -0,0 +1,2 @@
+export * from './create-api-key.dto';
+export * from './api-key-response.dto';
@@ -0,0 +1,52 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import { ApiKeyScope } from '../../../common/enums/api-key-scope.enum';
+
+export type ApiKeyDocument = ApiKey & Document;
+
+
+@Schema({
+    timestamps: true,
+    collection: 'api_keys',
+})
+export class ApiKey {
+    @Prop({ required: true, trim: true })
+    name: string;
+
+    // Public, non-secret part of the key used for lookup and identification
+    @Prop({ required: true, unique: true })
+    prefix: string;
+
+    @Prop({ required: true, select: false })
+    keyHash: string;
+
+    // User the key authenticates as (the creator for cooperative keys)
+    @Prop({ required: true, index: true })
+    userId: string;
+
+    // Set for cooperative keys, which act with farmer access inside this cooperative
+    @Prop({ required: false, index: true })
+    cooperativeId?: string;
+
+    @Prop({
+        type: [String],
+        enum: Object.values(ApiKeyScope),
+        default: [],
+    })
+    scopes: ApiKeyScope[];
+
+    @Prop({ required: false })
+    expiresAt?: Date;
+
+    @Prop({ required: false })
+    lastUsedAt?: Date;
+
+    @Prop({ required: false })
+    revokedAt?: Date;
+
+    createdAt: Date;
+
+    updatedAt: Date;
+}
+
+export const ApiKeySchema = SchemaFactory.createForClass(ApiKey);
@@ -0,0 +1,56 @@
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { PassportStrategy } from '@nestjs/passport';
+import { Strategy } from 'passport-strategy';
+import { Request } from 'express';
+import { ApiKeysService } from '../api-keys.service';
+import { JwtPayload } from '../../../common/interfaces/jwt-payload.interface';
+
+
+export const API_KEY_HEADER = 'x-api-key';
+
+
+/**
+ * Minimal passport strategy reading the X-API-Key header. Requests without
+ * the header fail softly so the next strategy (JWT) can run.
+ */
+class HeaderApiKeyStrategy extends Strategy {
+    name = 'api-key';
+
+    constructor(private readonly verify: (apiKey: string, done: (err: any, user?: any) => void) => void) {
+        super();
+    }
+
+    authenticate(req: Request): void {
+        const apiKey = req.headers[API_KEY_HEADER];
+
+        if (!apiKey || typeof apiKey !== 'string') {
+            return this.fail(401);
+        }
+
+        this.verify(apiKey, (err, user) => {
+            if (err) {
+                return this.error(err);
+            }
+            return this.success(user);
+        });
+    }
+}
+
+
+@Injectable()
+export class ApiKeyStrategy extends PassportStrategy(HeaderApiKeyStrategy, 'api-key') {
+    constructor(private apiKeysService: ApiKeysService) {
+        super();
+    }
+
+
+    async validate(apiKey: string): Promise<JwtPayload> {
+        const user = await this.apiKeysService.validate(apiKey);
+
+        if (!user) {
+            throw new UnauthorizedException('Invalid API key');
+        }
+
+        return user;
+    }
+}
@@ -0,0 +1,64 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+
+import { AuditLog, AuditLogDocument } from './schemas/audit-log.schema';
+
+export interface AuditEntry {
+  action: string;
+  userId?: string;
+  actorId?: string;
+  ip?: string;
+  details?: Record<string, any>;
+}
+
+@Injectable()
+export class AuditService {
+  private readonly logger = new Logger('AuditLog');
+
+  constructor(
+    @InjectModel(AuditLog.name)
+    private auditLogModel: Model<AuditLogDocument>,
+  ) {}
+
+  /**
+   * Persist an audit entry. Failures are logged but never propagated, so
+   * auditing cannot break the request that triggered it.
+   */
+  async record(entry: AuditEntry): Promise<void> {
+    this.logger.log(JSON.stringify(entry));
+
+    try {
+      await this.auditLogModel.create(entry);
+    } catch (error) {
+      this.logger.error(
+        `Failed to persist audit entry ${entry.action}: ${error.message}`,
+        error.stack,
+      );
+    }
+  }
+
+  /**
+   * Entries about a user or performed by them, oldest first
+   */
+  async findForUser(userId: string): Promise<AuditLogDocument[]> {
+    return this.auditLogModel
+      .find({ $or: [{ userId }, { actorId: userId }] })
+      .sort({ createdAt: 1 })
+      .exec();
+  }
+
+  /**
+   * Detach entries from an erased user. The events themselves are kept for
+   * the security record; their details and IP addresses are removed where
+   * the entry is about the user. Returns the number of entries changed.
+   */
+  async anonymiseForUser(userId: string): Promise<number> {
+    const [subject, actor] = await Promise.all([
+      this.auditLogModel.updateMany({ userId }, { $unset: { userId: 1, ip: 1, details: 1 } }),
+      this.auditLogModel.updateMany({ actorId: userId }, { $unset: { actorId: 1, ip: 1 } }),
+    ]);
+
+    return subject.modifiedCount + actor.modifiedCount;
+  }
+}
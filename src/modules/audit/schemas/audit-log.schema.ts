@@ -0,0 +1,33 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument } from 'mongoose';
+
+export type AuditLogDocument = HydratedDocument<AuditLog>;
+
+@Schema({
+  timestamps: { createdAt: true, updatedAt: false },
+  collection: 'audit_logs',
+})
+export class AuditLog {
+  @Prop({ required: true })
+  action: string;
+
+  @Prop()
+  userId?: string; // user the event is about
+
+  @Prop()
+  actorId?: string; // user who performed the action, when different
+
+  @Prop()
+  ip?: string;
+
+  @Prop({ type: Object })
+  details?: Record<string, any>;
+
+  createdAt: Date;
+}
+
+export const AuditLogSchema = SchemaFactory.createForClass(AuditLog);
+
+AuditLogSchema.index({ userId: 1, createdAt: -1 });
+AuditLogSchema.index({ actorId: 1, createdAt: -1 });
+AuditLogSchema.index({ action: 1, createdAt: -1 });
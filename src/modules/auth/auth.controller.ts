@@ -4,6 +4,10 @@ import {
     Body,
     UseGuards,
     Get,
+    Delete,
+    Param,
+    Ip,
+    Headers,
     HttpCode,
     HttpStatus,
 } from '@nestjs/common';
@@ -13,6 +17,9 @@ import {
     ApiResponse,
     ApiBearerAuth,
     ApiBody,
+    ApiParam,
+    ApiExtraModels,
+    getSchemaPath,
 } from '@nestjs/swagger';
 import { ThrottlerGuard } from '@nestjs/throttler';
 import { AuthService } from './auth.service';
@@ -20,16 +27,42 @@ import { RegisterDto } from './dto/register.dto';
 import { LoginDto } from './dto/login.dto';
 import { RefreshTokenDto } from './dto/refresh-token.dto';
 import { AuthResponseDto } from './dto/auth-response.dto';
+import { MfaChallengeResponseDto } from './dto/mfa-challenge-response.dto';
+import { PasswordChangeRequiredResponseDto } from './dto/password-change-required-response.dto';
+import { SessionResponseDto } from './dto/session-response.dto';
+import { VerifyEmailDto } from './dto/verify-email.dto';
+import { ResendVerificationDto } from './dto/resend-verification.dto';
+import { ForgotPasswordDto } from './dto/forgot-password.dto';
+import { ResetPasswordDto } from './dto/reset-password.dto';
+import { RotatePasswordDto } from './dto/rotate-password.dto';
+import { ImpersonateDto } from './dto/impersonate.dto';
+import { ImpersonationResponseDto } from './dto/impersonation-response.dto';
+import { AcceptInvitationDto } from '../invitations/dto/accept-invitation.dto';
+import { EmailVerificationService } from './email-verification.service';
+import { PasswordResetService } from './password-reset.service';
+import { SessionsService } from './sessions.service';
 import { Public } from '../../common/decorators/public.decorator';
+import { AllowWithoutMfa } from '../../common/decorators/allow-without-mfa.decorator';
+import { NotWhileImpersonating } from '../../common/decorators/not-while-impersonating.decorator';
+import { RequirePermissions } from '../../common/decorators/require-permissions.decorator';
+import { CrossTenant } from '../../common/decorators/cross-tenant.decorator';
 import { CurrentUser } from '../../common/decorators/current-user.decorator';
 import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../../common/guards/permissions.guard';
+import { Permission } from '../../common/enums/permission.enum';
 import { JwtPayload } from '../../common/interfaces/jwt-payload.interface';
 
 
 @ApiTags('Authentication')
+@ApiExtraModels(AuthResponseDto, MfaChallengeResponseDto, PasswordChangeRequiredResponseDto)
 @Controller('auth')
 export class AuthController {
-    constructor(private readonly authService: AuthService) { }
+    constructor(
+        private readonly authService: AuthService,
+        private readonly emailVerificationService: EmailVerificationService,
+        private readonly passwordResetService: PasswordResetService,
+        private readonly sessionsService: SessionsService,
+    ) { }
 
 
     @Public()
@@ -37,7 +70,7 @@ export class AuthController {
     @HttpCode(HttpStatus.CREATED)
     @ApiOperation({
         summary: 'Register a new user',
-        description: 'Create a new user account. Users are assigned the FARMER role by default.',
+        description: 'Create a new user account. Users are assigned the FARMER role by default and receive an email verification link.',
     })
     @ApiBody({ type: RegisterDto })
     @ApiResponse({
@@ -53,8 +86,12 @@ export class AuthController {
         status: HttpStatus.BAD_REQUEST,
         description: 'Validation error',
     })
-    async register(@Body() registerDto: RegisterDto): Promise<AuthResponseDto> {
-        return this.authService.register(registerDto);
+    async register(
+        @Body() registerDto: RegisterDto,
+        @Ip() ip: string,
+        @Headers('user-agent') userAgent?: string,
+    ): Promise<AuthResponseDto> {
+        return this.authService.register(registerDto, { ip, userAgent });
     }
 
 
@@ -64,13 +101,22 @@ export class AuthController {
     @HttpCode(HttpStatus.OK)
     @ApiOperation({
         summary: 'User login',
-        description: 'Authenticate user and receive JWT tokens. Rate-limited to prevent brute force attacks.',
+        description: 'Authenticate user and receive JWT tokens. Each login opens a new device session. ' +
+            'If two-factor authentication is enabled, an MFA challenge is returned instead and login is completed via POST /auth/mfa/verify. ' +
+            'If the password has expired, a password change token is returned instead and login continues via POST /auth/rotate-password. ' +
+            'Rate-limited to prevent brute force attacks.',
     })
     @ApiBody({ type: LoginDto })
     @ApiResponse({
         status: HttpStatus.OK,
-        description: 'User successfully authenticated',
-        type: AuthResponseDto,
+        description: 'User successfully authenticated, MFA challenge issued, or password change required',
+        schema: {
+            oneOf: [
+                { $ref: getSchemaPath(AuthResponseDto) },
+                { $ref: getSchemaPath(MfaChallengeResponseDto) },
+                { $ref: getSchemaPath(PasswordChangeRequiredResponseDto) },
+            ],
+        },
     })
     @ApiResponse({
         status: HttpStatus.UNAUTHORIZED,
@@ -78,10 +124,14 @@ export class AuthController {
     })
     @ApiResponse({
         status: HttpStatus.TOO_MANY_REQUESTS,
-        description: 'Too many login attempts',
+        description: 'Too many login attempts, or account/IP temporarily locked after repeated failures',
     })
-    async login(@Body() loginDto: LoginDto): Promise<AuthResponseDto> {
-        return this.authService.login(loginDto);
+    async login(
+        @Body() loginDto: LoginDto,
+        @Ip() ip: string,
+        @Headers('user-agent') userAgent?: string,
+    ): Promise<AuthResponseDto | MfaChallengeResponseDto | PasswordChangeRequiredResponseDto> {
+        return this.authService.login(loginDto, { ip, userAgent });
     }
 
 
@@ -90,7 +140,7 @@ export class AuthController {
     @HttpCode(HttpStatus.OK)
     @ApiOperation({
         summary: 'Refresh access token',
-        description: 'Generate new access token using refresh token.',
+        description: 'Generate new access and refresh tokens. The presented refresh token is rotated; reusing an old one revokes the session.',
     })
     @ApiBody({ type: RefreshTokenDto })
     @ApiResponse({
@@ -102,18 +152,186 @@ export class AuthController {
         status: HttpStatus.UNAUTHORIZED,
         description: 'Invalid or expired refresh token',
     })
-    async refresh(@Body() refreshTokenDto: RefreshTokenDto): Promise<AuthResponseDto> {
-        return this.authService.refreshToken(refreshTokenDto.refreshToken);
+    async refresh(
+        @Body() refreshTokenDto: RefreshTokenDto,
+        @Ip() ip: string,
+        @Headers('user-agent') userAgent?: string,
+    ): Promise<AuthResponseDto> {
+        return this.authService.refreshToken(refreshTokenDto.refreshToken, { ip, userAgent });
+    }
+
+
+    @Public()
+    @Post('verify-email')
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({
+        summary: 'Verify email address',
+        description: 'Confirm ownership of an email address using the token sent by email. Each token can be used once.',
+    })
+    @ApiBody({ type: VerifyEmailDto })
+    @ApiResponse({
+        status: HttpStatus.OK,
+        description: 'Email verified successfully',
+    })
+    @ApiResponse({
+        status: HttpStatus.BAD_REQUEST,
+        description: 'Invalid, expired or already used verification token',
+    })
+    async verifyEmail(@Body() verifyEmailDto: VerifyEmailDto): Promise<{ message: string }> {
+        return this.emailVerificationService.verifyEmail(verifyEmailDto.token);
+    }
+
+
+    @Public()
+    @UseGuards(ThrottlerGuard)
+    @Post('resend-verification')
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({
+        summary: 'Resend verification email',
+        description: 'Send a new verification link. The response does not reveal whether the email is registered.',
+    })
+    @ApiBody({ type: ResendVerificationDto })
+    @ApiResponse({
+        status: HttpStatus.OK,
+        description: 'Verification email sent if the account exists and is unverified',
+    })
+    @ApiResponse({
+        status: HttpStatus.TOO_MANY_REQUESTS,
+        description: 'Too many requests',
+    })
+    async resendVerification(
+        @Body() resendVerificationDto: ResendVerificationDto,
+    ): Promise<{ message: string }> {
+        return this.emailVerificationService.resendVerification(resendVerificationDto.email);
+    }
+
+
+    @Public()
+    @UseGuards(ThrottlerGuard)
+    @Post('forgot-password')
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({
+        summary: 'Request a password reset',
+        description: 'Email a single-use password reset link. The response does not reveal whether the email is registered.',
+    })
+    @ApiBody({ type: ForgotPasswordDto })
+    @ApiResponse({
+        status: HttpStatus.OK,
+        description: 'Reset link sent if the account exists',
+    })
+    @ApiResponse({
+        status: HttpStatus.TOO_MANY_REQUESTS,
+        description: 'Too many requests',
+    })
+    async forgotPassword(@Body() forgotPasswordDto: ForgotPasswordDto): Promise<{ message: string }> {
+        return this.passwordResetService.forgotPassword(forgotPasswordDto.email);
+    }
+
+
+    @Public()
+    @UseGuards(ThrottlerGuard)
+    @Post('reset-password')
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({
+        summary: 'Reset password',
+        description: 'Set a new password using a reset token. Signs the user out of all devices.',
+    })
+    @ApiBody({ type: ResetPasswordDto })
+    @ApiResponse({
+        status: HttpStatus.OK,
+        description: 'Password reset successfully',
+    })
+    @ApiResponse({
+        status: HttpStatus.BAD_REQUEST,
+        description: 'Invalid or expired reset token, or password does not meet requirements',
+    })
+    async resetPassword(@Body() resetPasswordDto: ResetPasswordDto): Promise<{ message: string }> {
+        return this.passwordResetService.resetPassword(resetPasswordDto.token, resetPasswordDto.newPassword);
+    }
+
+
+    @Public()
+    @UseGuards(ThrottlerGuard)
+    @Post('rotate-password')
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({
+        summary: 'Replace an expired password',
+        description: 'Set a new password using the password change token returned by POST /auth/login, then complete the login. ' +
+            'Returns an MFA challenge instead of tokens when two-factor authentication is enabled.',
+    })
+    @ApiBody({ type: RotatePasswordDto })
+    @ApiResponse({
+        status: HttpStatus.OK,
+        description: 'Password changed and user authenticated, or MFA challenge issued',
+        schema: {
+            oneOf: [
+                { $ref: getSchemaPath(AuthResponseDto) },
+                { $ref: getSchemaPath(MfaChallengeResponseDto) },
+            ],
+        },
+    })
+    @ApiResponse({
+        status: HttpStatus.BAD_REQUEST,
+        description: 'New password does not satisfy the password policy or was used recently',
+    })
+    @ApiResponse({
+        status: HttpStatus.UNAUTHORIZED,
+        description: 'Invalid or expired password change token',
+    })
+    async rotatePassword(
+        @Body() rotatePasswordDto: RotatePasswordDto,
+        @Ip() ip: string,
+        @Headers('user-agent') userAgent?: string,
+    ): Promise<AuthResponseDto | MfaChallengeResponseDto> {
+        return this.authService.rotateExpiredPassword(
+            rotatePasswordDto.passwordChangeToken,
+            rotatePasswordDto.newPassword,
+            { ip, userAgent },
+        );
+    }
+
+
+    @Public()
+    @Post('accept-invitation')
+    @HttpCode(HttpStatus.CREATED)
+    @ApiOperation({
+        summary: 'Accept an invitation',
+        description: 'Create an account from a cooperative invitation link. The role and cooperative come from the invitation. ' +
+            'Invitations sent by email mark the address as verified.',
+    })
+    @ApiBody({ type: AcceptInvitationDto })
+    @ApiResponse({
+        status: HttpStatus.CREATED,
+        description: 'Account created and signed in',
+        type: AuthResponseDto,
+    })
+    @ApiResponse({
+        status: HttpStatus.BAD_REQUEST,
+        description: 'Invalid or expired invitation, or validation error',
+    })
+    @ApiResponse({
+        status: HttpStatus.CONFLICT,
+        description: 'Email already registered',
+    })
+    async acceptInvitation(
+        @Body() acceptInvitationDto: AcceptInvitationDto,
+        @Ip() ip: string,
+        @Headers('user-agent') userAgent?: string,
+    ): Promise<AuthResponseDto> {
+        return this.authService.acceptInvitation(acceptInvitationDto, { ip, userAgent });
     }
 
 
     @UseGuards(JwtAuthGuard)
+    @AllowWithoutMfa()
+    @NotWhileImpersonating()
     @Post('logout')
     @HttpCode(HttpStatus.OK)
     @ApiBearerAuth()
     @ApiOperation({
         summary: 'Logout user',
-        description: 'Invalidate refresh token and logout user.',
+        description: 'Revoke the current device session and its refresh token. ' +
+            'Not available to impersonation tokens, which simply expire.',
     })
     @ApiResponse({
         status: HttpStatus.OK,
@@ -123,18 +341,123 @@ export class AuthController {
         status: HttpStatus.UNAUTHORIZED,
         description: 'Authentication required',
     })
-    async logout(@CurrentUser('sub') userId: string): Promise<{ message: string }> {
-        await this.authService.logout(userId);
+    async logout(@CurrentUser() user: JwtPayload): Promise<{ message: string }> {
+        await this.authService.logout(user.sub, user.sid);
         return { message: 'Successfully logged out' };
     }
 
 
     @UseGuards(JwtAuthGuard)
+    @Get('sessions')
+    @ApiBearerAuth()
+    @ApiOperation({
+        summary: 'List active sessions',
+        description: 'Returns every device currently signed in to the account.',
+    })
+    @ApiResponse({
+        status: HttpStatus.OK,
+        description: 'Sessions retrieved successfully',
+        type: [SessionResponseDto],
+    })
+    @ApiResponse({
+        status: HttpStatus.UNAUTHORIZED,
+        description: 'Authentication required',
+    })
+    async getSessions(@CurrentUser() user: JwtPayload): Promise<SessionResponseDto[]> {
+        return this.sessionsService.listActiveForUser(user.sub, user.sid);
+    }
+
+
+    @UseGuards(JwtAuthGuard)
+    @NotWhileImpersonating()
+    @Delete('sessions/:id')
+    @HttpCode(HttpStatus.OK)
+    @ApiBearerAuth()
+    @ApiOperation({
+        summary: 'Revoke a session',
+        description: 'Sign out a single device by revoking its session.',
+    })
+    @ApiParam({
+        name: 'id',
+        description: 'Session ID',
+        example: '507f1f77bcf86cd799439011',
+    })
+    @ApiResponse({
+        status: HttpStatus.OK,
+        description: 'Session revoked successfully',
+    })
+    @ApiResponse({
+        status: HttpStatus.NOT_FOUND,
+        description: 'Session not found',
+    })
+    @ApiResponse({
+        status: HttpStatus.UNAUTHORIZED,
+        description: 'Authentication required',
+    })
+    async revokeSession(
+        @CurrentUser('sub') userId: string,
+        @Param('id') sessionId: string,
+    ): Promise<{ message: string }> {
+        await this.sessionsService.revokeForUser(userId, sessionId);
+        return { message: 'Session revoked successfully' };
+    }
+
+
+    @UseGuards(JwtAuthGuard, PermissionsGuard)
+    @RequirePermissions(Permission.USER_IMPERSONATE)
+    @NotWhileImpersonating()
+    @CrossTenant()
+    @Post('impersonate/:userId')
+    @HttpCode(HttpStatus.OK)
+    @ApiBearerAuth()
+    @ApiOperation({
+        summary: 'Impersonate a user',
+        description: 'Issue a short-lived, non-refreshable access token that acts as the given user so support staff can ' +
+            'see what they see. Password, MFA, session and API key changes are refused with this token, and every ' +
+            'request made with it is written to the audit log. Administrators cannot be impersonated.',
+    })
+    @ApiParam({
+        name: 'userId',
+        description: 'User to impersonate',
+        example: '507f1f77bcf86cd799439011',
+    })
+    @ApiBody({ type: ImpersonateDto, required: false })
+    @ApiResponse({
+        status: HttpStatus.OK,
+        description: 'Impersonation token issued',
+        type: ImpersonationResponseDto,
+    })
+    @ApiResponse({
+        status: HttpStatus.BAD_REQUEST,
+        description: 'Target is the caller or a deactivated account',
+    })
+    @ApiResponse({
+        status: HttpStatus.FORBIDDEN,
+        description: 'user:impersonate permission required, target is an administrator, or caller is already impersonating',
+    })
+    @ApiResponse({
+        status: HttpStatus.NOT_FOUND,
+        description: 'User not found',
+    })
+    async impersonate(
+        @CurrentUser() admin: JwtPayload,
+        @Param('userId') userId: string,
+        @Body() impersonateDto: ImpersonateDto,
+        @Ip() ip: string,
+        @Headers('user-agent') userAgent?: string,
+    ): Promise<ImpersonationResponseDto> {
+        return this.authService.impersonate(admin, userId, impersonateDto.reason, { ip, userAgent });
+    }
+
+
+    @UseGuards(JwtAuthGuard)
+    @AllowWithoutMfa()
     @Get('profile')
     @ApiBearerAuth()
     @ApiOperation({
         summary: 'Get current user profile',
-        description: 'Returns authenticated user information from JWT token.',
+        description: 'Returns authenticated user information from JWT token. ' +
+            'impersonatedBy holds the admin\'s user ID when the token was issued through impersonation.',
     })
     @ApiResponse({
         status: HttpStatus.OK,
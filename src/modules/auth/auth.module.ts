@@ -3,10 +3,35 @@ import { JwtModule } from '@nestjs/jwt';
 import { PassportModule } from '@nestjs/passport';
 import { ConfigModule, ConfigService } from '@nestjs/config';
 import { MongooseModule } from '@nestjs/mongoose';
+import { HttpModule } from '@nestjs/axios';
 import { AuthController } from './auth.controller';
+import { MfaController } from './mfa.controller';
+import { OtpController } from './otp.controller';
+import { OidcController } from './oidc.controller';
+import { JwksController } from './jwks.controller';
 import { AuthService } from './auth.service';
+import { EmailVerificationService } from './email-verification.service';
+import { PasswordResetService } from './password-reset.service';
+import { SessionsService } from './sessions.service';
+import { LoginAttemptsService } from './login-attempts.service';
+import { MfaService } from './mfa.service';
+import { TotpService } from './totp.service';
+import { OtpService } from './otp.service';
+import { OidcService } from './oidc.service';
+import { SigningKeysService } from './signing-keys.service';
+import { Session, SessionSchema } from './schemas/session.schema';
+import { LoginAttempt, LoginAttemptSchema } from './schemas/login-attempt.schema';
+import { OneTimeCode, OneTimeCodeSchema } from './schemas/one-time-code.schema';
+import { OidcLoginState, OidcLoginStateSchema } from './schemas/oidc-login-state.schema';
+import { SigningKey, SigningKeySchema } from './schemas/signing-key.schema';
 import { JwtStrategy } from './strategies/jwt.strategy';
 import { User, UserSchema } from '../users/schemas/user.schema';
+import { MailModule } from '../mail/mail.module';
+import { SmsModule } from '../sms/sms.module';
+import { AuditModule } from '../audit/audit.module';
+import { PasswordPolicyModule } from '../password-policy/password-policy.module';
+import { InvitationsModule } from '../invitations/invitations.module';
+import { PermissionsModule } from '../permissions/permissions.module';
 
 
 @Module({
@@ -27,10 +52,37 @@ import { User, UserSchema } from '../users/schemas/user.schema';
             inject: [ConfigService],
         }),
 
-        MongooseModule.forFeature([{ name: User.name, schema: UserSchema }]),
+        MongooseModule.forFeature([
+            { name: User.name, schema: UserSchema },
+            { name: Session.name, schema: SessionSchema },
+            { name: LoginAttempt.name, schema: LoginAttemptSchema },
+            { name: OneTimeCode.name, schema: OneTimeCodeSchema },
+            { name: OidcLoginState.name, schema: OidcLoginStateSchema },
+            { name: SigningKey.name, schema: SigningKeySchema },
+        ]),
+
+        HttpModule,
+        MailModule,
+        SmsModule,
+        AuditModule,
+        PasswordPolicyModule,
+        InvitationsModule,
+        PermissionsModule,
+    ],
+    controllers: [AuthController, MfaController, OtpController, OidcController, JwksController],
+    providers: [
+        AuthService,
+        EmailVerificationService,
+        PasswordResetService,
+        SessionsService,
+        LoginAttemptsService,
+        MfaService,
+        TotpService,
+        OtpService,
+        OidcService,
+        SigningKeysService,
+        JwtStrategy,
     ],
-    controllers: [AuthController],
-    providers: [AuthService, JwtStrategy],
-    exports: [AuthService, JwtStrategy, PassportModule],
+    exports: [AuthService, SessionsService, LoginAttemptsService, JwtStrategy, PassportModule],
 })
 export class AuthModule { }
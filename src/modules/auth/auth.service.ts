@@ -3,6 +3,9 @@ import {
     UnauthorizedException,
     ConflictException,
     BadRequestException,
+    ForbiddenException,
+    NotFoundException,
+    Logger,
 } from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
 import { InjectModel } from '@nestjs/mongoose';
@@ -12,57 +15,124 @@ import * as bcrypt from 'bcrypt';
 import { User, UserDocument } from '../users/schemas/user.schema';
 import { RegisterDto } from './dto/register.dto';
 import { LoginDto } from './dto/login.dto';
+import { OtpVerifyDto } from './dto/otp-verify.dto';
 import { AuthResponseDto } from './dto/auth-response.dto';
+import { MfaChallengeResponseDto } from './dto/mfa-challenge-response.dto';
+import { PasswordChangeRequiredResponseDto } from './dto/password-change-required-response.dto';
+import { ImpersonationResponseDto } from './dto/impersonation-response.dto';
+import { EmailVerificationService } from './email-verification.service';
+import { SessionsService, SessionContext } from './sessions.service';
+import { LoginAttemptsService } from './login-attempts.service';
+import { MfaService } from './mfa.service';
+import { OtpService } from './otp.service';
+import { OidcService } from './oidc.service';
+import { SigningKeysService } from './signing-keys.service';
+import { InvitationsService } from '../invitations/invitations.service';
+import { PasswordPolicyService } from '../password-policy/password-policy.service';
+import { AuditService } from '../audit/audit.service';
+import { AcceptInvitationDto } from '../invitations/dto/accept-invitation.dto';
+import { SessionDocument } from './schemas/session.schema';
 import { JwtPayload } from '../../common/interfaces/jwt-payload.interface';
 import { UserRole } from '../../common/enums/user-role.enum';
-import ms from 'ms';
+import { v4 as uuidv4 } from 'uuid';
+import * as ms from 'ms';
+
+
+const MFA_CHALLENGE_PURPOSE = 'mfa-challenge';
+const PASSWORD_CHANGE_PURPOSE = 'password-change';
 
 
 @Injectable()
 export class AuthService {
-    private readonly bcryptSaltRounds: number;
+    private readonly logger = new Logger(AuthService.name);
     private readonly jwtExpiresIn: string;
 
     constructor(
         @InjectModel(User.name) private userModel: Model<UserDocument>,
         private jwtService: JwtService,
         private configService: ConfigService,
+        private emailVerificationService: EmailVerificationService,
+        private sessionsService: SessionsService,
+        private loginAttemptsService: LoginAttemptsService,
+        private mfaService: MfaService,
+        private otpService: OtpService,
+        private oidcService: OidcService,
+        private passwordPolicyService: PasswordPolicyService,
+        private invitationsService: InvitationsService,
+        private signingKeysService: SigningKeysService,
+        private auditService: AuditService,
     ) {
-        this.bcryptSaltRounds = this.configService.get<number>('auth.bcryptSaltRounds', 12);
         this.jwtExpiresIn = this.configService.get<string>('auth.jwtExpiresIn', '1h');
     }
 
 
-    async register(registerDto: RegisterDto): Promise<AuthResponseDto> {
-        const { name, email, password } = registerDto;
+    async register(registerDto: RegisterDto, context: SessionContext = {}): Promise<AuthResponseDto> {
+        const { name, email, phone, password } = registerDto;
 
-        const existingUser = await this.userModel.findOne({ email });
-        if (existingUser) {
+        if (email && (await this.userModel.exists({ email }))) {
             throw new ConflictException('Email already registered');
         }
 
-        const hashedPassword = await bcrypt.hash(password, this.bcryptSaltRounds);
+        if (phone && (await this.userModel.exists({ phone }))) {
+            throw new ConflictException('Phone number already registered');
+        }
 
         const newUser = new this.userModel({
             name,
             email,
-            password: hashedPassword,
+            phone,
             roles: [UserRole.FARMER],
             isActive: true,
+            emailVerified: false,
         });
 
+        await this.passwordPolicyService.setPassword(newUser, password);
+
         const savedUser = await newUser.save();
 
-        return this.generateAuthResponse(savedUser);
+        // A mail outage must not block registration; the user can request a new link.
+        // Phone numbers are verified the first time the user signs in with a one-time code.
+        if (savedUser.email) {
+            try {
+                await this.emailVerificationService.sendVerification(savedUser);
+            } catch (error) {
+                this.logger.error(
+                    `Failed to send verification email to ${savedUser.email}: ${error.message}`,
+                    error.stack,
+                );
+            }
+        }
+
+        const session = await this.sessionsService.create(savedUser._id.toString(), context);
+
+        return this.generateAuthResponse(savedUser, session, context);
     }
 
-    async login(loginDto: LoginDto): Promise<AuthResponseDto> {
-        const { email, password } = loginDto;
+    async acceptInvitation(
+        acceptInvitationDto: AcceptInvitationDto,
+        context: SessionContext = {},
+    ): Promise<AuthResponseDto> {
+        const user = await this.invitationsService.accept(acceptInvitationDto);
+
+        const session = await this.sessionsService.create(user._id.toString(), context);
+
+        return this.generateAuthResponse(user, session, context);
+    }
 
 
-        const user = await this.userModel.findOne({ email }).select('+password');
+    async login(
+        loginDto: LoginDto,
+        context: SessionContext = {},
+    ): Promise<AuthResponseDto | MfaChallengeResponseDto | PasswordChangeRequiredResponseDto> {
+        const { email, phone, password } = loginDto;
+        const identifier = email ?? phone;
+
+        await this.loginAttemptsService.assertNotLocked(identifier, context.ip);
+
+        const user = await this.userModel.findOne(email ? { email } : { phone }).select('+password');
 
         if (!user) {
+            await this.loginAttemptsService.recordFailure(identifier, context.ip);
             throw new UnauthorizedException('Invalid credentials');
         }
 
@@ -70,50 +140,292 @@ export class AuthService {
             throw new UnauthorizedException('Account is deactivated');
         }
 
-        const isPasswordValid = await bcrypt.compare(password, user.password);
+        // Accounts created through one-time codes have no password
+        const isPasswordValid = !!user.password && await bcrypt.compare(password, user.password);
 
         if (!isPasswordValid) {
+            await this.loginAttemptsService.recordFailure(identifier, context.ip, user._id.toString());
             throw new UnauthorizedException('Invalid credentials');
         }
 
-        user.lastLoginAt = new Date();
+        if (this.passwordPolicyService.isExpired(user)) {
+            return this.createPasswordChangeChallenge(user);
+        }
+
+        if (user.mfaEnabled) {
+            return this.createMfaChallenge(user);
+        }
+
+        return this.completeLogin(user, context, identifier);
+    }
+
+
+    /**
+     * Replace an expired password and continue the login it interrupted.
+     * The token is tied to the password it was issued for, so it stops
+     * working once the password has been changed.
+     */
+    async rotateExpiredPassword(
+        passwordChangeToken: string,
+        newPassword: string,
+        context: SessionContext = {},
+    ): Promise<AuthResponseDto | MfaChallengeResponseDto> {
+        let payload: { sub: string; purpose: string; changedAt: number };
+
+        try {
+            payload = this.jwtService.verify(passwordChangeToken, {
+                secret: this.configService.get<string>('auth.passwordPolicy.changeSecret'),
+            });
+        } catch (error) {
+            throw new UnauthorizedException('Invalid or expired password change token');
+        }
+
+        const user = await this.userModel.findById(payload.sub).select('+password +passwordHistory');
+
+        if (
+            payload.purpose !== PASSWORD_CHANGE_PURPOSE ||
+            !user ||
+            !user.isActive ||
+            (user.passwordChangedAt?.getTime() ?? 0) !== payload.changedAt
+        ) {
+            throw new UnauthorizedException('Invalid or expired password change token');
+        }
+
+        await this.passwordPolicyService.setPassword(user, newPassword);
+        user.tokenVersion = (user.tokenVersion ?? 0) + 1;
         await user.save();
 
+        if (user.mfaEnabled) {
+            return this.createMfaChallenge(user);
+        }
+
+        return this.completeLogin(user, context, user.email ?? user.phone);
+    }
+
 
-        return this.generateAuthResponse(user);
+    async requestOtp(phone: string): Promise<{ message: string }> {
+        await this.otpService.sendCode(phone);
+
+        return { message: 'A one-time code has been sent to your phone' };
     }
 
-    async refreshToken(refreshToken: string): Promise<AuthResponseDto> {
+
+    /**
+     * Sign in with a one-time code sent to the user's phone. The first
+     * successful sign-in for an unknown number creates a farmer account,
+     * which is why a name must be supplied in that case.
+     */
+    async verifyOtpLogin(
+        otpVerifyDto: OtpVerifyDto,
+        context: SessionContext = {},
+    ): Promise<AuthResponseDto | MfaChallengeResponseDto> {
+        const { phone, code, name } = otpVerifyDto;
+
+        await this.loginAttemptsService.assertNotLocked(phone, context.ip);
+
+        let user = await this.userModel.findOne({ phone });
+
+        if (!user && !name) {
+            throw new BadRequestException('Name is required to create an account for this phone number');
+        }
+
+        if (!(await this.otpService.verifyCode(phone, code))) {
+            await this.loginAttemptsService.recordFailure(phone, context.ip, user?._id.toString());
+            throw new UnauthorizedException('Invalid verification code');
+        }
+
+        if (!user) {
+            user = await new this.userModel({
+                name,
+                phone,
+                roles: [UserRole.FARMER],
+                isActive: true,
+                phoneVerified: true,
+                phoneVerifiedAt: new Date(),
+            }).save();
+        } else if (!user.phoneVerified) {
+            user.phoneVerified = true;
+            user.phoneVerifiedAt = new Date();
+        }
+
+        if (!user.isActive) {
+            throw new UnauthorizedException('Account is deactivated');
+        }
+
+        if (user.mfaEnabled) {
+            await user.save();
+            return this.createMfaChallenge(user);
+        }
+
+        return this.completeLogin(user, context, phone);
+    }
+
+
+    /**
+     * Complete single sign-on. The identity provider has already authenticated
+     * the user, but a locally enabled second factor is still enforced.
+     */
+    async oidcLogin(
+        code: string,
+        state: string,
+        context: SessionContext = {},
+    ): Promise<AuthResponseDto | MfaChallengeResponseDto> {
+        const user = await this.oidcService.authenticate(code, state);
+
+        if (user.mfaEnabled) {
+            return this.createMfaChallenge(user);
+        }
+
+        return this.completeLogin(user, context, user.email);
+    }
+
+
+    async verifyMfaLogin(mfaToken: string, code: string, context: SessionContext = {}): Promise<AuthResponseDto> {
+        let payload: { sub: string; purpose: string };
+
         try {
-            const payload = this.jwtService.verify(refreshToken, {
-                secret: this.configService.get<string>('auth.jwtRefreshSecret'),
+            payload = this.jwtService.verify(mfaToken, {
+                secret: this.configService.get<string>('auth.mfa.challengeSecret'),
             });
+        } catch (error) {
+            throw new UnauthorizedException('Invalid or expired MFA challenge');
+        }
+
+        if (payload.purpose !== MFA_CHALLENGE_PURPOSE) {
+            throw new UnauthorizedException('Invalid or expired MFA challenge');
+        }
 
-            const user = await this.userModel.findById(payload.sub).select('+refreshToken');
+        const user = await this.userModel
+            .findById(payload.sub)
+            .select('+mfaSecret +mfaRecoveryCodes +mfaLastUsedStep');
 
-            if (!user || !user.isActive) {
-                throw new UnauthorizedException('Invalid refresh token');
-            }
+        if (!user || !user.isActive || !user.mfaEnabled) {
+            throw new UnauthorizedException('Invalid or expired MFA challenge');
+        }
 
-            if (!user.refreshToken) {
-                throw new UnauthorizedException('Invalid refresh token');
-            }
+        const identifier = user.email ?? user.phone;
 
-            const isRefreshTokenValid = await bcrypt.compare(refreshToken, user.refreshToken);
+        await this.loginAttemptsService.assertNotLocked(identifier, context.ip);
 
-            if (!isRefreshTokenValid) {
-                throw new UnauthorizedException('Invalid refresh token');
-            }
+        if (!(await this.mfaService.verifyCode(user, code))) {
+            await this.loginAttemptsService.recordFailure(identifier, context.ip, user._id.toString());
+            throw new UnauthorizedException('Invalid verification code');
+        }
+
+        return this.completeLogin(user, context, identifier);
+    }
 
-            return this.generateAuthResponse(user);
+    async refreshToken(refreshToken: string, context: SessionContext = {}): Promise<AuthResponseDto> {
+        let payload: { sub: string; sid: string };
+
+        try {
+            payload = this.jwtService.verify(refreshToken, {
+                secret: this.configService.get<string>('auth.jwtRefreshSecret'),
+            });
         } catch (error) {
             throw new UnauthorizedException('Invalid refresh token');
         }
+
+        const session = await this.sessionsService.findById(payload.sid);
+
+        if (!session || session.revokedAt || session.userId !== payload.sub) {
+            throw new UnauthorizedException('Invalid refresh token');
+        }
+
+        const user = await this.userModel.findById(payload.sub);
+
+        if (!user || !user.isActive) {
+            throw new UnauthorizedException('Invalid refresh token');
+        }
+
+        return this.generateAuthResponse(user, session, context, refreshToken);
     }
 
 
-    async logout(userId: string): Promise<void> {
-        await this.userModel.findByIdAndUpdate(userId, { refreshToken: null });
+    async logout(userId: string, sessionId?: string): Promise<void> {
+        // Cut off outstanding access tokens immediately; other devices obtain
+        // fresh ones through their own (still valid) refresh tokens
+        await this.userModel.findByIdAndUpdate(userId, { $inc: { tokenVersion: 1 } });
+
+        if (sessionId) {
+            await this.sessionsService.revoke(sessionId, 'logout');
+            return;
+        }
+
+        await this.sessionsService.revokeAllForUser(userId, 'logout');
+    }
+
+
+    /**
+     * Issue a short-lived access token that acts as another user on behalf of
+     * an admin. The token records the admin so that every request made with it
+     * is audited and sensitive actions can be refused.
+     */
+    async impersonate(
+        admin: JwtPayload,
+        userId: string,
+        reason?: string,
+        context: SessionContext = {},
+    ): Promise<ImpersonationResponseDto> {
+        if (userId === admin.sub) {
+            throw new BadRequestException('You cannot impersonate yourself');
+        }
+
+        const [user, impersonator] = await Promise.all([
+            this.userModel.findById(userId),
+            this.userModel.findById(admin.sub),
+        ]);
+
+        if (!user) {
+            throw new NotFoundException('User not found');
+        }
+
+        if (!user.isActive) {
+            throw new BadRequestException('Cannot impersonate a deactivated account');
+        }
+
+        if (user.roles.includes(UserRole.ADMIN)) {
+            throw new ForbiddenException('Administrators cannot be impersonated');
+        }
+
+        const expiresIn = this.configService.get<string>('auth.impersonation.expiresIn', '15m');
+
+        const payload: JwtPayload = {
+            sub: user._id.toString(),
+            email: user.email,
+            roles: user.roles,
+            cooperativeId: user.cooperativeId,
+            organisationId: user.organisationId,
+            ver: user.tokenVersion ?? 0,
+            impersonatedBy: admin.sub,
+            impersonatorVer: impersonator?.tokenVersion ?? 0,
+        };
+
+        const accessToken = await this.signingKeysService.signAccessToken(payload, expiresIn);
+
+        await this.auditService.record({
+            action: 'auth.impersonation_started',
+            userId: user._id.toString(),
+            actorId: admin.sub,
+            ip: context.ip,
+            details: { reason, expiresIn, userAgent: context.userAgent },
+        });
+
+        this.logger.warn(`Admin ${admin.sub} started impersonating user ${user._id}`);
+
+        return {
+            accessToken,
+            tokenType: 'Bearer',
+            expiresIn: this.parseExpirationToSeconds(expiresIn),
+            impersonatedBy: admin.sub,
+            user: {
+                id: user._id.toString(),
+                email: user.email,
+                phone: user.phone,
+                name: user.name,
+                roles: user.roles,
+            },
+        };
     }
 
 
@@ -132,27 +444,116 @@ export class AuthService {
     }
 
 
-    private async generateAuthResponse(user: UserDocument): Promise<AuthResponseDto> {
+    private async completeLogin(
+        user: UserDocument,
+        context: SessionContext,
+        identifier: string,
+    ): Promise<AuthResponseDto> {
+        await this.loginAttemptsService.recordSuccess(identifier);
+
+        user.lastLoginAt = new Date();
+        await user.save();
+
+        const session = await this.sessionsService.create(user._id.toString(), context);
+
+        // Login events feed the activity statistics, so they keep the roles and cooperative at the time
+        await this.auditService.record({
+            action: 'auth.login',
+            userId: user._id.toString(),
+            ip: context.ip,
+            details: { sessionId: session._id.toString(), roles: user.roles, cooperativeId: user.cooperativeId },
+        });
+
+        return this.generateAuthResponse(user, session, context);
+    }
+
+
+    private createMfaChallenge(user: UserDocument): MfaChallengeResponseDto {
+        const expiresIn = this.configService.get<string>('auth.mfa.challengeExpiresIn', '5m');
+
+        const mfaToken = this.jwtService.sign(
+            { sub: user._id.toString(), purpose: MFA_CHALLENGE_PURPOSE },
+            {
+                secret: this.configService.get<string>('auth.mfa.challengeSecret'),
+                expiresIn: expiresIn as any,
+            },
+        );
+
+        return {
+            mfaRequired: true,
+            mfaToken,
+            expiresIn: this.parseExpirationToSeconds(expiresIn),
+        };
+    }
+
+
+    private createPasswordChangeChallenge(user: UserDocument): PasswordChangeRequiredResponseDto {
+        const expiresIn = this.configService.get<string>('auth.passwordPolicy.changeTokenExpiresIn', '10m');
+
+        const passwordChangeToken = this.jwtService.sign(
+            {
+                sub: user._id.toString(),
+                purpose: PASSWORD_CHANGE_PURPOSE,
+                changedAt: user.passwordChangedAt?.getTime() ?? 0,
+            },
+            {
+                secret: this.configService.get<string>('auth.passwordPolicy.changeSecret'),
+                expiresIn: expiresIn as any,
+            },
+        );
+
+        return {
+            passwordChangeRequired: true,
+            passwordChangeToken,
+            expiresIn: this.parseExpirationToSeconds(expiresIn),
+        };
+    }
+
+
+    /**
+     * Issue an access token and a rotated refresh token for the given session.
+     * When `previousRefreshToken` is supplied it must still be the session's
+     * current token; otherwise it is a replayed token and the session is revoked.
+     */
+    private async generateAuthResponse(
+        user: UserDocument,
+        session: SessionDocument,
+        context: SessionContext = {},
+        previousRefreshToken: string | null = null,
+    ): Promise<AuthResponseDto> {
+        const sessionId = session._id.toString();
+
         const payload: JwtPayload = {
             sub: user._id.toString(),
             email: user.email,
             roles: user.roles,
             cooperativeId: user.cooperativeId,
+            organisationId: user.organisationId,
+            sid: sessionId,
+            ver: user.tokenVersion ?? 0,
         };
 
-        const accessToken = this.jwtService.sign(payload);
+        const accessToken = await this.signingKeysService.signAccessToken(payload);
 
         const refreshTokenExpiresIn = this.configService.get<string>('auth.jwtRefreshExpiresIn', '7d');
         const refreshToken = this.jwtService.sign(
-            { sub: user._id.toString() },
+            { sub: user._id.toString(), sid: sessionId },
             {
                 secret: this.configService.get<string>('auth.jwtRefreshSecret'),
                 expiresIn: refreshTokenExpiresIn as any,
+                jwtid: uuidv4(),
             },
         );
 
-        const hashedRefreshToken = await bcrypt.hash(refreshToken, this.bcryptSaltRounds);
-        await this.userModel.findByIdAndUpdate(user._id, { refreshToken: hashedRefreshToken });
+        const rotated = await this.sessionsService.rotate(sessionId, refreshToken, previousRefreshToken, context);
+
+        if (!rotated) {
+            await this.sessionsService.revoke(sessionId, 'refresh_token_reuse');
+            this.logger.warn(
+                `Refresh token reuse detected for user ${user._id} (session ${sessionId}); session revoked`,
+            );
+            throw new UnauthorizedException('Invalid refresh token');
+        }
 
         const expiresIn = this.parseExpirationToSeconds(this.jwtExpiresIn);
 
@@ -164,8 +565,11 @@ export class AuthService {
             user: {
                 id: user._id.toString(),
                 email: user.email,
+                phone: user.phone,
                 name: user.name,
                 roles: user.roles,
+                emailVerified: user.emailVerified,
+                phoneVerified: user.phoneVerified,
             },
         };
     }
@@ -32,8 +32,11 @@ export class AuthResponseDto {
     })
     user: {
         id: string;
-        email: string;
+        email?: string;
+        phone?: string;
         name: string;
         roles: UserRole[];
+        emailVerified: boolean;
+        phoneVerified: boolean;
     };
 }
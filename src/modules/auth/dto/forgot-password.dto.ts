@@ -0,0 +1,14 @@
+import { IsEmail } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * DTO for requesting a password reset link
+ */
+export class ForgotPasswordDto {
+  @ApiProperty({
+    description: 'Email address of the account',
+    example: 'john.doe@example.com',
+  })
+  @IsEmail()
+  email: string;
+}
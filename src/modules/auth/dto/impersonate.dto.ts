@@ -0,0 +1,16 @@
+import { IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+/**
+ * DTO for starting an impersonation session
+ */
+export class ImpersonateDto {
+  @ApiPropertyOptional({
+    description: 'Why the account is being impersonated, e.g. a support ticket reference. Stored in the audit log.',
+    example: 'Support ticket #4821: farmer cannot see last week\'s scans',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+}
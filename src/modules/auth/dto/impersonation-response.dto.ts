@@ -0,0 +1,39 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { UserRole } from '../../../common/enums/user-role.enum';
+
+export class ImpersonationResponseDto {
+    @ApiProperty({
+        description: 'Short-lived access token acting as the impersonated user. It cannot be refreshed.',
+        example: 'eyJhbGciOiJSUzI1NiIsInR5cCI6IkpXVCJ9...',
+    })
+    accessToken: string;
+
+    @ApiProperty({
+        description: 'Token type',
+        example: 'Bearer',
+    })
+    tokenType: string;
+
+    @ApiProperty({
+        description: 'Token expiration time in seconds',
+        example: 900,
+    })
+    expiresIn: number;
+
+    @ApiProperty({
+        description: 'ID of the admin doing the impersonation',
+        example: '507f1f77bcf86cd799439011',
+    })
+    impersonatedBy: string;
+
+    @ApiProperty({
+        description: 'Impersonated user',
+    })
+    user: {
+        id: string;
+        email?: string;
+        phone?: string;
+        name: string;
+        roles: UserRole[];
+    };
+}
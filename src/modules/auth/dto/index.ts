@@ -2,3 +2,20 @@ export * from './register.dto';
 export * from './login.dto';
 export * from './auth-response.dto';
 export * from './refresh-token.dto';
+export * from './verify-email.dto';
+export * from './resend-verification.dto';
+export * from './forgot-password.dto';
+export * from './reset-password.dto';
+export * from './session-response.dto';
+export * from './mfa-setup-response.dto';
+export * from './mfa-challenge-response.dto';
+export * from './mfa-code.dto';
+export * from './mfa-verify.dto';
+export * from './otp-request.dto';
+export * from './otp-verify.dto';
+export * from './oidc-authorization-response.dto';
+export * from './oidc-callback.dto';
+export * from './password-change-required-response.dto';
+export * from './rotate-password.dto';
+export * from './impersonate.dto';
+export * from './impersonation-response.dto';
@@ -1,16 +1,26 @@
-import { IsEmail, IsString } from 'class-validator';
-import { ApiProperty } from '@nestjs/swagger';
+import { IsEmail, IsString, Matches, ValidateIf } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 
 /**
  * DTO for user login
  */
 export class LoginDto {
-  @ApiProperty({
-    description: 'User email address',
+  @ApiPropertyOptional({
+    description: 'User email address. Either email or phone is required.',
     example: 'john.doe@example.com',
   })
+  @ValidateIf((dto: LoginDto) => !dto.phone || dto.email !== undefined)
   @IsEmail()
-  email: string;
+  email?: string;
+
+  @ApiPropertyOptional({
+    description: 'User phone number in E.164 format. Either email or phone is required.',
+    example: '+250788123456',
+  })
+  @ValidateIf((dto: LoginDto) => !dto.email || dto.phone !== undefined)
+  @IsString()
+  @Matches(/^\+[1-9]\d{7,14}$/, { message: 'Phone number must be in E.164 format (e.g. +250788123456)' })
+  phone?: string;
 
   @ApiProperty({
     description: 'User password',
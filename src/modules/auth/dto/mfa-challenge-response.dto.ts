@@ -0,0 +1,21 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class MfaChallengeResponseDto {
+    @ApiProperty({
+        description: 'Indicates that a second factor is required to complete login',
+        example: true,
+    })
+    mfaRequired: true;
+
+    @ApiProperty({
+        description: 'Short-lived token to submit with the TOTP or recovery code',
+        example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+    })
+    mfaToken: string;
+
+    @ApiProperty({
+        description: 'Challenge token expiration time in seconds',
+        example: 300,
+    })
+    expiresIn: number;
+}
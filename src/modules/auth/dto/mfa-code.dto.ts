@@ -0,0 +1,15 @@
+import { IsString, Length } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * DTO carrying a TOTP code or a recovery code
+ */
+export class MfaCodeDto {
+  @ApiProperty({
+    description: '6-digit code from the authenticator app, or a recovery code',
+    example: '123456',
+  })
+  @IsString()
+  @Length(6, 11)
+  code: string;
+}
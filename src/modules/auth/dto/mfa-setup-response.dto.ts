@@ -0,0 +1,15 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class MfaSetupResponseDto {
+    @ApiProperty({
+        description: 'Base32 TOTP secret for manual entry in an authenticator app',
+        example: 'JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP',
+    })
+    secret: string;
+
+    @ApiProperty({
+        description: 'otpauth:// URI to encode as a QR code for authenticator apps',
+        example: 'otpauth://totp/Angular%20Leaf%3Aadmin%40example.com?secret=JBSWY3DPEHPK3PXP&issuer=Angular+Leaf',
+    })
+    otpauthUri: string;
+}
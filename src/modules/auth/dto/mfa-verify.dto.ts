@@ -0,0 +1,22 @@
+import { IsString, Length } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * DTO for completing a login that requires a second factor
+ */
+export class MfaVerifyDto {
+  @ApiProperty({
+    description: 'MFA challenge token returned by the login endpoint',
+    example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+  })
+  @IsString()
+  mfaToken: string;
+
+  @ApiProperty({
+    description: '6-digit code from the authenticator app, or a recovery code',
+    example: '123456',
+  })
+  @IsString()
+  @Length(6, 11)
+  code: string;
+}
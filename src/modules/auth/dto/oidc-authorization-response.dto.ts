@@ -0,0 +1,24 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * Where to send the browser to start single sign-on
+ */
+export class OidcAuthorizationResponseDto {
+  @ApiProperty({
+    description: 'Identity provider authorization URL to redirect the browser to',
+    example: 'https://id.example.com/authorize?response_type=code&client_id=angular-leaf&code_challenge_method=S256&...',
+  })
+  authorizationUrl: string;
+
+  @ApiProperty({
+    description: 'Opaque state value that the identity provider echoes back to the redirect URI',
+    example: 'kq3V0t7bJf1d6pQ0nS2m9w',
+  })
+  state: string;
+
+  @ApiProperty({
+    description: 'Seconds until the sign-on attempt expires',
+    example: 600,
+  })
+  expiresIn: number;
+}
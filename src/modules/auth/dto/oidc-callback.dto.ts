@@ -0,0 +1,23 @@
+import { IsString, MinLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * DTO for completing single sign-on with the values returned to the redirect URI
+ */
+export class OidcCallbackDto {
+  @ApiProperty({
+    description: 'Authorization code returned by the identity provider',
+    example: 'SplxlOBeZQQYbYS6WxSbIA',
+  })
+  @IsString()
+  @MinLength(1)
+  code: string;
+
+  @ApiProperty({
+    description: 'State value returned by the identity provider',
+    example: 'kq3V0t7bJf1d6pQ0nS2m9w',
+  })
+  @IsString()
+  @MinLength(1)
+  state: string;
+}
@@ -0,0 +1,15 @@
+import { IsString, Matches } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * DTO for requesting a one-time login code by SMS
+ */
+export class OtpRequestDto {
+  @ApiProperty({
+    description: 'Phone number in E.164 format',
+    example: '+250788123456',
+  })
+  @IsString()
+  @Matches(/^\+[1-9]\d{7,14}$/, { message: 'Phone number must be in E.164 format (e.g. +250788123456)' })
+  phone: string;
+}
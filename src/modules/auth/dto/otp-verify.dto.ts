@@ -0,0 +1,33 @@
+import { IsString, IsOptional, Matches, MinLength, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+/**
+ * DTO for signing in with a one-time code
+ */
+export class OtpVerifyDto {
+  @ApiProperty({
+    description: 'Phone number the code was sent to, in E.164 format',
+    example: '+250788123456',
+  })
+  @IsString()
+  @Matches(/^\+[1-9]\d{7,14}$/, { message: 'Phone number must be in E.164 format (e.g. +250788123456)' })
+  phone: string;
+
+  @ApiProperty({
+    description: 'One-time code received by SMS',
+    example: '482913',
+  })
+  @IsString()
+  @Matches(/^\d{4,10}$/, { message: 'Code must be numeric' })
+  code: string;
+
+  @ApiPropertyOptional({
+    description: 'Full name. Required the first time a phone number signs in, to create the farmer account.',
+    example: 'Jean Uwimana',
+  })
+  @IsOptional()
+  @IsString()
+  @MinLength(2)
+  @MaxLength(100)
+  name?: string;
+}
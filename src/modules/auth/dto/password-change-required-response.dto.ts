@@ -0,0 +1,21 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class PasswordChangeRequiredResponseDto {
+    @ApiProperty({
+        description: 'Indicates that the password has expired and must be changed to complete login',
+        example: true,
+    })
+    passwordChangeRequired: true;
+
+    @ApiProperty({
+        description: 'Short-lived token to submit with the new password',
+        example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+    })
+    passwordChangeToken: string;
+
+    @ApiProperty({
+        description: 'Token expiration time in seconds',
+        example: 600,
+    })
+    expiresIn: number;
+}
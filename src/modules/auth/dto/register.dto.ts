@@ -1,5 +1,5 @@
-import { IsEmail, IsString, MinLength, Matches } from 'class-validator';
-import { ApiProperty } from '@nestjs/swagger';
+import { IsEmail, IsString, MinLength, Matches, ValidateIf } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 
 
 export class RegisterDto {
@@ -13,25 +13,27 @@ export class RegisterDto {
     @MinLength(2)
     name: string;
 
-    @ApiProperty({
-        description: 'User email address',
+    @ApiPropertyOptional({
+        description: 'User email address. Either email or phone is required.',
         example: 'john.doe@example.com',
     })
+    @ValidateIf((dto: RegisterDto) => !dto.phone || dto.email !== undefined)
     @IsEmail()
-    email: string;
+    email?: string;
+
+    @ApiPropertyOptional({
+        description: 'User phone number in E.164 format. Either email or phone is required.',
+        example: '+250788123456',
+    })
+    @ValidateIf((dto: RegisterDto) => !dto.email || dto.phone !== undefined)
+    @IsString()
+    @Matches(/^\+[1-9]\d{7,14}$/, { message: 'Phone number must be in E.164 format (e.g. +250788123456)' })
+    phone?: string;
 
     @ApiProperty({
-        description: 'User password (minimum 8 characters, must contain uppercase, lowercase, number, and special character)',
+        description: 'User password. Must satisfy the password policy (by default at least 8 characters with uppercase, lowercase, number and special character, not a common password)',
         example: 'SecurePass123!',
-        minLength: 8,
     })
     @IsString()
-    @MinLength(8)
-    @Matches(
-        /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&])[A-Za-z\d@$!%*?&]/,
-        {
-            message: 'Password must contain at least one uppercase letter, one lowercase letter, one number, and one special character',
-        },
-    )
     password: string;
 }
@@ -0,0 +1,14 @@
+import { IsEmail } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * DTO for requesting a new verification email
+ */
+export class ResendVerificationDto {
+  @ApiProperty({
+    description: 'Email address of the account to verify',
+    example: 'john.doe@example.com',
+  })
+  @IsEmail()
+  email: string;
+}
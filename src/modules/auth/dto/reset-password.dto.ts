@@ -0,0 +1,21 @@
+import { IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * DTO for resetting a password with a reset token
+ */
+export class ResetPasswordDto {
+  @ApiProperty({
+    description: 'Password reset token received by email',
+    example: '9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08',
+  })
+  @IsString()
+  token: string;
+
+  @ApiProperty({
+    description: 'New password. Must satisfy the password policy (by default at least 8 characters with uppercase, lowercase, number and special character, not a common password)',
+    example: 'NewSecurePass123!',
+  })
+  @IsString()
+  newPassword: string;
+}
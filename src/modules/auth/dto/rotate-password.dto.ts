@@ -0,0 +1,21 @@
+import { IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * DTO for replacing an expired password during login
+ */
+export class RotatePasswordDto {
+  @ApiProperty({
+    description: 'Password change token returned by the login endpoint',
+    example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+  })
+  @IsString()
+  passwordChangeToken: string;
+
+  @ApiProperty({
+    description: 'New password. Must satisfy the password policy and differ from recent passwords',
+    example: 'NewSecurePass123!',
+  })
+  @IsString()
+  newPassword: string;
+}
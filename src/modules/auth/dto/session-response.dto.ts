@@ -0,0 +1,47 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class SessionResponseDto {
+    @ApiProperty({
+        description: 'Session ID',
+        example: '507f1f77bcf86cd799439011',
+    })
+    id: string;
+
+    @ApiProperty({
+        description: 'User agent of the device that opened the session',
+        example: 'Mozilla/5.0 (Linux; Android 13) AppleWebKit/537.36',
+        required: false,
+    })
+    userAgent?: string;
+
+    @ApiProperty({
+        description: 'IP address the session was last used from',
+        example: '192.168.1.10',
+        required: false,
+    })
+    ip?: string;
+
+    @ApiProperty({
+        description: 'Whether this is the session making the request',
+        example: true,
+    })
+    current: boolean;
+
+    @ApiProperty({
+        description: 'Session creation timestamp',
+        example: '2026-01-01T00:00:00.000Z',
+    })
+    createdAt: Date;
+
+    @ApiProperty({
+        description: 'Last time the session was refreshed',
+        example: '2026-02-24T10:30:00.000Z',
+    })
+    lastUsedAt: Date;
+
+    @ApiProperty({
+        description: 'When the current refresh token expires',
+        example: '2026-03-03T10:30:00.000Z',
+    })
+    expiresAt: Date;
+}
@@ -0,0 +1,14 @@
+import { IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * DTO for email verification request
+ */
+export class VerifyEmailDto {
+  @ApiProperty({
+    description: 'Verification token received by email',
+    example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+  })
+  @IsString()
+  token: string;
+}
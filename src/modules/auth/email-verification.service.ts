@@ -0,0 +1,117 @@
+import {
+    Injectable,
+    BadRequestException,
+    Logger,
+} from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { ConfigService } from '@nestjs/config';
+import { v4 as uuidv4 } from 'uuid';
+import { User, UserDocument } from '../users/schemas/user.schema';
+import { MailService } from '../mail/mail.service';
+
+
+const EMAIL_VERIFICATION_PURPOSE = 'email-verification';
+
+interface EmailVerificationPayload {
+    sub: string;
+    email: string;
+    purpose: string;
+    jti: string;
+}
+
+
+@Injectable()
+export class EmailVerificationService {
+    private readonly logger = new Logger(EmailVerificationService.name);
+
+    constructor(
+        @InjectModel(User.name) private userModel: Model<UserDocument>,
+        private jwtService: JwtService,
+        private configService: ConfigService,
+        private mailService: MailService,
+    ) { }
+
+
+    async sendVerification(user: UserDocument): Promise<void> {
+        // Only the most recently issued token is accepted, which makes each token single-use
+        const tokenId = uuidv4();
+        await this.userModel.findByIdAndUpdate(user._id, { emailVerificationTokenId: tokenId });
+
+        const token = this.jwtService.sign(
+            {
+                sub: user._id.toString(),
+                email: user.email,
+                purpose: EMAIL_VERIFICATION_PURPOSE,
+            },
+            {
+                secret: this.configService.get<string>('auth.emailVerificationSecret'),
+                expiresIn: this.configService.get<string>('auth.emailVerificationExpiresIn', '24h') as any,
+                jwtid: tokenId,
+            },
+        );
+
+        const frontendUrl = this.configService.get<string>('frontendUrl');
+        const link = `${frontendUrl}/verify-email?token=${encodeURIComponent(token)}`;
+
+        await this.mailService.sendEmailVerification(user.email, user.name, link);
+    }
+
+
+    async verifyEmail(token: string): Promise<{ message: string }> {
+        let payload: EmailVerificationPayload;
+
+        try {
+            payload = this.jwtService.verify<EmailVerificationPayload>(token, {
+                secret: this.configService.get<string>('auth.emailVerificationSecret'),
+            });
+        } catch (error) {
+            throw new BadRequestException('Invalid or expired verification token');
+        }
+
+        if (payload.purpose !== EMAIL_VERIFICATION_PURPOSE) {
+            throw new BadRequestException('Invalid or expired verification token');
+        }
+
+        const user = await this.userModel.findById(payload.sub).select('+emailVerificationTokenId');
+
+        if (
+            !user ||
+            user.email !== payload.email ||
+            !user.emailVerificationTokenId ||
+            user.emailVerificationTokenId !== payload.jti
+        ) {
+            throw new BadRequestException('Invalid or expired verification token');
+        }
+
+        user.emailVerified = true;
+        user.emailVerifiedAt = new Date();
+        user.emailVerificationTokenId = undefined;
+        await user.save();
+
+        this.logger.log(`Email verified for user ${user._id}`);
+
+        return { message: 'Email verified successfully' };
+    }
+
+
+    async resendVerification(email: string): Promise<{ message: string }> {
+        const user = await this.userModel.findOne({ email });
+
+        // Respond identically whether or not the account exists to avoid leaking registered emails
+        if (user && user.isActive && !user.emailVerified) {
+            // A failing transport must not surface either, or the error would reveal the account
+            try {
+                await this.sendVerification(user);
+            } catch (error) {
+                this.logger.error(
+                    `Failed to resend verification email to ${user.email}: ${error.message}`,
+                    error.stack,
+                );
+            }
+        }
+
+        return { message: 'If the account exists and is not yet verified, a verification email has been sent' };
+    }
+}
@@ -0,0 +1,32 @@
+import { Controller, Get, HttpStatus, Res } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { Response } from 'express';
+import { SigningKeysService } from './signing-keys.service';
+import { Public } from '../../common/decorators/public.decorator';
+
+
+@ApiTags('Authentication')
+@Controller('.well-known')
+export class JwksController {
+    constructor(private readonly signingKeysService: SigningKeysService) { }
+
+
+    @Public()
+    @Get('jwks.json')
+    @ApiOperation({
+        summary: 'Access token signing keys',
+        description: 'JSON Web Key Set with the public keys used to sign access tokens, including the next key ' +
+            'ahead of rotation and retired keys whose tokens may still be valid. Served outside the /api/v1 prefix.',
+    })
+    @ApiResponse({
+        status: HttpStatus.OK,
+        description: 'JSON Web Key Set',
+    })
+    async getJwks(@Res() res: Response): Promise<void> {
+        // Sent as-is: verifiers expect a bare JWKS, not the API response envelope
+        res
+            .status(HttpStatus.OK)
+            .set('Cache-Control', 'public, max-age=300')
+            .json(await this.signingKeysService.getJwks());
+    }
+}
@@ -0,0 +1,193 @@
+import {
+    Injectable,
+    HttpException,
+    HttpStatus,
+    Logger,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { ConfigService } from '@nestjs/config';
+import {
+    LoginAttempt,
+    LoginAttemptDocument,
+    LoginAttemptScope,
+} from './schemas/login-attempt.schema';
+import { AuditService } from '../audit/audit.service';
+import * as ms from 'ms';
+
+
+/**
+ * Tracks failed logins per account and per client IP. Once either counter
+ * reaches its limit within the attempt window the key is locked, and every
+ * subsequent lockout doubles in length up to the configured maximum.
+ */
+@Injectable()
+export class LoginAttemptsService {
+    private readonly logger = new Logger(LoginAttemptsService.name);
+    private readonly maxAttempts: Record<LoginAttemptScope, number>;
+    private readonly attemptWindowMs: number;
+    private readonly baseDurationMs: number;
+    private readonly maxDurationMs: number;
+
+    constructor(
+        @InjectModel(LoginAttempt.name) private loginAttemptModel: Model<LoginAttemptDocument>,
+        private configService: ConfigService,
+        private auditService: AuditService,
+    ) {
+        this.maxAttempts = {
+            [LoginAttemptScope.ACCOUNT]: this.configService.get<number>('auth.lockout.maxAccountAttempts', 5),
+            [LoginAttemptScope.IP]: this.configService.get<number>('auth.lockout.maxIpAttempts', 20),
+        };
+        this.attemptWindowMs = this.toMilliseconds(this.configService.get<string>('auth.lockout.attemptWindow', '15m'));
+        this.baseDurationMs = this.toMilliseconds(this.configService.get<string>('auth.lockout.baseDuration', '1m'));
+        this.maxDurationMs = this.toMilliseconds(this.configService.get<string>('auth.lockout.maxDuration', '24h'));
+    }
+
+
+    async assertNotLocked(identifier: string, ip?: string): Promise<void> {
+        const now = new Date();
+        const keys = this.getKeys(identifier, ip);
+
+        const locked = await this.loginAttemptModel.findOne({
+            $or: keys,
+            lockedUntil: { $gt: now },
+        });
+
+        if (locked) {
+            const retryAfter = Math.ceil((locked.lockedUntil.getTime() - now.getTime()) / 1000);
+            throw new HttpException(
+                `Too many failed login attempts. Try again in ${retryAfter} seconds`,
+                HttpStatus.TOO_MANY_REQUESTS,
+            );
+        }
+    }
+
+
+    async recordFailure(identifier: string, ip?: string, userId?: string): Promise<void> {
+        for (const { scope, key } of this.getKeys(identifier, ip)) {
+            await this.incrementFailure(scope, key, ip, userId);
+        }
+    }
+
+
+    /**
+     * Clears the account counter after a successful login. The IP counter is
+     * left to decay so a valid account cannot be used to reset it.
+     */
+    async recordSuccess(identifier: string): Promise<void> {
+        await this.loginAttemptModel.deleteOne({
+            scope: LoginAttemptScope.ACCOUNT,
+            key: identifier.toLowerCase(),
+        });
+    }
+
+
+    async unlockAccount(identifiers: string[], userId: string, actorId: string): Promise<void> {
+        await this.loginAttemptModel.deleteMany({
+            scope: LoginAttemptScope.ACCOUNT,
+            key: { $in: identifiers.map((identifier) => identifier.toLowerCase()) },
+        });
+
+        await this.auditService.record({
+            action: 'auth.account_unlocked',
+            userId,
+            actorId,
+        });
+    }
+
+
+    getLockoutDurationMs(lockoutCount: number): number {
+        return Math.min(this.baseDurationMs * 2 ** lockoutCount, this.maxDurationMs);
+    }
+
+
+    /**
+     * Counts a failure in a single upsert so that parallel attempts cannot
+     * overwrite each other's count, then locks the key if the limit is hit.
+     * Upserts filtering on the unique {scope, key} are retried by MongoDB
+     * itself when two first failures race.
+     */
+    private async incrementFailure(
+        scope: LoginAttemptScope,
+        key: string,
+        ip?: string,
+        userId?: string,
+    ): Promise<void> {
+        const now = new Date();
+        const windowStart = new Date(now.getTime() - this.attemptWindowMs);
+
+        const attempt = await this.loginAttemptModel.findOneAndUpdate(
+            { scope, key },
+            [
+                {
+                    $set: {
+                        // Failures outside the window no longer count towards a lockout
+                        failedCount: {
+                            $add: [
+                                { $cond: [{ $gt: ['$lastFailedAt', windowStart] }, { $ifNull: ['$failedCount', 0] }, 0] },
+                                1,
+                            ],
+                        },
+                        lockoutCount: { $ifNull: ['$lockoutCount', 0] },
+                        lastFailedAt: now,
+                        expiresAt: new Date(now.getTime() + this.maxDurationMs + this.attemptWindowMs),
+                    },
+                },
+            ],
+            { upsert: true, new: true },
+        );
+
+        if (attempt.failedCount < this.maxAttempts[scope]) {
+            return;
+        }
+
+        const durationMs = this.getLockoutDurationMs(attempt.lockoutCount);
+
+        // Only one of several requests reaching the limit together applies the lockout
+        const locked = await this.loginAttemptModel.findOneAndUpdate(
+            {
+                _id: attempt._id,
+                failedCount: { $gte: this.maxAttempts[scope] },
+                lockoutCount: attempt.lockoutCount,
+            },
+            {
+                $set: { lockedUntil: new Date(now.getTime() + durationMs), failedCount: 0 },
+                $inc: { lockoutCount: 1 },
+            },
+            { new: true },
+        );
+
+        if (!locked) {
+            return;
+        }
+
+        this.logger.warn(`Login locked for ${scope} ${key} for ${ms(durationMs)}`);
+
+        await this.auditService.record({
+            action: scope === LoginAttemptScope.ACCOUNT ? 'auth.account_locked' : 'auth.ip_locked',
+            userId: scope === LoginAttemptScope.ACCOUNT ? userId : undefined,
+            ip,
+            details: {
+                key,
+                lockedUntil: locked.lockedUntil,
+                lockoutCount: locked.lockoutCount,
+            },
+        });
+    }
+
+
+    private getKeys(identifier: string, ip?: string): { scope: LoginAttemptScope; key: string }[] {
+        const keys = [{ scope: LoginAttemptScope.ACCOUNT, key: identifier.toLowerCase() }];
+
+        if (ip) {
+            keys.push({ scope: LoginAttemptScope.IP, key: ip });
+        }
+
+        return keys;
+    }
+
+
+    private toMilliseconds(value: string): number {
+        return ms(value as ms.StringValue);
+    }
+}
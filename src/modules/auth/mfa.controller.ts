@@ -0,0 +1,177 @@
+import {
+    Controller,
+    Post,
+    Body,
+    UseGuards,
+    Ip,
+    Headers,
+    HttpCode,
+    HttpStatus,
+} from '@nestjs/common';
+import {
+    ApiTags,
+    ApiOperation,
+    ApiResponse,
+    ApiBearerAuth,
+    ApiBody,
+} from '@nestjs/swagger';
+import { ThrottlerGuard } from '@nestjs/throttler';
+import { AuthService } from './auth.service';
+import { MfaService } from './mfa.service';
+import { MfaCodeDto } from './dto/mfa-code.dto';
+import { MfaVerifyDto } from './dto/mfa-verify.dto';
+import { MfaSetupResponseDto } from './dto/mfa-setup-response.dto';
+import { AuthResponseDto } from './dto/auth-response.dto';
+import { Public } from '../../common/decorators/public.decorator';
+import { AllowWithoutMfa } from '../../common/decorators/allow-without-mfa.decorator';
+import { NotWhileImpersonating } from '../../common/decorators/not-while-impersonating.decorator';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+
+
+@ApiTags('Authentication')
+@Controller('auth/mfa')
+export class MfaController {
+    constructor(
+        private readonly authService: AuthService,
+        private readonly mfaService: MfaService,
+    ) { }
+
+
+    @Public()
+    @UseGuards(ThrottlerGuard)
+    @Post('verify')
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({
+        summary: 'Complete login with a second factor',
+        description: 'Exchange the MFA challenge token from POST /auth/login and a TOTP or recovery code for JWT tokens.',
+    })
+    @ApiBody({ type: MfaVerifyDto })
+    @ApiResponse({
+        status: HttpStatus.OK,
+        description: 'User successfully authenticated',
+        type: AuthResponseDto,
+    })
+    @ApiResponse({
+        status: HttpStatus.UNAUTHORIZED,
+        description: 'Invalid or expired challenge, or invalid code',
+    })
+    @ApiResponse({
+        status: HttpStatus.TOO_MANY_REQUESTS,
+        description: 'Too many attempts',
+    })
+    async verify(
+        @Body() mfaVerifyDto: MfaVerifyDto,
+        @Ip() ip: string,
+        @Headers('user-agent') userAgent?: string,
+    ): Promise<AuthResponseDto> {
+        return this.authService.verifyMfaLogin(mfaVerifyDto.mfaToken, mfaVerifyDto.code, { ip, userAgent });
+    }
+
+
+    @UseGuards(JwtAuthGuard)
+    @AllowWithoutMfa()
+    @NotWhileImpersonating()
+    @Post('setup')
+    @HttpCode(HttpStatus.OK)
+    @ApiBearerAuth()
+    @ApiOperation({
+        summary: 'Start two-factor enrolment',
+        description: 'Generate a TOTP secret and otpauth URI to show as a QR code. MFA is not active until confirmed via POST /auth/mfa/enable.',
+    })
+    @ApiResponse({
+        status: HttpStatus.OK,
+        description: 'TOTP secret generated',
+        type: MfaSetupResponseDto,
+    })
+    @ApiResponse({
+        status: HttpStatus.BAD_REQUEST,
+        description: 'Two-factor authentication is already enabled',
+    })
+    async setup(@CurrentUser('sub') userId: string): Promise<MfaSetupResponseDto> {
+        return this.mfaService.setup(userId);
+    }
+
+
+    @UseGuards(JwtAuthGuard)
+    @AllowWithoutMfa()
+    @NotWhileImpersonating()
+    @Post('enable')
+    @HttpCode(HttpStatus.OK)
+    @ApiBearerAuth()
+    @ApiOperation({
+        summary: 'Confirm two-factor enrolment',
+        description: 'Verify a code from the authenticator app to enable MFA. Returns one-time recovery codes, shown only once.',
+    })
+    @ApiBody({ type: MfaCodeDto })
+    @ApiResponse({
+        status: HttpStatus.OK,
+        description: 'Two-factor authentication enabled',
+    })
+    @ApiResponse({
+        status: HttpStatus.BAD_REQUEST,
+        description: 'Invalid code or enrolment not started',
+    })
+    async enable(
+        @CurrentUser('sub') userId: string,
+        @Body() mfaCodeDto: MfaCodeDto,
+    ): Promise<{ recoveryCodes: string[] }> {
+        return this.mfaService.enable(userId, mfaCodeDto.code);
+    }
+
+
+    @UseGuards(JwtAuthGuard)
+    @NotWhileImpersonating()
+    @Post('disable')
+    @HttpCode(HttpStatus.OK)
+    @ApiBearerAuth()
+    @ApiOperation({
+        summary: 'Disable two-factor authentication',
+        description: 'Turn off MFA after confirming a TOTP or recovery code. Not allowed for roles where MFA is mandatory.',
+    })
+    @ApiBody({ type: MfaCodeDto })
+    @ApiResponse({
+        status: HttpStatus.OK,
+        description: 'Two-factor authentication disabled',
+    })
+    @ApiResponse({
+        status: HttpStatus.BAD_REQUEST,
+        description: 'Invalid code or MFA not enabled',
+    })
+    @ApiResponse({
+        status: HttpStatus.FORBIDDEN,
+        description: 'MFA is mandatory for the user role',
+    })
+    async disable(
+        @CurrentUser('sub') userId: string,
+        @Body() mfaCodeDto: MfaCodeDto,
+    ): Promise<{ message: string }> {
+        return this.mfaService.disable(userId, mfaCodeDto.code);
+    }
+
+
+    @UseGuards(JwtAuthGuard)
+    @NotWhileImpersonating()
+    @Post('recovery-codes')
+    @HttpCode(HttpStatus.OK)
+    @ApiBearerAuth()
+    @ApiOperation({
+        summary: 'Regenerate recovery codes',
+        description: 'Replace all recovery codes after confirming a TOTP code. Previous codes stop working.',
+    })
+    @ApiBody({ type: MfaCodeDto })
+    @ApiResponse({
+        status: HttpStatus.OK,
+        description: 'New recovery codes generated',
+    })
+    @ApiResponse({
+        status: HttpStatus.BAD_REQUEST,
+        description: 'Invalid code or MFA not enabled',
+    })
+    async regenerateRecoveryCodes(
+        @CurrentUser('sub') userId: string,
+        @Body() mfaCodeDto: MfaCodeDto,
+    ): Promise<{ recoveryCodes: string[] }> {
+        return this.mfaService.regenerateRecoveryCodes(userId, mfaCodeDto.code);
+    }
+}
@@ -0,0 +1,211 @@
+import {
+    Injectable,
+    BadRequestException,
+    ForbiddenException,
+    NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { ConfigService } from '@nestjs/config';
+import { createHash, randomBytes } from 'crypto';
+import { User, UserDocument } from '../users/schemas/user.schema';
+import { UserRole } from '../../common/enums/user-role.enum';
+import { AuditService } from '../audit/audit.service';
+import { TotpService } from './totp.service';
+import { MfaSetupResponseDto } from './dto/mfa-setup-response.dto';
+
+
+const RECOVERY_CODE_COUNT = 10;
+const MFA_SELECT = '+mfaSecret +mfaRecoveryCodes +mfaLastUsedStep';
+
+
+@Injectable()
+export class MfaService {
+    private readonly issuer: string;
+    private readonly requiredRoles: string[];
+
+    constructor(
+        @InjectModel(User.name) private userModel: Model<UserDocument>,
+        private configService: ConfigService,
+        private totpService: TotpService,
+        private auditService: AuditService,
+    ) {
+        this.issuer = this.configService.get<string>('auth.mfa.issuer', 'Angular Leaf');
+        this.requiredRoles = this.configService.get<string[]>('auth.mfa.requiredRoles', []);
+    }
+
+
+    isRequiredFor(roles: UserRole[]): boolean {
+        return roles.some((role) => this.requiredRoles.includes(role));
+    }
+
+
+    async setup(userId: string): Promise<MfaSetupResponseDto> {
+        const user = await this.findUser(userId);
+
+        if (user.mfaEnabled) {
+            throw new BadRequestException('Two-factor authentication is already enabled');
+        }
+
+        const secret = this.totpService.generateSecret();
+        await this.userModel.findByIdAndUpdate(user._id, { mfaPendingSecret: secret });
+
+        return {
+            secret,
+            otpauthUri: this.totpService.buildOtpauthUri(secret, user.email ?? user.phone, this.issuer),
+        };
+    }
+
+
+    async enable(userId: string, code: string): Promise<{ recoveryCodes: string[] }> {
+        const user = await this.findUser(userId, '+mfaPendingSecret');
+
+        if (user.mfaEnabled) {
+            throw new BadRequestException('Two-factor authentication is already enabled');
+        }
+
+        if (!user.mfaPendingSecret) {
+            throw new BadRequestException('Start two-factor setup before enabling it');
+        }
+
+        const step = this.totpService.verify(user.mfaPendingSecret, code);
+
+        if (step === null) {
+            throw new BadRequestException('Invalid verification code');
+        }
+
+        const recoveryCodes = this.generateRecoveryCodes();
+
+        user.mfaEnabled = true;
+        user.mfaSecret = user.mfaPendingSecret;
+        user.mfaPendingSecret = undefined;
+        user.mfaLastUsedStep = step;
+        user.mfaRecoveryCodes = recoveryCodes.map((recoveryCode) => this.hashRecoveryCode(recoveryCode));
+        await user.save();
+
+        await this.auditService.record({ action: 'auth.mfa_enabled', userId });
+
+        return { recoveryCodes };
+    }
+
+
+    async disable(userId: string, code: string): Promise<{ message: string }> {
+        const user = await this.findUser(userId, MFA_SELECT);
+
+        if (!user.mfaEnabled) {
+            throw new BadRequestException('Two-factor authentication is not enabled');
+        }
+
+        if (this.isRequiredFor(user.roles)) {
+            throw new ForbiddenException('Two-factor authentication is mandatory for your role');
+        }
+
+        if (!(await this.verifyCode(user, code))) {
+            throw new BadRequestException('Invalid verification code');
+        }
+
+        user.mfaEnabled = false;
+        user.mfaSecret = undefined;
+        user.mfaRecoveryCodes = undefined;
+        user.mfaLastUsedStep = undefined;
+        await user.save();
+
+        await this.auditService.record({ action: 'auth.mfa_disabled', userId });
+
+        return { message: 'Two-factor authentication disabled' };
+    }
+
+
+    async regenerateRecoveryCodes(userId: string, code: string): Promise<{ recoveryCodes: string[] }> {
+        const user = await this.findUser(userId, MFA_SELECT);
+
+        if (!user.mfaEnabled) {
+            throw new BadRequestException('Two-factor authentication is not enabled');
+        }
+
+        if (!(await this.verifyCode(user, code, { allowRecoveryCode: false }))) {
+            throw new BadRequestException('Invalid verification code');
+        }
+
+        const recoveryCodes = this.generateRecoveryCodes();
+        user.mfaRecoveryCodes = recoveryCodes.map((recoveryCode) => this.hashRecoveryCode(recoveryCode));
+        await user.save();
+
+        await this.auditService.record({ action: 'auth.mfa_recovery_codes_regenerated', userId });
+
+        return { recoveryCodes };
+    }
+
+
+    /**
+     * Check a TOTP code or, failing that, a one-time recovery code. The user
+     * document must be loaded with the MFA fields selected; matched codes are
+     * consumed and persisted.
+     */
+    async verifyCode(
+        user: UserDocument,
+        code: string,
+        options: { allowRecoveryCode?: boolean } = {},
+    ): Promise<boolean> {
+        const { allowRecoveryCode = true } = options;
+        const normalized = code.trim();
+
+        const step = this.totpService.verify(user.mfaSecret, normalized, {
+            lastUsedStep: user.mfaLastUsedStep,
+        });
+
+        if (step !== null) {
+            user.mfaLastUsedStep = step;
+            await user.save();
+            return true;
+        }
+
+        if (!allowRecoveryCode) {
+            return false;
+        }
+
+        const hashed = this.hashRecoveryCode(normalized);
+        const remaining = user.mfaRecoveryCodes ?? [];
+
+        if (!remaining.includes(hashed)) {
+            return false;
+        }
+
+        user.mfaRecoveryCodes = remaining.filter((recoveryCode) => recoveryCode !== hashed);
+        await user.save();
+
+        await this.auditService.record({
+            action: 'auth.mfa_recovery_code_used',
+            userId: user._id.toString(),
+            details: { remaining: user.mfaRecoveryCodes.length },
+        });
+
+        return true;
+    }
+
+
+    private async findUser(userId: string, select?: string): Promise<UserDocument> {
+        const query = this.userModel.findById(userId);
+        const user = await (select ? query.select(select) : query);
+
+        if (!user) {
+            throw new NotFoundException('User not found');
+        }
+
+        return user;
+    }
+
+
+    private generateRecoveryCodes(): string[] {
+        return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+            const raw = randomBytes(5).toString('hex');
+            return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+        });
+    }
+
+
+    private hashRecoveryCode(code: string): string {
+        const normalized = code.toLowerCase().replace(/[^a-f0-9]/g, '');
+        return createHash('sha256').update(normalized).digest('hex');
+    }
+}
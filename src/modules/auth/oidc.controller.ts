@@ -0,0 +1,106 @@
+import {
+    Controller,
+    Get,
+    Post,
+    Body,
+    UseGuards,
+    Ip,
+    Headers,
+    HttpCode,
+    HttpStatus,
+} from '@nestjs/common';
+import {
+    ApiTags,
+    ApiOperation,
+    ApiResponse,
+    ApiBody,
+    ApiExtraModels,
+    getSchemaPath,
+} from '@nestjs/swagger';
+import { ThrottlerGuard } from '@nestjs/throttler';
+import { AuthService } from './auth.service';
+import { OidcService } from './oidc.service';
+import { OidcCallbackDto } from './dto/oidc-callback.dto';
+import { OidcAuthorizationResponseDto } from './dto/oidc-authorization-response.dto';
+import { AuthResponseDto } from './dto/auth-response.dto';
+import { MfaChallengeResponseDto } from './dto/mfa-challenge-response.dto';
+import { Public } from '../../common/decorators/public.decorator';
+
+
+@ApiTags('Authentication')
+@ApiExtraModels(AuthResponseDto, MfaChallengeResponseDto)
+@Controller('auth/oidc')
+export class OidcController {
+    constructor(
+        private readonly authService: AuthService,
+        private readonly oidcService: OidcService,
+    ) { }
+
+
+    @Public()
+    @UseGuards(ThrottlerGuard)
+    @Get('authorize')
+    @ApiOperation({
+        summary: 'Start single sign-on',
+        description: 'Create a PKCE-protected sign-on attempt and return the identity provider URL to redirect the browser to. ' +
+            'The provider returns the user to the configured redirect URI with a code and state for POST /auth/oidc/callback.',
+    })
+    @ApiResponse({
+        status: HttpStatus.OK,
+        description: 'Sign-on attempt created',
+        type: OidcAuthorizationResponseDto,
+    })
+    @ApiResponse({
+        status: HttpStatus.NOT_FOUND,
+        description: 'Single sign-on is not configured',
+    })
+    @ApiResponse({
+        status: HttpStatus.SERVICE_UNAVAILABLE,
+        description: 'Identity provider discovery failed',
+    })
+    async authorize(): Promise<OidcAuthorizationResponseDto> {
+        return this.oidcService.createAuthorizationRequest();
+    }
+
+
+    @Public()
+    @UseGuards(ThrottlerGuard)
+    @Post('callback')
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({
+        summary: 'Complete single sign-on',
+        description: 'Exchange the authorization code for our own JWT tokens. Users are matched by their provider identity, ' +
+            'then linked or provisioned by verified email address. Roles follow the configured claim mapping. ' +
+            'If two-factor authentication is enabled, an MFA challenge is returned instead.',
+    })
+    @ApiBody({ type: OidcCallbackDto })
+    @ApiResponse({
+        status: HttpStatus.OK,
+        description: 'User successfully authenticated, or MFA challenge issued',
+        schema: {
+            oneOf: [
+                { $ref: getSchemaPath(AuthResponseDto) },
+                { $ref: getSchemaPath(MfaChallengeResponseDto) },
+            ],
+        },
+    })
+    @ApiResponse({
+        status: HttpStatus.BAD_REQUEST,
+        description: 'Invalid or expired sign-on state',
+    })
+    @ApiResponse({
+        status: HttpStatus.UNAUTHORIZED,
+        description: 'Code exchange or ID token validation failed, or account deactivated',
+    })
+    @ApiResponse({
+        status: HttpStatus.NOT_FOUND,
+        description: 'Single sign-on is not configured, or no account exists and provisioning is disabled',
+    })
+    async callback(
+        @Body() oidcCallbackDto: OidcCallbackDto,
+        @Ip() ip: string,
+        @Headers('user-agent') userAgent?: string,
+    ): Promise<AuthResponseDto | MfaChallengeResponseDto> {
+        return this.authService.oidcLogin(oidcCallbackDto.code, oidcCallbackDto.state, { ip, userAgent });
+    }
+}
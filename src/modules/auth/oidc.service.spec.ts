@@ -0,0 +1,198 @@
+import { ConfigService } from '@nestjs/config';
+import { HttpService } from '@nestjs/axios';
+import { JwtService } from '@nestjs/jwt';
+import { BadRequestException, UnauthorizedException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import axios from 'axios';
+import { OidcService } from './oidc.service';
+import { UserRole } from '../../common/enums/user-role.enum';
+import { startMockOidcIssuer, MockOidcIssuer } from '../../../test/mock-oidc-issuer';
+
+/**
+ * In-memory stand-in for a Mongoose model: supports `new Model(data).save()`
+ * and equality-only `findOne`/`findOneAndDelete`/`create`.
+ */
+function createFakeModel(records: any[]): any {
+  const matches = (record: any, query: any) =>
+    Object.entries(query).every(([key, value]) =>
+      value && typeof value === 'object' && '$gt' in value ? record[key] > value.$gt : record[key] === value,
+    );
+
+  function FakeModel(this: any, data: any) {
+    Object.assign(this, { _id: new Types.ObjectId(), tokenVersion: 0 }, data);
+    this.save = jest.fn(async () => {
+      if (!records.includes(this)) {
+        records.push(this);
+      }
+      return this;
+    });
+  }
+
+  FakeModel.findOne = jest.fn(async (query: any) => records.find((record) => matches(record, query)) ?? null);
+  FakeModel.findOneAndDelete = jest.fn(async (query: any) => {
+    const index = records.findIndex((record) => matches(record, query));
+    return index === -1 ? null : records.splice(index, 1)[0];
+  });
+  FakeModel.create = jest.fn(async (data: any) => new (FakeModel as any)(data).save());
+
+  return FakeModel;
+}
+
+describe('OidcService', () => {
+  let issuer: MockOidcIssuer;
+  let service: OidcService;
+  let users: any[];
+  let auditService: { record: jest.Mock };
+
+  beforeAll(async () => {
+    issuer = await startMockOidcIssuer();
+  });
+
+  afterAll(async () => {
+    await issuer.close();
+  });
+
+  beforeEach(() => {
+    users = [];
+    auditService = { record: jest.fn() };
+
+    const configService = new ConfigService({
+      auth: {
+        oidc: {
+          enabled: true,
+          issuer: issuer.issuer,
+          clientId: issuer.clientId,
+          redirectUri: 'http://localhost:4200/auth/oidc/callback',
+          scopes: 'openid email profile',
+          stateExpiresIn: '10m',
+          roleClaim: 'roles',
+          roleMapping: { 'leaf-admins': 'admin', 'leaf-managers': 'manager' },
+          defaultRole: 'farmer',
+          allowProvisioning: true,
+        },
+      },
+    });
+
+    service = new OidcService(
+      createFakeModel(users),
+      createFakeModel([]),
+      // The application secret must not be used to verify provider tokens
+      new JwtService({ secret: 'application-secret' }),
+      configService,
+      new HttpService(axios.create()),
+      auditService as any,
+    );
+  });
+
+  /**
+   * Follow the authorization URL like a browser would and return the values
+   * the provider sends back to the redirect URI
+   */
+  async function signInAtProvider(loginHint?: string): Promise<{ code: string; state: string }> {
+    const { authorizationUrl } = await service.createAuthorizationRequest();
+    const url = new URL(authorizationUrl);
+
+    if (loginHint) {
+      url.searchParams.set('login_hint', loginHint);
+    }
+
+    const response = await axios.get(url.toString(), { maxRedirects: 0, validateStatus: (status) => status === 302 });
+    const redirect = new URL(response.headers.location);
+
+    return { code: redirect.searchParams.get('code'), state: redirect.searchParams.get('state') };
+  }
+
+  it('should request the code flow with a PKCE S256 challenge', async () => {
+    const { authorizationUrl, state } = await service.createAuthorizationRequest();
+    const params = new URL(authorizationUrl).searchParams;
+
+    expect(params.get('response_type')).toBe('code');
+    expect(params.get('client_id')).toBe(issuer.clientId);
+    expect(params.get('state')).toBe(state);
+    expect(params.get('code_challenge_method')).toBe('S256');
+    expect(params.get('code_challenge')).toBeTruthy();
+    expect(params.get('nonce')).toBeTruthy();
+  });
+
+  it('should provision a new user with mapped roles and a verified email', async () => {
+    const { code, state } = await signInAtProvider();
+
+    const user = await service.authenticate(code, state);
+
+    expect(user.email).toBe('sso.user@example.com');
+    expect(user.roles).toEqual([UserRole.MANAGER]);
+    expect(user.emailVerified).toBe(true);
+    expect(user.oidcIssuer).toBe(issuer.issuer);
+    expect(user.oidcSubject).toBe('mock-user-1');
+    expect(auditService.record).toHaveBeenCalledWith(expect.objectContaining({ action: 'auth.oidc_provisioned' }));
+  });
+
+  it('should link an existing account with the same email', async () => {
+    users.push({
+      _id: new Types.ObjectId(),
+      email: 'existing@example.com',
+      roles: [UserRole.FARMER],
+      isActive: true,
+      emailVerified: false,
+      tokenVersion: 0,
+      save: jest.fn(),
+    });
+
+    const { code, state } = await signInAtProvider('existing@example.com');
+
+    const user = await service.authenticate(code, state);
+
+    expect(user).toBe(users[0]);
+    expect(user.oidcSubject).toBe('mock-existing@example.com');
+    expect(user.roles).toEqual([UserRole.MANAGER]);
+    expect(user.tokenVersion).toBe(1);
+    expect(user.emailVerified).toBe(true);
+  });
+
+  it('should not link an existing account when the provider does not vouch for the email', async () => {
+    const admin = {
+      _id: new Types.ObjectId(),
+      email: 'admin@example.com',
+      roles: [UserRole.ADMIN],
+      isActive: true,
+      tokenVersion: 0,
+      save: jest.fn(),
+    };
+    users.push(admin);
+    const { email_verified, ...profile } = issuer.profile;
+    issuer.profile = profile;
+
+    try {
+      const { code, state } = await signInAtProvider('admin@example.com');
+
+      await expect(service.authenticate(code, state)).rejects.toThrow(UnauthorizedException);
+      expect(admin).not.toHaveProperty('oidcSubject');
+      expect(admin.save).not.toHaveBeenCalled();
+    } finally {
+      issuer.profile = { ...profile, email_verified };
+    }
+  });
+
+  it('should ignore keys in the provider JWKS that cannot verify ID tokens', async () => {
+    issuer.additionalKeys = [
+      { kty: 'oct', kid: 'shared-secret', k: 'c2VjcmV0' },
+      { kty: 'RSA', kid: 'hs-key', alg: 'HS256', n: 'AQAB', e: 'AQAB' },
+      { kty: 'EC', kid: 'broken', alg: 'ES256', crv: 'P-256', x: 'AA', y: 'AA' },
+    ];
+
+    try {
+      const { code, state } = await signInAtProvider();
+
+      await expect(service.authenticate(code, state)).resolves.toEqual(expect.objectContaining({ oidcSubject: 'mock-user-1' }));
+    } finally {
+      issuer.additionalKeys = [];
+    }
+  });
+
+  it('should reject a state that has already been used', async () => {
+    const { code, state } = await signInAtProvider();
+    await service.authenticate(code, state);
+
+    await expect(service.authenticate(code, state)).rejects.toThrow(BadRequestException);
+  });
+});
@@ -0,0 +1,417 @@
+import {
+    Injectable,
+    BadRequestException,
+    NotFoundException,
+    UnauthorizedException,
+    ServiceUnavailableException,
+    Logger,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { JwtService } from '@nestjs/jwt';
+import { ConfigService } from '@nestjs/config';
+import { HttpService } from '@nestjs/axios';
+import { firstValueFrom } from 'rxjs';
+import { createHash, createPublicKey, randomBytes, JsonWebKey } from 'crypto';
+import { User, UserDocument } from '../users/schemas/user.schema';
+import { OidcLoginState, OidcLoginStateDocument } from './schemas/oidc-login-state.schema';
+import { OidcAuthorizationResponseDto } from './dto/oidc-authorization-response.dto';
+import { AuditService } from '../audit/audit.service';
+import { UserRole } from '../../common/enums/user-role.enum';
+import * as ms from 'ms';
+
+
+const SUPPORTED_ALGORITHMS = ['RS256', 'RS384', 'RS512', 'ES256', 'ES384', 'ES512', 'PS256'] as const;
+
+interface OidcDiscoveryDocument {
+    issuer: string;
+    authorization_endpoint: string;
+    token_endpoint: string;
+    jwks_uri: string;
+    userinfo_endpoint?: string;
+}
+
+interface OidcTokenResponse {
+    id_token: string;
+    access_token?: string;
+}
+
+export interface OidcClaims {
+    sub: string;
+    email?: string;
+    email_verified?: boolean;
+    name?: string;
+    nonce?: string;
+    [claim: string]: unknown;
+}
+
+
+/**
+ * Single sign-on against a generic OpenID Connect provider using the
+ * authorization code flow with PKCE. Users are matched by their provider
+ * subject first, then linked or provisioned by email address.
+ */
+@Injectable()
+export class OidcService {
+    private readonly logger = new Logger(OidcService.name);
+    private discovery: Promise<OidcDiscoveryDocument> | null = null;
+    private readonly signingKeys = new Map<string, string>();
+
+    constructor(
+        @InjectModel(User.name) private userModel: Model<UserDocument>,
+        @InjectModel(OidcLoginState.name) private loginStateModel: Model<OidcLoginStateDocument>,
+        private jwtService: JwtService,
+        private configService: ConfigService,
+        private httpService: HttpService,
+        private auditService: AuditService,
+    ) { }
+
+
+    async createAuthorizationRequest(): Promise<OidcAuthorizationResponseDto> {
+        this.assertEnabled();
+
+        const discovery = await this.getDiscovery();
+        const expiresIn = this.configService.get<string>('auth.oidc.stateExpiresIn', '10m');
+        const expiresInMs = ms(expiresIn as ms.StringValue);
+
+        const state = this.randomToken();
+        const nonce = this.randomToken();
+        const codeVerifier = this.randomToken();
+
+        await this.loginStateModel.create({
+            state,
+            nonce,
+            codeVerifier,
+            expiresAt: new Date(Date.now() + expiresInMs),
+        });
+
+        const url = new URL(discovery.authorization_endpoint);
+        url.searchParams.set('response_type', 'code');
+        url.searchParams.set('client_id', this.configService.get<string>('auth.oidc.clientId'));
+        url.searchParams.set('redirect_uri', this.configService.get<string>('auth.oidc.redirectUri'));
+        url.searchParams.set('scope', this.configService.get<string>('auth.oidc.scopes'));
+        url.searchParams.set('state', state);
+        url.searchParams.set('nonce', nonce);
+        url.searchParams.set('code_challenge', createHash('sha256').update(codeVerifier).digest('base64url'));
+        url.searchParams.set('code_challenge_method', 'S256');
+
+        return {
+            authorizationUrl: url.toString(),
+            state,
+            expiresIn: Math.floor(expiresInMs / 1000),
+        };
+    }
+
+
+    /**
+     * Redeem the authorization code returned to the redirect URI and resolve
+     * the local user it belongs to, linking or provisioning as configured.
+     */
+    async authenticate(code: string, state: string): Promise<UserDocument> {
+        this.assertEnabled();
+
+        const loginState = await this.loginStateModel.findOneAndDelete({
+            state,
+            expiresAt: { $gt: new Date() },
+        });
+
+        if (!loginState) {
+            throw new BadRequestException('Invalid or expired sign-on state');
+        }
+
+        const tokens = await this.exchangeCode(code, loginState.codeVerifier);
+        const claims = await this.verifyIdToken(tokens.id_token, loginState.nonce);
+
+        if (!claims.email && tokens.access_token) {
+            Object.assign(claims, await this.fetchUserInfo(tokens.access_token, claims.sub));
+        }
+
+        return this.resolveUser(claims);
+    }
+
+
+    async verifyIdToken(idToken: string, nonce: string): Promise<OidcClaims> {
+        const discovery = await this.getDiscovery();
+        const decoded = this.jwtService.decode(idToken, { complete: true }) as { header: { kid?: string } } | null;
+
+        if (!decoded) {
+            throw new UnauthorizedException('Invalid ID token');
+        }
+
+        let claims: OidcClaims;
+
+        try {
+            claims = this.jwtService.verify<OidcClaims>(idToken, {
+                secret: await this.getSigningKey(decoded.header.kid),
+                algorithms: [...SUPPORTED_ALGORITHMS],
+                issuer: discovery.issuer,
+                audience: this.configService.get<string>('auth.oidc.clientId'),
+            });
+        } catch (error) {
+            this.logger.warn(`Rejected ID token: ${error.message}`);
+            throw new UnauthorizedException('Invalid ID token');
+        }
+
+        if (claims.nonce !== nonce) {
+            throw new UnauthorizedException('Invalid ID token');
+        }
+
+        return claims;
+    }
+
+
+    private async resolveUser(claims: OidcClaims): Promise<UserDocument> {
+        const issuer = this.configService.get<string>('auth.oidc.issuer');
+        const mappedRoles = this.mapRoles(claims);
+        const email = claims.email?.toLowerCase();
+
+        let user = await this.userModel.findOne({ oidcIssuer: issuer, oidcSubject: claims.sub });
+
+        if (!user) {
+            // Linking by email is only safe when the provider vouches for the address;
+            // providers that leave the claim out do not
+            if (!email || claims.email_verified !== true) {
+                throw new UnauthorizedException('Identity provider did not supply a verified email address');
+            }
+
+            user = await this.userModel.findOne({ email });
+
+            if (user) {
+                if (user.oidcSubject) {
+                    throw new UnauthorizedException('Account is linked to a different identity');
+                }
+
+                user.oidcIssuer = issuer;
+                user.oidcSubject = claims.sub;
+
+                await this.auditService.record({
+                    action: 'auth.oidc_linked',
+                    userId: user._id.toString(),
+                    details: { issuer },
+                });
+            } else {
+                if (!this.configService.get<boolean>('auth.oidc.allowProvisioning')) {
+                    throw new NotFoundException('No account exists for this email address');
+                }
+
+                const defaultRole = this.configService.get<UserRole>('auth.oidc.defaultRole', UserRole.FARMER);
+
+                user = new this.userModel({
+                    name: claims.name || email,
+                    email,
+                    roles: mappedRoles.length ? mappedRoles : [defaultRole],
+                    isActive: true,
+                    emailVerified: true,
+                    emailVerifiedAt: new Date(),
+                    oidcIssuer: issuer,
+                    oidcSubject: claims.sub,
+                });
+
+                await user.save();
+
+                await this.auditService.record({
+                    action: 'auth.oidc_provisioned',
+                    userId: user._id.toString(),
+                    details: { issuer, roles: user.roles },
+                });
+
+                return user;
+            }
+        }
+
+        if (!user.isActive) {
+            throw new UnauthorizedException('Account is deactivated');
+        }
+
+        // The provider is authoritative for roles whenever its claim maps to any
+        if (mappedRoles.length && !this.sameRoles(user.roles, mappedRoles)) {
+            user.roles = mappedRoles;
+            user.tokenVersion = (user.tokenVersion ?? 0) + 1;
+        }
+
+        if (email && email === user.email && !user.emailVerified) {
+            user.emailVerified = true;
+            user.emailVerifiedAt = new Date();
+        }
+
+        await user.save();
+
+        return user;
+    }
+
+
+    private mapRoles(claims: OidcClaims): UserRole[] {
+        const roleClaim = this.configService.get<string>('auth.oidc.roleClaim', 'roles');
+        const roleMapping = this.configService.get<Record<string, string>>('auth.oidc.roleMapping', {});
+        const value = claims[roleClaim];
+        const claimValues = Array.isArray(value) ? value : typeof value === 'string' ? [value] : [];
+
+        const roles = claimValues
+            .map((claimValue) => roleMapping[String(claimValue)])
+            .filter((role): role is UserRole => Object.values(UserRole).includes(role as UserRole));
+
+        return [...new Set(roles)];
+    }
+
+
+    private sameRoles(current: UserRole[], next: UserRole[]): boolean {
+        return current.length === next.length && next.every((role) => current.includes(role));
+    }
+
+
+    private async exchangeCode(code: string, codeVerifier: string): Promise<OidcTokenResponse> {
+        const discovery = await this.getDiscovery();
+        const clientSecret = this.configService.get<string>('auth.oidc.clientSecret');
+
+        const body = new URLSearchParams({
+            grant_type: 'authorization_code',
+            code,
+            redirect_uri: this.configService.get<string>('auth.oidc.redirectUri'),
+            client_id: this.configService.get<string>('auth.oidc.clientId'),
+            code_verifier: codeVerifier,
+        });
+
+        if (clientSecret) {
+            body.set('client_secret', clientSecret);
+        }
+
+        try {
+            const { data } = await firstValueFrom(
+                this.httpService.post<OidcTokenResponse>(discovery.token_endpoint, body.toString(), {
+                    headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+                }),
+            );
+
+            if (!data?.id_token) {
+                throw new Error('Token response did not include an ID token');
+            }
+
+            return data;
+        } catch (error) {
+            this.logger.warn(`Authorization code exchange failed: ${error.response?.data?.error ?? error.message}`);
+            throw new UnauthorizedException('Single sign-on failed');
+        }
+    }
+
+
+    private async fetchUserInfo(accessToken: string, subject: string): Promise<Partial<OidcClaims>> {
+        const discovery = await this.getDiscovery();
+
+        if (!discovery.userinfo_endpoint) {
+            return {};
+        }
+
+        try {
+            const { data } = await firstValueFrom(
+                this.httpService.get<OidcClaims>(discovery.userinfo_endpoint, {
+                    headers: { Authorization: `Bearer ${accessToken}` },
+                }),
+            );
+
+            // Userinfo must describe the same subject as the ID token
+            if (data?.sub !== subject) {
+                return {};
+            }
+
+            return { email: data.email, email_verified: data.email_verified, name: data.name };
+        } catch (error) {
+            this.logger.warn(`Userinfo request failed: ${error.message}`);
+            return {};
+        }
+    }
+
+
+    private async getSigningKey(kid?: string): Promise<string> {
+        const cacheKey = kid ?? '';
+
+        if (!this.signingKeys.has(cacheKey)) {
+            await this.loadSigningKeys();
+        }
+
+        const key = this.signingKeys.get(cacheKey);
+
+        if (!key) {
+            throw new UnauthorizedException('Unknown ID token signing key');
+        }
+
+        return key;
+    }
+
+
+    /**
+     * Reload the provider's JWKS. Called when a token names an unknown key so
+     * that rotations on the provider side are picked up without a restart.
+     */
+    private async loadSigningKeys(): Promise<void> {
+        const discovery = await this.getDiscovery();
+        const { data } = await firstValueFrom(
+            this.httpService.get<{ keys: (JsonWebKey & { kid?: string; use?: string; alg?: string })[] }>(discovery.jwks_uri),
+        );
+
+        this.signingKeys.clear();
+
+        for (const jwk of data.keys ?? []) {
+            if ((jwk.use && jwk.use !== 'sig') || !this.isSupportedKey(jwk)) {
+                continue;
+            }
+
+            // One malformed key must not take every SSO login down with it
+            try {
+                const pem = createPublicKey({ key: jwk, format: 'jwk' }).export({ type: 'spki', format: 'pem' }).toString();
+                this.signingKeys.set(jwk.kid ?? '', pem);
+            } catch (error) {
+                this.logger.warn(`Skipping unusable ID token signing key ${jwk.kid ?? '(no kid)'}: ${error.message}`);
+            }
+        }
+    }
+
+
+    /**
+     * Only RSA and EC keys can verify the algorithms accepted for ID tokens
+     */
+    private isSupportedKey(jwk: JsonWebKey & { alg?: string }): boolean {
+        if (jwk.kty !== 'RSA' && jwk.kty !== 'EC') {
+            return false;
+        }
+
+        return !jwk.alg || (SUPPORTED_ALGORITHMS as readonly string[]).includes(jwk.alg);
+    }
+
+
+    private getDiscovery(): Promise<OidcDiscoveryDocument> {
+        if (!this.discovery) {
+            const issuer = this.configService.get<string>('auth.oidc.issuer').replace(/\/$/, '');
+
+            this.discovery = firstValueFrom(
+                this.httpService.get<OidcDiscoveryDocument>(`${issuer}/.well-known/openid-configuration`),
+            )
+                .then(({ data }) => {
+                    if (data?.issuer?.replace(/\/$/, '') !== issuer) {
+                        throw new Error(`Discovery document names issuer ${data?.issuer}`);
+                    }
+
+                    return data;
+                })
+                .catch((error) => {
+                    // Do not cache failures; the provider may simply be starting up
+                    this.discovery = null;
+                    this.logger.error(`OIDC discovery failed for ${issuer}: ${error.message}`);
+                    throw new ServiceUnavailableException('Single sign-on is currently unavailable');
+                });
+        }
+
+        return this.discovery;
+    }
+
+
+    private assertEnabled(): void {
+        if (!this.configService.get<boolean>('auth.oidc.enabled')) {
+            throw new NotFoundException('Single sign-on is not configured');
+        }
+    }
+
+
+    private randomToken(): string {
+        return randomBytes(32).toString('base64url');
+    }
+}
@@ -0,0 +1,97 @@
+import {
+    Controller,
+    Post,
+    Body,
+    UseGuards,
+    Ip,
+    Headers,
+    HttpCode,
+    HttpStatus,
+} from '@nestjs/common';
+import {
+    ApiTags,
+    ApiOperation,
+    ApiResponse,
+    ApiBody,
+    ApiExtraModels,
+    getSchemaPath,
+} from '@nestjs/swagger';
+import { ThrottlerGuard } from '@nestjs/throttler';
+import { AuthService } from './auth.service';
+import { OtpRequestDto } from './dto/otp-request.dto';
+import { OtpVerifyDto } from './dto/otp-verify.dto';
+import { AuthResponseDto } from './dto/auth-response.dto';
+import { MfaChallengeResponseDto } from './dto/mfa-challenge-response.dto';
+import { Public } from '../../common/decorators/public.decorator';
+
+
+@ApiTags('Authentication')
+@ApiExtraModels(AuthResponseDto, MfaChallengeResponseDto)
+@Controller('auth/otp')
+export class OtpController {
+    constructor(private readonly authService: AuthService) { }
+
+
+    @Public()
+    @UseGuards(ThrottlerGuard)
+    @Post('request')
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({
+        summary: 'Request a one-time login code',
+        description: 'Send a one-time code by SMS for passwordless sign-in. ' +
+            'A new code can only be requested after the resend interval, and a limited number of times per window.',
+    })
+    @ApiBody({ type: OtpRequestDto })
+    @ApiResponse({
+        status: HttpStatus.OK,
+        description: 'Code sent',
+    })
+    @ApiResponse({
+        status: HttpStatus.TOO_MANY_REQUESTS,
+        description: 'A code was requested too recently or too often',
+    })
+    async request(@Body() otpRequestDto: OtpRequestDto): Promise<{ message: string }> {
+        return this.authService.requestOtp(otpRequestDto.phone);
+    }
+
+
+    @Public()
+    @UseGuards(ThrottlerGuard)
+    @Post('verify')
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({
+        summary: 'Sign in with a one-time code',
+        description: 'Exchange a one-time code for JWT tokens. The first sign-in for an unknown number creates a farmer account ' +
+            'and requires a name. If two-factor authentication is enabled, an MFA challenge is returned instead.',
+    })
+    @ApiBody({ type: OtpVerifyDto })
+    @ApiResponse({
+        status: HttpStatus.OK,
+        description: 'User successfully authenticated, or MFA challenge issued',
+        schema: {
+            oneOf: [
+                { $ref: getSchemaPath(AuthResponseDto) },
+                { $ref: getSchemaPath(MfaChallengeResponseDto) },
+            ],
+        },
+    })
+    @ApiResponse({
+        status: HttpStatus.BAD_REQUEST,
+        description: 'Invalid or expired code, or name missing for a new account',
+    })
+    @ApiResponse({
+        status: HttpStatus.UNAUTHORIZED,
+        description: 'Invalid code or account deactivated',
+    })
+    @ApiResponse({
+        status: HttpStatus.TOO_MANY_REQUESTS,
+        description: 'Too many attempts, or phone/IP temporarily locked',
+    })
+    async verify(
+        @Body() otpVerifyDto: OtpVerifyDto,
+        @Ip() ip: string,
+        @Headers('user-agent') userAgent?: string,
+    ): Promise<AuthResponseDto | MfaChallengeResponseDto> {
+        return this.authService.verifyOtpLogin(otpVerifyDto, { ip, userAgent });
+    }
+}
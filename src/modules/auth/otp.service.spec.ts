@@ -0,0 +1,99 @@
+import { BadRequestException, HttpException, HttpStatus } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { OtpService } from './otp.service';
+
+describe('OtpService', () => {
+  const phone = '+250788123456';
+
+  let record: any;
+  let smsService: { sendOneTimeCode: jest.Mock };
+  let service: OtpService;
+
+  const lastCode = (): string => smsService.sendOneTimeCode.mock.calls.at(-1)[1];
+  const advance = (milliseconds: number) => jest.setSystemTime(Date.now() + milliseconds);
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2026-03-01T08:00:00Z') });
+
+    record = null;
+    const oneTimeCodeModel: any = function (this: any, values: object) {
+      Object.assign(this, { sendCount: 0, attempts: 0 }, values);
+      this.save = jest.fn(async () => {
+        record = this;
+        return this;
+      });
+    };
+    oneTimeCodeModel.findOne = jest.fn(async () => record);
+    smsService = { sendOneTimeCode: jest.fn() };
+
+    service = new OtpService(
+      oneTimeCodeModel,
+      new ConfigService({
+        auth: { otp: { length: 6, expiresIn: '5m', maxAttempts: 3, resendInterval: '60s', maxSendsPerWindow: 2, sendWindow: '1h' } },
+      }),
+      smsService as any,
+    );
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const expectTooManyRequests = async (promise: Promise<void>) => {
+    const error: HttpException = await promise.then(() => undefined, (e) => e);
+
+    expect(error).toBeInstanceOf(HttpException);
+    expect(error.getStatus()).toBe(HttpStatus.TOO_MANY_REQUESTS);
+  };
+
+  it('should accept the code once', async () => {
+    await service.sendCode(phone);
+    const code = lastCode();
+
+    await expect(service.verifyCode(phone, code)).resolves.toBe(true);
+    await expect(service.verifyCode(phone, code)).rejects.toThrow(BadRequestException);
+  });
+
+  it('should refuse to resend before the resend interval has passed', async () => {
+    await service.sendCode(phone);
+    advance(30 * 1000);
+
+    await expectTooManyRequests(service.sendCode(phone));
+    expect(smsService.sendOneTimeCode).toHaveBeenCalledTimes(1);
+
+    advance(31 * 1000);
+    await expect(service.sendCode(phone)).resolves.toBeUndefined();
+  });
+
+  it('should cap the codes sent per window', async () => {
+    await service.sendCode(phone);
+    advance(61 * 1000);
+    await service.sendCode(phone);
+    advance(61 * 1000);
+
+    await expectTooManyRequests(service.sendCode(phone));
+
+    advance(60 * 60 * 1000);
+    await expect(service.sendCode(phone)).resolves.toBeUndefined();
+  });
+
+  it('should discard the code after the maximum number of wrong guesses', async () => {
+    await service.sendCode(phone);
+    const code = lastCode();
+    const wrong = code === '000000' ? '111111' : '000000';
+
+    await expect(service.verifyCode(phone, wrong)).resolves.toBe(false);
+    await expect(service.verifyCode(phone, wrong)).resolves.toBe(false);
+    await expect(service.verifyCode(phone, wrong)).resolves.toBe(false);
+
+    // The right code no longer works once the attempts are used up
+    await expect(service.verifyCode(phone, code)).rejects.toThrow('Invalid or expired code');
+  });
+
+  it('should refuse expired codes', async () => {
+    await service.sendCode(phone);
+    advance(5 * 60 * 1000 + 1);
+
+    await expect(service.verifyCode(phone, lastCode())).rejects.toThrow(BadRequestException);
+  });
+});
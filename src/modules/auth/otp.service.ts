@@ -0,0 +1,133 @@
+import {
+    Injectable,
+    BadRequestException,
+    HttpException,
+    HttpStatus,
+    Logger,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { ConfigService } from '@nestjs/config';
+import { createHash, randomInt, timingSafeEqual } from 'crypto';
+import { OneTimeCode, OneTimeCodeDocument } from './schemas/one-time-code.schema';
+import { SmsService } from '../sms/sms.service';
+import * as ms from 'ms';
+
+
+/**
+ * Issues and checks numeric one-time codes delivered by SMS. Sending is
+ * limited by a minimum resend interval and a cap per window; each code
+ * accepts a limited number of guesses before it is discarded.
+ */
+@Injectable()
+export class OtpService {
+    private readonly logger = new Logger(OtpService.name);
+    private readonly codeLength: number;
+    private readonly expiresIn: string;
+    private readonly maxAttempts: number;
+    private readonly resendIntervalMs: number;
+    private readonly maxSendsPerWindow: number;
+    private readonly sendWindowMs: number;
+
+    constructor(
+        @InjectModel(OneTimeCode.name) private oneTimeCodeModel: Model<OneTimeCodeDocument>,
+        private configService: ConfigService,
+        private smsService: SmsService,
+    ) {
+        this.codeLength = this.configService.get<number>('auth.otp.length', 6);
+        this.expiresIn = this.configService.get<string>('auth.otp.expiresIn', '5m');
+        this.maxAttempts = this.configService.get<number>('auth.otp.maxAttempts', 5);
+        this.resendIntervalMs = this.toMilliseconds(this.configService.get<string>('auth.otp.resendInterval', '60s'));
+        this.maxSendsPerWindow = this.configService.get<number>('auth.otp.maxSendsPerWindow', 5);
+        this.sendWindowMs = this.toMilliseconds(this.configService.get<string>('auth.otp.sendWindow', '1h'));
+    }
+
+
+    async sendCode(phone: string): Promise<void> {
+        const now = new Date();
+        const record = await this.oneTimeCodeModel.findOne({ phone });
+
+        if (record) {
+            const nextSendAt = record.lastSentAt.getTime() + this.resendIntervalMs;
+
+            if (nextSendAt > now.getTime()) {
+                throw this.tooManyRequests(nextSendAt - now.getTime());
+            }
+
+            if (now.getTime() - record.windowStartedAt.getTime() < this.sendWindowMs) {
+                if (record.sendCount >= this.maxSendsPerWindow) {
+                    throw this.tooManyRequests(record.windowStartedAt.getTime() + this.sendWindowMs - now.getTime());
+                }
+            } else {
+                record.windowStartedAt = now;
+                record.sendCount = 0;
+            }
+        }
+
+        const code = randomInt(0, 10 ** this.codeLength).toString().padStart(this.codeLength, '0');
+        const codeExpiresAt = new Date(now.getTime() + this.toMilliseconds(this.expiresIn));
+        const otp = record ?? new this.oneTimeCodeModel({ phone, windowStartedAt: now });
+
+        otp.codeHash = this.hashCode(phone, code);
+        otp.codeExpiresAt = codeExpiresAt;
+        otp.attempts = 0;
+        otp.sendCount += 1;
+        otp.lastSentAt = now;
+        otp.expiresAt = new Date(Math.max(codeExpiresAt.getTime(), otp.windowStartedAt.getTime() + this.sendWindowMs));
+        await otp.save();
+
+        await this.smsService.sendOneTimeCode(phone, code, this.expiresIn);
+    }
+
+
+    /**
+     * Returns true and consumes the code when it matches. Wrong guesses count
+     * against the code, which is discarded once the attempt limit is reached.
+     */
+    async verifyCode(phone: string, code: string): Promise<boolean> {
+        const otp = await this.oneTimeCodeModel.findOne({ phone });
+
+        if (!otp?.codeHash || otp.codeExpiresAt <= new Date()) {
+            throw new BadRequestException('Invalid or expired code');
+        }
+
+        const expected = Buffer.from(otp.codeHash, 'hex');
+        const actual = Buffer.from(this.hashCode(phone, code), 'hex');
+
+        if (timingSafeEqual(expected, actual)) {
+            otp.codeHash = undefined;
+            otp.codeExpiresAt = undefined;
+            await otp.save();
+            return true;
+        }
+
+        otp.attempts += 1;
+
+        if (otp.attempts >= this.maxAttempts) {
+            this.logger.warn(`One-time code for ${phone} discarded after ${otp.attempts} failed attempts`);
+            otp.codeHash = undefined;
+            otp.codeExpiresAt = undefined;
+        }
+
+        await otp.save();
+        return false;
+    }
+
+
+    private hashCode(phone: string, code: string): string {
+        return createHash('sha256').update(`${phone}:${code}`).digest('hex');
+    }
+
+
+    private tooManyRequests(retryAfterMs: number): HttpException {
+        return new HttpException(
+            `Too many code requests. Try again in ${Math.ceil(retryAfterMs / 1000)} seconds`,
+            HttpStatus.TOO_MANY_REQUESTS,
+        );
+    }
+
+
+    private toMilliseconds(value: string): number {
+        return ms(value as ms.StringValue);
+    }
+}
@@ -0,0 +1,92 @@
+import {
+    Injectable,
+    BadRequestException,
+    Logger,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { ConfigService } from '@nestjs/config';
+import { createHash, randomBytes } from 'crypto';
+import { User, UserDocument } from '../users/schemas/user.schema';
+import { MailService } from '../mail/mail.service';
+import { SessionsService } from './sessions.service';
+import { PasswordPolicyService } from '../password-policy/password-policy.service';
+import * as ms from 'ms';
+
+
+@Injectable()
+export class PasswordResetService {
+    private readonly logger = new Logger(PasswordResetService.name);
+    private readonly resetExpiresIn: string;
+
+    constructor(
+        @InjectModel(User.name) private userModel: Model<UserDocument>,
+        private configService: ConfigService,
+        private mailService: MailService,
+        private sessionsService: SessionsService,
+        private passwordPolicyService: PasswordPolicyService,
+    ) {
+        this.resetExpiresIn = this.configService.get<string>('auth.passwordResetExpiresIn', '1h');
+    }
+
+
+    async forgotPassword(email: string): Promise<{ message: string }> {
+        const user = await this.userModel.findOne({ email });
+
+        // Same response for unknown, inactive and valid accounts so emails cannot be enumerated
+        if (user && user.isActive) {
+            const token = randomBytes(32).toString('hex');
+
+            await this.userModel.findByIdAndUpdate(user._id, {
+                passwordResetTokenHash: this.hashToken(token),
+                passwordResetExpiresAt: new Date(Date.now() + ms(this.resetExpiresIn as ms.StringValue)),
+            });
+
+            const frontendUrl = this.configService.get<string>('frontendUrl');
+            const link = `${frontendUrl}/reset-password?token=${token}`;
+
+            try {
+                await this.mailService.sendPasswordReset(user.email, user.name, link, this.resetExpiresIn);
+            } catch (error) {
+                this.logger.error(
+                    `Failed to send password reset email to ${user.email}: ${error.message}`,
+                    error.stack,
+                );
+            }
+        }
+
+        return { message: 'If an account exists for this email, a password reset link has been sent' };
+    }
+
+
+    async resetPassword(token: string, newPassword: string): Promise<{ message: string }> {
+        const user = await this.userModel
+            .findOne({
+                passwordResetTokenHash: this.hashToken(token),
+                passwordResetExpiresAt: { $gt: new Date() },
+            })
+            .select('+password +passwordHistory +passwordResetTokenHash +passwordResetExpiresAt');
+
+        if (!user || !user.isActive) {
+            throw new BadRequestException('Invalid or expired password reset token');
+        }
+
+        await this.passwordPolicyService.setPassword(user, newPassword);
+        user.tokenVersion = (user.tokenVersion ?? 0) + 1;
+        user.passwordResetTokenHash = undefined;
+        user.passwordResetExpiresAt = undefined;
+        await user.save();
+
+        // Sign out every device that may still hold a refresh token for the old password
+        await this.sessionsService.revokeAllForUser(user._id.toString(), 'password_reset');
+
+        this.logger.log(`Password reset completed for user ${user._id}`);
+
+        return { message: 'Password has been reset successfully' };
+    }
+
+
+    private hashToken(token: string): string {
+        return createHash('sha256').update(token).digest('hex');
+    }
+}
@@ -0,0 +1,47 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type LoginAttemptDocument = LoginAttempt & Document;
+
+export enum LoginAttemptScope {
+    ACCOUNT = 'account',
+    IP = 'ip',
+}
+
+
+@Schema({
+    timestamps: true,
+    collection: 'login_attempts',
+})
+export class LoginAttempt {
+    @Prop({ required: true, enum: Object.values(LoginAttemptScope) })
+    scope: LoginAttemptScope;
+
+    @Prop({ required: true })
+    key: string; // lowercased email or E.164 phone for ACCOUNT, client IP for IP
+
+    @Prop({ default: 0 })
+    failedCount: number;
+
+    @Prop({ default: 0 })
+    lockoutCount: number;
+
+    @Prop({ required: false })
+    lastFailedAt?: Date;
+
+    @Prop({ required: false })
+    lockedUntil?: Date;
+
+    @Prop({ required: true })
+    expiresAt: Date;
+
+    createdAt: Date;
+
+    updatedAt: Date;
+}
+
+export const LoginAttemptSchema = SchemaFactory.createForClass(LoginAttempt);
+
+LoginAttemptSchema.index({ scope: 1, key: 1 }, { unique: true });
+// Forget counters once nothing has happened for a full maximum lockout period
+LoginAttemptSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
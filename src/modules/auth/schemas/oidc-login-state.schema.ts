@@ -0,0 +1,33 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type OidcLoginStateDocument = OidcLoginState & Document;
+
+
+/**
+ * Pending single sign-on attempt, kept server-side so the PKCE verifier and
+ * nonce never leave the API. Each state can be redeemed once.
+ */
+@Schema({
+    timestamps: { createdAt: true, updatedAt: false },
+    collection: 'oidc_login_states',
+})
+export class OidcLoginState {
+    @Prop({ required: true, unique: true })
+    state: string;
+
+    @Prop({ required: true })
+    nonce: string;
+
+    @Prop({ required: true })
+    codeVerifier: string;
+
+    @Prop({ required: true })
+    expiresAt: Date;
+
+    createdAt: Date;
+}
+
+export const OidcLoginStateSchema = SchemaFactory.createForClass(OidcLoginState);
+
+OidcLoginStateSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
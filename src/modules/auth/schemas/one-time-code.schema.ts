@@ -0,0 +1,45 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type OneTimeCodeDocument = OneTimeCode & Document;
+
+
+@Schema({
+    timestamps: true,
+    collection: 'one_time_codes',
+})
+export class OneTimeCode {
+    @Prop({ required: true, unique: true })
+    phone: string;
+
+    // Hash of the code currently outstanding; cleared once used or exhausted
+    @Prop({ required: false })
+    codeHash?: string;
+
+    @Prop({ required: false })
+    codeExpiresAt?: Date;
+
+    @Prop({ default: 0 })
+    attempts: number;
+
+    @Prop({ default: 0 })
+    sendCount: number;
+
+    @Prop({ required: true })
+    windowStartedAt: Date;
+
+    @Prop({ required: true })
+    lastSentAt: Date;
+
+    @Prop({ required: true })
+    expiresAt: Date;
+
+    createdAt: Date;
+
+    updatedAt: Date;
+}
+
+export const OneTimeCodeSchema = SchemaFactory.createForClass(OneTimeCode);
+
+// Drop the record once neither the code nor the send window is relevant any more
+OneTimeCodeSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
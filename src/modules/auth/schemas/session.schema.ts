@@ -0,0 +1,50 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type SessionDocument = Session & Document;
+
+
+/**
+ * One session per signed-in device. The session id doubles as the refresh
+ * token family: every refresh rotates the stored hash, and presenting an
+ * older token revokes the whole session.
+ */
+@Schema({
+    timestamps: true,
+    collection: 'sessions',
+})
+export class Session {
+    @Prop({ required: true, index: true })
+    userId: string;
+
+    @Prop({ required: false, select: false })
+    refreshTokenHash?: string;
+
+    @Prop({ required: false })
+    userAgent?: string;
+
+    @Prop({ required: false })
+    ip?: string;
+
+    @Prop({ default: Date.now })
+    lastUsedAt: Date;
+
+    @Prop({ required: true })
+    expiresAt: Date;
+
+    @Prop({ required: false })
+    revokedAt?: Date;
+
+    @Prop({ required: false })
+    revokedReason?: string;
+
+    createdAt: Date;
+
+    updatedAt: Date;
+}
+
+export const SessionSchema = SchemaFactory.createForClass(Session);
+
+SessionSchema.index({ userId: 1, revokedAt: 1 });
+// Let MongoDB drop sessions once their refresh token can no longer be used
+SessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
@@ -0,0 +1,48 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type SigningKeyDocument = SigningKey & Document;
+
+
+/**
+ * Asymmetric key pair for access tokens. A key is published in the JWKS as
+ * soon as it is created, signs tokens from `activatesAt` until the next key
+ * takes over at `retiresAt`, and stays published until `expiresAt` so that
+ * tokens it signed can still be verified.
+ */
+@Schema({
+    timestamps: { createdAt: true, updatedAt: false },
+    collection: 'signing_keys',
+})
+export class SigningKey {
+    @Prop({ required: true, unique: true })
+    kid: string;
+
+    @Prop({ required: true })
+    algorithm: string;
+
+    // Monotonic counter; the unique index stops two instances rotating at once
+    @Prop({ required: true, unique: true })
+    generation: number;
+
+    @Prop({ required: true })
+    publicKey: string;
+
+    @Prop({ required: true, select: false })
+    privateKey: string;
+
+    @Prop({ required: true })
+    activatesAt: Date;
+
+    @Prop({ required: true })
+    retiresAt: Date;
+
+    @Prop({ required: true })
+    expiresAt: Date;
+
+    createdAt: Date;
+}
+
+export const SigningKeySchema = SchemaFactory.createForClass(SigningKey);
+
+SigningKeySchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
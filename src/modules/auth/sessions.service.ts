@@ -0,0 +1,145 @@
+import {
+    Injectable,
+    NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, isValidObjectId } from 'mongoose';
+import { ConfigService } from '@nestjs/config';
+import { createHash } from 'crypto';
+import { Session, SessionDocument } from './schemas/session.schema';
+import { SessionResponseDto } from './dto/session-response.dto';
+import * as ms from 'ms';
+
+
+export interface SessionContext {
+    userAgent?: string;
+    ip?: string;
+}
+
+
+@Injectable()
+export class SessionsService {
+    private readonly refreshExpiresIn: string;
+
+    constructor(
+        @InjectModel(Session.name) private sessionModel: Model<SessionDocument>,
+        private configService: ConfigService,
+    ) {
+        this.refreshExpiresIn = this.configService.get<string>('auth.jwtRefreshExpiresIn', '7d');
+    }
+
+
+    async create(userId: string, context: SessionContext = {}): Promise<SessionDocument> {
+        const session = new this.sessionModel({
+            userId,
+            userAgent: context.userAgent,
+            ip: context.ip,
+            lastUsedAt: new Date(),
+            expiresAt: this.getExpiryDate(),
+        });
+
+        return session.save();
+    }
+
+
+    async findById(sessionId: string): Promise<SessionDocument | null> {
+        if (!isValidObjectId(sessionId)) {
+            return null;
+        }
+
+        return this.sessionModel.findById(sessionId);
+    }
+
+
+    /**
+     * Store the hash of a newly issued refresh token.
+     *
+     * When `previousToken` is given the update only applies if it is still the
+     * session's current token, so two concurrent refreshes with the same token
+     * cannot both succeed. Returns false if the rotation was rejected.
+     */
+    async rotate(
+        sessionId: string,
+        refreshToken: string,
+        previousToken: string | null,
+        context: SessionContext = {},
+    ): Promise<boolean> {
+        const filter: Record<string, any> = { _id: sessionId, revokedAt: null };
+
+        if (previousToken !== null) {
+            filter.refreshTokenHash = this.hashToken(previousToken);
+        }
+
+        const update: Record<string, any> = {
+            refreshTokenHash: this.hashToken(refreshToken),
+            lastUsedAt: new Date(),
+            expiresAt: this.getExpiryDate(),
+        };
+
+        if (context.userAgent) {
+            update.userAgent = context.userAgent;
+        }
+
+        if (context.ip) {
+            update.ip = context.ip;
+        }
+
+        const result = await this.sessionModel.findOneAndUpdate(filter, { $set: update });
+
+        return !!result;
+    }
+
+
+    async revoke(sessionId: string, reason: string): Promise<void> {
+        await this.sessionModel.updateOne(
+            { _id: sessionId, revokedAt: null },
+            { revokedAt: new Date(), revokedReason: reason },
+        );
+    }
+
+
+    async revokeAllForUser(userId: string, reason: string): Promise<void> {
+        await this.sessionModel.updateMany(
+            { userId, revokedAt: null },
+            { revokedAt: new Date(), revokedReason: reason },
+        );
+    }
+
+
+    async revokeForUser(userId: string, sessionId: string): Promise<void> {
+        const session = await this.findById(sessionId);
+
+        if (!session || session.userId !== userId || session.revokedAt) {
+            throw new NotFoundException('Session not found');
+        }
+
+        await this.revoke(sessionId, 'user_revoked');
+    }
+
+
+    async listActiveForUser(userId: string, currentSessionId?: string): Promise<SessionResponseDto[]> {
+        const sessions = await this.sessionModel
+            .find({ userId, revokedAt: null, expiresAt: { $gt: new Date() } })
+            .sort({ lastUsedAt: -1 });
+
+        return sessions.map((session) => ({
+            id: session._id.toString(),
+            userAgent: session.userAgent,
+            ip: session.ip,
+            current: session._id.toString() === currentSessionId,
+            createdAt: session.createdAt,
+            lastUsedAt: session.lastUsedAt,
+            expiresAt: session.expiresAt,
+        }));
+    }
+
+
+    private hashToken(token: string): string {
+        return createHash('sha256').update(token).digest('hex');
+    }
+
+
+    private getExpiryDate(): Date {
+        return new Date(Date.now() + ms(this.refreshExpiresIn as ms.StringValue));
+    }
+}
@@ -0,0 +1,111 @@
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { createPublicKey } from 'crypto';
+import { SigningKeysService } from './signing-keys.service';
+
+/**
+ * In-memory stand-in for the signing key model covering the query shapes
+ * the service uses: `findOne`/`find` with `$gt`/`$lte` filters, `sort` on
+ * generation, `select` and `create` with the unique generation index.
+ */
+function createFakeKeyModel(records: any[]): any {
+  const matches = (record: any, query: any = {}) =>
+    Object.entries(query).every(([key, value]: [string, any]) => {
+      if (value && typeof value === 'object' && '$gt' in value) return record[key] > value.$gt;
+      if (value && typeof value === 'object' && '$lte' in value) return record[key] <= value.$lte;
+      return record[key] === value;
+    });
+
+  const query = (results: () => any[], single: boolean) => {
+    let sorted = () => results();
+    const chain: any = {
+      sort: () => {
+        sorted = () => [...results()].sort((a, b) => b.generation - a.generation);
+        return chain;
+      },
+      select: () => chain,
+      exec: async () => (single ? sorted()[0] ?? null : sorted()),
+      then: (resolve: any, reject: any) => chain.exec().then(resolve, reject),
+    };
+    return chain;
+  };
+
+  return {
+    findOne: (filter?: any) => query(() => records.filter((record) => matches(record, filter)), true),
+    find: (filter?: any) => query(() => records.filter((record) => matches(record, filter)), false),
+    create: async (data: any) => {
+      if (records.some((record) => record.generation === data.generation)) {
+        throw Object.assign(new Error('duplicate key'), { code: 11000 });
+      }
+      records.push(data);
+      return data;
+    },
+  };
+}
+
+describe('SigningKeysService', () => {
+  const day = 24 * 60 * 60 * 1000;
+  let keys: any[];
+
+  const createService = (algorithm = 'RS256') =>
+    new SigningKeysService(
+      createFakeKeyModel(keys),
+      new JwtService({ secret: 'application-secret', signOptions: { expiresIn: '1h' } }),
+      new ConfigService({
+        auth: {
+          jwtSecret: 'application-secret',
+          jwtExpiresIn: '1h',
+          signing: { algorithm, rotationInterval: '30d', prePublish: '1d' },
+        },
+      }),
+    );
+
+  beforeEach(() => {
+    keys = [];
+  });
+
+  it('should sign access tokens that verify against the published JWKS', async () => {
+    const service = createService();
+    await service.rotateIfDue();
+
+    const token = await service.signAccessToken({ sub: 'user-1', email: 'a@example.com', roles: [] } as any);
+    const { header } = new JwtService({}).decode(token, { complete: true });
+    const jwk = (await service.getJwks()).keys.find((key) => key.kid === header.kid);
+
+    expect(header.alg).toBe('RS256');
+    expect(jwk).toMatchObject({ kty: 'RSA', alg: 'RS256', use: 'sig' });
+
+    const publicKey = createPublicKey({ key: jwk as any, format: 'jwk' }).export({ type: 'spki', format: 'pem' }).toString();
+    expect(new JwtService({}).verify(token, { secret: publicKey, algorithms: ['RS256'] }).sub).toBe('user-1');
+  });
+
+  it('should reject tokens signed with the application secret', async () => {
+    const service = createService('ES256');
+    await service.rotateIfDue();
+
+    const forged = new JwtService({ secret: 'application-secret' }).sign({ sub: 'user-1' }, { keyid: 'unknown' });
+
+    await expect(service.getVerificationKey(forged)).resolves.toBeNull();
+  });
+
+  it('should publish the next key ahead of rotation and keep the retiring one', async () => {
+    const service = createService();
+    await service.rotateIfDue();
+    await service.rotateIfDue();
+
+    expect(keys).toHaveLength(1);
+
+    // Move the active key to within a day of retirement
+    keys[0].activatesAt = new Date(Date.now() - 29.5 * day);
+    keys[0].retiresAt = new Date(Date.now() + 0.5 * day);
+    await service.rotateIfDue();
+
+    expect(keys).toHaveLength(2);
+    expect(keys[1].activatesAt).toEqual(keys[0].retiresAt);
+    expect((await service.getJwks()).keys.map((key) => key.kid)).toEqual([keys[1].kid, keys[0].kid]);
+
+    // The next key does not sign until it activates
+    const token = await service.signAccessToken({ sub: 'user-1' } as any);
+    expect(new JwtService({}).decode(token, { complete: true }).header.kid).toBe(keys[0].kid);
+  });
+});
@@ -0,0 +1,250 @@
+import {
+    Injectable,
+    Logger,
+    OnModuleInit,
+    OnModuleDestroy,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { JwtService, JwtSignOptions } from '@nestjs/jwt';
+import { ConfigService } from '@nestjs/config';
+import { createPublicKey, generateKeyPairSync, randomBytes } from 'crypto';
+import { SigningKey, SigningKeyDocument } from './schemas/signing-key.schema';
+import { JwtPayload } from '../../common/interfaces/jwt-payload.interface';
+import * as ms from 'ms';
+
+
+const ROTATION_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+const ACTIVE_KEY_CACHE_MS = 60 * 1000;
+// Allowance for clock skew between us and services verifying our tokens
+const CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+export type SigningAlgorithm = JwtSignOptions['algorithm'];
+
+export const ASYMMETRIC_ALGORITHMS: SigningAlgorithm[] = ['RS256', 'ES256'];
+
+export interface JsonWebKeySet {
+    keys: Record<string, unknown>[];
+}
+
+
+/**
+ * Manages the keys used to sign access tokens. With HS256 tokens are signed
+ * with `auth.jwtSecret` as before; with RS256 or ES256 a key ring is kept in
+ * MongoDB, rotated on a schedule and published as a JWKS so other services
+ * can verify tokens without a shared secret.
+ */
+@Injectable()
+export class SigningKeysService implements OnModuleInit, OnModuleDestroy {
+    private readonly logger = new Logger(SigningKeysService.name);
+    private readonly algorithm: SigningAlgorithm;
+    private readonly rotationIntervalMs: number;
+    private readonly prePublishMs: number;
+    private readonly accessTokenLifetimeMs: number;
+    private readonly verificationKeys = new Map<string, string>();
+    private activeKey: { kid: string; privateKey: string; cachedUntil: number } | null = null;
+    private rotationTimer: NodeJS.Timeout | null = null;
+
+    constructor(
+        @InjectModel(SigningKey.name) private signingKeyModel: Model<SigningKeyDocument>,
+        private jwtService: JwtService,
+        private configService: ConfigService,
+    ) {
+        this.algorithm = this.configService.get<SigningAlgorithm>('auth.signing.algorithm', 'RS256');
+        this.rotationIntervalMs = this.toMilliseconds(this.configService.get<string>('auth.signing.rotationInterval', '30d'));
+        this.prePublishMs = this.toMilliseconds(this.configService.get<string>('auth.signing.prePublish', '1d'));
+        this.accessTokenLifetimeMs = this.toMilliseconds(this.configService.get<string>('auth.jwtExpiresIn', '1h'));
+
+        if (this.algorithm !== 'HS256' && !ASYMMETRIC_ALGORITHMS.includes(this.algorithm)) {
+            throw new Error(`Unsupported JWT signing algorithm: ${this.algorithm}`);
+        }
+    }
+
+
+    async onModuleInit(): Promise<void> {
+        if (!this.isAsymmetric()) {
+            return;
+        }
+
+        await this.rotateIfDue();
+
+        this.rotationTimer = setInterval(() => {
+            this.rotateIfDue().catch((error) => this.logger.error(`Signing key rotation failed: ${error.message}`, error.stack));
+        }, ROTATION_CHECK_INTERVAL_MS);
+        this.rotationTimer.unref();
+    }
+
+
+    onModuleDestroy(): void {
+        if (this.rotationTimer) {
+            clearInterval(this.rotationTimer);
+        }
+    }
+
+
+    isAsymmetric(): boolean {
+        return this.algorithm !== 'HS256';
+    }
+
+
+    getAlgorithm(): SigningAlgorithm {
+        return this.algorithm;
+    }
+
+
+    /**
+     * Sign an access token; `expiresIn` overrides the configured lifetime
+     */
+    async signAccessToken(payload: JwtPayload, expiresIn?: string): Promise<string> {
+        const options: JwtSignOptions = expiresIn ? { expiresIn: expiresIn as any } : {};
+
+        if (!this.isAsymmetric()) {
+            return this.jwtService.sign(payload, options);
+        }
+
+        const key = await this.getActiveKey();
+
+        return this.jwtService.sign(payload, {
+            ...options,
+            secret: key.privateKey,
+            algorithm: this.algorithm,
+            keyid: key.kid,
+        });
+    }
+
+
+    /**
+     * Key for verifying an access token, chosen by the `kid` in its header.
+     * Returns null for unknown keys.
+     */
+    async getVerificationKey(rawToken: string): Promise<string | null> {
+        if (!this.isAsymmetric()) {
+            return this.configService.get<string>('auth.jwtSecret');
+        }
+
+        const decoded = this.jwtService.decode(rawToken, { complete: true }) as { header?: { kid?: string } } | null;
+        const kid = decoded?.header?.kid;
+
+        if (!kid) {
+            return null;
+        }
+
+        if (!this.verificationKeys.has(kid)) {
+            const key = await this.signingKeyModel.findOne({ kid, expiresAt: { $gt: new Date() } });
+
+            if (!key) {
+                return null;
+            }
+
+            this.verificationKeys.set(kid, key.publicKey);
+        }
+
+        return this.verificationKeys.get(kid);
+    }
+
+
+    async getJwks(): Promise<JsonWebKeySet> {
+        if (!this.isAsymmetric()) {
+            return { keys: [] };
+        }
+
+        const keys = await this.signingKeyModel
+            .find({ expiresAt: { $gt: new Date() } })
+            .sort({ generation: -1 });
+
+        return {
+            keys: keys.map((key) => ({
+                ...(createPublicKey(key.publicKey).export({ format: 'jwk' }) as Record<string, unknown>),
+                kid: key.kid,
+                alg: key.algorithm,
+                use: 'sig',
+            })),
+        };
+    }
+
+
+    /**
+     * Make sure a key is active and, once the active key nears retirement,
+     * that its successor has been published ahead of time so verifiers that
+     * cache the JWKS already know it when it starts signing.
+     */
+    async rotateIfDue(): Promise<void> {
+        const now = new Date();
+        const latest = await this.signingKeyModel.findOne().sort({ generation: -1 });
+
+        if (!latest || latest.algorithm !== this.algorithm) {
+            await this.createKey((latest?.generation ?? 0) + 1, now);
+            return;
+        }
+
+        if (latest.activatesAt <= now && latest.retiresAt.getTime() - now.getTime() <= this.prePublishMs) {
+            await this.createKey(latest.generation + 1, latest.retiresAt > now ? latest.retiresAt : now);
+        }
+    }
+
+
+    private async getActiveKey(): Promise<{ kid: string; privateKey: string }> {
+        if (this.activeKey && this.activeKey.cachedUntil > Date.now()) {
+            return this.activeKey;
+        }
+
+        let key = await this.findActiveKey();
+
+        if (!key) {
+            await this.rotateIfDue();
+            key = await this.findActiveKey();
+        }
+
+        this.activeKey = {
+            kid: key.kid,
+            privateKey: key.privateKey,
+            cachedUntil: Math.min(Date.now() + ACTIVE_KEY_CACHE_MS, key.retiresAt.getTime()),
+        };
+
+        return this.activeKey;
+    }
+
+
+    private findActiveKey(): Promise<SigningKeyDocument | null> {
+        return this.signingKeyModel
+            .findOne({ algorithm: this.algorithm, activatesAt: { $lte: new Date() } })
+            .sort({ generation: -1 })
+            .select('+privateKey')
+            .exec();
+    }
+
+
+    private async createKey(generation: number, activatesAt: Date): Promise<void> {
+        const { publicKey, privateKey } = this.algorithm === 'ES256'
+            ? generateKeyPairSync('ec', { namedCurve: 'P-256' })
+            : generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+        const retiresAt = new Date(activatesAt.getTime() + this.rotationIntervalMs);
+        const kid = randomBytes(12).toString('base64url');
+
+        try {
+            await this.signingKeyModel.create({
+                kid,
+                algorithm: this.algorithm,
+                generation,
+                publicKey: publicKey.export({ type: 'spki', format: 'pem' }).toString(),
+                privateKey: privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+                activatesAt,
+                retiresAt,
+                expiresAt: new Date(retiresAt.getTime() + this.accessTokenLifetimeMs + CLOCK_SKEW_MS),
+            });
+
+            this.logger.log(`Created ${this.algorithm} signing key ${kid} (generation ${generation}), active from ${activatesAt.toISOString()}`);
+        } catch (error) {
+            // Another instance created this generation first
+            if (error.code !== 11000) {
+                throw error;
+            }
+        }
+    }
+
+
+    private toMilliseconds(value: string): number {
+        return ms(value as ms.StringValue);
+    }
+}
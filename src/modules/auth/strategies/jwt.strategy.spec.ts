@@ -0,0 +1,126 @@
+import { EventEmitter } from 'events';
+import { UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { JwtStrategy } from './jwt.strategy';
+import { configuration } from '../../../config/configuration';
+import { UserRole } from '../../../common/enums/user-role.enum';
+
+describe('JwtStrategy', () => {
+  const jwtSecret = 'application-secret';
+  const jwtService = new JwtService({ secret: jwtSecret });
+
+  let user: any;
+  let userModel: { findById: jest.Mock };
+  let auditService: { record: jest.Mock };
+  let strategy: JwtStrategy;
+
+  beforeEach(() => {
+    user = { _id: 'user-1', roles: [UserRole.FARMER], isActive: true, tokenVersion: 0, mfaEnabled: true };
+    userModel = { findById: jest.fn(async () => user) };
+    auditService = { record: jest.fn() };
+
+    strategy = new JwtStrategy(
+      new ConfigService({}),
+      userModel as any,
+      { isRequiredFor: () => false } as any,
+      { getAlgorithm: () => 'HS256', getVerificationKey: async () => jwtSecret } as any,
+      auditService as any,
+    );
+  });
+
+  it('should accept access tokens', async () => {
+    const payload = jwtService.verify(jwtService.sign({ sub: 'user-1', roles: [UserRole.FARMER], ver: 0 }));
+
+    await expect(strategy.validate({} as any, payload)).resolves.toEqual(expect.objectContaining({ sub: 'user-1' }));
+  });
+
+  it('should refuse tokens issued before the token version was bumped', async () => {
+    user.tokenVersion = 2;
+
+    await expect(strategy.validate({} as any, { sub: 'user-1', roles: [UserRole.FARMER], ver: 1 })).rejects.toThrow(
+      'Token has been revoked',
+    );
+    // Tokens from before token versions existed count as version 0
+    await expect(strategy.validate({} as any, { sub: 'user-1', roles: [UserRole.FARMER] })).rejects.toThrow(
+      UnauthorizedException,
+    );
+  });
+
+  it('should refuse tokens of deactivated or deleted users', async () => {
+    user.isActive = false;
+    await expect(strategy.validate({} as any, { sub: 'user-1', roles: [UserRole.FARMER], ver: 0 })).rejects.toThrow(
+      'Account is deactivated',
+    );
+
+    userModel.findById.mockResolvedValue(null);
+    await expect(strategy.validate({} as any, { sub: 'user-1', roles: [UserRole.FARMER], ver: 0 })).rejects.toThrow(
+      'User no longer exists',
+    );
+  });
+
+  it('should refuse impersonation tokens once the admin has signed out everywhere', async () => {
+    const admin = { _id: 'admin-1', roles: [UserRole.ADMIN], isActive: true, tokenVersion: 5 };
+    userModel.findById.mockImplementation(async (id: string) => (id === 'admin-1' ? admin : user));
+    const payload = { sub: 'user-1', roles: [UserRole.FARMER], ver: 0, impersonatedBy: 'admin-1', impersonatorVer: 4 };
+
+    await expect(strategy.validate({} as any, payload)).rejects.toThrow('Impersonation has been revoked');
+  });
+
+  it('should audit impersonated requests the client aborted', async () => {
+    const admin = { _id: 'admin-1', roles: [UserRole.ADMIN], isActive: true, tokenVersion: 4 };
+    userModel.findById.mockImplementation(async (id: string) => (id === 'admin-1' ? admin : user));
+    const res = Object.assign(new EventEmitter(), { statusCode: 200, writableFinished: false });
+    const request: any = { method: 'GET', originalUrl: '/scans', ip: '127.0.0.1', res };
+
+    const payload = { sub: 'user-1', roles: [UserRole.FARMER], ver: 0, impersonatedBy: 'admin-1', impersonatorVer: 4 };
+
+    await strategy.validate(request, payload);
+    res.emit('close');
+
+    expect(auditService.record).toHaveBeenCalledWith(expect.objectContaining({
+      action: 'auth.impersonated_request',
+      userId: 'user-1',
+      actorId: 'admin-1',
+      details: expect.objectContaining({ path: '/scans', completed: false }),
+    }));
+  });
+
+  it('should refuse an MFA challenge token with 401 even when signed with the access token secret', async () => {
+    // Issued after the password alone; must not stand in for the second factor
+    const payload = jwtService.verify(jwtService.sign({ sub: 'user-1', purpose: 'mfa-challenge' }));
+
+    const error = await strategy.validate({} as any, payload).catch((e) => e);
+
+    expect(error).toBeInstanceOf(UnauthorizedException);
+    expect(error.getStatus()).toBe(401);
+    expect(userModel.findById).not.toHaveBeenCalled();
+  });
+
+  it('should not sign single-purpose tokens with JWT_SECRET by default', () => {
+    const previous = process.env.JWT_SECRET;
+    process.env.JWT_SECRET = jwtSecret;
+
+    try {
+      const { auth, dataExport } = configuration();
+      const secrets = [
+        auth.mfa.challengeSecret,
+        auth.passwordPolicy.changeSecret,
+        auth.emailVerificationSecret,
+        auth.invitationSecret,
+        dataExport.secret,
+      ];
+
+      expect(new Set([jwtSecret, ...secrets]).size).toBe(secrets.length + 1);
+
+      const challenge = jwtService.sign({ sub: 'user-1', purpose: 'mfa-challenge' }, { secret: auth.mfa.challengeSecret });
+      expect(() => jwtService.verify(challenge)).toThrow();
+    } finally {
+      if (previous === undefined) {
+        delete process.env.JWT_SECRET;
+      } else {
+        process.env.JWT_SECRET = previous;
+      }
+    }
+  });
+});
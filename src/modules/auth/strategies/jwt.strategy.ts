@@ -6,6 +6,10 @@ import { InjectModel } from '@nestjs/mongoose';
 import { Model } from 'mongoose';
 import { JwtPayload } from '../../../common/interfaces/jwt-payload.interface';
 import { User, UserDocument } from '../../users/schemas/user.schema';
+import { MfaService } from '../mfa.service';
+import { SigningKeysService } from '../signing-keys.service';
+import { AuditService } from '../../audit/audit.service';
+import { RequestWithUser } from '../../../common/interfaces/request-with-user.interface';
 
 
 @Injectable()
@@ -13,17 +17,34 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
     constructor(
         private configService: ConfigService,
         @InjectModel(User.name) private userModel: Model<UserDocument>,
+        private mfaService: MfaService,
+        signingKeysService: SigningKeysService,
+        private auditService: AuditService,
     ) {
         super({
             jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
             ignoreExpiration: false,
-            secretOrKey: configService.get<string>('auth.jwtSecret'),
+            passReqToCallback: true,
+            algorithms: [signingKeysService.getAlgorithm()],
+            // Asymmetric keys are looked up by the token's `kid`
+            secretOrKeyProvider: (request: unknown, rawJwtToken: string, done: (error: unknown, key?: string) => void) => {
+                signingKeysService
+                    .getVerificationKey(rawJwtToken)
+                    .then((key) => (key ? done(null, key) : done(new UnauthorizedException('Unknown signing key'))))
+                    .catch((error) => done(error));
+            },
         });
     }
 
 
-    async validate(payload: JwtPayload): Promise<JwtPayload> {
-        const { sub, email, roles } = payload;
+    async validate(request: RequestWithUser, payload: JwtPayload & { purpose?: string }): Promise<JwtPayload> {
+        const { sub, email, roles, sid, impersonatedBy } = payload;
+
+        // MFA challenges, password change and verification tokens are single-purpose
+        // and never grant access, whatever key they were signed with
+        if (payload.purpose) {
+            throw new UnauthorizedException('Not an access token');
+        }
 
         const user = await this.userModel.findById(sub);
 
@@ -34,11 +55,65 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
         if (!user.isActive) {
             throw new UnauthorizedException('Account is deactivated');
         }
+
+        // Logout, password change, role change and deactivation bump the version
+        if ((payload.ver ?? 0) !== (user.tokenVersion ?? 0)) {
+            throw new UnauthorizedException('Token has been revoked');
+        }
+
+        if (impersonatedBy) {
+            await this.validateImpersonator(payload);
+            this.auditImpersonatedRequest(request, sub, impersonatedBy);
+        }
+
         return {
             sub,
             email,
             roles,
             cooperativeId: user.cooperativeId,
+            organisationId: user.organisationId,
+            emailVerified: user.emailVerified,
+            phoneVerified: user.phoneVerified,
+            sid,
+            // The admin has already passed MFA; the impersonated user's enrolment is not theirs to complete
+            mfaEnrollmentRequired: !impersonatedBy && !user.mfaEnabled && this.mfaService.isRequiredFor(user.roles),
+            impersonatedBy,
         };
     }
+
+
+    /**
+     * An impersonation token stops working as soon as the admin who started it
+     * is deactivated or signs out everywhere.
+     */
+    private async validateImpersonator(payload: JwtPayload): Promise<void> {
+        const admin = await this.userModel.findById(payload.impersonatedBy);
+
+        if (!admin || !admin.isActive || (payload.impersonatorVer ?? 0) !== (admin.tokenVersion ?? 0)) {
+            throw new UnauthorizedException('Impersonation has been revoked');
+        }
+    }
+
+
+    /**
+     * Audit every request made while impersonating, once its outcome is known.
+     * Requests later refused by guards are recorded as well, and so are
+     * requests the client aborted, which never emit 'finish'.
+     */
+    private auditImpersonatedRequest(request: RequestWithUser, userId: string, actorId: string): void {
+        request.res?.once('close', () => {
+            this.auditService.record({
+                action: 'auth.impersonated_request',
+                userId,
+                actorId,
+                ip: request.ip,
+                details: {
+                    method: request.method,
+                    path: request.originalUrl,
+                    statusCode: request.res.statusCode,
+                    completed: request.res.writableFinished,
+                },
+            });
+        });
+    }
 }
@@ -0,0 +1,74 @@
+import { TotpService } from './totp.service';
+
+describe('TotpService', () => {
+  let service: TotpService;
+
+  // RFC 6238 Appendix B shared secret "12345678901234567890" in base32
+  const rfcSecret = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+  beforeEach(() => {
+    service = new TotpService();
+  });
+
+  describe('base32', () => {
+    it('should round-trip arbitrary bytes', () => {
+      const bytes = Buffer.from('12345678901234567890');
+
+      expect(service.base32Encode(bytes)).toBe(rfcSecret);
+      expect(service.base32Decode(rfcSecret).equals(bytes)).toBe(true);
+    });
+
+    it('should reject invalid characters', () => {
+      expect(() => service.base32Decode('ABC1')).toThrow('Invalid base32 character');
+    });
+  });
+
+  describe('generateCode', () => {
+    it.each([
+      [59, '287082'],
+      [1111111109, '081804'],
+      [1234567890, '005924'],
+      [2000000000, '279037'],
+    ])('should match the RFC 6238 test vector at T=%i', (seconds, expected) => {
+      const step = service.getTimeStep(seconds * 1000);
+
+      expect(service.generateCode(rfcSecret, step)).toBe(expected);
+    });
+  });
+
+  describe('verify', () => {
+    const timestamp = 1234567890 * 1000;
+
+    it('should accept the current code and return its time step', () => {
+      const step = service.getTimeStep(timestamp);
+
+      expect(service.verify(rfcSecret, '005924', { timestamp })).toBe(step);
+    });
+
+    it('should tolerate one step of clock drift', () => {
+      const previous = service.generateCode(rfcSecret, service.getTimeStep(timestamp) - 1);
+
+      expect(service.verify(rfcSecret, previous, { timestamp })).not.toBeNull();
+      expect(service.verify(rfcSecret, previous, { timestamp, window: 0 })).toBeNull();
+    });
+
+    it('should reject a code that was already used', () => {
+      const step = service.getTimeStep(timestamp);
+
+      expect(service.verify(rfcSecret, '005924', { timestamp, lastUsedStep: step })).toBeNull();
+    });
+
+    it('should reject malformed codes', () => {
+      expect(service.verify(rfcSecret, '12345', { timestamp })).toBeNull();
+      expect(service.verify(rfcSecret, 'abcdef', { timestamp })).toBeNull();
+    });
+  });
+
+  it('should build an otpauth URI with issuer and account', () => {
+    const uri = service.buildOtpauthUri('JBSWY3DPEHPK3PXP', 'admin@example.com', 'Angular Leaf');
+
+    expect(uri).toMatch(/^otpauth:\/\/totp\/Angular%20Leaf%3Aadmin%40example\.com\?/);
+    expect(uri).toContain('secret=JBSWY3DPEHPK3PXP');
+    expect(uri).toContain('issuer=Angular+Leaf');
+  });
+});
@@ -0,0 +1,48 @@
+import { ForbiddenException } from '@nestjs/common';
+import { JwtPayload } from '../../common/interfaces/jwt-payload.interface';
+import { UserRole } from '../../common/enums/user-role.enum';
+
+
+/**
+ * The cooperatives a caller's user management is confined to: their own, or
+ * every cooperative below the region or district they manage. Undefined for
+ * admins (and internal callers) who can manage everyone.
+ */
+export function resolveCooperativeScope(currentUser?: JwtPayload): string[] | undefined {
+    const cooperativeIds = getCooperativeIds(currentUser);
+
+    if (cooperativeIds && !cooperativeIds.length) {
+        throw new ForbiddenException('Access denied: You are not assigned to a cooperative');
+    }
+
+    return cooperativeIds;
+}
+
+
+/**
+ * Like `resolveCooperativeScope`, but an empty list for callers without any
+ * cooperative instead of refusing them
+ */
+export function getCooperativeIds(currentUser?: JwtPayload): string[] | undefined {
+    if (!currentUser || currentUser.roles.includes(UserRole.ADMIN)) {
+        return undefined;
+    }
+
+    return currentUser.cooperativeIds ?? (currentUser.cooperativeId ? [currentUser.cooperativeId] : []);
+}
+
+
+/**
+ * A `cooperativeId` filter for the requested cooperative, narrowed to the
+ * scope: requests outside of it fall back to the whole scope
+ */
+export function toCooperativeFilter(
+    scope: string[] | undefined,
+    requested?: string,
+): string | { $in: string[] } | undefined {
+    if (!scope || scope.includes(requested)) {
+        return requested;
+    }
+
+    return scope.length === 1 ? scope[0] : { $in: scope };
+}
@@ -0,0 +1,330 @@
+import {
+    Controller,
+    Get,
+    Post,
+    Body,
+    Patch,
+    Param,
+    Delete,
+    UseGuards,
+    Query,
+    HttpCode,
+    HttpStatus,
+} from '@nestjs/common';
+import {
+    ApiTags,
+    ApiOperation,
+    ApiResponse,
+    ApiBearerAuth,
+    ApiParam,
+} from '@nestjs/swagger';
+import { CooperativesService } from './cooperatives.service';
+import { CreateCooperativeDto } from './dto/create-cooperative.dto';
+import { UpdateCooperativeDto } from './dto/update-cooperative.dto';
+import { ListCooperativesQueryDto } from './dto/list-cooperatives-query.dto';
+import { ListMembersQueryDto } from './dto/list-members-query.dto';
+import { AddMemberDto } from './dto/add-member.dto';
+import {
+    CooperativeMemberDto,
+    CooperativeResponseDto,
+    PaginatedMembersResponseDto,
+} from './dto/cooperative-response.dto';
+import { CooperativeSummaryResponseDto } from './dto/cooperative-summary-response.dto';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../../common/guards/permissions.guard';
+import { RequirePermissions } from '../../common/decorators/require-permissions.decorator';
+import { CrossTenant } from '../../common/decorators/cross-tenant.decorator';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { JwtPayload } from '../../common/interfaces/jwt-payload.interface';
+import { Permission } from '../../common/enums/permission.enum';
+
+
+@ApiTags('Cooperatives')
+@ApiBearerAuth()
+@Controller('cooperatives')
+@CrossTenant()
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+export class CooperativesController {
+    constructor(private readonly cooperativesService: CooperativesService) { }
+
+
+    @Post()
+    @RequirePermissions(Permission.COOPERATIVE_MANAGE)
+    @HttpCode(HttpStatus.CREATED)
+    @ApiOperation({
+        summary: 'Create a cooperative',
+        description: 'Admin only.',
+    })
+    @ApiResponse({
+        status: HttpStatus.CREATED,
+        description: 'Cooperative created',
+        type: CooperativeResponseDto,
+    })
+    @ApiResponse({
+        status: HttpStatus.CONFLICT,
+        description: 'A cooperative with this name already exists',
+    })
+    @ApiResponse({
+        status: HttpStatus.FORBIDDEN,
+        description: 'cooperative:manage permission required',
+    })
+    async create(
+        @CurrentUser('sub') actorId: string,
+        @Body() createCooperativeDto: CreateCooperativeDto,
+    ): Promise<CooperativeResponseDto> {
+        return this.cooperativesService.create(createCooperativeDto, actorId);
+    }
+
+
+    @Get()
+    @RequirePermissions(Permission.COOPERATIVE_READ)
+    @ApiOperation({
+        summary: 'List cooperatives',
+        description: 'Managers only see their own cooperative, or those below the region or district they manage.',
+    })
+    @ApiResponse({
+        status: HttpStatus.OK,
+        description: 'Cooperatives retrieved successfully',
+        type: [CooperativeResponseDto],
+    })
+    @ApiResponse({
+        status: HttpStatus.FORBIDDEN,
+        description: 'cooperative:read permission required',
+    })
+    async findAll(
+        @CurrentUser() user: JwtPayload,
+        @Query() listCooperativesQueryDto: ListCooperativesQueryDto,
+    ): Promise<CooperativeResponseDto[]> {
+        return this.cooperativesService.findAll(listCooperativesQueryDto, user);
+    }
+
+
+    @Get(':id')
+    @RequirePermissions(Permission.COOPERATIVE_READ)
+    @ApiOperation({
+        summary: 'Get a cooperative',
+        description: 'Managers can only view cooperatives they oversee.',
+    })
+    @ApiParam({
+        name: 'id',
+        description: 'Cooperative ID',
+        example: '507f1f77bcf86cd799439011',
+    })
+    @ApiResponse({
+        status: HttpStatus.OK,
+        description: 'Cooperative retrieved successfully',
+        type: CooperativeResponseDto,
+    })
+    @ApiResponse({
+        status: HttpStatus.NOT_FOUND,
+        description: 'Cooperative not found',
+    })
+    @ApiResponse({
+        status: HttpStatus.FORBIDDEN,
+        description: 'cooperative:read permission required, or not a cooperative you oversee',
+    })
+    async findOne(
+        @CurrentUser() user: JwtPayload,
+        @Param('id') id: string,
+    ): Promise<CooperativeResponseDto> {
+        return this.cooperativesService.findOne(id, user);
+    }
+
+
+    @Get(':id/summary')
+    @RequirePermissions(Permission.COOPERATIVE_READ)
+    @ApiOperation({
+        summary: 'Get a cooperative summary',
+        description: 'Members by role and activity, pending invitations and the conditions most often diagnosed ' +
+            'for members. Managers can only view cooperatives they oversee.',
+    })
+    @ApiParam({
+        name: 'id',
+        description: 'Cooperative ID',
+        example: '507f1f77bcf86cd799439011',
+    })
+    @ApiResponse({
+        status: HttpStatus.OK,
+        description: 'Summary retrieved successfully',
+        type: CooperativeSummaryResponseDto,
+    })
+    @ApiResponse({
+        status: HttpStatus.NOT_FOUND,
+        description: 'Cooperative not found',
+    })
+    @ApiResponse({
+        status: HttpStatus.FORBIDDEN,
+        description: 'cooperative:read permission required, or not a cooperative you oversee',
+    })
+    async getSummary(
+        @CurrentUser() user: JwtPayload,
+        @Param('id') id: string,
+    ): Promise<CooperativeSummaryResponseDto> {
+        return this.cooperativesService.getSummary(id, user);
+    }
+
+
+    @Patch(':id')
+    @RequirePermissions(Permission.COOPERATIVE_MANAGE)
+    @ApiOperation({
+        summary: 'Update a cooperative',
+        description: 'Contact, settings and quotas are merged into the stored values. Admin only.',
+    })
+    @ApiParam({
+        name: 'id',
+        description: 'Cooperative ID',
+        example: '507f1f77bcf86cd799439011',
+    })
+    @ApiResponse({
+        status: HttpStatus.OK,
+        description: 'Cooperative updated successfully',
+        type: CooperativeResponseDto,
+    })
+    @ApiResponse({
+        status: HttpStatus.NOT_FOUND,
+        description: 'Cooperative not found',
+    })
+    @ApiResponse({
+        status: HttpStatus.CONFLICT,
+        description: 'A cooperative with this name already exists',
+    })
+    async update(
+        @CurrentUser('sub') actorId: string,
+        @Param('id') id: string,
+        @Body() updateCooperativeDto: UpdateCooperativeDto,
+    ): Promise<CooperativeResponseDto> {
+        return this.cooperativesService.update(id, updateCooperativeDto, actorId);
+    }
+
+
+    @Delete(':id')
+    @RequirePermissions(Permission.COOPERATIVE_MANAGE)
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({
+        summary: 'Delete a cooperative',
+        description: 'Only cooperatives without members or pending invitations can be deleted; deactivate the others. Admin only.',
+    })
+    @ApiParam({
+        name: 'id',
+        description: 'Cooperative ID',
+        example: '507f1f77bcf86cd799439011',
+    })
+    @ApiResponse({
+        status: HttpStatus.OK,
+        description: 'Cooperative deleted successfully',
+    })
+    @ApiResponse({
+        status: HttpStatus.NOT_FOUND,
+        description: 'Cooperative not found',
+    })
+    @ApiResponse({
+        status: HttpStatus.CONFLICT,
+        description: 'Cooperative still has members or pending invitations',
+    })
+    async remove(
+        @CurrentUser('sub') actorId: string,
+        @Param('id') id: string,
+    ): Promise<{ message: string }> {
+        return this.cooperativesService.remove(id, actorId);
+    }
+
+
+    @Get(':id/members')
+    @RequirePermissions(Permission.COOPERATIVE_READ)
+    @ApiOperation({
+        summary: 'List members of a cooperative',
+        description: 'One page at a time; pass nextCursor from the response as cursor to fetch the following page. ' +
+            'Managers can only view cooperatives they oversee.',
+    })
+    @ApiParam({
+        name: 'id',
+        description: 'Cooperative ID',
+        example: '507f1f77bcf86cd799439011',
+    })
+    @ApiResponse({
+        status: HttpStatus.OK,
+        description: 'Members retrieved successfully',
+        type: PaginatedMembersResponseDto,
+    })
+    @ApiResponse({
+        status: HttpStatus.NOT_FOUND,
+        description: 'Cooperative not found',
+    })
+    @ApiResponse({
+        status: HttpStatus.FORBIDDEN,
+        description: 'cooperative:read permission required, or not a cooperative you oversee',
+    })
+    async findMembers(
+        @CurrentUser() user: JwtPayload,
+        @Param('id') id: string,
+        @Query() listMembersQueryDto: ListMembersQueryDto,
+    ): Promise<PaginatedMembersResponseDto> {
+        return this.cooperativesService.findMembers(id, user, listMembersQueryDto);
+    }
+
+
+    @Post(':id/members')
+    @RequirePermissions(Permission.COOPERATIVE_MANAGE)
+    @ApiOperation({
+        summary: 'Add a member to a cooperative',
+        description: 'Assign an existing user, moving them out of any other cooperative. They have to sign in again. Admin only.',
+    })
+    @ApiParam({
+        name: 'id',
+        description: 'Cooperative ID',
+        example: '507f1f77bcf86cd799439011',
+    })
+    @ApiResponse({
+        status: HttpStatus.CREATED,
+        description: 'Member added',
+        type: CooperativeMemberDto,
+    })
+    @ApiResponse({
+        status: HttpStatus.BAD_REQUEST,
+        description: 'Cooperative does not exist or is inactive',
+    })
+    @ApiResponse({
+        status: HttpStatus.NOT_FOUND,
+        description: 'User not found',
+    })
+    async addMember(
+        @CurrentUser('sub') actorId: string,
+        @Param('id') id: string,
+        @Body() addMemberDto: AddMemberDto,
+    ): Promise<CooperativeMemberDto> {
+        return this.cooperativesService.addMember(id, addMemberDto.userId, actorId);
+    }
+
+
+    @Delete(':id/members/:userId')
+    @RequirePermissions(Permission.COOPERATIVE_MANAGE)
+    @ApiOperation({
+        summary: 'Remove a member from a cooperative',
+        description: 'The user keeps their account without a cooperative and has to sign in again. Admin only.',
+    })
+    @ApiParam({
+        name: 'id',
+        description: 'Cooperative ID',
+        example: '507f1f77bcf86cd799439011',
+    })
+    @ApiParam({
+        name: 'userId',
+        description: 'User ID',
+        example: '507f1f77bcf86cd799439012',
+    })
+    @ApiResponse({
+        status: HttpStatus.OK,
+        description: 'Member removed successfully',
+    })
+    @ApiResponse({
+        status: HttpStatus.NOT_FOUND,
+        description: 'User is not a member of this cooperative',
+    })
+    async removeMember(
+        @CurrentUser('sub') actorId: string,
+        @Param('id') id: string,
+        @Param('userId') userId: string,
+    ): Promise<{ message: string }> {
+        return this.cooperativesService.removeMember(id, userId, actorId);
+    }
+}
@@ -0,0 +1,35 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { CooperativesController } from './cooperatives.controller';
+import { CooperativesService } from './cooperatives.service';
+import { Cooperative, CooperativeSchema } from './schemas/cooperative.schema';
+import { User, UserSchema } from '../users/schemas/user.schema';
+import { Invitation, InvitationSchema } from '../invitations/schemas/invitation.schema';
+import { Recommendation, RecommendationSchema } from '../recommendations/schemas/recommendation.schema';
+import { AuditModule } from '../audit/audit.module';
+import { PermissionsModule } from '../permissions/permissions.module';
+import { OrganisationsModule } from '../organisations/organisations.module';
+
+
+/**
+ * Cooperatives and their membership. Exports CooperativesService for the
+ * referential checks of modules that assign users to a cooperative.
+ */
+@Module({
+    imports: [
+        MongooseModule.forFeature([
+            { name: Cooperative.name, schema: CooperativeSchema },
+            { name: User.name, schema: UserSchema },
+            { name: Invitation.name, schema: InvitationSchema },
+            { name: Recommendation.name, schema: RecommendationSchema },
+        ]),
+
+        AuditModule,
+        PermissionsModule,
+        OrganisationsModule,
+    ],
+    controllers: [CooperativesController],
+    providers: [CooperativesService],
+    exports: [CooperativesService],
+})
+export class CooperativesModule { }
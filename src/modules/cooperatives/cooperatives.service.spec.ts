@@ -0,0 +1,115 @@
+import { BadRequestException, ConflictException, ForbiddenException, NotFoundException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { CooperativesService } from './cooperatives.service';
+import { UserRole } from '../../common/enums/user-role.enum';
+
+describe('CooperativesService', () => {
+  const cooperativeId = new Types.ObjectId().toString();
+  const otherCooperativeId = new Types.ObjectId().toString();
+  const manager = { sub: 'manager-1', roles: [UserRole.MANAGER], cooperativeId };
+
+  let cooperative: any;
+  let user: any;
+  let cooperativeModel: any;
+  let userModel: any;
+  let invitationModel: any;
+  let recommendationModel: any;
+  let auditService: { record: jest.Mock };
+  let service: CooperativesService;
+
+  beforeEach(() => {
+    cooperative = {
+      _id: new Types.ObjectId(cooperativeId),
+      name: 'Abahinzi ba Huye',
+      country: 'RW',
+      isActive: true,
+      deleteOne: jest.fn(),
+    };
+    user = {
+      _id: new Types.ObjectId(),
+      name: 'Jean',
+      roles: [UserRole.FARMER],
+      cooperativeId: otherCooperativeId,
+      tokenVersion: 2,
+      save: jest.fn(async () => user),
+    };
+    cooperativeModel = {
+      // A query that can be awaited directly or narrowed with select()
+      findById: jest.fn((id: string) => {
+        const found = id === cooperativeId ? cooperative : null;
+        return Object.assign(Promise.resolve(found), { select: jest.fn(async () => found) });
+      }),
+    };
+    userModel = {
+      findById: jest.fn(async () => user),
+      exists: jest.fn(async () => null),
+      countDocuments: jest.fn(async () => 3),
+      aggregate: jest.fn(async () => [{ _id: UserRole.FARMER, count: 3 }]),
+      distinct: jest.fn(async () => [user._id]),
+    };
+    invitationModel = {
+      exists: jest.fn(async () => null),
+      countDocuments: jest.fn(async () => 1),
+    };
+    recommendationModel = {
+      aggregate: jest.fn(async () => [{
+        total: [{ count: 7 }],
+        recent: [{ count: 2 }],
+        classifications: [{ _id: 'bean_rust', count: 4 }],
+      }]),
+    };
+    auditService = { record: jest.fn() };
+
+    service = new CooperativesService(
+      cooperativeModel, userModel, invitationModel, recommendationModel, auditService as any, {} as any,
+    );
+  });
+
+  it('should move a user into the cooperative and revoke their tokens', async () => {
+    const member = await service.addMember(cooperativeId, user._id.toString(), 'admin-1');
+
+    expect(member.id).toBe(user._id.toString());
+    expect(user.cooperativeId).toBe(cooperativeId);
+    expect(user.tokenVersion).toBe(3);
+    expect(auditService.record).toHaveBeenCalledWith(expect.objectContaining({
+      action: 'cooperatives.member_added',
+      details: { cooperativeId, previousCooperativeId: otherCooperativeId },
+    }));
+  });
+
+  it('should answer 404 for malformed user ids instead of querying them', async () => {
+    await expect(service.addMember(cooperativeId, 'not-an-id', 'admin-1')).rejects.toThrow(NotFoundException);
+    expect(userModel.findById).not.toHaveBeenCalled();
+  });
+
+  it('should not assign users to inactive or unknown cooperatives', async () => {
+    cooperative.isActive = false;
+
+    await expect(service.assertAssignable(cooperativeId)).rejects.toThrow(BadRequestException);
+    await expect(service.assertAssignable(otherCooperativeId)).rejects.toThrow(BadRequestException);
+    await expect(service.assertAssignable('coop-1')).rejects.toThrow(BadRequestException);
+  });
+
+  it('should summarise the manager\'s own cooperative', async () => {
+    const summary = await service.getSummary(cooperativeId, manager);
+
+    expect(summary.members).toEqual(expect.objectContaining({ total: 3, byRole: { farmer: 3 }, pendingInvitations: 1 }));
+    expect(summary.recommendations).toEqual({
+      total: 7,
+      last30Days: 2,
+      topClassifications: [{ classification: 'bean_rust', count: 4 }],
+    });
+    expect(recommendationModel.aggregate.mock.calls[0][0][0]).toEqual({ $match: { userId: { $in: [user._id.toString()] } } });
+  });
+
+  it('should not let managers see other cooperatives', async () => {
+    await expect(service.getSummary(otherCooperativeId, manager)).rejects.toThrow(ForbiddenException);
+  });
+
+  it('should refuse to delete a cooperative that still has members', async () => {
+    userModel.exists.mockResolvedValue({ _id: user._id });
+
+    await expect(service.remove(cooperativeId, 'admin-1')).rejects.toThrow(ConflictException);
+    expect(cooperative.deleteOne).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,434 @@
+import {
+    Injectable,
+    BadRequestException,
+    ConflictException,
+    ForbiddenException,
+    NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { FilterQuery, Model, isValidObjectId } from 'mongoose';
+import { Cooperative, CooperativeDocument } from './schemas/cooperative.schema';
+import { CreateCooperativeDto } from './dto/create-cooperative.dto';
+import { UpdateCooperativeDto } from './dto/update-cooperative.dto';
+import { ListCooperativesQueryDto } from './dto/list-cooperatives-query.dto';
+import { ListMembersQueryDto } from './dto/list-members-query.dto';
+import {
+    CooperativeMemberDto,
+    CooperativeResponseDto,
+    PaginatedMembersResponseDto,
+} from './dto/cooperative-response.dto';
+import { CooperativeSummaryResponseDto } from './dto/cooperative-summary-response.dto';
+import { resolveCooperativeScope } from './cooperative-scope';
+import { OrganisationsService } from '../organisations/organisations.service';
+import { User, UserDocument } from '../users/schemas/user.schema';
+import { Invitation, InvitationDocument, InvitationStatus } from '../invitations/schemas/invitation.schema';
+import { Recommendation, RecommendationDocument } from '../recommendations/schemas/recommendation.schema';
+import { AuditService } from '../audit/audit.service';
+import { JwtPayload } from '../../common/interfaces/jwt-payload.interface';
+
+
+const DEFAULT_MEMBERS_PAGE_SIZE = 50;
+const SUMMARY_WINDOW_MS = 30 * 24 * 60 * 60 * 1000;
+const TOP_CLASSIFICATIONS = 5;
+
+
+@Injectable()
+export class CooperativesService {
+    constructor(
+        @InjectModel(Cooperative.name) private cooperativeModel: Model<CooperativeDocument>,
+        @InjectModel(User.name) private userModel: Model<UserDocument>,
+        @InjectModel(Invitation.name) private invitationModel: Model<InvitationDocument>,
+        @InjectModel(Recommendation.name) private recommendationModel: Model<RecommendationDocument>,
+        private auditService: AuditService,
+        private organisationsService: OrganisationsService,
+    ) { }
+
+
+    async create(createCooperativeDto: CreateCooperativeDto, actorId: string): Promise<CooperativeResponseDto> {
+        const organisationPath = createCooperativeDto.organisationId
+            ? await this.organisationsService.resolveCooperativePath(createCooperativeDto.organisationId)
+            : [];
+        let cooperative: CooperativeDocument;
+
+        try {
+            cooperative = await this.cooperativeModel.create({ ...createCooperativeDto, organisationPath });
+        } catch (error) {
+            throw this.toConflict(error);
+        }
+
+        await this.auditService.record({
+            action: 'cooperatives.created',
+            actorId,
+            details: { cooperativeId: cooperative._id.toString(), name: cooperative.name },
+        });
+
+        return this.toResponseDto(cooperative);
+    }
+
+
+    /**
+     * Cooperatives by name. Managers only see the cooperatives they oversee.
+     */
+    async findAll(
+        listCooperativesQueryDto: ListCooperativesQueryDto = {},
+        currentUser?: JwtPayload,
+    ): Promise<CooperativeResponseDto[]> {
+        const { search, country, district, organisationId, isActive } = listCooperativesQueryDto;
+        const scope = resolveCooperativeScope(currentUser);
+        const filter: FilterQuery<CooperativeDocument> = {};
+
+        if (scope) {
+            filter._id = { $in: scope };
+        }
+
+        if (search?.trim()) {
+            filter.name = { $regex: search.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), $options: 'i' };
+        }
+
+        if (country) {
+            filter.country = country.toUpperCase();
+        }
+
+        if (district) {
+            filter.district = district;
+        }
+
+        if (organisationId) {
+            filter.organisationPath = organisationId;
+        }
+
+        if (isActive !== undefined) {
+            filter.isActive = isActive;
+        }
+
+        const cooperatives = await this.cooperativeModel.find(filter).sort({ name: 1 });
+
+        return cooperatives.map((cooperative) => this.toResponseDto(cooperative));
+    }
+
+
+    /**
+     * A cooperative by ID. Managers can only see those they oversee.
+     */
+    async findOne(id: string, currentUser?: JwtPayload): Promise<CooperativeResponseDto> {
+        return this.toResponseDto(await this.findVisible(id, currentUser));
+    }
+
+
+    async update(id: string, updateCooperativeDto: UpdateCooperativeDto, actorId: string): Promise<CooperativeResponseDto> {
+        const cooperative = await this.findById(id);
+        const { contact, settings, quotas, ...changes } = updateCooperativeDto;
+
+        if (changes.organisationId && changes.organisationId !== cooperative.organisationId) {
+            cooperative.organisationPath = await this.organisationsService.resolveCooperativePath(changes.organisationId);
+        }
+
+        cooperative.set(changes);
+
+        if (contact) {
+            cooperative.set('contact', { ...cooperative.toObject().contact, ...contact });
+        }
+
+        if (settings) {
+            cooperative.set('settings', { ...cooperative.toObject().settings, ...settings });
+        }
+
+        if (quotas) {
+            cooperative.set('quotas', { ...cooperative.toObject().quotas, ...quotas });
+        }
+
+        try {
+            await cooperative.save();
+        } catch (error) {
+            throw this.toConflict(error);
+        }
+
+        await this.auditService.record({
+            action: 'cooperatives.updated',
+            actorId,
+            details: { cooperativeId: id, fields: Object.keys(updateCooperativeDto) },
+        });
+
+        return this.toResponseDto(cooperative);
+    }
+
+
+    /**
+     * Delete a cooperative that no longer has members or pending invitations.
+     * Deactivate it instead to keep its history.
+     */
+    async remove(id: string, actorId: string): Promise<{ message: string }> {
+        const cooperative = await this.findById(id);
+
+        const [hasMembers, hasInvitations] = await Promise.all([
+            this.userModel.exists({ cooperativeId: id }),
+            this.invitationModel.exists({ cooperativeId: id, status: InvitationStatus.PENDING }),
+        ]);
+
+        if (hasMembers || hasInvitations) {
+            throw new ConflictException('Cooperative still has members or pending invitations; deactivate it instead');
+        }
+
+        await cooperative.deleteOne();
+
+        await this.auditService.record({
+            action: 'cooperatives.deleted',
+            actorId,
+            details: { cooperativeId: id, name: cooperative.name },
+        });
+
+        return { message: 'Cooperative deleted successfully' };
+    }
+
+
+    /**
+     * Members ordered by ID, one page at a time. Use GET /users with the
+     * cooperativeId filter to search and sort them.
+     */
+    async findMembers(
+        id: string,
+        currentUser: JwtPayload,
+        listMembersQueryDto: ListMembersQueryDto = {},
+    ): Promise<PaginatedMembersResponseDto> {
+        await this.findVisible(id, currentUser);
+
+        const { limit = DEFAULT_MEMBERS_PAGE_SIZE, cursor } = listMembersQueryDto;
+
+        if (cursor && !isValidObjectId(cursor)) {
+            throw new BadRequestException('Invalid cursor');
+        }
+
+        const [members, total] = await Promise.all([
+            this.userModel
+                .find({ cooperativeId: id, ...(cursor && { _id: { $gt: cursor } }) })
+                .sort({ _id: 1 })
+                .limit(limit + 1),
+            this.userModel.countDocuments({ cooperativeId: id }),
+        ]);
+
+        const hasMore = members.length > limit;
+        const items = hasMore ? members.slice(0, limit) : members;
+
+        return {
+            items: items.map((member) => this.toMemberDto(member)),
+            nextCursor: hasMore ? items[items.length - 1]._id.toString() : null,
+            total,
+        };
+    }
+
+
+    /**
+     * Assign a user to the cooperative, moving them out of any other. Their
+     * tokens are revoked because they carry the cooperative.
+     */
+    async addMember(id: string, userId: string, actorId: string): Promise<CooperativeMemberDto> {
+        await this.assertAssignable(id);
+
+        const user = isValidObjectId(userId) ? await this.userModel.findById(userId) : null;
+
+        if (!user) {
+            throw new NotFoundException('User not found');
+        }
+
+        if (user.cooperativeId === id) {
+            return this.toMemberDto(user);
+        }
+
+        const previousCooperativeId = user.cooperativeId;
+
+        user.cooperativeId = id;
+        user.tokenVersion = (user.tokenVersion ?? 0) + 1;
+        await user.save();
+
+        await this.auditService.record({
+            action: 'cooperatives.member_added',
+            userId,
+            actorId,
+            details: { cooperativeId: id, previousCooperativeId },
+        });
+
+        return this.toMemberDto(user);
+    }
+
+
+    async removeMember(id: string, userId: string, actorId: string): Promise<{ message: string }> {
+        const user = isValidObjectId(userId) ? await this.userModel.findOne({ _id: userId, cooperativeId: id }) : null;
+
+        if (!user) {
+            throw new NotFoundException('User is not a member of this cooperative');
+        }
+
+        user.cooperativeId = undefined;
+        user.tokenVersion = (user.tokenVersion ?? 0) + 1;
+        await user.save();
+
+        await this.auditService.record({
+            action: 'cooperatives.member_removed',
+            userId,
+            actorId,
+            details: { cooperativeId: id },
+        });
+
+        return { message: 'Member removed successfully' };
+    }
+
+
+    /**
+     * Membership and activity at a glance, for the cooperative's managers
+     */
+    async getSummary(id: string, currentUser: JwtPayload): Promise<CooperativeSummaryResponseDto> {
+        const cooperative = await this.findVisible(id, currentUser);
+        const since = new Date(Date.now() - SUMMARY_WINDOW_MS);
+        const members = { cooperativeId: id };
+
+        const [total, active, byRole, joinedLast30Days, activeLast30Days, pendingInvitations, memberIds] = await Promise.all([
+            this.userModel.countDocuments(members),
+            this.userModel.countDocuments({ ...members, isActive: true }),
+            this.userModel.aggregate([
+                { $match: members },
+                { $unwind: '$roles' },
+                { $group: { _id: '$roles', count: { $sum: 1 } } },
+            ]),
+            this.userModel.countDocuments({ ...members, createdAt: { $gte: since } }),
+            this.userModel.countDocuments({ ...members, lastLoginAt: { $gte: since } }),
+            this.invitationModel.countDocuments({
+                cooperativeId: id,
+                status: InvitationStatus.PENDING,
+                expiresAt: { $gt: new Date() },
+            }),
+            this.userModel.distinct('_id', members),
+        ]);
+
+        const userIds = memberIds.map((memberId) => memberId.toString());
+
+        const [recommendationTotals] = await this.recommendationModel.aggregate([
+            { $match: { userId: { $in: userIds } } },
+            {
+                $facet: {
+                    total: [{ $count: 'count' }],
+                    recent: [{ $match: { createdAt: { $gte: since } } }, { $count: 'count' }],
+                    classifications: [
+                        { $group: { _id: '$imageClassification', count: { $sum: 1 } } },
+                        { $sort: { count: -1, _id: 1 } },
+                        { $limit: TOP_CLASSIFICATIONS },
+                    ],
+                },
+            },
+        ]);
+
+        return {
+            cooperative: this.toResponseDto(cooperative),
+            members: {
+                total,
+                active,
+                inactive: total - active,
+                byRole: byRole.reduce((acc, item) => ({ ...acc, [item._id]: item.count }), {}),
+                joinedLast30Days,
+                activeLast30Days,
+                pendingInvitations,
+            },
+            recommendations: {
+                total: recommendationTotals?.total[0]?.count ?? 0,
+                last30Days: recommendationTotals?.recent[0]?.count ?? 0,
+                topClassifications: (recommendationTotals?.classifications ?? []).map((item) => ({
+                    classification: item._id,
+                    count: item.count,
+                })),
+            },
+        };
+    }
+
+
+    /**
+     * Referential check for anything that assigns users to a cooperative
+     */
+    async assertAssignable(cooperativeId: string): Promise<void> {
+        const cooperative = isValidObjectId(cooperativeId)
+            ? await this.cooperativeModel.findById(cooperativeId).select('isActive')
+            : null;
+
+        if (!cooperative) {
+            throw new BadRequestException(`Cooperative ${cooperativeId} does not exist`);
+        }
+
+        if (!cooperative.isActive) {
+            throw new BadRequestException(`Cooperative ${cooperativeId} is inactive and cannot take on new members`);
+        }
+    }
+
+
+    /**
+     * The given IDs that belong to active cooperatives, for checking many assignments at once
+     */
+    async findAssignableIds(cooperativeIds: string[]): Promise<Set<string>> {
+        const validIds = [...new Set(cooperativeIds)].filter((id) => isValidObjectId(id));
+
+        if (!validIds.length) {
+            return new Set();
+        }
+
+        const cooperatives = await this.cooperativeModel.find({ _id: { $in: validIds }, isActive: true }).select('_id');
+
+        return new Set(cooperatives.map((cooperative) => cooperative._id.toString()));
+    }
+
+
+    private async findById(id: string): Promise<CooperativeDocument> {
+        const cooperative = isValidObjectId(id) ? await this.cooperativeModel.findById(id) : null;
+
+        if (!cooperative) {
+            throw new NotFoundException('Cooperative not found');
+        }
+
+        return cooperative;
+    }
+
+
+    private async findVisible(id: string, currentUser?: JwtPayload): Promise<CooperativeDocument> {
+        const scope = resolveCooperativeScope(currentUser);
+
+        if (scope && !scope.includes(id)) {
+            throw new ForbiddenException('Access denied: You can only view cooperatives you oversee');
+        }
+
+        return this.findById(id);
+    }
+
+
+    private toConflict(error: any): Error {
+        return error?.code === 11000 ? new ConflictException('A cooperative with this name already exists') : error;
+    }
+
+
+    private toResponseDto(cooperative: CooperativeDocument): CooperativeResponseDto {
+        return {
+            id: cooperative._id.toString(),
+            name: cooperative.name,
+            country: cooperative.country,
+            region: cooperative.region,
+            district: cooperative.district,
+            organisationId: cooperative.organisationId,
+            organisationPath: cooperative.organisationPath ?? [],
+            contact: cooperative.contact,
+            settings: cooperative.settings,
+            quotas: cooperative.quotas ?? {},
+            isActive: cooperative.isActive,
+            createdAt: cooperative.createdAt,
+            updatedAt: cooperative.updatedAt,
+        };
+    }
+
+
+    private toMemberDto(user: UserDocument): CooperativeMemberDto {
+        return {
+            id: user._id.toString(),
+            name: user.name,
+            email: user.email,
+            phone: user.phone,
+            roles: user.roles,
+            isActive: user.isActive,
+            lastLoginAt: user.lastLoginAt,
+            createdAt: user.createdAt,
+        };
+    }
+}
@@ -0,0 +1,12 @@
+import { IsMongoId } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+
+export class AddMemberDto {
+    @ApiProperty({
+        description: 'ID of the user to add. A user in another cooperative is moved.',
+        example: '507f1f77bcf86cd799439011',
+    })
+    @IsMongoId()
+    userId: string;
+}
@@ -0,0 +1,91 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { CooperativeContactDto, CooperativeQuotasDto, CooperativeSettingsDto } from './create-cooperative.dto';
+import { UserRole } from '../../../common/enums/user-role.enum';
+
+
+export class CooperativeResponseDto {
+    @ApiProperty({ description: 'Cooperative ID', example: '507f1f77bcf86cd799439011' })
+    id: string;
+
+    @ApiProperty({ description: 'Cooperative name', example: 'Abahinzi ba Huye' })
+    name: string;
+
+    @ApiProperty({ description: 'ISO 3166-1 alpha-2 country code', example: 'RW' })
+    country: string;
+
+    @ApiPropertyOptional({ description: 'Region or province', example: 'Southern Province' })
+    region?: string;
+
+    @ApiPropertyOptional({ description: 'District', example: 'Huye' })
+    district?: string;
+
+    @ApiPropertyOptional({ description: 'District office the cooperative reports to', example: '507f1f77bcf86cd799439013' })
+    organisationId?: string;
+
+    @ApiProperty({
+        description: 'Organisations above the cooperative, region first',
+        example: ['507f1f77bcf86cd799439014', '507f1f77bcf86cd799439013'],
+    })
+    organisationPath: string[];
+
+    @ApiProperty({ description: 'Contact details', type: CooperativeContactDto })
+    contact: CooperativeContactDto;
+
+    @ApiProperty({ description: 'Cooperative settings', type: CooperativeSettingsDto })
+    settings: CooperativeSettingsDto;
+
+    @ApiProperty({ description: 'Monthly usage quotas', type: CooperativeQuotasDto })
+    quotas: CooperativeQuotasDto;
+
+    @ApiProperty({ description: 'Whether new members can join', example: true })
+    isActive: boolean;
+
+    @ApiProperty({ description: 'Creation timestamp' })
+    createdAt: Date;
+
+    @ApiProperty({ description: 'Last update timestamp' })
+    updatedAt: Date;
+}
+
+
+export class CooperativeMemberDto {
+    @ApiProperty({ description: 'User ID', example: '507f1f77bcf86cd799439011' })
+    id: string;
+
+    @ApiProperty({ description: 'Full name', example: 'Jean Uwimana' })
+    name: string;
+
+    @ApiPropertyOptional({ description: 'Email address', example: 'jean@example.com' })
+    email?: string;
+
+    @ApiPropertyOptional({ description: 'Phone number', example: '+250788123456' })
+    phone?: string;
+
+    @ApiProperty({ description: 'Roles', enum: UserRole, isArray: true })
+    roles: UserRole[];
+
+    @ApiProperty({ description: 'Whether the account is active', example: true })
+    isActive: boolean;
+
+    @ApiPropertyOptional({ description: 'Last login timestamp' })
+    lastLoginAt?: Date;
+
+    @ApiProperty({ description: 'Creation timestamp' })
+    createdAt: Date;
+}
+
+
+export class PaginatedMembersResponseDto {
+    @ApiProperty({ description: 'Members on this page', type: [CooperativeMemberDto] })
+    items: CooperativeMemberDto[];
+
+    @ApiProperty({
+        description: 'Cursor for the next page, or null on the last page',
+        example: '507f1f77bcf86cd799439011',
+        nullable: true,
+    })
+    nextCursor: string | null;
+
+    @ApiProperty({ description: 'Number of members', example: 248 })
+    total: number;
+}
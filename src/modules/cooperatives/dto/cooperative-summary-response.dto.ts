@@ -0,0 +1,59 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { CooperativeResponseDto } from './cooperative-response.dto';
+
+
+export class CooperativeMemberStatsDto {
+    @ApiProperty({ description: 'All members', example: 248 })
+    total: number;
+
+    @ApiProperty({ description: 'Members with an active account', example: 240 })
+    active: number;
+
+    @ApiProperty({ description: 'Members with a deactivated account', example: 8 })
+    inactive: number;
+
+    @ApiProperty({ description: 'Members per role', example: { farmer: 245, manager: 3 } })
+    byRole: Record<string, number>;
+
+    @ApiProperty({ description: 'Members who joined in the last 30 days', example: 12 })
+    joinedLast30Days: number;
+
+    @ApiProperty({ description: 'Members who signed in during the last 30 days', example: 180 })
+    activeLast30Days: number;
+
+    @ApiProperty({ description: 'Invitations waiting to be accepted', example: 5 })
+    pendingInvitations: number;
+}
+
+
+export class ClassificationCountDto {
+    @ApiProperty({ description: 'Detected condition', example: 'angular_leaf_spot' })
+    classification: string;
+
+    @ApiProperty({ description: 'Number of recommendations', example: 40 })
+    count: number;
+}
+
+
+export class CooperativeRecommendationStatsDto {
+    @ApiProperty({ description: 'Recommendations generated for members', example: 620 })
+    total: number;
+
+    @ApiProperty({ description: 'Of which in the last 30 days', example: 85 })
+    last30Days: number;
+
+    @ApiProperty({ description: 'Most frequent conditions, most common first', type: [ClassificationCountDto] })
+    topClassifications: ClassificationCountDto[];
+}
+
+
+export class CooperativeSummaryResponseDto {
+    @ApiProperty({ type: CooperativeResponseDto })
+    cooperative: CooperativeResponseDto;
+
+    @ApiProperty({ type: CooperativeMemberStatsDto })
+    members: CooperativeMemberStatsDto;
+
+    @ApiProperty({ type: CooperativeRecommendationStatsDto })
+    recommendations: CooperativeRecommendationStatsDto;
+}
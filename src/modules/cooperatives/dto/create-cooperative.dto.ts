@@ -0,0 +1,168 @@
+import {
+    IsString,
+    IsEmail,
+    IsEnum,
+    IsOptional,
+    IsTimeZone,
+    IsInt,
+    Min,
+    Matches,
+    MinLength,
+    MaxLength,
+    ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Language } from '../../../common/enums/language.enum';
+
+
+export class CooperativeContactDto {
+    @ApiPropertyOptional({
+        description: 'Contact person',
+        example: 'Marie Mukamana',
+        maxLength: 100,
+    })
+    @IsOptional()
+    @IsString()
+    @MaxLength(100)
+    name?: string;
+
+    @ApiPropertyOptional({
+        description: 'Contact email address',
+        example: 'info@abahinzi.rw',
+    })
+    @IsOptional()
+    @IsEmail()
+    email?: string;
+
+    @ApiPropertyOptional({
+        description: 'Contact phone number in E.164 format',
+        example: '+250788123456',
+    })
+    @IsOptional()
+    @IsString()
+    @Matches(/^\+[1-9]\d{7,14}$/, { message: 'Phone number must be in E.164 format (e.g. +250788123456)' })
+    phone?: string;
+}
+
+
+export class CooperativeSettingsDto {
+    @ApiPropertyOptional({
+        description: 'Language for members who have not chosen one',
+        enum: Language,
+        default: Language.ENGLISH,
+    })
+    @IsOptional()
+    @IsEnum(Language)
+    defaultLanguage?: Language;
+
+    @ApiPropertyOptional({
+        description: 'IANA time zone of the cooperative',
+        example: 'Africa/Kigali',
+    })
+    @IsOptional()
+    @IsTimeZone()
+    timezone?: string;
+}
+
+
+export class CooperativeQuotasDto {
+    @ApiPropertyOptional({
+        description: 'Images that can be classified per calendar month (UTC), batches included. 0 means unlimited; ' +
+            'leave out to use the default.',
+        example: 5000,
+        minimum: 0,
+    })
+    @IsOptional()
+    @IsInt()
+    @Min(0)
+    classificationsPerMonth?: number;
+
+    @ApiPropertyOptional({
+        description: 'AI recommendations that can be generated per calendar month (UTC). 0 means unlimited; ' +
+            'leave out to use the default.',
+        example: 1000,
+        minimum: 0,
+    })
+    @IsOptional()
+    @IsInt()
+    @Min(0)
+    recommendationsPerMonth?: number;
+}
+
+
+export class CreateCooperativeDto {
+    @ApiProperty({
+        description: 'Cooperative name, unique',
+        example: 'Abahinzi ba Huye',
+        minLength: 2,
+        maxLength: 150,
+    })
+    @IsString()
+    @MinLength(2)
+    @MaxLength(150)
+    name: string;
+
+    @ApiProperty({
+        description: 'ISO 3166-1 alpha-2 country code',
+        example: 'RW',
+    })
+    @IsString()
+    @Matches(/^[A-Za-z]{2}$/, { message: 'country must be an ISO 3166-1 alpha-2 code (e.g. RW)' })
+    country: string;
+
+    @ApiPropertyOptional({
+        description: 'Region or province',
+        example: 'Southern Province',
+        maxLength: 100,
+    })
+    @IsOptional()
+    @IsString()
+    @MaxLength(100)
+    region?: string;
+
+    @ApiPropertyOptional({
+        description: 'District',
+        example: 'Huye',
+        maxLength: 100,
+    })
+    @IsOptional()
+    @IsString()
+    @MaxLength(100)
+    district?: string;
+
+    @ApiPropertyOptional({
+        description: 'ID of the district office the cooperative reports to',
+        example: '507f1f77bcf86cd799439013',
+    })
+    @IsOptional()
+    @IsString()
+    organisationId?: string;
+
+    @ApiPropertyOptional({
+        description: 'Contact details',
+        type: CooperativeContactDto,
+    })
+    @IsOptional()
+    @ValidateNested()
+    @Type(() => CooperativeContactDto)
+    contact?: CooperativeContactDto;
+
+    @ApiPropertyOptional({
+        description: 'Cooperative settings',
+        type: CooperativeSettingsDto,
+    })
+    @IsOptional()
+    @ValidateNested()
+    @Type(() => CooperativeSettingsDto)
+    settings?: CooperativeSettingsDto;
+
+    @ApiPropertyOptional({
+        description: 'Monthly usage quotas',
+        type: CooperativeQuotasDto,
+    })
+    @IsOptional()
+    @ValidateNested()
+    @Type(() => CooperativeQuotasDto)
+    quotas?: CooperativeQuotasDto;
+}
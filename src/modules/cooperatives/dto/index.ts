@@ -0,0 +1,7 @@
+export * from './create-cooperative.dto';
+export * from './update-cooperative.dto';
+export * from './list-cooperatives-query.dto';
+export * from './list-members-query.dto';
+export * from './add-member.dto';
+export * from './cooperative-response.dto';
+export * from './cooperative-summary-response.dto';
@@ -0,0 +1,51 @@
+import { IsString, IsOptional, IsBoolean, MaxLength } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+
+
+/**
+ * Query parameters for GET /cooperatives
+ */
+export class ListCooperativesQueryDto {
+    @ApiPropertyOptional({
+        description: 'Case-insensitive match anywhere in the name',
+        example: 'huye',
+    })
+    @IsOptional()
+    @IsString()
+    @MaxLength(100)
+    search?: string;
+
+    @ApiPropertyOptional({
+        description: 'Filter by ISO 3166-1 alpha-2 country code',
+        example: 'RW',
+    })
+    @IsOptional()
+    @IsString()
+    country?: string;
+
+    @ApiPropertyOptional({
+        description: 'Filter by district',
+        example: 'Huye',
+    })
+    @IsOptional()
+    @IsString()
+    district?: string;
+
+    @ApiPropertyOptional({
+        description: 'Only cooperatives below this region or district',
+        example: '507f1f77bcf86cd799439013',
+    })
+    @IsOptional()
+    @IsString()
+    organisationId?: string;
+
+    @ApiPropertyOptional({
+        description: 'Filter by active status',
+    })
+    @IsOptional()
+    // Implicit conversion would turn the string "false" into true
+    @Transform(({ obj, key }) => obj[key] === true || obj[key] === 'true')
+    @IsBoolean()
+    isActive?: boolean;
+}
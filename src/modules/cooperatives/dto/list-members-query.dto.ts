@@ -0,0 +1,29 @@
+import { IsString, IsOptional, IsInt, Min, Max } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+
+
+/**
+ * Query parameters for GET /cooperatives/:id/members
+ */
+export class ListMembersQueryDto {
+    @ApiPropertyOptional({
+        description: 'Page size',
+        default: 50,
+        minimum: 1,
+        maximum: 200,
+    })
+    @IsOptional()
+    @Type(() => Number)
+    @IsInt()
+    @Min(1)
+    @Max(200)
+    limit?: number;
+
+    @ApiPropertyOptional({
+        description: 'nextCursor from the previous page',
+    })
+    @IsOptional()
+    @IsString()
+    cursor?: string;
+}
@@ -0,0 +1,18 @@
+import { IsBoolean, IsOptional } from 'class-validator';
+import { ApiPropertyOptional, PartialType } from '@nestjs/swagger';
+import { CreateCooperativeDto } from './create-cooperative.dto';
+
+
+/**
+ * DTO for updating a cooperative. Contact, settings and quotas are merged
+ * into the stored values, so they can be changed one field at a time.
+ */
+export class UpdateCooperativeDto extends PartialType(CreateCooperativeDto) {
+    @ApiPropertyOptional({
+        description: 'Inactive cooperatives keep their members but cannot take on new ones',
+        example: true,
+    })
+    @IsOptional()
+    @IsBoolean()
+    isActive?: boolean;
+}
@@ -0,0 +1,101 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import { Language } from '../../../common/enums/language.enum';
+
+export type CooperativeDocument = Cooperative & Document;
+
+
+@Schema({ _id: false })
+export class CooperativeContact {
+    @Prop({ required: false, trim: true })
+    name?: string;
+
+    @Prop({ required: false, lowercase: true, trim: true })
+    email?: string;
+
+    // E.164, e.g. +250788123456
+    @Prop({ required: false, trim: true })
+    phone?: string;
+}
+
+export const CooperativeContactSchema = SchemaFactory.createForClass(CooperativeContact);
+
+
+@Schema({ _id: false })
+export class CooperativeSettings {
+    // Used for members who have not chosen a language themselves
+    @Prop({ type: String, enum: Object.values(Language), default: Language.ENGLISH })
+    defaultLanguage: Language;
+
+    @Prop({ required: false })
+    timezone?: string;
+}
+
+export const CooperativeSettingsSchema = SchemaFactory.createForClass(CooperativeSettings);
+
+
+// Monthly limits; unset falls back to the configured defaults and 0 means unlimited
+@Schema({ _id: false })
+export class CooperativeQuotas {
+    @Prop({ required: false, min: 0 })
+    classificationsPerMonth?: number;
+
+    @Prop({ required: false, min: 0 })
+    recommendationsPerMonth?: number;
+}
+
+export const CooperativeQuotasSchema = SchemaFactory.createForClass(CooperativeQuotas);
+
+
+/**
+ * A farmers' cooperative. Users belong to at most one, through their
+ * `cooperativeId`, which holds the cooperative's ID. Cooperatives report
+ * to a district, which reports to a region.
+ */
+@Schema({
+    timestamps: true,
+    collection: 'cooperatives',
+})
+export class Cooperative {
+    @Prop({ required: true, trim: true, unique: true })
+    name: string;
+
+    // ISO 3166-1 alpha-2, e.g. RW
+    @Prop({ required: true, uppercase: true, trim: true })
+    country: string;
+
+    @Prop({ required: false, trim: true })
+    region?: string;
+
+    @Prop({ required: false, trim: true })
+    district?: string;
+
+    // The district office the cooperative reports to
+    @Prop({ required: false, index: true })
+    organisationId?: string;
+
+    // The district and the organisations above it, top first, for rolling up whole subtrees
+    @Prop({ type: [String], default: [], index: true })
+    organisationPath: string[];
+
+    @Prop({ type: CooperativeContactSchema, default: {} })
+    contact: CooperativeContact;
+
+    @Prop({ type: CooperativeSettingsSchema, default: {} })
+    settings: CooperativeSettings;
+
+    @Prop({ type: CooperativeQuotasSchema, default: {} })
+    quotas: CooperativeQuotas;
+
+    // Inactive cooperatives keep their members but cannot take on new ones
+    @Prop({ default: true })
+    isActive: boolean;
+
+    createdAt: Date;
+
+    updatedAt: Date;
+}
+
+export const CooperativeSchema = SchemaFactory.createForClass(Cooperative);
+
+CooperativeSchema.index({ country: 1, district: 1 });
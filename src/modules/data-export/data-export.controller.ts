@@ -0,0 +1,143 @@
+import {
+    Controller,
+    Get,
+    Post,
+    Param,
+    Query,
+    UseGuards,
+    HttpCode,
+    HttpStatus,
+    Ip,
+    StreamableFile,
+} from '@nestjs/common';
+import {
+    ApiTags,
+    ApiOperation,
+    ApiResponse,
+    ApiBearerAuth,
+    ApiParam,
+    ApiProduces,
+} from '@nestjs/swagger';
+import { DataExportService } from './data-export.service';
+import { DataExportResponseDto } from './dto/data-export-response.dto';
+import { DownloadDataExportQueryDto } from './dto/download-data-export-query.dto';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../../common/guards/permissions.guard';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { NotWhileImpersonating } from '../../common/decorators/not-while-impersonating.decorator';
+import { Public } from '../../common/decorators/public.decorator';
+
+
+@ApiTags('Users')
+@ApiBearerAuth()
+@Controller('users/me/data-export')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@NotWhileImpersonating()
+export class DataExportController {
+    constructor(private readonly dataExportService: DataExportService) { }
+
+
+    @Post()
+    @HttpCode(HttpStatus.ACCEPTED)
+    @ApiOperation({
+        summary: 'Request a copy of your data',
+        description: 'Queue a ZIP archive of JSON and CSV files with your profile, classification history, ' +
+            'recommendations, feedback, sessions, API keys and audit log. A time-limited download link is sent by ' +
+            'email (or SMS) once it is ready and is also returned by GET /users/me/data-export/{id}.',
+    })
+    @ApiResponse({
+        status: HttpStatus.ACCEPTED,
+        description: 'Export queued',
+        type: DataExportResponseDto,
+    })
+    @ApiResponse({
+        status: HttpStatus.CONFLICT,
+        description: 'An export is already in progress',
+    })
+    @ApiResponse({
+        status: HttpStatus.FORBIDDEN,
+        description: 'Not available while impersonating a user',
+    })
+    async request(
+        @CurrentUser('sub') userId: string,
+        @Ip() ip: string,
+    ): Promise<DataExportResponseDto> {
+        return this.dataExportService.request(userId, ip);
+    }
+
+
+    @Get()
+    @ApiOperation({
+        summary: 'List your data exports',
+        description: 'Exports that have not expired yet, newest first.',
+    })
+    @ApiResponse({
+        status: HttpStatus.OK,
+        description: 'Data exports',
+        type: [DataExportResponseDto],
+    })
+    async findAll(@CurrentUser('sub') userId: string): Promise<DataExportResponseDto[]> {
+        return this.dataExportService.findAllForUser(userId);
+    }
+
+
+    @Get('download')
+    @Public()
+    @ApiProduces('application/zip')
+    @ApiOperation({
+        summary: 'Download a data export',
+        description: 'Download the ZIP archive through the signed link from the export. No sign-in is needed; ' +
+            'the link expires together with the archive.',
+    })
+    @ApiResponse({
+        status: HttpStatus.OK,
+        description: 'ZIP archive',
+    })
+    @ApiResponse({
+        status: HttpStatus.BAD_REQUEST,
+        description: 'Invalid or expired download link',
+    })
+    @ApiResponse({
+        status: HttpStatus.GONE,
+        description: 'The export has expired',
+    })
+    async download(
+        @Query() downloadDataExportQueryDto: DownloadDataExportQueryDto,
+        @Ip() ip: string,
+    ): Promise<StreamableFile> {
+        const { filename, archive } = await this.dataExportService.download(downloadDataExportQueryDto.token, ip);
+
+        return new StreamableFile(archive, {
+            type: 'application/zip',
+            disposition: `attachment; filename="${filename}"`,
+            length: archive.length,
+        });
+    }
+
+
+    @Get(':id')
+    @ApiOperation({
+        summary: 'Get data export status',
+        description: 'Status of an export, with a fresh download link once it is ready.',
+    })
+    @ApiParam({
+        name: 'id',
+        description: 'Export ID',
+        example: '507f1f77bcf86cd799439011',
+    })
+    @ApiResponse({
+        status: HttpStatus.OK,
+        description: 'Data export',
+        type: DataExportResponseDto,
+    })
+    @ApiResponse({
+        status: HttpStatus.NOT_FOUND,
+        description: 'Data export not found',
+    })
+    async findOne(
+        @CurrentUser('sub') userId: string,
+        @Param('id') id: string,
+    ): Promise<DataExportResponseDto> {
+        return this.dataExportService.findOneForUser(userId, id);
+    }
+}
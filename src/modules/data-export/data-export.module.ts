@@ -0,0 +1,41 @@
+import { Module } from '@nestjs/common';
+import { JwtModule } from '@nestjs/jwt';
+import { MongooseModule } from '@nestjs/mongoose';
+import { DataExportController } from './data-export.controller';
+import { DataExportService } from './data-export.service';
+import { DataExport, DataExportSchema } from './schemas/data-export.schema';
+import { User, UserSchema } from '../users/schemas/user.schema';
+import { Recommendation, RecommendationSchema } from '../recommendations/schemas/recommendation.schema';
+import { Session, SessionSchema } from '../auth/schemas/session.schema';
+import { ApiKey, ApiKeySchema } from '../api-keys/schemas/api-key.schema';
+import { AuditModule } from '../audit/audit.module';
+import { MailModule } from '../mail/mail.module';
+import { SmsModule } from '../sms/sms.module';
+import { PermissionsModule } from '../permissions/permissions.module';
+
+
+/**
+ * Personal data exports: a downloadable copy of everything stored about a user
+ */
+@Module({
+    imports: [
+        // Download links are signed with their own secret, passed per call
+        JwtModule.register({}),
+
+        MongooseModule.forFeature([
+            { name: DataExport.name, schema: DataExportSchema },
+            { name: User.name, schema: UserSchema },
+            { name: Recommendation.name, schema: RecommendationSchema },
+            { name: Session.name, schema: SessionSchema },
+            { name: ApiKey.name, schema: ApiKeySchema },
+        ]),
+
+        AuditModule,
+        MailModule,
+        SmsModule,
+        PermissionsModule,
+    ],
+    controllers: [DataExportController],
+    providers: [DataExportService],
+})
+export class DataExportModule { }
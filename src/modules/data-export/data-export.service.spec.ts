@@ -0,0 +1,105 @@
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { Types } from 'mongoose';
+import { DataExportService } from './data-export.service';
+import { DataExportStatus } from './schemas/data-export.schema';
+
+describe('DataExportService', () => {
+  const userId = new Types.ObjectId().toString();
+  const jwtService = new JwtService({});
+  const configService = new ConfigService({
+    publicApiUrl: 'https://api.example.com/api/v1',
+    dataExport: { secret: 'data-export-secret', expiresIn: '48h' },
+  });
+
+  let dataExport: any;
+  let dataExportModel: any;
+  let auditService: { record: jest.Mock; findForUser: jest.Mock };
+  let mailService: { sendDataExportReady: jest.Mock };
+  let service: DataExportService;
+
+  const sortedQuery = (results: unknown[]) => ({ sort: jest.fn(async () => results) });
+
+  beforeEach(() => {
+    dataExport = {
+      _id: new Types.ObjectId(),
+      userId,
+      status: DataExportStatus.PENDING,
+      downloadCount: 0,
+      createdAt: new Date(),
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+      set: jest.fn((values: object) => Object.assign(dataExport, values)),
+      save: jest.fn(async () => dataExport),
+    };
+    dataExportModel = {
+      exists: jest.fn(async () => null),
+      create: jest.fn(async (values: object) => Object.assign(dataExport, values)),
+      findOneAndUpdate: jest.fn(async () => dataExport),
+    };
+    auditService = { record: jest.fn(), findForUser: jest.fn(async () => [{ action: 'auth.login', userId, createdAt: new Date() }]) };
+    mailService = { sendDataExportReady: jest.fn() };
+
+    const user = { _id: new Types.ObjectId(userId), name: 'Jean', email: 'jean@example.com', toJSON: () => ({ name: 'Jean' }) };
+    const recommendation = {
+      _id: new Types.ObjectId(),
+      sessionId: 'sess_1',
+      imageClassification: 'angular_leaf_spot',
+      classificationConfidence: 0.93,
+      content: { disease: 'Angular Leaf Spot', severity: 'moderate' },
+      userRating: 4,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    service = new DataExportService(
+      dataExportModel,
+      { findById: jest.fn(async () => user) } as any,
+      { find: jest.fn(() => sortedQuery([recommendation])) } as any,
+      { find: jest.fn(() => sortedQuery([])) } as any,
+      { find: jest.fn(() => sortedQuery([])) } as any,
+      jwtService,
+      configService,
+      auditService as any,
+      mailService as any,
+      {} as any,
+    );
+  });
+
+  it('should refuse a second export while one is in progress', async () => {
+    dataExportModel.exists.mockResolvedValue({ _id: new Types.ObjectId() });
+
+    await expect(service.request(userId)).rejects.toThrow(ConflictException);
+    expect(dataExportModel.create).not.toHaveBeenCalled();
+  });
+
+  it('should build a ZIP archive and email a working download link', async () => {
+    await service.process(dataExport._id.toString());
+
+    expect(dataExport.status).toBe(DataExportStatus.READY);
+    expect(dataExport.archive.subarray(0, 4).toString('hex')).toBe('504b0304');
+    expect(dataExport.archive.includes('recommendations.json')).toBe(true);
+    expect(dataExport.sizeBytes).toBe(dataExport.archive.length);
+
+    const link: string = mailService.sendDataExportReady.mock.calls[0][2];
+    expect(link.startsWith('https://api.example.com/api/v1/users/me/data-export/download?token=')).toBe(true);
+
+    const token = decodeURIComponent(link.split('token=')[1]);
+    const download = await service.download(token, '203.0.113.7');
+
+    expect(download.archive).toBe(dataExport.archive);
+    expect(download.filename).toMatch(/^angular-leaf-data-export-\d{4}-\d{2}-\d{2}\.zip$/);
+    expect(auditService.record).toHaveBeenLastCalledWith(
+      expect.objectContaining({ action: 'users.data_export_downloaded', userId, ip: '203.0.113.7' }),
+    );
+  });
+
+  it('should reject tokens issued for another purpose', async () => {
+    const token = jwtService.sign(
+      { sub: dataExport._id.toString(), purpose: 'invitation' },
+      { secret: 'data-export-secret', expiresIn: 60 },
+    );
+
+    await expect(service.download(token)).rejects.toThrow(BadRequestException);
+  });
+});
@@ -0,0 +1,376 @@
+import {
+    Injectable,
+    BadRequestException,
+    ConflictException,
+    NotFoundException,
+    GoneException,
+    Logger,
+    OnModuleInit,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, isValidObjectId } from 'mongoose';
+import { JwtService } from '@nestjs/jwt';
+import { ConfigService } from '@nestjs/config';
+import * as ms from 'ms';
+import { DataExport, DataExportDocument, DataExportStatus } from './schemas/data-export.schema';
+import { DataExportResponseDto } from './dto/data-export-response.dto';
+import { User, UserDocument } from '../users/schemas/user.schema';
+import { Recommendation, RecommendationDocument } from '../recommendations/schemas/recommendation.schema';
+import { Session, SessionDocument } from '../auth/schemas/session.schema';
+import { ApiKey, ApiKeyDocument } from '../api-keys/schemas/api-key.schema';
+import { AuditService } from '../audit/audit.service';
+import { MailService } from '../mail/mail.service';
+import { SmsService } from '../sms/sms.service';
+import { createZip, ZipEntry } from '../../common/utils/zip.util';
+import { toCsvLine } from '../../common/utils/csv.util';
+import { withoutTenantScope } from '../../common/tenancy/tenant-context';
+
+
+const DOWNLOAD_PURPOSE = 'data-export';
+// Jobs still processing after this long are assumed to have died with their instance
+const STALE_JOB_MS = 15 * 60 * 1000;
+
+const README = `Angular Leaf personal data export
+
+profile.json            Your account and farm profile
+classifications.csv     Crop scans you requested recommendations for, with the detected condition
+recommendations.json    Treatment recommendations generated for you, in full
+recommendations.csv     The same recommendations, one line each
+feedback.csv            Ratings and comments you left on recommendations
+sessions.json           Devices signed in to your account
+api-keys.json           API keys you created (the secret keys themselves are never stored)
+audit-log.json          Security and account events about you or performed by you
+audit-log.csv           The same events, one line each
+
+Passwords, one-time codes and two-factor secrets are only stored as hashes or
+encrypted values and are not included.
+`;
+
+
+/**
+ * Self-service copies of everything stored about a user. Archives are
+ * built in the background and fetched through a signed, expiring link.
+ */
+@Injectable()
+export class DataExportService implements OnModuleInit {
+    private readonly logger = new Logger(DataExportService.name);
+    private readonly expiresIn: string;
+    private readonly expiresInMs: number;
+
+    constructor(
+        @InjectModel(DataExport.name) private dataExportModel: Model<DataExportDocument>,
+        @InjectModel(User.name) private userModel: Model<UserDocument>,
+        @InjectModel(Recommendation.name) private recommendationModel: Model<RecommendationDocument>,
+        @InjectModel(Session.name) private sessionModel: Model<SessionDocument>,
+        @InjectModel(ApiKey.name) private apiKeyModel: Model<ApiKeyDocument>,
+        private jwtService: JwtService,
+        private configService: ConfigService,
+        private auditService: AuditService,
+        private mailService: MailService,
+        private smsService: SmsService,
+    ) {
+        this.expiresIn = this.configService.get<string>('dataExport.expiresIn', '48h');
+        this.expiresInMs = ms(this.expiresIn as ms.StringValue);
+    }
+
+
+    /**
+     * Pick up exports that were queued or interrupted by a restart
+     */
+    async onModuleInit(): Promise<void> {
+        const unfinished = await this.dataExportModel
+            .find({ status: { $in: [DataExportStatus.PENDING, DataExportStatus.PROCESSING] } })
+            .select('_id');
+
+        for (const dataExport of unfinished) {
+            this.schedule(dataExport._id.toString());
+        }
+    }
+
+
+    async request(userId: string, ip?: string): Promise<DataExportResponseDto> {
+        const inProgress = await this.dataExportModel.exists({
+            userId,
+            status: { $in: [DataExportStatus.PENDING, DataExportStatus.PROCESSING] },
+        });
+
+        if (inProgress) {
+            throw new ConflictException('A data export is already in progress');
+        }
+
+        const dataExport = await this.dataExportModel.create({
+            userId,
+            ip,
+            expiresAt: new Date(Date.now() + this.expiresInMs),
+        });
+
+        await this.auditService.record({
+            action: 'users.data_export_requested',
+            userId,
+            ip,
+            details: { exportId: dataExport._id.toString() },
+        });
+
+        this.schedule(dataExport._id.toString());
+
+        return this.toResponseDto(dataExport);
+    }
+
+
+    async findAllForUser(userId: string): Promise<DataExportResponseDto[]> {
+        const dataExports = await this.dataExportModel.find({ userId }).sort({ createdAt: -1 });
+
+        return dataExports.map((dataExport) => this.toResponseDto(dataExport));
+    }
+
+
+    async findOneForUser(userId: string, id: string): Promise<DataExportResponseDto> {
+        const dataExport = isValidObjectId(id) ? await this.dataExportModel.findOne({ _id: id, userId }) : null;
+
+        if (!dataExport) {
+            throw new NotFoundException('Data export not found');
+        }
+
+        return this.toResponseDto(dataExport);
+    }
+
+
+    /**
+     * Resolve a download link to its archive. The link itself is the
+     * credential, so it works from an email without signing in.
+     */
+    async download(token: string, ip?: string): Promise<{ filename: string; archive: Buffer }> {
+        let payload: { sub: string; purpose: string };
+
+        try {
+            payload = this.jwtService.verify(token, {
+                secret: this.configService.get<string>('dataExport.secret'),
+            });
+        } catch (error) {
+            throw new BadRequestException('Invalid or expired download link');
+        }
+
+        if (payload.purpose !== DOWNLOAD_PURPOSE || !isValidObjectId(payload.sub)) {
+            throw new BadRequestException('Invalid or expired download link');
+        }
+
+        const dataExport = await this.dataExportModel.findOneAndUpdate(
+            { _id: payload.sub, status: DataExportStatus.READY, expiresAt: { $gt: new Date() } },
+            { $inc: { downloadCount: 1 }, $set: { lastDownloadedAt: new Date() } },
+            { new: true, projection: '+archive' },
+        );
+
+        if (!dataExport) {
+            throw new GoneException('This data export is no longer available');
+        }
+
+        await this.auditService.record({
+            action: 'users.data_export_downloaded',
+            userId: dataExport.userId,
+            ip,
+            details: { exportId: dataExport._id.toString(), downloadCount: dataExport.downloadCount },
+        });
+
+        return {
+            filename: `angular-leaf-data-export-${dataExport.completedAt.toISOString().slice(0, 10)}.zip`,
+            archive: dataExport.archive,
+        };
+    }
+
+
+    /**
+     * Build the archive for a queued export. Safe to call from several
+     * instances: only the one that claims the job does the work.
+     */
+    async process(id: string): Promise<void> {
+        const dataExport = await this.dataExportModel.findOneAndUpdate(
+            {
+                _id: id,
+                $or: [
+                    { status: DataExportStatus.PENDING },
+                    { status: DataExportStatus.PROCESSING, startedAt: { $lt: new Date(Date.now() - STALE_JOB_MS) } },
+                ],
+            },
+            { $set: { status: DataExportStatus.PROCESSING, startedAt: new Date() } },
+            { new: true },
+        );
+
+        if (!dataExport) {
+            return;
+        }
+
+        const exportId = dataExport._id.toString();
+
+        try {
+            const user = await this.userModel.findById(dataExport.userId);
+
+            if (!user) {
+                throw new NotFoundException('User not found');
+            }
+
+            const archive = createZip(await this.collect(user));
+            const completedAt = new Date();
+
+            dataExport.set({
+                status: DataExportStatus.READY,
+                archive,
+                sizeBytes: archive.length,
+                completedAt,
+                expiresAt: new Date(completedAt.getTime() + this.expiresInMs),
+            });
+            await dataExport.save();
+
+            await this.auditService.record({
+                action: 'users.data_export_completed',
+                userId: dataExport.userId,
+                details: { exportId, sizeBytes: archive.length },
+            });
+
+            await this.notify(user, dataExport);
+        } catch (error) {
+            this.logger.error(`Data export ${exportId} failed: ${error.message}`, error.stack);
+
+            dataExport.set({ status: DataExportStatus.FAILED, error: 'The export could not be generated; please request a new one' });
+            await dataExport.save();
+
+            await this.auditService.record({
+                action: 'users.data_export_failed',
+                userId: dataExport.userId,
+                details: { exportId, error: error.message },
+            });
+        }
+    }
+
+
+    private schedule(id: string): void {
+        // The export covers the user's data in every cooperative they have belonged to
+        setImmediate(() => {
+            withoutTenantScope(() => this.process(id))
+                .catch((error) => this.logger.error(`Data export ${id} failed: ${error.message}`, error.stack));
+        });
+    }
+
+
+    private async collect(user: UserDocument): Promise<ZipEntry[]> {
+        const userId = user._id.toString();
+
+        const [recommendations, sessions, apiKeys, auditEntries] = await Promise.all([
+            this.recommendationModel.find({ userId }).sort({ createdAt: 1 }),
+            this.sessionModel.find({ userId }).sort({ createdAt: 1 }),
+            this.apiKeyModel.find({ userId }).sort({ createdAt: 1 }),
+            this.auditService.findForUser(userId),
+        ]);
+
+        return [
+            { name: 'README.txt', content: README },
+            { name: 'profile.json', content: this.toJson(user) },
+            {
+                name: 'classifications.csv',
+                content: this.toCsv(
+                    ['sessionId', 'classification', 'confidence', 'createdAt'],
+                    recommendations.map((rec) => [rec.sessionId, rec.imageClassification, rec.classificationConfidence, rec.createdAt]),
+                ),
+            },
+            { name: 'recommendations.json', content: this.toJson(recommendations) },
+            {
+                name: 'recommendations.csv',
+                content: this.toCsv(
+                    ['id', 'sessionId', 'classification', 'disease', 'severity', 'createdAt'],
+                    recommendations.map((rec) => [
+                        rec._id.toString(),
+                        rec.sessionId,
+                        rec.imageClassification,
+                        rec.content?.disease,
+                        rec.content?.severity,
+                        rec.createdAt,
+                    ]),
+                ),
+            },
+            {
+                name: 'feedback.csv',
+                content: this.toCsv(
+                    ['recommendationId', 'rating', 'feedback', 'updatedAt'],
+                    recommendations
+                        .filter((rec) => rec.userRating || rec.userFeedback)
+                        .map((rec) => [rec._id.toString(), rec.userRating || undefined, rec.userFeedback, rec.updatedAt]),
+                ),
+            },
+            { name: 'sessions.json', content: this.toJson(sessions) },
+            { name: 'api-keys.json', content: this.toJson(apiKeys) },
+            { name: 'audit-log.json', content: this.toJson(auditEntries) },
+            {
+                name: 'audit-log.csv',
+                content: this.toCsv(
+                    ['createdAt', 'action', 'userId', 'actorId', 'ip', 'details'],
+                    auditEntries.map((entry) => [
+                        entry.createdAt,
+                        entry.action,
+                        entry.userId,
+                        entry.actorId,
+                        entry.ip,
+                        entry.details ? JSON.stringify(entry.details) : undefined,
+                    ]),
+                ),
+            },
+        ];
+    }
+
+
+    private async notify(user: UserDocument, dataExport: DataExportDocument): Promise<void> {
+        const link = this.buildDownloadLink(dataExport);
+
+        // The link is also shown on the export status, so delivery failures are only logged
+        try {
+            if (user.email) {
+                await this.mailService.sendDataExportReady(user.email, user.name, link, this.expiresIn);
+            } else if (user.phone) {
+                await this.smsService.sendDataExportReady(user.phone, link, this.expiresIn);
+            }
+        } catch (error) {
+            this.logger.error(`Failed to send data export link to user ${user._id}: ${error.message}`, error.stack);
+        }
+    }
+
+
+    private buildDownloadLink(dataExport: DataExportDocument): string {
+        const expiresInSeconds = Math.max(1, Math.floor((dataExport.expiresAt.getTime() - Date.now()) / 1000));
+
+        const token = this.jwtService.sign(
+            { sub: dataExport._id.toString(), purpose: DOWNLOAD_PURPOSE },
+            {
+                secret: this.configService.get<string>('dataExport.secret'),
+                expiresIn: expiresInSeconds,
+            },
+        );
+
+        const publicApiUrl = this.configService.get<string>('publicApiUrl');
+
+        return `${publicApiUrl}/users/me/data-export/download?token=${encodeURIComponent(token)}`;
+    }
+
+
+    private toJson(value: unknown): string {
+        return JSON.stringify(value, null, 2);
+    }
+
+
+    private toCsv(header: string[], rows: unknown[][]): string {
+        return toCsvLine(header) + rows.map((row) => toCsvLine(row)).join('');
+    }
+
+
+    private toResponseDto(dataExport: DataExportDocument): DataExportResponseDto {
+        const isReady = dataExport.status === DataExportStatus.READY && dataExport.expiresAt > new Date();
+
+        return {
+            id: dataExport._id.toString(),
+            status: dataExport.status,
+            createdAt: dataExport.createdAt,
+            completedAt: dataExport.completedAt,
+            expiresAt: dataExport.expiresAt,
+            sizeBytes: dataExport.sizeBytes,
+            downloadLink: isReady ? this.buildDownloadLink(dataExport) : undefined,
+            error: dataExport.error,
+        };
+    }
+}
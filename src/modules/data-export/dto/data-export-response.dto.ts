@@ -0,0 +1,57 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { DataExportStatus } from '../schemas/data-export.schema';
+
+
+export class DataExportResponseDto {
+    @ApiProperty({
+        description: 'Export ID',
+        example: '507f1f77bcf86cd799439011',
+    })
+    id: string;
+
+    @ApiProperty({
+        description: 'Export status',
+        enum: DataExportStatus,
+        example: DataExportStatus.READY,
+    })
+    status: DataExportStatus;
+
+    @ApiProperty({
+        description: 'When the export was requested',
+        example: '2026-03-01T10:00:00.000Z',
+    })
+    createdAt: Date;
+
+    @ApiProperty({
+        description: 'When the archive was generated',
+        example: '2026-03-01T10:00:05.000Z',
+        required: false,
+    })
+    completedAt?: Date;
+
+    @ApiProperty({
+        description: 'When the archive and its download link expire',
+        example: '2026-03-03T10:00:05.000Z',
+    })
+    expiresAt: Date;
+
+    @ApiProperty({
+        description: 'Archive size in bytes',
+        example: 18432,
+        required: false,
+    })
+    sizeBytes?: number;
+
+    @ApiProperty({
+        description: 'Time-limited link to download the ZIP archive, once ready',
+        example: 'http://localhost:3000/api/v1/users/me/data-export/download?token=eyJhbGciOi...',
+        required: false,
+    })
+    downloadLink?: string;
+
+    @ApiProperty({
+        description: 'Why the export failed',
+        required: false,
+    })
+    error?: string;
+}
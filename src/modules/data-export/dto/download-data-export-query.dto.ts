@@ -0,0 +1,11 @@
+import { IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+
+export class DownloadDataExportQueryDto {
+    @ApiProperty({
+        description: 'Signed download token from the export link',
+    })
+    @IsString()
+    token: string;
+}
@@ -0,0 +1,2 @@
+export * from './data-export-response.dto';
+export * from './download-data-export-query.dto';
@@ -0,0 +1,71 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type DataExportDocument = DataExport & Document;
+
+export enum DataExportStatus {
+    PENDING = 'pending',
+    PROCESSING = 'processing',
+    READY = 'ready',
+    FAILED = 'failed',
+}
+
+
+/**
+ * A user's request for a copy of their personal data. The archive is built
+ * in the background, kept with the request and deleted with it on expiry.
+ */
+@Schema({
+    timestamps: true,
+    collection: 'data_exports',
+})
+export class DataExport {
+    @Prop({ required: true, index: true })
+    userId: string;
+
+    @Prop({
+        required: true,
+        enum: Object.values(DataExportStatus),
+        default: DataExportStatus.PENDING,
+    })
+    status: DataExportStatus;
+
+    @Prop({ required: false })
+    ip?: string;
+
+    @Prop({ required: false })
+    startedAt?: Date;
+
+    @Prop({ required: false })
+    completedAt?: Date;
+
+    @Prop({ required: false })
+    error?: string;
+
+    // ZIP archive; exports are small enough to stay well under the document size limit
+    @Prop({ type: Buffer, required: false, select: false })
+    archive?: Buffer;
+
+    @Prop({ required: false })
+    sizeBytes?: number;
+
+    @Prop({ default: 0 })
+    downloadCount: number;
+
+    @Prop({ required: false })
+    lastDownloadedAt?: Date;
+
+    @Prop({ required: true })
+    expiresAt: Date;
+
+    createdAt: Date;
+
+    updatedAt: Date;
+}
+
+export const DataExportSchema = SchemaFactory.createForClass(DataExport);
+
+DataExportSchema.index({ userId: 1, createdAt: -1 });
+DataExportSchema.index({ status: 1, createdAt: 1 });
+// Let MongoDB drop expired exports together with their archives
+DataExportSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
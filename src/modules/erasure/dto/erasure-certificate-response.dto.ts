@@ -0,0 +1,85 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { ErasureAction } from '../schemas/erasure-certificate.schema';
+
+
+export class ErasureItemDto {
+    @ApiProperty({
+        description: 'Kind of data',
+        example: 'recommendations',
+    })
+    category: string;
+
+    @ApiProperty({
+        description: 'What was done with it',
+        enum: ErasureAction,
+        example: ErasureAction.ANONYMISED,
+    })
+    action: ErasureAction;
+
+    @ApiProperty({
+        description: 'Number of records affected',
+        example: 12,
+    })
+    count: number;
+
+    @ApiProperty({
+        description: 'Additional detail',
+        required: false,
+    })
+    note?: string;
+}
+
+
+export class ErasureCertificateResponseDto {
+    @ApiProperty({
+        description: 'Certificate ID',
+        example: '507f1f77bcf86cd799439011',
+    })
+    id: string;
+
+    @ApiProperty({
+        description: 'ID of the erased account',
+        example: '507f1f77bcf86cd799439012',
+    })
+    userId: string;
+
+    @ApiProperty({
+        description: 'Erasure request the certificate belongs to',
+        example: '507f1f77bcf86cd799439013',
+    })
+    requestId: string;
+
+    @ApiProperty({
+        description: 'User who requested the erasure',
+        example: '507f1f77bcf86cd799439012',
+    })
+    requestedBy: string;
+
+    @ApiProperty({
+        description: 'When the erasure was requested',
+    })
+    requestedAt: Date;
+
+    @ApiProperty({
+        description: 'Admin who forced the erasure, or "system" when it ran after the grace period',
+        example: 'system',
+    })
+    executedBy: string;
+
+    @ApiProperty({
+        description: 'When the data was erased',
+    })
+    erasedAt: Date;
+
+    @ApiProperty({
+        description: 'Data removed or anonymised, by category',
+        type: [ErasureItemDto],
+    })
+    items: ErasureItemDto[];
+
+    @ApiProperty({
+        description: 'SHA-256 checksum over the certificate contents',
+        example: '9b74c9897bac770ffc029102a200c5de0f2bf4ad3c1b2e7b6e3a1f6d1e0c2a47',
+    })
+    checksum: string;
+}
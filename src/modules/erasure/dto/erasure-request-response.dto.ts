@@ -0,0 +1,66 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { ErasureStatus } from '../schemas/erasure-request.schema';
+
+
+export class ErasureRequestResponseDto {
+    @ApiProperty({
+        description: 'Erasure request ID',
+        example: '507f1f77bcf86cd799439011',
+    })
+    id: string;
+
+    @ApiProperty({
+        description: 'Account to be erased',
+        example: '507f1f77bcf86cd799439012',
+    })
+    userId: string;
+
+    @ApiProperty({
+        description: 'User who requested the erasure: the account holder or an admin',
+        example: '507f1f77bcf86cd799439012',
+    })
+    requestedBy: string;
+
+    @ApiProperty({
+        description: 'Reason given for the erasure',
+        required: false,
+    })
+    reason?: string;
+
+    @ApiProperty({
+        description: 'Request status',
+        enum: ErasureStatus,
+        example: ErasureStatus.SCHEDULED,
+    })
+    status: ErasureStatus;
+
+    @ApiProperty({
+        description: 'When the account will be (or was due to be) erased',
+        example: '2026-04-01T10:00:00.000Z',
+    })
+    scheduledFor: Date;
+
+    @ApiProperty({
+        description: 'When the erasure was carried out',
+        required: false,
+    })
+    completedAt?: Date;
+
+    @ApiProperty({
+        description: 'Erasure certificate, once completed',
+        required: false,
+    })
+    certificateId?: string;
+
+    @ApiProperty({
+        description: 'When the request was cancelled',
+        required: false,
+    })
+    cancelledAt?: Date;
+
+    @ApiProperty({
+        description: 'When the erasure was requested',
+        example: '2026-03-02T10:00:00.000Z',
+    })
+    createdAt: Date;
+}
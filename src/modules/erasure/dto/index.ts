@@ -0,0 +1,4 @@
+export * from './request-erasure.dto';
+export * from './schedule-erasure.dto';
+export * from './erasure-request-response.dto';
+export * from './erasure-certificate-response.dto';
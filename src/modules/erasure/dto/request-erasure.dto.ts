@@ -0,0 +1,17 @@
+import { IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+
+/**
+ * DTO for a user asking for their own account to be erased
+ */
+export class RequestErasureDto {
+    @ApiPropertyOptional({
+        description: 'Why the account is being erased. Kept with the erasure request.',
+        example: 'No longer farming',
+    })
+    @IsOptional()
+    @IsString()
+    @MaxLength(500)
+    reason?: string;
+}
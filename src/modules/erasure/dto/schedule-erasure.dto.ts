@@ -0,0 +1,18 @@
+import { IsBoolean, IsOptional } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { RequestErasureDto } from './request-erasure.dto';
+
+
+/**
+ * DTO for an admin erasing a user's account
+ */
+export class ScheduleErasureDto extends RequestErasureDto {
+    @ApiPropertyOptional({
+        description: 'Skip the grace period and erase the account now. Also executes an already scheduled request.',
+        example: false,
+        default: false,
+    })
+    @IsOptional()
+    @IsBoolean()
+    immediate?: boolean;
+}
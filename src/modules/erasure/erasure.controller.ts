@@ -0,0 +1,199 @@
+import {
+    Controller,
+    Get,
+    Post,
+    Delete,
+    Body,
+    Param,
+    UseGuards,
+    HttpCode,
+    HttpStatus,
+    Ip,
+} from '@nestjs/common';
+import {
+    ApiTags,
+    ApiOperation,
+    ApiResponse,
+    ApiBearerAuth,
+    ApiParam,
+} from '@nestjs/swagger';
+import { ErasureService } from './erasure.service';
+import { RequestErasureDto } from './dto/request-erasure.dto';
+import { ScheduleErasureDto } from './dto/schedule-erasure.dto';
+import { ErasureRequestResponseDto } from './dto/erasure-request-response.dto';
+import { ErasureCertificateResponseDto } from './dto/erasure-certificate-response.dto';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../../common/guards/permissions.guard';
+import { RequirePermissions } from '../../common/decorators/require-permissions.decorator';
+import { CrossTenant } from '../../common/decorators/cross-tenant.decorator';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { NotWhileImpersonating } from '../../common/decorators/not-while-impersonating.decorator';
+import { JwtPayload } from '../../common/interfaces/jwt-payload.interface';
+import { Permission } from '../../common/enums/permission.enum';
+
+
+@ApiTags('Users')
+@ApiBearerAuth()
+@Controller('users')
+@CrossTenant()
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+export class ErasureController {
+    constructor(private readonly erasureService: ErasureService) { }
+
+
+    @Post('me/erasure')
+    @RequirePermissions(Permission.PROFILE_UPDATE_OWN)
+    @NotWhileImpersonating()
+    @HttpCode(HttpStatus.ACCEPTED)
+    @ApiOperation({
+        summary: 'Erase your account',
+        description: 'Schedule permanent erasure of your account after the grace period (30 days by default). ' +
+            'Until then the account keeps working and the erasure can be cancelled. Your profile, sessions, API keys ' +
+            'and exports are then deleted; recommendations and audit records are kept without anything linking them to you.',
+    })
+    @ApiResponse({
+        status: HttpStatus.ACCEPTED,
+        description: 'Erasure scheduled',
+        type: ErasureRequestResponseDto,
+    })
+    @ApiResponse({
+        status: HttpStatus.CONFLICT,
+        description: 'An erasure is already scheduled',
+    })
+    async requestOwn(
+        @CurrentUser('sub') userId: string,
+        @Body() requestErasureDto: RequestErasureDto,
+        @Ip() ip: string,
+    ): Promise<ErasureRequestResponseDto> {
+        return this.erasureService.requestOwn(userId, requestErasureDto.reason, ip);
+    }
+
+
+    @Get('me/erasure')
+    @ApiOperation({
+        summary: 'Get your scheduled erasure',
+    })
+    @ApiResponse({
+        status: HttpStatus.OK,
+        description: 'Scheduled erasure',
+        type: ErasureRequestResponseDto,
+    })
+    @ApiResponse({
+        status: HttpStatus.NOT_FOUND,
+        description: 'No erasure is scheduled',
+    })
+    async findOwn(@CurrentUser('sub') userId: string): Promise<ErasureRequestResponseDto> {
+        return this.erasureService.findOpenForUser(userId);
+    }
+
+
+    @Delete('me/erasure')
+    @ApiOperation({
+        summary: 'Cancel your scheduled erasure',
+    })
+    @ApiResponse({
+        status: HttpStatus.OK,
+        description: 'Erasure cancelled',
+        type: ErasureRequestResponseDto,
+    })
+    @ApiResponse({
+        status: HttpStatus.NOT_FOUND,
+        description: 'No erasure is scheduled',
+    })
+    async cancelOwn(
+        @CurrentUser('sub') userId: string,
+        @Ip() ip: string,
+    ): Promise<ErasureRequestResponseDto> {
+        return this.erasureService.cancel(userId, userId, ip);
+    }
+
+
+    @Post(':id/erasure')
+    @RequirePermissions(Permission.USER_MANAGE_ANY)
+    @NotWhileImpersonating()
+    @ApiOperation({
+        summary: 'Erase a user account',
+        description: 'Schedule erasure of a user account after the grace period, or with immediate=true erase it now ' +
+            '(also executing an already scheduled request). Admin only.',
+    })
+    @ApiParam({
+        name: 'id',
+        description: 'User ID',
+        example: '507f1f77bcf86cd799439011',
+    })
+    @ApiResponse({
+        status: HttpStatus.CREATED,
+        description: 'Erasure scheduled, or completed when immediate',
+        type: ErasureRequestResponseDto,
+    })
+    @ApiResponse({
+        status: HttpStatus.NOT_FOUND,
+        description: 'User not found',
+    })
+    @ApiResponse({
+        status: HttpStatus.CONFLICT,
+        description: 'An erasure is already scheduled or in progress',
+    })
+    async requestForUser(
+        @CurrentUser() admin: JwtPayload,
+        @Param('id') id: string,
+        @Body() scheduleErasureDto: ScheduleErasureDto,
+        @Ip() ip: string,
+    ): Promise<ErasureRequestResponseDto> {
+        return this.erasureService.requestForUser(admin, id, scheduleErasureDto, ip);
+    }
+
+
+    @Delete(':id/erasure')
+    @RequirePermissions(Permission.USER_MANAGE_ANY)
+    @ApiOperation({
+        summary: 'Cancel a scheduled erasure',
+        description: 'Admin only.',
+    })
+    @ApiParam({
+        name: 'id',
+        description: 'User ID',
+        example: '507f1f77bcf86cd799439011',
+    })
+    @ApiResponse({
+        status: HttpStatus.OK,
+        description: 'Erasure cancelled',
+        type: ErasureRequestResponseDto,
+    })
+    @ApiResponse({
+        status: HttpStatus.NOT_FOUND,
+        description: 'No erasure is scheduled',
+    })
+    async cancelForUser(
+        @CurrentUser('sub') actorId: string,
+        @Param('id') id: string,
+        @Ip() ip: string,
+    ): Promise<ErasureRequestResponseDto> {
+        return this.erasureService.cancel(id, actorId, ip);
+    }
+
+
+    @Get(':id/erasure-certificate')
+    @RequirePermissions(Permission.USER_READ_ANY)
+    @ApiOperation({
+        summary: 'Get the erasure certificate of an erased account',
+        description: 'What was deleted or anonymised, when and on whose authority. Admin only.',
+    })
+    @ApiParam({
+        name: 'id',
+        description: 'ID of the erased user',
+        example: '507f1f77bcf86cd799439011',
+    })
+    @ApiResponse({
+        status: HttpStatus.OK,
+        description: 'Erasure certificate',
+        type: ErasureCertificateResponseDto,
+    })
+    @ApiResponse({
+        status: HttpStatus.NOT_FOUND,
+        description: 'No erasure certificate found',
+    })
+    async findCertificate(@Param('id') id: string): Promise<ErasureCertificateResponseDto> {
+        return this.erasureService.findCertificate(id);
+    }
+}
@@ -0,0 +1,50 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { ErasureController } from './erasure.controller';
+import { ErasureService } from './erasure.service';
+import { ErasureRequest, ErasureRequestSchema } from './schemas/erasure-request.schema';
+import { ErasureCertificate, ErasureCertificateSchema } from './schemas/erasure-certificate.schema';
+import { User, UserSchema } from '../users/schemas/user.schema';
+import { Recommendation, RecommendationSchema } from '../recommendations/schemas/recommendation.schema';
+import { Session, SessionSchema } from '../auth/schemas/session.schema';
+import { LoginAttempt, LoginAttemptSchema } from '../auth/schemas/login-attempt.schema';
+import { OneTimeCode, OneTimeCodeSchema } from '../auth/schemas/one-time-code.schema';
+import { ApiKey, ApiKeySchema } from '../api-keys/schemas/api-key.schema';
+import { Invitation, InvitationSchema } from '../invitations/schemas/invitation.schema';
+import { DataExport, DataExportSchema } from '../data-export/schemas/data-export.schema';
+import { UsageRecord, UsageRecordSchema } from '../metering/schemas/usage-record.schema';
+import { AuditModule } from '../audit/audit.module';
+import { MailModule } from '../mail/mail.module';
+import { SmsModule } from '../sms/sms.module';
+import { PermissionsModule } from '../permissions/permissions.module';
+
+
+/**
+ * Account erasure with a grace period, cascading across every module that
+ * stores data about a user
+ */
+@Module({
+    imports: [
+        MongooseModule.forFeature([
+            { name: ErasureRequest.name, schema: ErasureRequestSchema },
+            { name: ErasureCertificate.name, schema: ErasureCertificateSchema },
+            { name: User.name, schema: UserSchema },
+            { name: Recommendation.name, schema: RecommendationSchema },
+            { name: Session.name, schema: SessionSchema },
+            { name: LoginAttempt.name, schema: LoginAttemptSchema },
+            { name: OneTimeCode.name, schema: OneTimeCodeSchema },
+            { name: ApiKey.name, schema: ApiKeySchema },
+            { name: Invitation.name, schema: InvitationSchema },
+            { name: DataExport.name, schema: DataExportSchema },
+            { name: UsageRecord.name, schema: UsageRecordSchema },
+        ]),
+
+        AuditModule,
+        MailModule,
+        SmsModule,
+        PermissionsModule,
+    ],
+    controllers: [ErasureController],
+    providers: [ErasureService],
+})
+export class ErasureModule { }
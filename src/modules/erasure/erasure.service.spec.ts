@@ -0,0 +1,118 @@
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Types } from 'mongoose';
+import { createHash } from 'crypto';
+import { ErasureService } from './erasure.service';
+import { ErasureStatus } from './schemas/erasure-request.schema';
+import { UserRole } from '../../common/enums/user-role.enum';
+
+describe('ErasureService', () => {
+  const userId = new Types.ObjectId().toString();
+  const adminId = new Types.ObjectId().toString();
+  const admin = { sub: adminId, email: 'admin@example.com', roles: [UserRole.ADMIN] };
+
+  let request: any;
+  let erasureRequestModel: any;
+  let erasureCertificateModel: any;
+  let userModel: any;
+  let recommendationModel: any;
+  let auditService: { record: jest.Mock; anonymiseForUser: jest.Mock };
+  let mailService: { sendErasureScheduled: jest.Mock };
+  let service: ErasureService;
+
+  const deleteModel = (deletedCount: number) => ({ deleteMany: jest.fn(async () => ({ deletedCount })) });
+
+  beforeEach(() => {
+    request = null;
+    erasureRequestModel = {
+      findOne: jest.fn(async () => null),
+      create: jest.fn(async (values: object) => {
+        request = {
+          _id: new Types.ObjectId(),
+          status: ErasureStatus.SCHEDULED,
+          createdAt: new Date(),
+          ...values,
+          set: jest.fn((changes: object) => Object.assign(request, changes)),
+          save: jest.fn(async () => request),
+        };
+        return request;
+      }),
+      findOneAndUpdate: jest.fn(async (_filter: object, update: { $set: object }) => request && Object.assign(request, update.$set)),
+    };
+    erasureCertificateModel = {
+      create: jest.fn(async (values: object) => ({ _id: new Types.ObjectId(), ...values })),
+    };
+    userModel = {
+      findById: jest.fn(async () => ({ _id: new Types.ObjectId(userId), name: 'Jean', email: 'jean@example.com', phone: '+250788123456' })),
+      deleteOne: jest.fn(async () => ({ deletedCount: 1 })),
+    };
+    recommendationModel = {
+      updateMany: jest.fn(async (filter: object) => ({ modifiedCount: 'userFeedback' in filter ? 1 : 3 })),
+    };
+    auditService = { record: jest.fn(), anonymiseForUser: jest.fn(async () => 7) };
+    mailService = { sendErasureScheduled: jest.fn() };
+
+    service = new ErasureService(
+      erasureRequestModel,
+      erasureCertificateModel,
+      userModel,
+      recommendationModel,
+      deleteModel(2) as any,
+      deleteModel(1) as any,
+      deleteModel(0) as any,
+      deleteModel(1) as any,
+      deleteModel(0) as any,
+      deleteModel(1) as any,
+      { updateMany: jest.fn(async () => ({ modifiedCount: 4 })) } as any,
+      new ConfigService({ erasure: { gracePeriod: '30d' } }),
+      auditService as any,
+      mailService as any,
+      {} as any,
+    );
+  });
+
+  it('should schedule erasure after the grace period and notify the user', async () => {
+    const result = await service.requestOwn(userId, 'No longer farming');
+
+    const days = (result.scheduledFor.getTime() - Date.now()) / (24 * 60 * 60 * 1000);
+    expect(Math.round(days)).toBe(30);
+    expect(result.status).toBe(ErasureStatus.SCHEDULED);
+    expect(mailService.sendErasureScheduled).toHaveBeenCalledWith('jean@example.com', 'Jean', result.scheduledFor);
+    expect(userModel.deleteOne).not.toHaveBeenCalled();
+  });
+
+  it('should refuse a second erasure request for the same account', async () => {
+    erasureRequestModel.create.mockRejectedValue(Object.assign(new Error('duplicate key'), { code: 11000 }));
+
+    await expect(service.requestOwn(userId)).rejects.toThrow(ConflictException);
+  });
+
+  it('should erase immediately on admin request and issue a verifiable certificate', async () => {
+    const result = await service.requestForUser(admin, userId, { immediate: true });
+
+    expect(result.status).toBe(ErasureStatus.COMPLETED);
+    expect(userModel.deleteOne).toHaveBeenCalledWith({ _id: userId });
+    expect(recommendationModel.updateMany).toHaveBeenCalledWith({ userId }, { $unset: { userId: 1, farmProfile: 1 } });
+    expect(auditService.anonymiseForUser).toHaveBeenCalledWith(userId);
+    expect(mailService.sendErasureScheduled).not.toHaveBeenCalled();
+
+    const certificate = erasureCertificateModel.create.mock.calls[0][0];
+    const { checksum, ...contents } = certificate;
+    expect(certificate.executedBy).toBe(adminId);
+    expect(checksum).toBe(createHash('sha256').update(JSON.stringify(contents)).digest('hex'));
+    expect(certificate.items).toEqual(expect.arrayContaining([
+      expect.objectContaining({ category: 'account', action: 'deleted', count: 1 }),
+      expect.objectContaining({ category: 'recommendations', action: 'anonymised', count: 3 }),
+      expect.objectContaining({ category: 'audit records', action: 'anonymised', count: 7 }),
+    ]));
+    expect(result.certificateId).toBeDefined();
+
+    const erasedEntry = auditService.record.mock.calls.at(-1)[0];
+    expect(erasedEntry).toEqual(expect.objectContaining({ action: 'users.erased', actorId: adminId }));
+    expect(erasedEntry.userId).toBeUndefined();
+  });
+
+  it('should not let admins use the admin endpoint on their own account', async () => {
+    await expect(service.requestForUser(admin, adminId, {})).rejects.toThrow(BadRequestException);
+  });
+});
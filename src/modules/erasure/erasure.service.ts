@@ -0,0 +1,449 @@
+import {
+    Injectable,
+    BadRequestException,
+    ConflictException,
+    NotFoundException,
+    Logger,
+    OnModuleInit,
+    OnModuleDestroy,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, isValidObjectId } from 'mongoose';
+import { ConfigService } from '@nestjs/config';
+import { createHash } from 'crypto';
+import * as ms from 'ms';
+import { ErasureRequest, ErasureRequestDocument, ErasureStatus } from './schemas/erasure-request.schema';
+import {
+    ErasureAction,
+    ErasureCertificate,
+    ErasureCertificateDocument,
+    ErasureItem,
+} from './schemas/erasure-certificate.schema';
+import { ErasureRequestResponseDto } from './dto/erasure-request-response.dto';
+import { ErasureCertificateResponseDto } from './dto/erasure-certificate-response.dto';
+import { User, UserDocument } from '../users/schemas/user.schema';
+import { Recommendation, RecommendationDocument } from '../recommendations/schemas/recommendation.schema';
+import { Session, SessionDocument } from '../auth/schemas/session.schema';
+import { LoginAttempt, LoginAttemptDocument, LoginAttemptScope } from '../auth/schemas/login-attempt.schema';
+import { OneTimeCode, OneTimeCodeDocument } from '../auth/schemas/one-time-code.schema';
+import { ApiKey, ApiKeyDocument } from '../api-keys/schemas/api-key.schema';
+import { Invitation, InvitationDocument } from '../invitations/schemas/invitation.schema';
+import { UsageRecord, UsageRecordDocument } from '../metering/schemas/usage-record.schema';
+import { DataExport, DataExportDocument } from '../data-export/schemas/data-export.schema';
+import { AuditService } from '../audit/audit.service';
+import { MailService } from '../mail/mail.service';
+import { SmsService } from '../sms/sms.service';
+import { JwtPayload } from '../../common/interfaces/jwt-payload.interface';
+import { withoutTenantScope } from '../../common/tenancy/tenant-context';
+
+
+const PROCESS_INTERVAL_MS = 60 * 60 * 1000;
+// Erasures still processing after this long are assumed to have died with their instance
+const STALE_ERASURE_MS = 15 * 60 * 1000;
+const SYSTEM_ACTOR = 'system';
+
+
+/**
+ * Account erasure. A request waits out a grace period and is then carried
+ * out by a periodic job; admins can erase immediately. Erasure deletes the
+ * account and everything that only exists for it, anonymises records other
+ * users or statistics depend on, and leaves an erasure certificate behind.
+ */
+@Injectable()
+export class ErasureService implements OnModuleInit, OnModuleDestroy {
+    private readonly logger = new Logger(ErasureService.name);
+    private readonly gracePeriodMs: number;
+    private processTimer: NodeJS.Timeout | null = null;
+
+    constructor(
+        @InjectModel(ErasureRequest.name) private erasureRequestModel: Model<ErasureRequestDocument>,
+        @InjectModel(ErasureCertificate.name) private erasureCertificateModel: Model<ErasureCertificateDocument>,
+        @InjectModel(User.name) private userModel: Model<UserDocument>,
+        @InjectModel(Recommendation.name) private recommendationModel: Model<RecommendationDocument>,
+        @InjectModel(Session.name) private sessionModel: Model<SessionDocument>,
+        @InjectModel(LoginAttempt.name) private loginAttemptModel: Model<LoginAttemptDocument>,
+        @InjectModel(OneTimeCode.name) private oneTimeCodeModel: Model<OneTimeCodeDocument>,
+        @InjectModel(ApiKey.name) private apiKeyModel: Model<ApiKeyDocument>,
+        @InjectModel(Invitation.name) private invitationModel: Model<InvitationDocument>,
+        @InjectModel(DataExport.name) private dataExportModel: Model<DataExportDocument>,
+        @InjectModel(UsageRecord.name) private usageRecordModel: Model<UsageRecordDocument>,
+        private configService: ConfigService,
+        private auditService: AuditService,
+        private mailService: MailService,
+        private smsService: SmsService,
+    ) {
+        this.gracePeriodMs = ms(this.configService.get<string>('erasure.gracePeriod', '30d') as ms.StringValue);
+    }
+
+
+    onModuleInit(): void {
+        this.processTimer = setInterval(() => {
+            this.processDue().catch((error) => this.logger.error(`Scheduled erasures failed: ${error.message}`, error.stack));
+        }, PROCESS_INTERVAL_MS);
+        this.processTimer.unref();
+    }
+
+
+    onModuleDestroy(): void {
+        if (this.processTimer) {
+            clearInterval(this.processTimer);
+        }
+    }
+
+
+    /**
+     * Schedule erasure of the caller's own account after the grace period
+     */
+    async requestOwn(userId: string, reason?: string, ip?: string): Promise<ErasureRequestResponseDto> {
+        const user = await this.findUser(userId);
+        const request = await this.schedule(user, userId, reason, ip);
+
+        return this.toRequestResponseDto(request);
+    }
+
+
+    /**
+     * Admin erasure of another account: scheduled with the usual grace
+     * period, or carried out at once with `immediate`
+     */
+    async requestForUser(
+        admin: JwtPayload,
+        userId: string,
+        options: { reason?: string; immediate?: boolean },
+        ip?: string,
+    ): Promise<ErasureRequestResponseDto> {
+        if (admin.sub === userId) {
+            throw new BadRequestException('Use POST /users/me/erasure to erase your own account');
+        }
+
+        const user = await this.findUser(userId);
+        const existing = await this.erasureRequestModel.findOne({
+            userId,
+            status: { $in: [ErasureStatus.SCHEDULED, ErasureStatus.FAILED] },
+        });
+        const request = existing ?? (await this.schedule(user, admin.sub, options.reason, ip, options.immediate));
+
+        if (!options.immediate) {
+            return this.toRequestResponseDto(request);
+        }
+
+        await this.auditService.record({
+            action: 'users.erasure_forced',
+            userId,
+            actorId: admin.sub,
+            ip,
+            details: { requestId: request._id.toString() },
+        });
+
+        const executed = await this.execute(request._id.toString(), admin.sub);
+
+        if (!executed) {
+            throw new ConflictException('This erasure is already being carried out');
+        }
+
+        return this.toRequestResponseDto(executed);
+    }
+
+
+    async findOpenForUser(userId: string): Promise<ErasureRequestResponseDto> {
+        const request = await this.erasureRequestModel.findOne({
+            userId,
+            status: { $in: [ErasureStatus.SCHEDULED, ErasureStatus.PROCESSING, ErasureStatus.FAILED] },
+        });
+
+        if (!request) {
+            throw new NotFoundException('No erasure is scheduled for this account');
+        }
+
+        return this.toRequestResponseDto(request);
+    }
+
+
+    async cancel(userId: string, actorId: string, ip?: string): Promise<ErasureRequestResponseDto> {
+        const request = await this.erasureRequestModel.findOneAndUpdate(
+            { userId, status: { $in: [ErasureStatus.SCHEDULED, ErasureStatus.FAILED] } },
+            { $set: { status: ErasureStatus.CANCELLED, cancelledAt: new Date(), cancelledBy: actorId } },
+            { new: true },
+        );
+
+        if (!request) {
+            throw new NotFoundException('No erasure is scheduled for this account');
+        }
+
+        await this.auditService.record({
+            action: 'users.erasure_cancelled',
+            userId,
+            actorId: actorId !== userId ? actorId : undefined,
+            ip,
+            details: { requestId: request._id.toString() },
+        });
+
+        return this.toRequestResponseDto(request);
+    }
+
+
+    async findCertificate(userId: string): Promise<ErasureCertificateResponseDto> {
+        const certificate = await this.erasureCertificateModel.findOne({ userId }).sort({ erasedAt: -1 });
+
+        if (!certificate) {
+            throw new NotFoundException('No erasure certificate found for this user');
+        }
+
+        return this.toCertificateResponseDto(certificate);
+    }
+
+
+    /**
+     * Carry out every request whose grace period has ended
+     */
+    async processDue(): Promise<number> {
+        const due = await this.erasureRequestModel
+            .find({
+                $or: [
+                    { status: { $in: [ErasureStatus.SCHEDULED, ErasureStatus.FAILED] }, scheduledFor: { $lte: new Date() } },
+                    { status: ErasureStatus.PROCESSING, startedAt: { $lt: new Date(Date.now() - STALE_ERASURE_MS) } },
+                ],
+            })
+            .select('_id');
+
+        let erased = 0;
+
+        for (const request of due) {
+            const result = await this.execute(request._id.toString(), SYSTEM_ACTOR);
+            erased += result?.status === ErasureStatus.COMPLETED ? 1 : 0;
+        }
+
+        return erased;
+    }
+
+
+    private async schedule(
+        user: UserDocument,
+        requestedBy: string,
+        reason?: string,
+        ip?: string,
+        immediate = false,
+    ): Promise<ErasureRequestDocument> {
+        const userId = user._id.toString();
+        let request: ErasureRequestDocument;
+
+        try {
+            request = await this.erasureRequestModel.create({
+                userId,
+                requestedBy,
+                reason,
+                scheduledFor: new Date(Date.now() + (immediate ? 0 : this.gracePeriodMs)),
+            });
+        } catch (error) {
+            if (error.code === 11000) {
+                throw new ConflictException('An erasure is already scheduled for this account');
+            }
+            throw error;
+        }
+
+        await this.auditService.record({
+            action: 'users.erasure_scheduled',
+            userId,
+            actorId: requestedBy !== userId ? requestedBy : undefined,
+            ip,
+            details: { requestId: request._id.toString(), scheduledFor: request.scheduledFor },
+        });
+
+        if (!immediate) {
+            await this.notifyScheduled(user, request.scheduledFor);
+        }
+
+        return request;
+    }
+
+
+    /**
+     * Erase the account behind a request. Only the caller that claims the
+     * request does the work, so overlapping runs are harmless.
+     */
+    private async execute(requestId: string, executedBy: string): Promise<ErasureRequestDocument | null> {
+        const request = await this.erasureRequestModel.findOneAndUpdate(
+            {
+                _id: requestId,
+                $or: [
+                    { status: { $in: [ErasureStatus.SCHEDULED, ErasureStatus.FAILED] } },
+                    { status: ErasureStatus.PROCESSING, startedAt: { $lt: new Date(Date.now() - STALE_ERASURE_MS) } },
+                ],
+            },
+            { $set: { status: ErasureStatus.PROCESSING, startedAt: new Date() } },
+            { new: true },
+        );
+
+        if (!request) {
+            return null;
+        }
+
+        try {
+            // Everything the user left behind, whichever cooperative it was recorded under
+            const items = await withoutTenantScope(() => this.eraseUserData(request.userId));
+            const certificate = await this.issueCertificate(request, executedBy, items);
+
+            request.set({
+                status: ErasureStatus.COMPLETED,
+                completedAt: certificate.erasedAt,
+                certificateId: certificate._id.toString(),
+            });
+            await request.save();
+
+            await this.auditService.record({
+                action: 'users.erased',
+                actorId: executedBy !== SYSTEM_ACTOR ? executedBy : undefined,
+                details: { requestId, certificateId: certificate._id.toString() },
+            });
+
+            this.logger.log(`Erased user ${request.userId} (certificate ${certificate._id})`);
+        } catch (error) {
+            this.logger.error(`Erasure ${requestId} failed: ${error.message}`, error.stack);
+
+            // Left for the next run to retry; every step can safely run again
+            request.set({ status: ErasureStatus.FAILED, error: error.message });
+            await request.save();
+        }
+
+        return request;
+    }
+
+
+    /**
+     * Delete what only exists for the user and anonymise what others rely on.
+     * Returns what was done, for the certificate.
+     */
+    private async eraseUserData(userId: string): Promise<ErasureItem[]> {
+        const user = await this.userModel.findById(userId);
+        const identifiers = [user?.email, user?.phone].filter(Boolean);
+
+        const feedback = await this.recommendationModel.updateMany(
+            { userId, userFeedback: { $exists: true } },
+            { $unset: { userFeedback: 1 } },
+        );
+        // Kept without owner or farm details for disease statistics
+        const recommendations = await this.recommendationModel.updateMany(
+            { userId },
+            { $unset: { userId: 1, farmProfile: 1 } },
+        );
+        // Kept without owner so that the cooperative's usage still adds up
+        const usageRecords = await this.usageRecordModel.updateMany(
+            { userId },
+            { $unset: { userId: 1, apiKeyId: 1 } },
+        );
+        const auditEntries = await this.auditService.anonymiseForUser(userId);
+
+        const [sessions, apiKeys, dataExports, invitations, loginAttempts, oneTimeCodes] = await Promise.all([
+            this.sessionModel.deleteMany({ userId }),
+            this.apiKeyModel.deleteMany({ userId }),
+            this.dataExportModel.deleteMany({ userId }),
+            identifiers.length
+                ? this.invitationModel.deleteMany({ $or: [{ email: { $in: identifiers } }, { phone: { $in: identifiers } }] })
+                : { deletedCount: 0 },
+            identifiers.length
+                ? this.loginAttemptModel.deleteMany({ scope: LoginAttemptScope.ACCOUNT, key: { $in: identifiers } })
+                : { deletedCount: 0 },
+            user?.phone ? this.oneTimeCodeModel.deleteMany({ phone: user.phone }) : { deletedCount: 0 },
+        ]);
+
+        const account = await this.userModel.deleteOne({ _id: userId });
+
+        return [
+            { category: 'account', action: ErasureAction.DELETED, count: account.deletedCount },
+            { category: 'recommendations', action: ErasureAction.ANONYMISED, count: recommendations.modifiedCount },
+            { category: 'feedback text', action: ErasureAction.DELETED, count: feedback.modifiedCount },
+            { category: 'audit records', action: ErasureAction.ANONYMISED, count: auditEntries },
+            { category: 'usage records', action: ErasureAction.ANONYMISED, count: usageRecords.modifiedCount },
+            {
+                category: 'images',
+                action: ErasureAction.DELETED,
+                count: 0,
+                note: 'Uploaded images are deleted as soon as they are classified; none were stored',
+            },
+            { category: 'sessions', action: ErasureAction.DELETED, count: sessions.deletedCount },
+            { category: 'api keys', action: ErasureAction.DELETED, count: apiKeys.deletedCount },
+            { category: 'data exports', action: ErasureAction.DELETED, count: dataExports.deletedCount },
+            { category: 'invitations', action: ErasureAction.DELETED, count: invitations.deletedCount },
+            { category: 'login attempts', action: ErasureAction.DELETED, count: loginAttempts.deletedCount },
+            { category: 'one-time codes', action: ErasureAction.DELETED, count: oneTimeCodes.deletedCount },
+        ];
+    }
+
+
+    private async issueCertificate(
+        request: ErasureRequestDocument,
+        executedBy: string,
+        items: ErasureItem[],
+    ): Promise<ErasureCertificateDocument> {
+        const contents = {
+            userId: request.userId,
+            requestId: request._id.toString(),
+            requestedBy: request.requestedBy,
+            requestedAt: request.createdAt,
+            executedBy,
+            erasedAt: new Date(),
+            items,
+        };
+
+        return this.erasureCertificateModel.create({
+            ...contents,
+            checksum: createHash('sha256').update(JSON.stringify(contents)).digest('hex'),
+        });
+    }
+
+
+    private async notifyScheduled(user: UserDocument, scheduledFor: Date): Promise<void> {
+        // The request stands even if the notice cannot be delivered
+        try {
+            if (user.email) {
+                await this.mailService.sendErasureScheduled(user.email, user.name, scheduledFor);
+            } else if (user.phone) {
+                await this.smsService.sendErasureScheduled(user.phone, scheduledFor);
+            }
+        } catch (error) {
+            this.logger.error(`Failed to send erasure notice to user ${user._id}: ${error.message}`, error.stack);
+        }
+    }
+
+
+    private async findUser(userId: string): Promise<UserDocument> {
+        const user = isValidObjectId(userId) ? await this.userModel.findById(userId) : null;
+
+        if (!user) {
+            throw new NotFoundException('User not found');
+        }
+
+        return user;
+    }
+
+
+    private toRequestResponseDto(request: ErasureRequestDocument): ErasureRequestResponseDto {
+        return {
+            id: request._id.toString(),
+            userId: request.userId,
+            requestedBy: request.requestedBy,
+            reason: request.reason,
+            status: request.status,
+            scheduledFor: request.scheduledFor,
+            completedAt: request.completedAt,
+            certificateId: request.certificateId,
+            cancelledAt: request.cancelledAt,
+            createdAt: request.createdAt,
+        };
+    }
+
+
+    private toCertificateResponseDto(certificate: ErasureCertificateDocument): ErasureCertificateResponseDto {
+        return {
+            id: certificate._id.toString(),
+            userId: certificate.userId,
+            requestId: certificate.requestId,
+            requestedBy: certificate.requestedBy,
+            requestedAt: certificate.requestedAt,
+            executedBy: certificate.executedBy,
+            erasedAt: certificate.erasedAt,
+            items: certificate.items,
+            checksum: certificate.checksum,
+        };
+    }
+}
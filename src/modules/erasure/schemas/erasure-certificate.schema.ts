@@ -0,0 +1,59 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type ErasureCertificateDocument = ErasureCertificate & Document;
+
+export enum ErasureAction {
+    DELETED = 'deleted',
+    ANONYMISED = 'anonymised',
+}
+
+export interface ErasureItem {
+    // What was erased, e.g. "recommendations" or "sessions"
+    category: string;
+    action: ErasureAction;
+    count: number;
+    note?: string;
+}
+
+
+/**
+ * Permanent record that an account was erased: what was removed or
+ * anonymised, when and on whose authority. Holds no personal data beyond
+ * the former account ID, and a checksum so tampering can be detected.
+ */
+@Schema({
+    timestamps: { createdAt: true, updatedAt: false },
+    collection: 'erasure_certificates',
+})
+export class ErasureCertificate {
+    @Prop({ required: true, index: true })
+    userId: string;
+
+    @Prop({ required: true })
+    requestId: string;
+
+    @Prop({ required: true })
+    requestedBy: string;
+
+    @Prop({ required: true })
+    requestedAt: Date;
+
+    // Admin who forced the erasure, or "system" when it ran after the grace period
+    @Prop({ required: true })
+    executedBy: string;
+
+    @Prop({ required: true })
+    erasedAt: Date;
+
+    @Prop({ type: [Object], required: true })
+    items: ErasureItem[];
+
+    // SHA-256 over the fields above
+    @Prop({ required: true })
+    checksum: string;
+
+    createdAt: Date;
+}
+
+export const ErasureCertificateSchema = SchemaFactory.createForClass(ErasureCertificate);
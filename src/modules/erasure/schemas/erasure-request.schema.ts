@@ -0,0 +1,80 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type ErasureRequestDocument = ErasureRequest & Document;
+
+export enum ErasureStatus {
+    SCHEDULED = 'scheduled',
+    PROCESSING = 'processing',
+    COMPLETED = 'completed',
+    CANCELLED = 'cancelled',
+    FAILED = 'failed',
+}
+
+
+/**
+ * A pending or executed account erasure. Requests wait out the grace
+ * period, during which the user or an admin can cancel them.
+ */
+@Schema({
+    timestamps: true,
+    collection: 'erasure_requests',
+})
+export class ErasureRequest {
+    @Prop({ required: true, index: true })
+    userId: string;
+
+    // The user themself, or the admin who scheduled the erasure
+    @Prop({ required: true })
+    requestedBy: string;
+
+    @Prop({ required: false, trim: true })
+    reason?: string;
+
+    @Prop({
+        required: true,
+        enum: Object.values(ErasureStatus),
+        default: ErasureStatus.SCHEDULED,
+    })
+    status: ErasureStatus;
+
+    @Prop({ required: true })
+    scheduledFor: Date;
+
+    @Prop({ required: false })
+    startedAt?: Date;
+
+    @Prop({ required: false })
+    completedAt?: Date;
+
+    @Prop({ required: false })
+    certificateId?: string;
+
+    @Prop({ required: false })
+    cancelledAt?: Date;
+
+    @Prop({ required: false })
+    cancelledBy?: string;
+
+    @Prop({ required: false })
+    error?: string;
+
+    createdAt: Date;
+
+    updatedAt: Date;
+}
+
+export const ErasureRequestSchema = SchemaFactory.createForClass(ErasureRequest);
+
+ErasureRequestSchema.index({ status: 1, scheduledFor: 1 });
+// At most one open request per user; failed erasures stay open until retried or cancelled
+ErasureRequestSchema.index(
+    { userId: 1 },
+    {
+        unique: true,
+        partialFilterExpression: {
+            status: { $in: [ErasureStatus.SCHEDULED, ErasureStatus.PROCESSING, ErasureStatus.FAILED] },
+        },
+        name: 'open_erasure_per_user',
+    },
+);
@@ -2,19 +2,19 @@ import { Controller, Get, UseGuards } from '@nestjs/common';
 import { ApiBearerAuth, ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
 import { HealthService } from './health.service';
 import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
-import { RolesGuard } from '../../common/guards/roles.guard';
-import { Roles } from '../../common/decorators/roles.decorator';
-import { UserRole } from '../../common/enums/user-role.enum';
+import { PermissionsGuard } from '../../common/guards/permissions.guard';
+import { RequirePermissions } from '../../common/decorators/require-permissions.decorator';
+import { Permission } from '../../common/enums/permission.enum';
 
 @ApiTags('health')
 @Controller('health')
-@UseGuards(JwtAuthGuard, RolesGuard)
+@UseGuards(JwtAuthGuard, PermissionsGuard)
 @ApiBearerAuth()
 export class HealthController {
   constructor(private readonly healthService: HealthService) {}
 
   @Get()
-  @Roles(UserRole.ADMIN)
+  @RequirePermissions(Permission.SYSTEM_HEALTH_READ)
   @ApiOperation({
     summary: 'Check application health',
     description: 'Returns the health status of the application. Admin only.',
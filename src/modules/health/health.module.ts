@@ -1,11 +1,12 @@
 import { Module } from '@nestjs/common';
 import { ImageClassificationModule } from '../image-classification/image-classification.module';
 import { RecommendationsModule } from '../recommendations/recommendations.module';
+import { PermissionsModule } from '../permissions/permissions.module';
 import { HealthController } from './health.controller';
 import { HealthService } from './health.service';
 
 @Module({
-  imports: [ImageClassificationModule, RecommendationsModule],
+  imports: [ImageClassificationModule, RecommendationsModule, PermissionsModule],
   controllers: [HealthController],
   providers: [HealthService],
 })
@@ -21,6 +21,7 @@ import {
   ApiConsumes,
   ApiOperation,
   ApiResponse,
+  ApiSecurity,
   ApiTags,
 } from '@nestjs/swagger';
 import { ThrottlerGuard } from '@nestjs/throttler';
@@ -33,22 +34,36 @@ import {
 } from './dto/response.dto';
 import { ImageClassificationService } from './image-classification.service';
 import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
-import { RolesGuard } from '../../common/guards/roles.guard';
-import { Roles } from '../../common/decorators/roles.decorator';
-import { UserRole } from '../../common/enums/user-role.enum';
+import { PermissionsGuard } from '../../common/guards/permissions.guard';
+import { EmailVerifiedGuard } from '../../common/guards/email-verified.guard';
+import { QuotaGuard } from '../../common/guards/quota.guard';
+import { RequirePermissions } from '../../common/decorators/require-permissions.decorator';
+import { RequireVerifiedEmail } from '../../common/decorators/require-verified-email.decorator';
+import { ApiKeyScopes } from '../../common/decorators/api-key-scopes.decorator';
+import { EnforceQuota } from '../../common/decorators/enforce-quota.decorator';
+import { ApiKeyScope } from '../../common/enums/api-key-scope.enum';
+import { Permission } from '../../common/enums/permission.enum';
 import { Public } from '../../common/decorators/public.decorator';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { UsageQuota } from '../../common/enums/usage-metric.enum';
+import { JwtPayload } from '../../common/interfaces/jwt-payload.interface';
 
 @ApiTags('image-classification')
 @Controller('classify')
-@UseGuards(ThrottlerGuard, JwtAuthGuard, RolesGuard)
+@UseGuards(ThrottlerGuard, JwtAuthGuard, PermissionsGuard, EmailVerifiedGuard)
 @ApiBearerAuth()
+@ApiSecurity('api-key')
 export class ImageClassificationController {
   constructor(
     private readonly imageClassificationService: ImageClassificationService,
   ) {}
 
   @Post('image')
-  @Roles(UserRole.FARMER, UserRole.MANAGER, UserRole.ADMIN)
+  @RequirePermissions(Permission.SCAN_CREATE)
+  @RequireVerifiedEmail()
+  @ApiKeyScopes(ApiKeyScope.CLASSIFY)
+  @UseGuards(QuotaGuard)
+  @EnforceQuota(UsageQuota.CLASSIFICATIONS)
   @HttpCode(HttpStatus.OK)
   @UseInterceptors(FileInterceptor('image'))
   @ApiOperation({
@@ -69,13 +84,17 @@ export class ImageClassificationController {
     status: 400,
     description: 'Bad request - invalid file or parameters',
   })
+  @ApiResponse({
+    status: 403,
+    description: 'Email address has not been verified',
+  })
   @ApiResponse({
     status: 413,
     description: 'File too large',
   })
   @ApiResponse({
     status: 429,
-    description: 'Too many requests',
+    description: "Too many requests, or the cooperative's monthly classifications quota is used up",
   })
   @ApiResponse({
     status: 500,
@@ -84,6 +103,7 @@ export class ImageClassificationController {
   async classifyImage(
     @UploadedFile() file: Express.Multer.File,
     @Body() body: { metadata?: string },
+    @CurrentUser() user: JwtPayload,
   ): Promise<PredictionResultDto> {
     if (!file) {
       throw new BadRequestException('No image file provided');
@@ -92,11 +112,16 @@ export class ImageClassificationController {
     return await this.imageClassificationService.classifyImage(
       file,
       body.metadata,
+      user,
     );
   }
 
   @Post('image/with-recommendations')
-  @Roles(UserRole.FARMER, UserRole.MANAGER, UserRole.ADMIN)
+  @RequirePermissions(Permission.SCAN_CREATE)
+  @RequireVerifiedEmail()
+  @ApiKeyScopes(ApiKeyScope.CLASSIFY, ApiKeyScope.RECOMMENDATIONS_WRITE)
+  @UseGuards(QuotaGuard)
+  @EnforceQuota(UsageQuota.CLASSIFICATIONS, UsageQuota.RECOMMENDATIONS)
   @HttpCode(HttpStatus.OK)
   @UseInterceptors(FileInterceptor('image'))
   @ApiOperation({
@@ -157,6 +182,7 @@ export class ImageClassificationController {
   async classifyImageWithRecommendations(
     @UploadedFile() file: Express.Multer.File,
     @Body() body: ClassifyImageDto & { additionalContext?: string },
+    @CurrentUser() user: JwtPayload,
   ) {
     if (!file) {
       throw new BadRequestException('No image file provided');
@@ -166,6 +192,7 @@ export class ImageClassificationController {
       file,
       body.metadata,
       body.additionalContext,
+      user,
     );
 
     return {
@@ -177,7 +204,11 @@ export class ImageClassificationController {
   }
 
   @Post('batch')
-  @Roles(UserRole.FARMER, UserRole.MANAGER, UserRole.ADMIN)
+  @RequirePermissions(Permission.SCAN_CREATE)
+  @RequireVerifiedEmail()
+  @ApiKeyScopes(ApiKeyScope.CLASSIFY)
+  @UseGuards(QuotaGuard)
+  @EnforceQuota(UsageQuota.CLASSIFICATIONS)
   @HttpCode(HttpStatus.OK)
   @UseInterceptors(FilesInterceptor('images', 10)) // Max 10 files
   @ApiOperation({
@@ -198,17 +229,22 @@ export class ImageClassificationController {
     status: 400,
     description: 'Bad request - invalid files or parameters',
   })
+  @ApiResponse({
+    status: 403,
+    description: 'Email address has not been verified',
+  })
   @ApiResponse({
     status: 413,
     description: 'One or more files too large',
   })
   @ApiResponse({
     status: 429,
-    description: 'Too many requests',
+    description: "Too many requests, or the cooperative's monthly classifications quota is used up",
   })
   async classifyImagesBatch(
     @UploadedFiles() files: Express.Multer.File[],
     @Body() body: { metadata?: string },
+    @CurrentUser() user: JwtPayload,
   ): Promise<{
     results: any[];
     summary: { total: number; successful: number; failed: number };
@@ -224,6 +260,7 @@ export class ImageClassificationController {
     return await this.imageClassificationService.classifyImagesBatch(
       files,
       body.metadata,
+      user,
     );
   }
 
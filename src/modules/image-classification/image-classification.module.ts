@@ -7,6 +7,8 @@ import { v4 as uuidv4 } from 'uuid';
 
 import { CommonModule } from '../../common/common.module';
 import { RecommendationsModule } from '../recommendations/recommendations.module';
+import { PermissionsModule } from '../permissions/permissions.module';
+import { MeteringModule } from '../metering/metering.module';
 import { ImageClassificationController } from './image-classification.controller';
 import { ImageClassificationService } from './image-classification.service';
 import { MlModelService } from './ml-model.service';
@@ -16,6 +18,8 @@ import { MlModelService } from './ml-model.service';
     CommonModule,
     ConfigModule,
     RecommendationsModule,
+    PermissionsModule,
+    MeteringModule,
     MulterModule.registerAsync({
       imports: [ConfigModule],
       useFactory: async (configService: ConfigService) => ({
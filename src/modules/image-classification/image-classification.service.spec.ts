@@ -0,0 +1,72 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ImageClassificationService } from './image-classification.service';
+import { UsageQuota } from '../../common/enums/usage-metric.enum';
+import { UserRole } from '../../common/enums/user-role.enum';
+
+describe('ImageClassificationService', () => {
+  const farmer = { sub: 'farmer-1', roles: [UserRole.FARMER], cooperativeId: 'coop-1' };
+  const file = { originalname: 'leaf.jpg', mimetype: 'image/jpeg', size: 1024, path: '/tmp/leaf.jpg' } as Express.Multer.File;
+
+  let mlModelService: { classifyImage: jest.Mock };
+  let recommendationsService: { getFarmProfile: jest.Mock; generateRecommendation: jest.Mock };
+  let meteringService: { reserve: jest.Mock; release: jest.Mock; record: jest.Mock };
+  let service: ImageClassificationService;
+
+  beforeEach(() => {
+    mlModelService = { classifyImage: jest.fn() };
+    recommendationsService = {
+      getFarmProfile: jest.fn(async () => undefined),
+      generateRecommendation: jest.fn(async () => ({ success: true })),
+    };
+    meteringService = {
+      reserve: jest.fn(async (_user, quota: UsageQuota) => ({ quota, quantity: 1 })),
+      release: jest.fn(),
+      record: jest.fn(),
+    };
+
+    service = new ImageClassificationService(
+      mlModelService as any,
+      new ConfigService({ upload: { allowedMimeTypes: ['image/jpeg'], maxFileSize: 5 * 1024 * 1024 } }),
+      recommendationsService as any,
+      meteringService as any,
+    );
+  });
+
+  const classifyWithRecommendations = () => service.classifyImageWithRecommendations(file, undefined, undefined, farmer);
+
+  it('should refuse before classifying when the recommendations quota is used up', async () => {
+    meteringService.reserve.mockImplementation(async (_user, quota: UsageQuota) => {
+      if (quota === UsageQuota.RECOMMENDATIONS) {
+        throw new HttpException('quota used up', HttpStatus.TOO_MANY_REQUESTS);
+      }
+      return { quota, quantity: 1 };
+    });
+
+    await expect(classifyWithRecommendations()).rejects.toThrow(HttpException);
+    expect(meteringService.reserve).not.toHaveBeenCalledWith(farmer, UsageQuota.CLASSIFICATIONS);
+    expect(mlModelService.classifyImage).not.toHaveBeenCalled();
+  });
+
+  it('should hand the recommendation reservation over and release it when classifying fails', async () => {
+    mlModelService.classifyImage.mockRejectedValueOnce(new Error('ML API unavailable'));
+
+    await expect(classifyWithRecommendations()).rejects.toThrow('ML API unavailable');
+    expect(meteringService.release).toHaveBeenCalledWith({ quota: UsageQuota.CLASSIFICATIONS, quantity: 1 });
+    expect(meteringService.release).toHaveBeenCalledWith({ quota: UsageQuota.RECOMMENDATIONS, quantity: 1 });
+    expect(recommendationsService.generateRecommendation).not.toHaveBeenCalled();
+  });
+
+  it('should pass the recommendation reservation on once the image is classified', async () => {
+    mlModelService.classifyImage.mockResolvedValue({ predicted_class: 'healthy', confidence: 0.97, probabilities: {} });
+
+    await classifyWithRecommendations();
+
+    expect(recommendationsService.generateRecommendation).toHaveBeenCalledWith(
+      expect.objectContaining({ classification: 'healthy' }),
+      farmer,
+      { quota: UsageQuota.RECOMMENDATIONS, quantity: 1 },
+    );
+    expect(meteringService.release).not.toHaveBeenCalled();
+  });
+});
@@ -5,6 +5,9 @@ import { join } from 'path';
 import { v4 as uuidv4 } from 'uuid';
 
 import { RecommendationsService } from '../recommendations/recommendations.service';
+import { MeteringService } from '../metering/metering.service';
+import { JwtPayload } from '../../common/interfaces/jwt-payload.interface';
+import { UsageMetric, UsageQuota } from '../../common/enums/usage-metric.enum';
 import { BatchPredictionResultDto, PredictionResultDto } from './dto/response.dto';
 import { MlModelService, MlPredictionResult } from './ml-model.service';
 
@@ -18,30 +21,42 @@ export class ImageClassificationService {
     private readonly mlModelService: MlModelService,
     private readonly configService: ConfigService,
     private readonly recommendationsService: RecommendationsService,
+    private readonly meteringService: MeteringService,
   ) {
     this.allowedMimeTypes = this.configService.get<string[]>('upload.allowedMimeTypes');
     this.maxFileSize = this.configService.get<number>('upload.maxFileSize');
   }
 
   /**
-   * Classify a single image
+   * Classify a single image, with the user's farm profile as context
    */
   async classifyImage(
     file: Express.Multer.File,
     metadata?: string,
+    currentUser?: JwtPayload,
   ): Promise<PredictionResultDto> {
     this.logger.log(`Processing image classification for: ${file.originalname}`);
     
     // Validate file
     this.validateFile(file);
 
+    const reservation = await this.meteringService.reserve(currentUser, UsageQuota.CLASSIFICATIONS);
+
     try {
+      const farmProfile = await this.recommendationsService.getFarmProfile(currentUser?.sub);
+
       // Call ML service
-      const result = await this.mlModelService.classifyImage(file.path, metadata);
-      
+      const result = await this.mlModelService.classifyImage(file.path, metadata, farmProfile);
+
       // Transform result
-      return this.transformPredictionResult(result);
+      const prediction = this.transformPredictionResult(result);
+
+      await this.meteringService.record(currentUser, UsageMetric.CLASSIFICATION);
+
+      return prediction;
     } catch (error) {
+      await this.meteringService.release(reservation);
+
       this.logger.error(
         `Failed to classify image ${file.originalname}: ${error.message}`,
         error.stack,
@@ -57,6 +72,7 @@ export class ImageClassificationService {
     file: Express.Multer.File,
     metadata?: string,
     additionalContext?: string,
+    currentUser?: JwtPayload,
   ): Promise<{
     classification: PredictionResultDto;
     recommendation: any;
@@ -66,18 +82,22 @@ export class ImageClassificationService {
     
     // Generate session ID
     const sessionId = `sess_${uuidv4()}`;
-    
+
+    // Reserved before classifying, so that a used up recommendations quota
+    // is refused before a classification is spent on the image
+    const recommendationReservation = await this.meteringService.reserve(currentUser, UsageQuota.RECOMMENDATIONS);
+
     try {
       // First, classify the image
-      const classificationResult = await this.classifyImage(file, metadata);
+      const classificationResult = await this.classifyImage(file, metadata, currentUser);
       
-      // Generate recommendations based on classification
+      // Generate recommendations based on classification; releases the reservation itself on failure
       const recommendationResult = await this.recommendationsService.generateRecommendation({
         classification: classificationResult.predicted_class,
         confidence: classificationResult.confidence,
         sessionId,
         additionalContext,
-      });
+      }, currentUser, recommendationReservation);
 
       this.logger.log(
         `Classification and recommendation completed for session: ${sessionId}`,
@@ -89,6 +109,9 @@ export class ImageClassificationService {
         sessionId,
       };
     } catch (error) {
+      // Only classification failures get here, before the reservation was handed over
+      await this.meteringService.release(recommendationReservation);
+
       this.logger.error(
         `Failed to classify image with recommendations ${file.originalname}: ${error.message}`,
         error.stack,
@@ -103,6 +126,7 @@ export class ImageClassificationService {
   async classifyImagesBatch(
     files: Express.Multer.File[],
     metadata?: string,
+    currentUser?: JwtPayload,
   ): Promise<{
     results: BatchPredictionResultDto[];
     summary: { total: number; successful: number; failed: number };
@@ -116,12 +140,17 @@ export class ImageClassificationService {
     // Validate all files first
     files.forEach(file => this.validateFile(file));
 
+    // Every image counts against the quota, so the whole batch has to fit
+    const reservation = await this.meteringService.reserve(currentUser, UsageQuota.CLASSIFICATIONS, files.length);
+
     try {
       // Get file paths
       const filePaths = files.map(file => file.path);
       
+      const farmProfile = await this.recommendationsService.getFarmProfile(currentUser?.sub);
+
       // Call ML service for batch processing
-      const mlResults = await this.mlModelService.classifyImagesBatch(filePaths, metadata);
+      const mlResults = await this.mlModelService.classifyImagesBatch(filePaths, metadata, farmProfile);
       
       // Transform results
       const results: BatchPredictionResultDto[] = mlResults.map((mlResult, index) => ({
@@ -134,6 +163,10 @@ export class ImageClassificationService {
       const successful = results.filter(r => r.result && !r.error).length;
       const failed = results.length - successful;
 
+      // Only images the ML API has classified are counted
+      await this.meteringService.release(reservation, failed);
+      await this.meteringService.record(currentUser, UsageMetric.BATCH_ITEM, successful);
+
       const summary = {
         total: results.length,
         successful,
@@ -146,6 +179,8 @@ export class ImageClassificationService {
 
       return { results, summary };
     } catch (error) {
+      await this.meteringService.release(reservation);
+
       this.logger.error(
         `Failed to process batch classification: ${error.message}`,
         error.stack,
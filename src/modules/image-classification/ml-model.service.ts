@@ -5,6 +5,7 @@ import { firstValueFrom } from 'rxjs';
 import { createReadStream } from 'fs';
 import { unlink } from 'fs/promises';
 import * as FormData from 'form-data';
+import { FarmProfile } from '../users/farm-profile';
 
 export interface MlPredictionResult {
   predicted_class: string;
@@ -61,6 +62,7 @@ export class MlModelService {
   async classifyImage(
     imagePath: string,
     metadata?: string,
+    farmProfile?: FarmProfile,
   ): Promise<MlPredictionResult> {
     const startTime = Date.now();
     
@@ -76,6 +78,11 @@ export class MlModelService {
         formData.append('metadata', metadata);
       }
 
+      // Region, crops and season context for models that use it; ignored otherwise
+      if (farmProfile) {
+        formData.append('context', JSON.stringify(farmProfile));
+      }
+
       // Make request to ML API with retry logic
       const result = await this.makeRequestWithRetry(
         '/predict',
@@ -121,13 +128,14 @@ export class MlModelService {
   async classifyImagesBatch(
     imagePaths: string[],
     metadata?: string,
+    farmProfile?: FarmProfile,
   ): Promise<Array<{ filename: string; result?: MlPredictionResult; error?: string }>> {
     this.logger.log(`Starting batch classification for ${imagePaths.length} images`);
     
     const results = await Promise.allSettled(
       imagePaths.map(async (imagePath, index) => {
         try {
-          const result = await this.classifyImage(imagePath, metadata);
+          const result = await this.classifyImage(imagePath, metadata, farmProfile);
           return {
             filename: `image_${index + 1}`,
             result,
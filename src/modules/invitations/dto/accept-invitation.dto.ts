@@ -0,0 +1,38 @@
+import { IsEmail, IsOptional, IsString, MinLength, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+
+export class AcceptInvitationDto {
+    @ApiProperty({
+        description: 'Invitation token from the invitation link',
+        example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+    })
+    @IsString()
+    token: string;
+
+    @ApiProperty({
+        description: 'User full name',
+        example: 'Jane Uwase',
+        minLength: 2,
+        maxLength: 100,
+    })
+    @IsString()
+    @MinLength(2)
+    @MaxLength(100)
+    name: string;
+
+    @ApiPropertyOptional({
+        description: 'Optional email address for invitations sent to a phone number. Ignored for email invitations.',
+        example: 'jane@example.com',
+    })
+    @IsOptional()
+    @IsEmail()
+    email?: string;
+
+    @ApiProperty({
+        description: 'User password. Must satisfy the password policy (by default at least 8 characters with uppercase, lowercase, number and special character, not a common password)',
+        example: 'SecurePass123!',
+    })
+    @IsString()
+    password: string;
+}
@@ -0,0 +1,40 @@
+import { IsEmail, IsString, IsEnum, IsOptional, Matches, ValidateIf } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { UserRole } from '../../../common/enums/user-role.enum';
+
+
+export class CreateInvitationDto {
+    @ApiPropertyOptional({
+        description: 'Invitee email address. Either email or phone is required.',
+        example: 'farmer@example.com',
+    })
+    @ValidateIf((dto: CreateInvitationDto) => !dto.phone || dto.email !== undefined)
+    @IsEmail()
+    email?: string;
+
+    @ApiPropertyOptional({
+        description: 'Invitee phone number in E.164 format. Either email or phone is required.',
+        example: '+250788123456',
+    })
+    @ValidateIf((dto: CreateInvitationDto) => !dto.email || dto.phone !== undefined)
+    @IsString()
+    @Matches(/^\+[1-9]\d{7,14}$/, { message: 'Phone number must be in E.164 format (e.g. +250788123456)' })
+    phone?: string;
+
+    @ApiPropertyOptional({
+        description: 'Role granted on acceptance. Managers may only invite farmers and managers.',
+        enum: UserRole,
+        default: UserRole.FARMER,
+    })
+    @IsOptional()
+    @IsEnum(UserRole)
+    role?: UserRole;
+
+    @ApiPropertyOptional({
+        description: 'Cooperative to join. Defaults to the inviting manager\'s cooperative; required for admins.',
+        example: '507f1f77bcf86cd799439011',
+    })
+    @IsOptional()
+    @IsString()
+    cooperativeId?: string;
+}
@@ -0,0 +1,3 @@
+export * from './create-invitation.dto';
+export * from './accept-invitation.dto';
+export * from './invitation-response.dto';
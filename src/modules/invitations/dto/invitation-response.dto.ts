@@ -0,0 +1,83 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { UserRole } from '../../../common/enums/user-role.enum';
+import { InvitationStatus } from '../schemas/invitation.schema';
+
+
+export class InvitationResponseDto {
+    @ApiProperty({
+        description: 'Invitation ID',
+        example: '507f1f77bcf86cd799439011',
+    })
+    id: string;
+
+    @ApiProperty({
+        description: 'Invitee email address',
+        example: 'farmer@example.com',
+        required: false,
+    })
+    email?: string;
+
+    @ApiProperty({
+        description: 'Invitee phone number',
+        example: '+250788123456',
+        required: false,
+    })
+    phone?: string;
+
+    @ApiProperty({
+        description: 'Role granted on acceptance',
+        enum: UserRole,
+    })
+    role: UserRole;
+
+    @ApiProperty({
+        description: 'Cooperative the invitee will join',
+        example: '507f1f77bcf86cd799439011',
+    })
+    cooperativeId: string;
+
+    @ApiProperty({
+        description: 'User who created the invitation',
+        example: '507f1f77bcf86cd799439011',
+    })
+    invitedBy: string;
+
+    @ApiProperty({
+        description: 'Invitation status',
+        enum: InvitationStatus,
+    })
+    status: InvitationStatus;
+
+    @ApiProperty({
+        description: 'Whether a pending invitation has passed its expiry',
+        example: false,
+    })
+    expired: boolean;
+
+    @ApiProperty({
+        description: 'Expiry timestamp',
+        example: '2026-03-03T10:30:00.000Z',
+    })
+    expiresAt: Date;
+
+    @ApiProperty({
+        description: 'Number of times the invitation was sent',
+        example: 1,
+    })
+    sendCount: number;
+
+    @ApiProperty({
+        description: 'Creation timestamp',
+        example: '2026-02-24T10:30:00.000Z',
+    })
+    createdAt: Date;
+}
+
+
+export class SentInvitationResponseDto extends InvitationResponseDto {
+    @ApiProperty({
+        description: 'Invitation link, for sharing manually when no message could be delivered',
+        example: 'http://localhost:4200/accept-invitation?token=eyJhbGciOiJIUzI1NiIs...',
+    })
+    link: string;
+}
@@ -0,0 +1,160 @@
+import {
+    Controller,
+    Get,
+    Post,
+    Body,
+    Param,
+    Delete,
+    UseGuards,
+    Query,
+    HttpCode,
+    HttpStatus,
+} from '@nestjs/common';
+import {
+    ApiTags,
+    ApiOperation,
+    ApiResponse,
+    ApiBearerAuth,
+    ApiQuery,
+    ApiParam,
+} from '@nestjs/swagger';
+import { InvitationsService } from './invitations.service';
+import { CreateInvitationDto } from './dto/create-invitation.dto';
+import { InvitationResponseDto, SentInvitationResponseDto } from './dto/invitation-response.dto';
+import { InvitationStatus } from './schemas/invitation.schema';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../../common/guards/permissions.guard';
+import { RequirePermissions } from '../../common/decorators/require-permissions.decorator';
+import { CrossTenant } from '../../common/decorators/cross-tenant.decorator';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { Permission } from '../../common/enums/permission.enum';
+import { JwtPayload } from '../../common/interfaces/jwt-payload.interface';
+
+
+@ApiTags('Invitations')
+@ApiBearerAuth()
+@Controller('invitations')
+@CrossTenant()
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@RequirePermissions(Permission.USER_MANAGE_COOPERATIVE)
+export class InvitationsController {
+    constructor(private readonly invitationsService: InvitationsService) { }
+
+
+    @Post()
+    @HttpCode(HttpStatus.CREATED)
+    @ApiOperation({
+        summary: 'Invite a user to a cooperative',
+        description: 'Send a signed, expiring invitation link by email (or phone) with a pre-assigned role and cooperative. ' +
+            'Managers can only invite to their own cooperative and cannot invite administrators.',
+    })
+    @ApiResponse({
+        status: HttpStatus.CREATED,
+        description: 'Invitation created and sent',
+        type: SentInvitationResponseDto,
+    })
+    @ApiResponse({
+        status: HttpStatus.CONFLICT,
+        description: 'Email already registered or a pending invitation already exists',
+    })
+    @ApiResponse({
+        status: HttpStatus.FORBIDDEN,
+        description: 'Manager or admin role required, or cooperative/role not allowed',
+    })
+    async create(
+        @CurrentUser() user: JwtPayload,
+        @Body() createInvitationDto: CreateInvitationDto,
+    ): Promise<SentInvitationResponseDto> {
+        return this.invitationsService.create(user, createInvitationDto);
+    }
+
+
+    @Get()
+    @ApiOperation({
+        summary: 'List invitations',
+        description: 'List invitations by status (pending by default). Managers only see their own cooperative.',
+    })
+    @ApiQuery({
+        name: 'status',
+        required: false,
+        enum: InvitationStatus,
+    })
+    @ApiQuery({
+        name: 'cooperativeId',
+        required: false,
+        description: 'Filter by cooperative (admin only)',
+    })
+    @ApiResponse({
+        status: HttpStatus.OK,
+        description: 'Invitations retrieved successfully',
+        type: [InvitationResponseDto],
+    })
+    async findAll(
+        @CurrentUser() user: JwtPayload,
+        @Query('status') status?: InvitationStatus,
+        @Query('cooperativeId') cooperativeId?: string,
+    ): Promise<InvitationResponseDto[]> {
+        return this.invitationsService.findAll(user, { status, cooperativeId });
+    }
+
+
+    @Post(':id/resend')
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({
+        summary: 'Resend an invitation',
+        description: 'Send a new invitation link and extend the expiry. Previously sent links stop working.',
+    })
+    @ApiParam({
+        name: 'id',
+        description: 'Invitation ID',
+    })
+    @ApiResponse({
+        status: HttpStatus.OK,
+        description: 'Invitation resent',
+        type: SentInvitationResponseDto,
+    })
+    @ApiResponse({
+        status: HttpStatus.BAD_REQUEST,
+        description: 'Invitation is no longer pending',
+    })
+    @ApiResponse({
+        status: HttpStatus.NOT_FOUND,
+        description: 'Invitation not found',
+    })
+    async resend(
+        @CurrentUser() user: JwtPayload,
+        @Param('id') id: string,
+    ): Promise<SentInvitationResponseDto> {
+        return this.invitationsService.resend(user, id);
+    }
+
+
+    @Delete(':id')
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({
+        summary: 'Revoke an invitation',
+        description: 'Revoke a pending invitation so its link can no longer be used.',
+    })
+    @ApiParam({
+        name: 'id',
+        description: 'Invitation ID',
+    })
+    @ApiResponse({
+        status: HttpStatus.OK,
+        description: 'Invitation revoked',
+    })
+    @ApiResponse({
+        status: HttpStatus.BAD_REQUEST,
+        description: 'Invitation is no longer pending',
+    })
+    @ApiResponse({
+        status: HttpStatus.NOT_FOUND,
+        description: 'Invitation not found',
+    })
+    async revoke(
+        @CurrentUser() user: JwtPayload,
+        @Param('id') id: string,
+    ): Promise<{ message: string }> {
+        return this.invitationsService.revoke(user, id);
+    }
+}
@@ -0,0 +1,37 @@
+import { Module } from '@nestjs/common';
+import { JwtModule } from '@nestjs/jwt';
+import { MongooseModule } from '@nestjs/mongoose';
+import { InvitationsController } from './invitations.controller';
+import { InvitationsService } from './invitations.service';
+import { Invitation, InvitationSchema } from './schemas/invitation.schema';
+import { User, UserSchema } from '../users/schemas/user.schema';
+import { MailModule } from '../mail/mail.module';
+import { SmsModule } from '../sms/sms.module';
+import { AuditModule } from '../audit/audit.module';
+import { PasswordPolicyModule } from '../password-policy/password-policy.module';
+import { PermissionsModule } from '../permissions/permissions.module';
+import { CooperativesModule } from '../cooperatives/cooperatives.module';
+
+
+@Module({
+    imports: [
+        // Invitation tokens are signed with their own secret, passed per call
+        JwtModule.register({}),
+
+        MongooseModule.forFeature([
+            { name: Invitation.name, schema: InvitationSchema },
+            { name: User.name, schema: UserSchema },
+        ]),
+
+        MailModule,
+        SmsModule,
+        AuditModule,
+        PasswordPolicyModule,
+        PermissionsModule,
+        CooperativesModule,
+    ],
+    controllers: [InvitationsController],
+    providers: [InvitationsService],
+    exports: [InvitationsService],
+})
+export class InvitationsModule { }
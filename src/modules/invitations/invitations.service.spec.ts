@@ -0,0 +1,121 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { Types } from 'mongoose';
+import { InvitationsService } from './invitations.service';
+import { InvitationStatus } from './schemas/invitation.schema';
+import { UserRole } from '../../common/enums/user-role.enum';
+
+describe('InvitationsService', () => {
+  const manager = { sub: 'manager-1', roles: [UserRole.MANAGER], cooperativeId: 'coop-a' };
+
+  let invitation: any;
+  let userModel: any;
+  let auditService: { record: jest.Mock };
+  let service: InvitationsService;
+
+  beforeEach(() => {
+    invitation = {
+      _id: new Types.ObjectId(),
+      email: 'jane@example.com',
+      role: UserRole.FARMER,
+      cooperativeId: 'coop-a',
+      invitedBy: manager.sub,
+      status: InvitationStatus.PENDING,
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+      sendCount: 0,
+      save: jest.fn(async () => invitation),
+    };
+    const invitationQuery = () => ({
+      select: async () => invitation,
+      then: (resolve: any, reject: any) => Promise.resolve(invitation).then(resolve, reject),
+    });
+
+    userModel = jest.fn((values: object) => {
+      const created: any = { _id: new Types.ObjectId(), ...values };
+      created.save = jest.fn(async () => created);
+      return created;
+    });
+    Object.assign(userModel, {
+      exists: jest.fn(async () => null),
+      findById: jest.fn(async () => ({ name: 'Manager' })),
+    });
+    auditService = { record: jest.fn() };
+
+    service = new InvitationsService(
+      { findById: jest.fn(invitationQuery) } as any,
+      userModel,
+      new JwtService({}),
+      new ConfigService({ auth: { invitationSecret: 'invitation-secret', invitationExpiresIn: '7d' }, frontendUrl: 'http://app' }),
+      { sendInvitation: jest.fn() } as any,
+      { sendInvitation: jest.fn() } as any,
+      auditService as any,
+      { setPassword: jest.fn() } as any,
+      {} as any,
+    );
+  });
+
+  const issueLink = async () => {
+    const { link } = await service.resend(manager, invitation._id.toString());
+    return decodeURIComponent(link.split('token=')[1]);
+  };
+
+  const accept = (token: string) => service.accept({ token, name: 'Jane Uwase', password: 'SecurePass123!' });
+
+  it('should create the account once and refuse a re-used link', async () => {
+    const token = await issueLink();
+
+    const user = await accept(token);
+
+    expect(user.cooperativeId).toBe('coop-a');
+    expect(user.emailVerified).toBe(true);
+    expect(invitation.status).toBe(InvitationStatus.ACCEPTED);
+
+    await expect(accept(token)).rejects.toThrow(BadRequestException);
+    expect(userModel).toHaveBeenCalledTimes(1);
+  });
+
+  it('should invalidate the previous link when resending', async () => {
+    const first = await issueLink();
+    const second = await issueLink();
+
+    await expect(accept(first)).rejects.toThrow('Invalid or expired invitation');
+    await expect(accept(second)).resolves.toBeDefined();
+    expect(invitation.sendCount).toBe(2);
+  });
+
+  it('should refuse links of revoked invitations and revoking twice', async () => {
+    const token = await issueLink();
+
+    await service.revoke(manager, invitation._id.toString());
+
+    await expect(accept(token)).rejects.toThrow(BadRequestException);
+    await expect(service.revoke(manager, invitation._id.toString())).rejects.toThrow('Invitation is already revoked');
+    await expect(service.resend(manager, invitation._id.toString())).rejects.toThrow(BadRequestException);
+  });
+
+  it('should refuse links of expired invitations', async () => {
+    const token = await issueLink();
+    invitation.expiresAt = new Date(Date.now() - 1000);
+
+    await expect(accept(token)).rejects.toThrow('Invalid or expired invitation');
+    expect(userModel).not.toHaveBeenCalled();
+  });
+
+  it('should refuse links signed with another secret', async () => {
+    const forged = new JwtService({}).sign(
+      { sub: invitation._id.toString(), purpose: 'invitation' },
+      { secret: 'another-secret', jwtid: 'token-1' },
+    );
+
+    await expect(accept(forged)).rejects.toThrow(BadRequestException);
+  });
+
+  it('should hide invitations of other cooperatives from managers', async () => {
+    const otherManager = { ...manager, sub: 'manager-2', cooperativeId: 'coop-b' };
+
+    await expect(service.resend(otherManager, invitation._id.toString())).rejects.toThrow(NotFoundException);
+    await expect(service.revoke(otherManager, invitation._id.toString())).rejects.toThrow(NotFoundException);
+    expect(invitation.status).toBe(InvitationStatus.PENDING);
+  });
+});
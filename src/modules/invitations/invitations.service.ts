@@ -0,0 +1,336 @@
+import {
+    Injectable,
+    BadRequestException,
+    ConflictException,
+    ForbiddenException,
+    NotFoundException,
+    Logger,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, isValidObjectId } from 'mongoose';
+import { JwtService } from '@nestjs/jwt';
+import { ConfigService } from '@nestjs/config';
+import { v4 as uuidv4 } from 'uuid';
+import * as ms from 'ms';
+import { Invitation, InvitationDocument, InvitationStatus } from './schemas/invitation.schema';
+import { CreateInvitationDto } from './dto/create-invitation.dto';
+import { AcceptInvitationDto } from './dto/accept-invitation.dto';
+import { InvitationResponseDto, SentInvitationResponseDto } from './dto/invitation-response.dto';
+import { User, UserDocument } from '../users/schemas/user.schema';
+import { MailService } from '../mail/mail.service';
+import { SmsService } from '../sms/sms.service';
+import { AuditService } from '../audit/audit.service';
+import { PasswordPolicyService } from '../password-policy/password-policy.service';
+import { CooperativesService } from '../cooperatives/cooperatives.service';
+import { getCooperativeIds, toCooperativeFilter } from '../cooperatives/cooperative-scope';
+import { JwtPayload } from '../../common/interfaces/jwt-payload.interface';
+import { withoutTenantScope } from '../../common/tenancy/tenant-context';
+import { UserRole } from '../../common/enums/user-role.enum';
+
+
+const INVITATION_PURPOSE = 'invitation';
+
+
+@Injectable()
+export class InvitationsService {
+    private readonly logger = new Logger(InvitationsService.name);
+    private readonly expiresIn: string;
+
+    constructor(
+        @InjectModel(Invitation.name) private invitationModel: Model<InvitationDocument>,
+        @InjectModel(User.name) private userModel: Model<UserDocument>,
+        private jwtService: JwtService,
+        private configService: ConfigService,
+        private mailService: MailService,
+        private smsService: SmsService,
+        private auditService: AuditService,
+        private passwordPolicyService: PasswordPolicyService,
+        private cooperativesService: CooperativesService,
+    ) {
+        this.expiresIn = this.configService.get<string>('auth.invitationExpiresIn', '7d');
+    }
+
+
+    async create(currentUser: JwtPayload, createInvitationDto: CreateInvitationDto): Promise<SentInvitationResponseDto> {
+        const { email, phone, role = UserRole.FARMER } = createInvitationDto;
+        const scope = getCooperativeIds(currentUser);
+        const cooperativeId = createInvitationDto.cooperativeId ?? (scope?.length === 1 ? scope[0] : undefined);
+
+        if (!cooperativeId) {
+            throw new BadRequestException('A cooperative is required for the invitation');
+        }
+
+        if (scope) {
+            if (!scope.includes(cooperativeId)) {
+                throw new ForbiddenException('Access denied: Managers can only invite to their own cooperative');
+            }
+
+            if (role === UserRole.ADMIN) {
+                throw new ForbiddenException('Access denied: Managers cannot invite administrators');
+            }
+        }
+
+        await this.cooperativesService.assertAssignable(cooperativeId);
+
+        // Accounts and invitations are unique across cooperatives
+        const [emailTaken, phoneTaken, existing] = await withoutTenantScope(() => Promise.all([
+            email && this.userModel.exists({ email: email.toLowerCase() }).exec(),
+            phone && this.userModel.exists({ phone }).exec(),
+            this.invitationModel.findOne({
+                status: InvitationStatus.PENDING,
+                expiresAt: { $gt: new Date() },
+                ...(email ? { email: email.toLowerCase() } : { phone }),
+            }).exec(),
+        ]));
+
+        if (emailTaken) {
+            throw new ConflictException('Email already registered');
+        }
+
+        if (phoneTaken) {
+            throw new ConflictException('Phone number already registered');
+        }
+
+        if (existing) {
+            throw new ConflictException('A pending invitation already exists for this recipient');
+        }
+
+        const invitation = await new this.invitationModel({
+            email,
+            phone,
+            role,
+            cooperativeId,
+            invitedBy: currentUser.sub,
+            expiresAt: this.getExpiryDate(),
+        }).save();
+
+        const link = await this.send(invitation);
+
+        await this.auditService.record({
+            action: 'invitation.created',
+            actorId: currentUser.sub,
+            details: { invitationId: invitation._id.toString(), cooperativeId, role },
+        });
+
+        return { ...this.toResponseDto(invitation), link };
+    }
+
+
+    async findAll(
+        currentUser: JwtPayload,
+        filters?: { status?: InvitationStatus; cooperativeId?: string },
+    ): Promise<InvitationResponseDto[]> {
+        const query: any = { status: filters?.status ?? InvitationStatus.PENDING };
+
+        const cooperativeFilter = toCooperativeFilter(getCooperativeIds(currentUser), filters?.cooperativeId);
+
+        if (cooperativeFilter) {
+            query.cooperativeId = cooperativeFilter;
+        }
+
+        const invitations = await this.invitationModel.find(query).sort({ createdAt: -1 });
+
+        return invitations.map((invitation) => this.toResponseDto(invitation));
+    }
+
+
+    async resend(currentUser: JwtPayload, id: string): Promise<SentInvitationResponseDto> {
+        const invitation = await this.findManageable(currentUser, id);
+
+        if (invitation.status !== InvitationStatus.PENDING) {
+            throw new BadRequestException(`Invitation is already ${invitation.status}`);
+        }
+
+        invitation.expiresAt = this.getExpiryDate();
+        await invitation.save();
+
+        const link = await this.send(invitation);
+
+        return { ...this.toResponseDto(invitation), link };
+    }
+
+
+    async revoke(currentUser: JwtPayload, id: string): Promise<{ message: string }> {
+        const invitation = await this.findManageable(currentUser, id);
+
+        if (invitation.status !== InvitationStatus.PENDING) {
+            throw new BadRequestException(`Invitation is already ${invitation.status}`);
+        }
+
+        invitation.status = InvitationStatus.REVOKED;
+        invitation.revokedAt = new Date();
+        invitation.tokenId = undefined;
+        await invitation.save();
+
+        await this.auditService.record({
+            action: 'invitation.revoked',
+            actorId: currentUser.sub,
+            details: { invitationId: id },
+        });
+
+        return { message: 'Invitation revoked successfully' };
+    }
+
+
+    /**
+     * Create the invitee's account from a valid invitation link and mark the
+     * invitation as accepted. Returns the new user so the caller can sign them in.
+     */
+    async accept(acceptInvitationDto: AcceptInvitationDto): Promise<UserDocument> {
+        const { token, name, password } = acceptInvitationDto;
+        const invitation = await this.verifyToken(token);
+
+        const email = (invitation.email ?? acceptInvitationDto.email)?.toLowerCase();
+        const phone = invitation.phone;
+
+        if (email && (await this.userModel.exists({ email }))) {
+            throw new ConflictException('Email already registered');
+        }
+
+        if (phone && (await this.userModel.exists({ phone }))) {
+            throw new ConflictException('Phone number already registered');
+        }
+
+        // The link was delivered to this address or number, which proves ownership
+        const user = new this.userModel({
+            name,
+            email,
+            phone,
+            roles: [invitation.role],
+            cooperativeId: invitation.cooperativeId,
+            isActive: true,
+            emailVerified: !!invitation.email,
+            emailVerifiedAt: invitation.email ? new Date() : undefined,
+            phoneVerified: !!phone,
+            phoneVerifiedAt: phone ? new Date() : undefined,
+        });
+
+        await this.passwordPolicyService.setPassword(user, password);
+        await user.save();
+
+        invitation.status = InvitationStatus.ACCEPTED;
+        invitation.acceptedAt = new Date();
+        invitation.acceptedUserId = user._id.toString();
+        invitation.tokenId = undefined;
+        await invitation.save();
+
+        await this.auditService.record({
+            action: 'invitation.accepted',
+            userId: user._id.toString(),
+            actorId: invitation.invitedBy,
+            details: { invitationId: invitation._id.toString(), cooperativeId: invitation.cooperativeId },
+        });
+
+        return user;
+    }
+
+
+    private async verifyToken(token: string): Promise<InvitationDocument> {
+        let payload: { sub: string; purpose: string; jti: string };
+
+        try {
+            payload = this.jwtService.verify(token, {
+                secret: this.configService.get<string>('auth.invitationSecret'),
+            });
+        } catch (error) {
+            throw new BadRequestException('Invalid or expired invitation');
+        }
+
+        if (payload.purpose !== INVITATION_PURPOSE) {
+            throw new BadRequestException('Invalid or expired invitation');
+        }
+
+        const invitation = await this.invitationModel.findById(payload.sub).select('+tokenId');
+
+        if (
+            !invitation ||
+            invitation.status !== InvitationStatus.PENDING ||
+            invitation.expiresAt <= new Date() ||
+            invitation.tokenId !== payload.jti
+        ) {
+            throw new BadRequestException('Invalid or expired invitation');
+        }
+
+        return invitation;
+    }
+
+
+    /**
+     * Issue a fresh signed link for the invitation and deliver it. Returns the
+     * link so it can also be shared manually.
+     */
+    private async send(invitation: InvitationDocument): Promise<string> {
+        const tokenId = uuidv4();
+        const expiresInSeconds = Math.max(1, Math.floor((invitation.expiresAt.getTime() - Date.now()) / 1000));
+
+        const token = this.jwtService.sign(
+            { sub: invitation._id.toString(), purpose: INVITATION_PURPOSE },
+            {
+                secret: this.configService.get<string>('auth.invitationSecret'),
+                expiresIn: expiresInSeconds,
+                jwtid: tokenId,
+            },
+        );
+
+        invitation.tokenId = tokenId;
+        invitation.sendCount += 1;
+        invitation.lastSentAt = new Date();
+        await invitation.save();
+
+        const frontendUrl = this.configService.get<string>('frontendUrl');
+        const link = `${frontendUrl}/accept-invitation?token=${encodeURIComponent(token)}`;
+
+        const inviter = await this.userModel.findById(invitation.invitedBy);
+        const inviterName = inviter?.name ?? 'Your cooperative';
+
+        // Delivery failures are logged only; the link is returned for manual sharing
+        try {
+            if (invitation.email) {
+                await this.mailService.sendInvitation(invitation.email, inviterName, link, this.expiresIn);
+            } else {
+                await this.smsService.sendInvitation(invitation.phone, inviterName, link, this.expiresIn);
+            }
+        } catch (error) {
+            this.logger.error(
+                `Failed to send invitation to ${invitation.email ?? invitation.phone}: ${error.message}`,
+                error.stack,
+            );
+        }
+
+        return link;
+    }
+
+
+    private async findManageable(currentUser: JwtPayload, id: string): Promise<InvitationDocument> {
+        const invitation = isValidObjectId(id) ? await this.invitationModel.findById(id) : null;
+        const scope = getCooperativeIds(currentUser);
+
+        if (!invitation || (scope && !scope.includes(invitation.cooperativeId))) {
+            throw new NotFoundException('Invitation not found');
+        }
+
+        return invitation;
+    }
+
+
+    private getExpiryDate(): Date {
+        return new Date(Date.now() + ms(this.expiresIn as ms.StringValue));
+    }
+
+
+    private toResponseDto(invitation: InvitationDocument): InvitationResponseDto {
+        return {
+            id: invitation._id.toString(),
+            email: invitation.email,
+            phone: invitation.phone,
+            role: invitation.role,
+            cooperativeId: invitation.cooperativeId,
+            invitedBy: invitation.invitedBy,
+            status: invitation.status,
+            expired: invitation.status === InvitationStatus.PENDING && invitation.expiresAt <= new Date(),
+            expiresAt: invitation.expiresAt,
+            sendCount: invitation.sendCount,
+            createdAt: invitation.createdAt,
+        };
+    }
+}
@@ -0,0 +1,75 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import { UserRole } from '../../../common/enums/user-role.enum';
+import { tenancyPlugin } from '../../../common/tenancy/tenancy.plugin';
+
+export type InvitationDocument = Invitation & Document;
+
+export enum InvitationStatus {
+    PENDING = 'pending',
+    ACCEPTED = 'accepted',
+    REVOKED = 'revoked',
+}
+
+
+@Schema({
+    timestamps: true,
+    collection: 'invitations',
+})
+export class Invitation {
+    @Prop({ required: false, lowercase: true, trim: true })
+    email?: string;
+
+    @Prop({ required: false, trim: true })
+    phone?: string;
+
+    @Prop({ required: true, enum: Object.values(UserRole), default: UserRole.FARMER })
+    role: UserRole;
+
+    @Prop({ required: true, index: true })
+    cooperativeId: string;
+
+    @Prop({ required: true })
+    invitedBy: string;
+
+    @Prop({
+        required: true,
+        enum: Object.values(InvitationStatus),
+        default: InvitationStatus.PENDING,
+    })
+    status: InvitationStatus;
+
+    // jti of the most recently sent link; resending invalidates earlier links
+    @Prop({ required: false, select: false })
+    tokenId?: string;
+
+    @Prop({ required: true })
+    expiresAt: Date;
+
+    @Prop({ default: 0 })
+    sendCount: number;
+
+    @Prop({ required: false })
+    lastSentAt?: Date;
+
+    @Prop({ required: false })
+    acceptedAt?: Date;
+
+    @Prop({ required: false })
+    acceptedUserId?: string;
+
+    @Prop({ required: false })
+    revokedAt?: Date;
+
+    createdAt: Date;
+
+    updatedAt: Date;
+}
+
+export const InvitationSchema = SchemaFactory.createForClass(Invitation);
+
+InvitationSchema.plugin(tenancyPlugin, { ownerField: 'invitedBy' });
+
+InvitationSchema.index({ cooperativeId: 1, status: 1 });
+InvitationSchema.index({ email: 1, status: 1 });
+InvitationSchema.index({ phone: 1, status: 1 });
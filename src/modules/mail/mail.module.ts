@@ -0,0 +1,31 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+
+import { MailService } from './mail.service';
+import { ConsoleMailTransport } from './transports/console-mail.transport';
+import { FileMailTransport } from './transports/file-mail.transport';
+
+@Module({
+  imports: [ConfigModule],
+  providers: [
+    MailService,
+    {
+      provide: 'MAIL_TRANSPORT',
+      useFactory: (configService: ConfigService) => {
+        const transport = configService.get<string>('mail.transport');
+
+        switch (transport) {
+          case 'file':
+            return new FileMailTransport(configService.get<string>('mail.outputDir'));
+          case 'console':
+            return new ConsoleMailTransport();
+          default:
+            throw new Error(`Unsupported mail transport: ${transport}`);
+        }
+      },
+      inject: [ConfigService],
+    },
+  ],
+  exports: [MailService],
+})
+export class MailModule {}
@@ -0,0 +1,98 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+import { MailTransport } from './transports/mail-transport.interface';
+
+@Injectable()
+export class MailService {
+  private readonly logger = new Logger(MailService.name);
+  private readonly from: string;
+
+  constructor(
+    @Inject('MAIL_TRANSPORT') private readonly transport: MailTransport,
+    private readonly configService: ConfigService,
+  ) {
+    this.from = this.configService.get<string>('mail.from');
+  }
+
+  /**
+   * Send a plain-text email through the configured transport
+   */
+  async send(to: string, subject: string, text: string): Promise<void> {
+    await this.transport.send({ from: this.from, to, subject, text });
+    this.logger.debug(`Sent "${subject}" to ${to}`);
+  }
+
+  /**
+   * Send the email address verification link to a newly registered user
+   */
+  async sendEmailVerification(to: string, name: string, link: string): Promise<void> {
+    await this.send(
+      to,
+      'Verify your email address',
+      `Hello ${name},\n\n` +
+        'Please confirm your email address by opening the link below:\n\n' +
+        `${link}\n\n` +
+        'If you did not create an account, you can ignore this message.',
+    );
+  }
+
+  /**
+   * Send a password reset link
+   */
+  async sendPasswordReset(to: string, name: string, link: string, expiresIn: string): Promise<void> {
+    await this.send(
+      to,
+      'Reset your password',
+      `Hello ${name},\n\n` +
+        'We received a request to reset your password. Open the link below to choose a new one:\n\n' +
+        `${link}\n\n` +
+        `This link expires in ${expiresIn} and can only be used once. ` +
+        'If you did not request a password reset, you can ignore this message.',
+    );
+  }
+
+  /**
+   * Send a cooperative invitation link
+   */
+  async sendInvitation(to: string, inviterName: string, link: string, expiresIn: string): Promise<void> {
+    await this.send(
+      to,
+      "You've been invited to Angular Leaf",
+      'Hello,\n\n' +
+        `${inviterName} has invited you to join their cooperative on Angular Leaf. ` +
+        'Open the link below to set your password and activate your account:\n\n' +
+        `${link}\n\n` +
+        `This invitation expires in ${expiresIn}.`,
+    );
+  }
+
+  /**
+   * Send the download link for a personal data export
+   */
+  async sendDataExportReady(to: string, name: string, link: string, expiresIn: string): Promise<void> {
+    await this.send(
+      to,
+      'Your data export is ready',
+      `Hello ${name},\n\n` +
+        'The copy of your Angular Leaf data you requested is ready. Download it from the link below:\n\n' +
+        `${link}\n\n` +
+        `This link expires in ${expiresIn}. ` +
+        'If you did not request this export, please change your password and contact support.',
+    );
+  }
+
+  /**
+   * Tell a user when their account is scheduled to be erased
+   */
+  async sendErasureScheduled(to: string, name: string, scheduledFor: Date): Promise<void> {
+    await this.send(
+      to,
+      'Your account is scheduled for deletion',
+      `Hello ${name},\n\n` +
+        `Your Angular Leaf account and the data linked to it will be permanently erased on ${scheduledFor.toUTCString()}. ` +
+        'Until then you can cancel the erasure from your profile settings.\n\n' +
+        'If you did not ask for this, sign in and cancel it, then contact your cooperative or support.',
+    );
+  }
+}
@@ -0,0 +1,16 @@
+import { Logger } from '@nestjs/common';
+
+import { MailMessage, MailTransport } from './mail-transport.interface';
+
+/**
+ * Development transport that writes outgoing mail to the application log
+ */
+export class ConsoleMailTransport implements MailTransport {
+  private readonly logger = new Logger('Mail');
+
+  async send(message: MailMessage): Promise<void> {
+    this.logger.log(
+      `To: ${message.to}\nFrom: ${message.from}\nSubject: ${message.subject}\n\n${message.text}`,
+    );
+  }
+}
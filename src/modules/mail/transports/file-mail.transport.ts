@@ -0,0 +1,33 @@
+import { Logger } from '@nestjs/common';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { v4 as uuidv4 } from 'uuid';
+
+import { MailMessage, MailTransport } from './mail-transport.interface';
+
+/**
+ * Development transport that stores each outgoing mail as an .eml file
+ */
+export class FileMailTransport implements MailTransport {
+  private readonly logger = new Logger('Mail');
+
+  constructor(private readonly outputDir: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.mkdir(this.outputDir, { recursive: true });
+
+    const filePath = join(this.outputDir, `${Date.now()}-${uuidv4()}.eml`);
+    const content = [
+      `From: ${message.from}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      `Date: ${new Date().toUTCString()}`,
+      'Content-Type: text/plain; charset=utf-8',
+      '',
+      message.text,
+    ].join('\r\n');
+
+    await fs.writeFile(filePath, content, 'utf8');
+    this.logger.log(`Mail to ${message.to} written to ${filePath}`);
+  }
+}
@@ -0,0 +1,2 @@
+export * from './usage-report-query.dto';
+export * from './usage-report-response.dto';
@@ -0,0 +1,32 @@
+import { IsOptional, IsString, Matches } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+
+/**
+ * Query parameters for GET /usage
+ */
+export class UsageReportQueryDto {
+    @ApiPropertyOptional({
+        description: 'Calendar month (UTC) to report on. Defaults to the current month.',
+        example: '2026-10',
+    })
+    @IsOptional()
+    @Matches(/^\d{4}-(0[1-9]|1[0-2])$/, { message: 'month must be formatted as YYYY-MM' })
+    month?: string;
+
+    @ApiPropertyOptional({
+        description: 'Only report on this cooperative. Managers are limited to the cooperatives they oversee.',
+        example: '507f1f77bcf86cd799439011',
+    })
+    @IsOptional()
+    @IsString()
+    cooperativeId?: string;
+
+    @ApiPropertyOptional({
+        description: 'Only report on the cooperatives below this region or district',
+        example: '507f1f77bcf86cd799439013',
+    })
+    @IsOptional()
+    @IsString()
+    organisationId?: string;
+}
@@ -0,0 +1,62 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { UsageQuota } from '../../../common/enums/usage-metric.enum';
+
+
+export class QuotaStatusDto {
+    @ApiProperty({ description: 'Quota', enum: UsageQuota, example: UsageQuota.CLASSIFICATIONS })
+    quota: UsageQuota;
+
+    @ApiProperty({ description: 'Monthly limit, or null when unlimited', example: 5000, nullable: true })
+    limit: number | null;
+
+    @ApiProperty({ description: 'Units used this month', example: 4210 })
+    used: number;
+
+    @ApiProperty({ description: 'Units left this month, or null when unlimited', example: 790, nullable: true })
+    remaining: number | null;
+
+    @ApiProperty({ description: 'Whether usage has passed the warning threshold', example: true })
+    warning: boolean;
+
+    @ApiProperty({ description: 'Whether the quota is used up', example: false })
+    exceeded: boolean;
+
+    @ApiProperty({ description: 'When the quota resets (start of the next month, UTC)', example: '2026-11-01T00:00:00.000Z' })
+    resetsAt: Date;
+}
+
+
+export class CooperativeUsageDto {
+    @ApiProperty({ description: 'Cooperative ID', example: '507f1f77bcf86cd799439011' })
+    cooperativeId: string;
+
+    @ApiPropertyOptional({ description: 'Cooperative name; absent for deleted cooperatives', example: 'Abahinzi ba Huye' })
+    name?: string;
+
+    @ApiProperty({
+        description: 'Units used per metric',
+        example: { classification: 3900, batch_item: 310, recommendation: 820 },
+    })
+    usage: Record<string, number>;
+
+    @ApiProperty({ description: 'Quotas of the month, against the current limits', type: [QuotaStatusDto] })
+    quotas: QuotaStatusDto[];
+}
+
+
+export class UsageReportResponseDto {
+    @ApiProperty({ description: 'Start of the month (UTC)', example: '2026-10-01T00:00:00.000Z' })
+    from: Date;
+
+    @ApiProperty({ description: 'Start of the following month (UTC), exclusive', example: '2026-11-01T00:00:00.000Z' })
+    to: Date;
+
+    @ApiProperty({
+        description: 'Units used per metric, including callers without a cooperative',
+        example: { classification: 4100, batch_item: 310, recommendation: 850 },
+    })
+    totals: Record<string, number>;
+
+    @ApiProperty({ description: 'Usage per cooperative, by name', type: [CooperativeUsageDto] })
+    cooperatives: CooperativeUsageDto[];
+}
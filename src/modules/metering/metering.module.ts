@@ -0,0 +1,33 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { UsageController } from './usage.controller';
+import { MeteringService } from './metering.service';
+import { UsageRecord, UsageRecordSchema } from './schemas/usage-record.schema';
+import { UsageCounter, UsageCounterSchema } from './schemas/usage-counter.schema';
+import { Cooperative, CooperativeSchema } from '../cooperatives/schemas/cooperative.schema';
+import { AuditModule } from '../audit/audit.module';
+import { PermissionsModule } from '../permissions/permissions.module';
+import { OrganisationsModule } from '../organisations/organisations.module';
+
+
+/**
+ * Usage of the ML API and the AI service per user and cooperative. Exports
+ * MeteringService for the modules that record usage and enforce quotas.
+ */
+@Module({
+    imports: [
+        MongooseModule.forFeature([
+            { name: UsageRecord.name, schema: UsageRecordSchema },
+            { name: UsageCounter.name, schema: UsageCounterSchema },
+            { name: Cooperative.name, schema: CooperativeSchema },
+        ]),
+
+        AuditModule,
+        PermissionsModule,
+        OrganisationsModule,
+    ],
+    controllers: [UsageController],
+    providers: [MeteringService],
+    exports: [MeteringService],
+})
+export class MeteringModule { }
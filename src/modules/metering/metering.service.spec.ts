@@ -0,0 +1,183 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Types } from 'mongoose';
+import { MeteringService } from './metering.service';
+import { UserRole } from '../../common/enums/user-role.enum';
+import { UsageMetric, UsageQuota } from '../../common/enums/usage-metric.enum';
+
+describe('MeteringService', () => {
+  const cooperativeId = new Types.ObjectId().toString();
+  const otherCooperativeId = new Types.ObjectId().toString();
+  const farmer = { sub: 'farmer-1', roles: [UserRole.FARMER], cooperativeId };
+
+  let cooperative: any;
+  let used: number;
+  let counter: { used: number } | null;
+  let usageRecordModel: { create: jest.Mock; aggregate: jest.Mock };
+  let usageCounterModel: Record<'exists' | 'findOne' | 'findOneAndUpdate' | 'updateOne', jest.Mock>;
+  let cooperativeModel: { findById: jest.Mock; find: jest.Mock };
+  let auditService: { record: jest.Mock };
+  let service: MeteringService;
+
+  const createService = (metering: Record<string, number>) => new MeteringService(
+    usageRecordModel as any,
+    usageCounterModel as any,
+    cooperativeModel as any,
+    new ConfigService({ metering: { warningThreshold: 0.8, ...metering } }),
+    {} as any,
+    auditService as any,
+  );
+
+  beforeEach(() => {
+    cooperative = { _id: new Types.ObjectId(cooperativeId), name: 'Kisumu Growers', quotas: {} };
+    used = 0;
+    usageRecordModel = {
+      create: jest.fn(async (record) => {
+        used += record.quantity;
+        return record;
+      }),
+      aggregate: jest.fn(async () => (used ? [{ _id: null, quantity: used }] : [])),
+    };
+    // One month's counter of one cooperative, incremented as atomically as MongoDB would
+    counter = null;
+    usageCounterModel = {
+      exists: jest.fn(async () => counter && { _id: 'counter-1' }),
+      findOne: jest.fn(async () => counter),
+      findOneAndUpdate: jest.fn(async ({ used: { $lte } }, { $inc }) => {
+        if (!counter || counter.used > $lte) {
+          return null;
+        }
+        counter.used += $inc.used;
+        return counter;
+      }),
+      updateOne: jest.fn(async (_filter, update) => {
+        counter ??= { used: update.$setOnInsert?.used ?? 0 };
+        counter.used += update.$inc?.used ?? 0;
+      }),
+    };
+    cooperativeModel = {
+      findById: jest.fn(() => ({ select: jest.fn(async () => cooperative) })),
+      find: jest.fn(() => ({ select: jest.fn(async () => [cooperative]) })),
+    };
+    auditService = { record: jest.fn() };
+
+    service = createService({ classificationsPerMonth: 100, recommendationsPerMonth: 0 });
+  });
+
+  it('should refuse with 429 once the cooperative has used up its quota', async () => {
+    used = 100;
+
+    const error = await service.reserve(farmer, UsageQuota.CLASSIFICATIONS).catch((e) => e);
+
+    expect(error).toBeInstanceOf(HttpException);
+    expect(error.getStatus()).toBe(HttpStatus.TOO_MANY_REQUESTS);
+    expect(error.message).toContain('quota of 100');
+  });
+
+  it('should not limit quotas configured as 0', async () => {
+    used = 5000;
+
+    await expect(service.reserve(farmer, UsageQuota.RECOMMENDATIONS)).resolves.toBeNull();
+    await expect(service.getQuotaStatusFor(farmer, UsageQuota.RECOMMENDATIONS)).resolves.toEqual(
+      expect.objectContaining({ limit: null, remaining: null, exceeded: false, used: 5000 }),
+    );
+    expect(usageCounterModel.findOneAndUpdate).not.toHaveBeenCalled();
+  });
+
+  it("should prefer the cooperative's own quota and refuse batches that do not fit", async () => {
+    cooperative.quotas = { classificationsPerMonth: 10 };
+    used = 7;
+
+    await expect(service.reserve(farmer, UsageQuota.CLASSIFICATIONS, 2)).resolves.toEqual(
+      expect.objectContaining({ cooperativeId, quantity: 2 }),
+    );
+    await expect(service.reserve(farmer, UsageQuota.CLASSIFICATIONS, 2)).rejects.toThrow('Only 1');
+    expect(counter.used).toBe(9);
+  });
+
+  it('should not let concurrent requests overshoot the quota', async () => {
+    cooperative.quotas = { classificationsPerMonth: 10 };
+    used = 8;
+
+    const outcomes = await Promise.allSettled(
+      Array.from({ length: 5 }, () => service.reserve(farmer, UsageQuota.CLASSIFICATIONS)),
+    );
+
+    expect(outcomes.filter((outcome) => outcome.status === 'fulfilled')).toHaveLength(2);
+    expect(counter.used).toBe(10);
+  });
+
+  it('should give back the units of failed calls', async () => {
+    cooperative.quotas = { classificationsPerMonth: 10 };
+    used = 5;
+
+    const reservation = await service.reserve(farmer, UsageQuota.CLASSIFICATIONS, 4);
+    await service.release(reservation, 3);
+    expect(counter.used).toBe(6);
+
+    await service.release(await service.reserve(farmer, UsageQuota.CLASSIFICATIONS, 4));
+    expect(counter.used).toBe(6);
+  });
+
+  it('should audit crossing the warning threshold and the limit once each', async () => {
+    used = 78;
+
+    await service.record(farmer, UsageMetric.CLASSIFICATION);
+    expect(auditService.record).not.toHaveBeenCalled();
+
+    await service.record(farmer, UsageMetric.BATCH_ITEM, 5);
+    await service.record(farmer, UsageMetric.CLASSIFICATION);
+    expect(auditService.record).toHaveBeenCalledTimes(1);
+    expect(auditService.record).toHaveBeenCalledWith(expect.objectContaining({
+      action: 'metering.quota_warning',
+      details: { cooperativeId, quota: UsageQuota.CLASSIFICATIONS, used: 84, limit: 100 },
+    }));
+
+    used = 99;
+    await service.record(farmer, UsageMetric.CLASSIFICATION);
+    expect(auditService.record).toHaveBeenLastCalledWith(expect.objectContaining({ action: 'metering.quota_exhausted' }));
+  });
+
+  it('should apply the default quota to cooperative ids from before cooperatives were stored', async () => {
+    const legacyFarmer = { ...farmer, cooperativeId: 'coop-123' };
+    used = 99;
+
+    await expect(service.reserve(legacyFarmer, UsageQuota.CLASSIFICATIONS)).resolves.toEqual(
+      expect.objectContaining({ cooperativeId: 'coop-123', quantity: 1 }),
+    );
+    await expect(service.reserve(legacyFarmer, UsageQuota.CLASSIFICATIONS)).rejects.toThrow('quota of 100');
+    expect(cooperativeModel.findById).not.toHaveBeenCalled();
+  });
+
+  it('should record callers without a cooperative without limiting them', async () => {
+    const admin = { sub: 'admin-1', roles: [UserRole.ADMIN] };
+
+    await service.record(admin, UsageMetric.RECOMMENDATION);
+
+    expect(usageRecordModel.create).toHaveBeenCalledWith(expect.objectContaining({ userId: 'admin-1', cooperativeId: undefined }));
+    await expect(service.reserve(admin, UsageQuota.RECOMMENDATIONS)).resolves.toBeNull();
+    expect(cooperativeModel.findById).not.toHaveBeenCalled();
+  });
+
+  it('should keep managers to their own cooperatives in the report', async () => {
+    const manager = { sub: 'manager-1', roles: [UserRole.MANAGER], cooperativeId };
+    usageRecordModel.aggregate.mockResolvedValue([
+      { _id: { cooperativeId, metric: UsageMetric.CLASSIFICATION }, quantity: 40 },
+      { _id: { cooperativeId, metric: UsageMetric.BATCH_ITEM }, quantity: 50 },
+    ]);
+
+    const report = await service.getReport({ month: '2026-02', cooperativeId: otherCooperativeId }, manager);
+
+    const [{ $match }] = usageRecordModel.aggregate.mock.calls[0][0];
+    expect($match.cooperativeId).toBe(cooperativeId);
+    expect($match.createdAt).toEqual({ $gte: new Date('2026-02-01T00:00:00Z'), $lt: new Date('2026-03-01T00:00:00Z') });
+    expect(report.totals).toEqual({ classification: 40, batch_item: 50, recommendation: 0 });
+    expect(report.cooperatives).toHaveLength(1);
+    expect(report.cooperatives[0].quotas[0]).toEqual(expect.objectContaining({
+      quota: UsageQuota.CLASSIFICATIONS,
+      used: 90,
+      remaining: 10,
+      warning: true,
+    }));
+  });
+});
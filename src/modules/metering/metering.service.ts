@@ -0,0 +1,399 @@
+import { Injectable, HttpException, HttpStatus, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { FilterQuery, Model, isValidObjectId } from 'mongoose';
+import { UsageRecord, UsageRecordDocument } from './schemas/usage-record.schema';
+import { UsageCounter, UsageCounterDocument } from './schemas/usage-counter.schema';
+import { UsageReportQueryDto } from './dto/usage-report-query.dto';
+import { CooperativeUsageDto, QuotaStatusDto, UsageReportResponseDto } from './dto/usage-report-response.dto';
+import { Cooperative, CooperativeDocument, CooperativeQuotas } from '../cooperatives/schemas/cooperative.schema';
+import { resolveCooperativeScope, toCooperativeFilter } from '../cooperatives/cooperative-scope';
+import { OrganisationsService } from '../organisations/organisations.service';
+import { AuditService } from '../audit/audit.service';
+import { JwtPayload } from '../../common/interfaces/jwt-payload.interface';
+import { QUOTA_METRICS, UsageMetric, UsageQuota } from '../../common/enums/usage-metric.enum';
+
+
+// Field of CooperativeQuotas, and of the `metering` configuration, holding each quota's limit
+const QUOTA_LIMIT_FIELDS: Record<UsageQuota, keyof CooperativeQuotas> = {
+    [UsageQuota.CLASSIFICATIONS]: 'classificationsPerMonth',
+    [UsageQuota.RECOMMENDATIONS]: 'recommendationsPerMonth',
+};
+
+interface UsageRow {
+    _id: { cooperativeId?: string; metric: UsageMetric };
+    quantity: number;
+}
+
+/**
+ * Units of a quota held for a call in flight, to be released if the call fails
+ */
+export interface QuotaReservation {
+    cooperativeId: string;
+    quota: UsageQuota;
+    month: Date;
+    quantity: number;
+}
+
+
+/**
+ * Records calls to the ML API and the AI service, and enforces the monthly
+ * quotas of cooperatives by reserving units before each call. Quotas run per
+ * calendar month in UTC; callers without a cooperative are recorded but
+ * never limited.
+ */
+@Injectable()
+export class MeteringService {
+    private readonly logger = new Logger(MeteringService.name);
+    private readonly warningThreshold: number;
+
+    constructor(
+        @InjectModel(UsageRecord.name) private usageRecordModel: Model<UsageRecordDocument>,
+        @InjectModel(UsageCounter.name) private usageCounterModel: Model<UsageCounterDocument>,
+        @InjectModel(Cooperative.name) private cooperativeModel: Model<CooperativeDocument>,
+        private configService: ConfigService,
+        private organisationsService: OrganisationsService,
+        private auditService: AuditService,
+    ) {
+        this.warningThreshold = this.configService.get<number>('metering.warningThreshold', 0.8);
+    }
+
+
+    /**
+     * Count a metered call against the caller and their cooperative. Failures
+     * are logged but never propagated, so that metering cannot fail a call
+     * that has already been made.
+     */
+    async record(currentUser: JwtPayload | undefined, metric: UsageMetric, quantity = 1): Promise<void> {
+        if (!currentUser || quantity < 1) {
+            return;
+        }
+
+        const cooperativeId = currentUser.cooperativeId;
+
+        try {
+            await this.usageRecordModel.create({
+                metric,
+                quantity,
+                userId: currentUser.sub,
+                cooperativeId,
+                organisationId: cooperativeId ? undefined : currentUser.organisationId,
+                apiKeyId: currentUser.apiKeyId,
+            });
+
+            if (cooperativeId) {
+                await this.notifyThresholds(cooperativeId, this.toQuota(metric), quantity);
+            }
+        } catch (error) {
+            this.logger.error(`Failed to record ${metric} usage of user ${currentUser.sub}: ${error.message}`, error.stack);
+        }
+    }
+
+
+    /**
+     * This month's quota of the caller's cooperative, or null for callers
+     * without one
+     */
+    async getQuotaStatusFor(currentUser: JwtPayload | undefined, quota: UsageQuota): Promise<QuotaStatusDto | null> {
+        if (!currentUser?.cooperativeId) {
+            return null;
+        }
+
+        return this.getQuotaStatus(currentUser.cooperativeId, quota);
+    }
+
+
+    /**
+     * Reserve `quantity` units of the caller's cooperative quota right before
+     * calling the ML API or the AI service, refusing with 429 when they do
+     * not fit. The counter only moves while enough units are left, so
+     * concurrent requests cannot overshoot the limit. Null for callers
+     * without a cooperative and for unlimited quotas.
+     */
+    async reserve(
+        currentUser: JwtPayload | undefined,
+        quota: UsageQuota,
+        quantity = 1,
+    ): Promise<QuotaReservation | null> {
+        const cooperativeId = currentUser?.cooperativeId;
+
+        if (!cooperativeId || quantity < 1) {
+            return null;
+        }
+
+        const month = this.startOfMonth(new Date());
+        const cooperative = await this.findQuotas(cooperativeId);
+        const limit = this.resolveLimit(cooperative, quota);
+
+        if (!limit) {
+            return null;
+        }
+
+        await this.ensureCounter(cooperativeId, quota, month);
+
+        const counter = await this.usageCounterModel.findOneAndUpdate(
+            { cooperativeId, quota, month, used: { $lte: limit - quantity } },
+            { $inc: { used: quantity } },
+            { new: true },
+        );
+
+        if (!counter) {
+            const current = await this.usageCounterModel.findOne({ cooperativeId, quota, month });
+            const status = this.toQuotaStatus(quota, limit, current?.used ?? limit, this.startOfNextMonth(month));
+
+            throw this.toQuotaExceeded(status, quantity);
+        }
+
+        return { cooperativeId, quota, month, quantity };
+    }
+
+
+    /**
+     * Give back units of a reservation that no call used, all of them by
+     * default. Failures are logged but never propagated.
+     */
+    async release(reservation: QuotaReservation | null, quantity = reservation?.quantity): Promise<void> {
+        if (!reservation || !(quantity > 0)) {
+            return;
+        }
+
+        const { cooperativeId, quota, month } = reservation;
+
+        try {
+            await this.usageCounterModel.updateOne({ cooperativeId, quota, month }, { $inc: { used: -quantity } });
+        } catch (error) {
+            this.logger.error(`Failed to release ${quantity} ${quota} of cooperative ${cooperativeId}: ${error.message}`, error.stack);
+        }
+    }
+
+
+    async getQuotaStatus(cooperativeId: string, quota: UsageQuota, now = new Date()): Promise<QuotaStatusDto> {
+        const from = this.startOfMonth(now);
+        const [cooperative, used] = await Promise.all([
+            this.findQuotas(cooperativeId),
+            this.countUsage(cooperativeId, quota, from),
+        ]);
+
+        return this.toQuotaStatus(quota, this.resolveLimit(cooperative, quota), used, this.startOfNextMonth(from));
+    }
+
+
+    /**
+     * The 429 for a quota that is used up, or too close to it for `quantity` more units
+     */
+    toQuotaExceeded(status: QuotaStatusDto, quantity = 1): HttpException {
+        const message = status.remaining > 0
+            ? `Only ${status.remaining} of the monthly ${status.quota} quota of ${status.limit} are left; ` +
+                `${quantity} were requested`
+            : `The monthly ${status.quota} quota of ${status.limit} for your cooperative is used up`;
+
+        return new HttpException(
+            `${message}. It resets on ${status.resetsAt.toISOString()}`,
+            HttpStatus.TOO_MANY_REQUESTS,
+        );
+    }
+
+
+    /**
+     * Usage of a month per metric and per cooperative, with each
+     * cooperative's quotas. Managers only see the cooperatives they oversee.
+     */
+    async getReport(usageReportQueryDto: UsageReportQueryDto, currentUser: JwtPayload): Promise<UsageReportResponseDto> {
+        const { month, cooperativeId, organisationId } = usageReportQueryDto;
+        const from = month ? new Date(`${month}-01T00:00:00Z`) : this.startOfMonth(new Date());
+        const to = this.startOfNextMonth(from);
+
+        let scope = resolveCooperativeScope(currentUser);
+
+        if (organisationId) {
+            const below = await this.organisationsService.findCooperativeIds(organisationId, currentUser);
+            scope = scope ? scope.filter((id) => below.includes(id)) : below;
+        }
+
+        const cooperativeFilter = toCooperativeFilter(scope, cooperativeId);
+        const filter: FilterQuery<UsageRecordDocument> = {
+            createdAt: { $gte: from, $lt: to },
+            ...(cooperativeFilter && { cooperativeId: cooperativeFilter }),
+        };
+
+        const rows: UsageRow[] = await this.usageRecordModel.aggregate([
+            { $match: filter },
+            {
+                $group: {
+                    _id: { cooperativeId: '$cooperativeId', metric: '$metric' },
+                    quantity: { $sum: '$quantity' },
+                },
+            },
+        ]);
+
+        // Cooperatives in the requested scope are listed even without usage
+        const listed = typeof cooperativeFilter === 'string' ? [cooperativeFilter] : cooperativeFilter?.$in ?? [];
+        const cooperativeIds = [...new Set([...listed, ...rows.map((row) => row._id.cooperativeId).filter(Boolean)])];
+        const cooperatives = await this.cooperativeModel
+            .find({ _id: { $in: cooperativeIds.filter((id) => isValidObjectId(id)) } })
+            .select('name quotas');
+        const byId = new Map(cooperatives.map((cooperative) => [cooperative._id.toString(), cooperative]));
+
+        const totals = this.emptyUsage();
+        const usageByCooperative = new Map(cooperativeIds.map((id) => [id, this.emptyUsage()]));
+
+        for (const { _id, quantity } of rows) {
+            totals[_id.metric] += quantity;
+
+            if (_id.cooperativeId) {
+                usageByCooperative.get(_id.cooperativeId)[_id.metric] += quantity;
+            }
+        }
+
+        const cooperativeUsage: CooperativeUsageDto[] = cooperativeIds.map((id) => {
+            const usage = usageByCooperative.get(id);
+
+            return {
+                cooperativeId: id,
+                name: byId.get(id)?.name,
+                usage,
+                quotas: Object.values(UsageQuota).map((quota) => this.toQuotaStatus(
+                    quota,
+                    this.resolveLimit(byId.get(id), quota),
+                    QUOTA_METRICS[quota].reduce((sum, metric) => sum + usage[metric], 0),
+                    to,
+                )),
+            };
+        });
+
+        cooperativeUsage.sort((a, b) => (a.name ?? '').localeCompare(b.name ?? ''));
+
+        return { from, to, totals, cooperatives: cooperativeUsage };
+    }
+
+
+    /**
+     * Audit and log when a recording takes a cooperative past the warning
+     * threshold or to its limit, once per month each
+     */
+    private async notifyThresholds(cooperativeId: string, quota: UsageQuota, quantity: number): Promise<void> {
+        const status = await this.getQuotaStatus(cooperativeId, quota);
+
+        if (status.limit === null) {
+            return;
+        }
+
+        const before = status.used - quantity;
+        const thresholds = [
+            { action: 'metering.quota_warning', at: Math.ceil(status.limit * this.warningThreshold) },
+            { action: 'metering.quota_exhausted', at: status.limit },
+        ];
+
+        for (const { action, at } of thresholds) {
+            if (before < at && status.used >= at) {
+                this.logger.warn(`Cooperative ${cooperativeId} has used ${status.used} of its ${quota} quota of ${status.limit}`);
+
+                await this.auditService.record({
+                    action,
+                    details: { cooperativeId, quota, used: status.used, limit: status.limit },
+                });
+            }
+        }
+    }
+
+
+    /**
+     * Create the month's counter on first use, starting from the usage
+     * already recorded that month
+     */
+    private async ensureCounter(cooperativeId: string, quota: UsageQuota, month: Date): Promise<void> {
+        const key = { cooperativeId, quota, month };
+
+        if (await this.usageCounterModel.exists(key)) {
+            return;
+        }
+
+        const used = await this.countUsage(cooperativeId, quota, month);
+        // Kept through the following month
+        const expiresAt = this.startOfNextMonth(this.startOfNextMonth(month));
+
+        try {
+            await this.usageCounterModel.updateOne(key, { $setOnInsert: { used, expiresAt } }, { upsert: true });
+        } catch (error) {
+            // Another request created the counter first
+            if (error.code !== 11000) {
+                throw error;
+            }
+        }
+    }
+
+
+    private async countUsage(cooperativeId: string, quota: UsageQuota, from: Date): Promise<number> {
+        const [result] = await this.usageRecordModel.aggregate([
+            {
+                $match: {
+                    cooperativeId,
+                    metric: { $in: QUOTA_METRICS[quota] },
+                    createdAt: { $gte: from },
+                },
+            },
+            { $group: { _id: null, quantity: { $sum: '$quantity' } } },
+        ]);
+
+        return result?.quantity ?? 0;
+    }
+
+
+    /**
+     * The quotas of a cooperative. Users may still carry a free-form
+     * cooperativeId from before cooperatives were stored, which has no
+     * quotas of its own and falls back to the configured defaults.
+     */
+    private async findQuotas(cooperativeId: string): Promise<CooperativeDocument | null> {
+        return isValidObjectId(cooperativeId)
+            ? await this.cooperativeModel.findById(cooperativeId).select('quotas')
+            : null;
+    }
+
+
+    /**
+     * The cooperative's own limit, or the configured default. 0 means unlimited.
+     */
+    private resolveLimit(cooperative: CooperativeDocument | null | undefined, quota: UsageQuota): number {
+        const field = QUOTA_LIMIT_FIELDS[quota];
+
+        return cooperative?.quotas?.[field] ?? this.configService.get<number>(`metering.${field}`, 0);
+    }
+
+
+    private toQuotaStatus(quota: UsageQuota, limit: number, used: number, resetsAt: Date): QuotaStatusDto {
+        if (!limit) {
+            return { quota, limit: null, used, remaining: null, warning: false, exceeded: false, resetsAt };
+        }
+
+        return {
+            quota,
+            limit,
+            used,
+            remaining: Math.max(limit - used, 0),
+            warning: used >= limit * this.warningThreshold,
+            exceeded: used >= limit,
+            resetsAt,
+        };
+    }
+
+
+    private toQuota(metric: UsageMetric): UsageQuota {
+        return Object.values(UsageQuota).find((quota) => QUOTA_METRICS[quota].includes(metric));
+    }
+
+
+    private emptyUsage(): Record<UsageMetric, number> {
+        return Object.fromEntries(Object.values(UsageMetric).map((metric) => [metric, 0])) as Record<UsageMetric, number>;
+    }
+
+
+    private startOfMonth(date: Date): Date {
+        return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+    }
+
+
+    private startOfNextMonth(date: Date): Date {
+        return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1));
+    }
+}
@@ -0,0 +1,43 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import { UsageQuota } from '../../../common/enums/usage-metric.enum';
+
+export type UsageCounterDocument = UsageCounter & Document;
+
+
+/**
+ * Units of a cooperative's monthly quota that are used or reserved by calls
+ * in flight. Reservations increment it atomically, so concurrent requests
+ * cannot take the cooperative past its limit.
+ */
+@Schema({
+    timestamps: true,
+    collection: 'usage_counters',
+})
+export class UsageCounter {
+    @Prop({ required: true })
+    cooperativeId: string;
+
+    @Prop({ type: String, required: true, enum: Object.values(UsageQuota) })
+    quota: UsageQuota;
+
+    // Start of the calendar month in UTC
+    @Prop({ required: true })
+    month: Date;
+
+    @Prop({ default: 0 })
+    used: number;
+
+    @Prop({ required: true })
+    expiresAt: Date;
+
+    createdAt: Date;
+
+    updatedAt: Date;
+}
+
+export const UsageCounterSchema = SchemaFactory.createForClass(UsageCounter);
+
+UsageCounterSchema.index({ cooperativeId: 1, quota: 1, month: 1 }, { unique: true });
+// Usage records stay for reports; the counters are only needed during their month
+UsageCounterSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
@@ -0,0 +1,47 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import { UsageMetric } from '../../../common/enums/usage-metric.enum';
+import { tenancyPlugin } from '../../../common/tenancy/tenancy.plugin';
+
+export type UsageRecordDocument = UsageRecord & Document;
+
+
+/**
+ * One metered call: a classification, a batch of images or a generated
+ * recommendation, counted against the caller and their cooperative.
+ */
+@Schema({
+    timestamps: { createdAt: true, updatedAt: false },
+    collection: 'usage_records',
+})
+export class UsageRecord {
+    @Prop({ type: String, required: true, enum: Object.values(UsageMetric) })
+    metric: UsageMetric;
+
+    // Number of units, e.g. the images of a batch
+    @Prop({ required: true, min: 1, default: 1 })
+    quantity: number;
+
+    // Unset when the user is erased, so that the cooperative's usage still adds up
+    @Prop({ index: true })
+    userId?: string;
+
+    @Prop()
+    cooperativeId?: string;
+
+    // Region or district of a manager without a cooperative
+    @Prop()
+    organisationId?: string;
+
+    // Set when the call was made with an API key
+    @Prop()
+    apiKeyId?: string;
+
+    createdAt: Date;
+}
+
+export const UsageRecordSchema = SchemaFactory.createForClass(UsageRecord);
+
+// Monthly totals per cooperative
+UsageRecordSchema.index({ cooperativeId: 1, createdAt: 1, metric: 1 });
+UsageRecordSchema.plugin(tenancyPlugin);
@@ -0,0 +1,57 @@
+import {
+    Controller,
+    Get,
+    UseGuards,
+    Query,
+    HttpStatus,
+} from '@nestjs/common';
+import {
+    ApiTags,
+    ApiOperation,
+    ApiResponse,
+    ApiBearerAuth,
+} from '@nestjs/swagger';
+import { MeteringService } from './metering.service';
+import { UsageReportQueryDto } from './dto/usage-report-query.dto';
+import { UsageReportResponseDto } from './dto/usage-report-response.dto';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../../common/guards/permissions.guard';
+import { RequirePermissions } from '../../common/decorators/require-permissions.decorator';
+import { CrossTenant } from '../../common/decorators/cross-tenant.decorator';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { JwtPayload } from '../../common/interfaces/jwt-payload.interface';
+import { Permission } from '../../common/enums/permission.enum';
+
+
+@ApiTags('Usage')
+@ApiBearerAuth()
+@Controller('usage')
+@CrossTenant()
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+export class UsageController {
+    constructor(private readonly meteringService: MeteringService) { }
+
+
+    @Get()
+    @RequirePermissions(Permission.USAGE_READ)
+    @ApiOperation({
+        summary: 'Get the usage report',
+        description: 'Classifications, batch items and AI recommendations of a calendar month, in total and per ' +
+            'cooperative with the state of its quotas. Managers only see the cooperatives they oversee.',
+    })
+    @ApiResponse({
+        status: HttpStatus.OK,
+        description: 'Usage report retrieved successfully',
+        type: UsageReportResponseDto,
+    })
+    @ApiResponse({
+        status: HttpStatus.FORBIDDEN,
+        description: 'usage:read permission required, or not assigned to a cooperative',
+    })
+    async getReport(
+        @CurrentUser() user: JwtPayload,
+        @Query() usageReportQueryDto: UsageReportQueryDto,
+    ): Promise<UsageReportResponseDto> {
+        return this.meteringService.getReport(usageReportQueryDto, user);
+    }
+}
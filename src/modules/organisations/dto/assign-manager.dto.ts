@@ -0,0 +1,12 @@
+import { IsMongoId } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+
+export class AssignManagerDto {
+    @ApiProperty({
+        description: 'ID of a user with the manager role. They leave any cooperative or organisation they managed before.',
+        example: '507f1f77bcf86cd799439011',
+    })
+    @IsMongoId()
+    userId: string;
+}
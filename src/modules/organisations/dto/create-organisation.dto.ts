@@ -0,0 +1,33 @@
+import { IsEnum, IsMongoId, IsOptional, IsString, MaxLength, MinLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { OrganisationLevel } from '../schemas/organisation.schema';
+
+
+export class CreateOrganisationDto {
+    @ApiProperty({
+        description: 'Name, unique among organisations with the same parent',
+        example: 'Huye District',
+        minLength: 2,
+        maxLength: 150,
+    })
+    @IsString()
+    @MinLength(2)
+    @MaxLength(150)
+    name: string;
+
+    @ApiProperty({
+        description: 'Level in the tree',
+        enum: OrganisationLevel,
+        example: OrganisationLevel.DISTRICT,
+    })
+    @IsEnum(OrganisationLevel)
+    level: OrganisationLevel;
+
+    @ApiPropertyOptional({
+        description: 'Region the district belongs to; required for districts, not allowed for regions',
+        example: '507f1f77bcf86cd799439011',
+    })
+    @IsOptional()
+    @IsMongoId()
+    parentId?: string;
+}
@@ -0,0 +1,6 @@
+export * from './create-organisation.dto';
+export * from './update-organisation.dto';
+export * from './list-organisations-query.dto';
+export * from './assign-manager.dto';
+export * from './organisation-response.dto';
+export * from './organisation-summary-response.dto';
@@ -0,0 +1,35 @@
+import { IsBoolean, IsEnum, IsMongoId, IsOptional } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import { OrganisationLevel } from '../schemas/organisation.schema';
+
+
+/**
+ * Query parameters for GET /organisations
+ */
+export class ListOrganisationsQueryDto {
+    @ApiPropertyOptional({
+        description: 'Filter by level',
+        enum: OrganisationLevel,
+    })
+    @IsOptional()
+    @IsEnum(OrganisationLevel)
+    level?: OrganisationLevel;
+
+    @ApiPropertyOptional({
+        description: 'Only organisations below this one',
+        example: '507f1f77bcf86cd799439011',
+    })
+    @IsOptional()
+    @IsMongoId()
+    ancestorId?: string;
+
+    @ApiPropertyOptional({
+        description: 'Filter by active status',
+    })
+    @IsOptional()
+    // Implicit conversion would turn the string "false" into true
+    @Transform(({ obj, key }) => obj[key] === true || obj[key] === 'true')
+    @IsBoolean()
+    isActive?: boolean;
+}
@@ -0,0 +1,50 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { OrganisationLevel } from '../schemas/organisation.schema';
+
+
+export class OrganisationResponseDto {
+    @ApiProperty({ description: 'Organisation ID', example: '507f1f77bcf86cd799439011' })
+    id: string;
+
+    @ApiProperty({ description: 'Name', example: 'Huye District' })
+    name: string;
+
+    @ApiProperty({ description: 'Level in the tree', enum: OrganisationLevel })
+    level: OrganisationLevel;
+
+    @ApiPropertyOptional({ description: 'Region of a district', example: '507f1f77bcf86cd799439012' })
+    parentId?: string;
+
+    @ApiProperty({ description: 'IDs of the organisations above, top first', type: [String] })
+    path: string[];
+
+    @ApiProperty({ description: 'Whether it can take on new districts, cooperatives and managers', example: true })
+    isActive: boolean;
+
+    @ApiProperty({ description: 'Creation timestamp' })
+    createdAt: Date;
+
+    @ApiProperty({ description: 'Last update timestamp' })
+    updatedAt: Date;
+}
+
+
+export class OrganisationManagerDto {
+    @ApiProperty({ description: 'User ID', example: '507f1f77bcf86cd799439011' })
+    id: string;
+
+    @ApiProperty({ description: 'Full name', example: 'Claudine Ingabire' })
+    name: string;
+
+    @ApiPropertyOptional({ description: 'Email address', example: 'claudine@example.com' })
+    email?: string;
+
+    @ApiPropertyOptional({ description: 'Phone number', example: '+250788123456' })
+    phone?: string;
+
+    @ApiProperty({ description: 'Whether the account is active', example: true })
+    isActive: boolean;
+
+    @ApiPropertyOptional({ description: 'Last login timestamp' })
+    lastLoginAt?: Date;
+}
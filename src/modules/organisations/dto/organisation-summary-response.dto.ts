@@ -0,0 +1,45 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { OrganisationResponseDto } from './organisation-response.dto';
+import {
+    CooperativeMemberStatsDto,
+    CooperativeRecommendationStatsDto,
+} from '../../cooperatives/dto/cooperative-summary-response.dto';
+
+
+export class OrganisationCooperativeStatsDto {
+    @ApiProperty({ description: 'Cooperative ID', example: '507f1f77bcf86cd799439011' })
+    id: string;
+
+    @ApiProperty({ description: 'Cooperative name', example: 'Abahinzi ba Huye' })
+    name: string;
+
+    @ApiProperty({ description: 'Whether new members can join', example: true })
+    isActive: boolean;
+
+    @ApiProperty({ description: 'Members', example: 248 })
+    members: number;
+
+    @ApiProperty({ description: 'Members who signed in during the last 30 days', example: 180 })
+    activeLast30Days: number;
+}
+
+
+export class OrganisationSummaryResponseDto {
+    @ApiProperty({ type: OrganisationResponseDto })
+    organisation: OrganisationResponseDto;
+
+    @ApiProperty({ description: 'Districts below the organisation', example: 8 })
+    districts: number;
+
+    @ApiProperty({ description: 'Managers assigned to the organisation or any district below it', example: 3 })
+    managers: number;
+
+    @ApiProperty({ description: 'Members of every cooperative below, added up', type: CooperativeMemberStatsDto })
+    members: CooperativeMemberStatsDto;
+
+    @ApiProperty({ description: 'Recommendations for those members, added up', type: CooperativeRecommendationStatsDto })
+    recommendations: CooperativeRecommendationStatsDto;
+
+    @ApiProperty({ description: 'Each cooperative below, by name', type: [OrganisationCooperativeStatsDto] })
+    cooperatives: OrganisationCooperativeStatsDto[];
+}
@@ -0,0 +1,37 @@
+import { IsBoolean, IsMongoId, IsOptional, IsString, MaxLength, MinLength } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+
+/**
+ * DTO for updating an organisation. The level cannot change; districts can
+ * be moved to another region, taking their cooperatives with them.
+ */
+export class UpdateOrganisationDto {
+    @ApiPropertyOptional({
+        description: 'Name, unique among organisations with the same parent',
+        example: 'Huye District',
+        minLength: 2,
+        maxLength: 150,
+    })
+    @IsOptional()
+    @IsString()
+    @MinLength(2)
+    @MaxLength(150)
+    name?: string;
+
+    @ApiPropertyOptional({
+        description: 'Region to move a district to',
+        example: '507f1f77bcf86cd799439011',
+    })
+    @IsOptional()
+    @IsMongoId()
+    parentId?: string;
+
+    @ApiPropertyOptional({
+        description: 'Inactive organisations keep what they have but cannot take on new districts, cooperatives or managers',
+        example: true,
+    })
+    @IsOptional()
+    @IsBoolean()
+    isActive?: boolean;
+}
@@ -0,0 +1,313 @@
+import {
+    Controller,
+    Get,
+    Post,
+    Body,
+    Patch,
+    Param,
+    Delete,
+    UseGuards,
+    Query,
+    HttpCode,
+    HttpStatus,
+} from '@nestjs/common';
+import {
+    ApiTags,
+    ApiOperation,
+    ApiResponse,
+    ApiBearerAuth,
+    ApiParam,
+} from '@nestjs/swagger';
+import { OrganisationsService } from './organisations.service';
+import { CreateOrganisationDto } from './dto/create-organisation.dto';
+import { UpdateOrganisationDto } from './dto/update-organisation.dto';
+import { ListOrganisationsQueryDto } from './dto/list-organisations-query.dto';
+import { AssignManagerDto } from './dto/assign-manager.dto';
+import { OrganisationManagerDto, OrganisationResponseDto } from './dto/organisation-response.dto';
+import { OrganisationSummaryResponseDto } from './dto/organisation-summary-response.dto';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../../common/guards/permissions.guard';
+import { RequirePermissions } from '../../common/decorators/require-permissions.decorator';
+import { CrossTenant } from '../../common/decorators/cross-tenant.decorator';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { JwtPayload } from '../../common/interfaces/jwt-payload.interface';
+import { Permission } from '../../common/enums/permission.enum';
+
+
+@ApiTags('Organisations')
+@ApiBearerAuth()
+@Controller('organisations')
+@CrossTenant()
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+export class OrganisationsController {
+    constructor(private readonly organisationsService: OrganisationsService) { }
+
+
+    @Post()
+    @RequirePermissions(Permission.ORGANISATION_MANAGE)
+    @HttpCode(HttpStatus.CREATED)
+    @ApiOperation({
+        summary: 'Create a region or district',
+        description: 'Districts are created under a region. Admin only.',
+    })
+    @ApiResponse({
+        status: HttpStatus.CREATED,
+        description: 'Organisation created',
+        type: OrganisationResponseDto,
+    })
+    @ApiResponse({
+        status: HttpStatus.BAD_REQUEST,
+        description: 'Missing, unknown or inactive parent region',
+    })
+    @ApiResponse({
+        status: HttpStatus.CONFLICT,
+        description: 'An organisation with this name already exists at this level',
+    })
+    async create(
+        @CurrentUser('sub') actorId: string,
+        @Body() createOrganisationDto: CreateOrganisationDto,
+    ): Promise<OrganisationResponseDto> {
+        return this.organisationsService.create(createOrganisationDto, actorId);
+    }
+
+
+    @Get()
+    @RequirePermissions(Permission.ORGANISATION_READ)
+    @ApiOperation({
+        summary: 'List organisations',
+        description: 'Regions first, then districts, by name. Managers only see their own organisation and those below it.',
+    })
+    @ApiResponse({
+        status: HttpStatus.OK,
+        description: 'Organisations retrieved successfully',
+        type: [OrganisationResponseDto],
+    })
+    async findAll(
+        @CurrentUser() user: JwtPayload,
+        @Query() listOrganisationsQueryDto: ListOrganisationsQueryDto,
+    ): Promise<OrganisationResponseDto[]> {
+        return this.organisationsService.findAll(listOrganisationsQueryDto, user);
+    }
+
+
+    @Get(':id')
+    @RequirePermissions(Permission.ORGANISATION_READ)
+    @ApiOperation({
+        summary: 'Get an organisation',
+        description: 'Managers can only view organisations they manage.',
+    })
+    @ApiParam({
+        name: 'id',
+        description: 'Organisation ID',
+        example: '507f1f77bcf86cd799439011',
+    })
+    @ApiResponse({
+        status: HttpStatus.OK,
+        description: 'Organisation retrieved successfully',
+        type: OrganisationResponseDto,
+    })
+    @ApiResponse({
+        status: HttpStatus.NOT_FOUND,
+        description: 'Organisation not found',
+    })
+    @ApiResponse({
+        status: HttpStatus.FORBIDDEN,
+        description: 'organisation:read permission required, or not your organisation',
+    })
+    async findOne(
+        @CurrentUser() user: JwtPayload,
+        @Param('id') id: string,
+    ): Promise<OrganisationResponseDto> {
+        return this.organisationsService.findOne(id, user);
+    }
+
+
+    @Get(':id/summary')
+    @RequirePermissions(Permission.ORGANISATION_READ)
+    @ApiOperation({
+        summary: 'Get an organisation summary',
+        description: 'Membership and recommendation statistics added up over every cooperative below the organisation, ' +
+            'with a line per cooperative. Managers can only view organisations they manage.',
+    })
+    @ApiParam({
+        name: 'id',
+        description: 'Organisation ID',
+        example: '507f1f77bcf86cd799439011',
+    })
+    @ApiResponse({
+        status: HttpStatus.OK,
+        description: 'Summary retrieved successfully',
+        type: OrganisationSummaryResponseDto,
+    })
+    @ApiResponse({
+        status: HttpStatus.NOT_FOUND,
+        description: 'Organisation not found',
+    })
+    @ApiResponse({
+        status: HttpStatus.FORBIDDEN,
+        description: 'organisation:read permission required, or not your organisation',
+    })
+    async getSummary(
+        @CurrentUser() user: JwtPayload,
+        @Param('id') id: string,
+    ): Promise<OrganisationSummaryResponseDto> {
+        return this.organisationsService.getSummary(id, user);
+    }
+
+
+    @Patch(':id')
+    @RequirePermissions(Permission.ORGANISATION_MANAGE)
+    @ApiOperation({
+        summary: 'Update an organisation',
+        description: 'Rename, (de)activate, or move a district to another region together with its cooperatives. Admin only.',
+    })
+    @ApiParam({
+        name: 'id',
+        description: 'Organisation ID',
+        example: '507f1f77bcf86cd799439011',
+    })
+    @ApiResponse({
+        status: HttpStatus.OK,
+        description: 'Organisation updated successfully',
+        type: OrganisationResponseDto,
+    })
+    @ApiResponse({
+        status: HttpStatus.NOT_FOUND,
+        description: 'Organisation not found',
+    })
+    @ApiResponse({
+        status: HttpStatus.CONFLICT,
+        description: 'An organisation with this name already exists at this level',
+    })
+    async update(
+        @CurrentUser('sub') actorId: string,
+        @Param('id') id: string,
+        @Body() updateOrganisationDto: UpdateOrganisationDto,
+    ): Promise<OrganisationResponseDto> {
+        return this.organisationsService.update(id, updateOrganisationDto, actorId);
+    }
+
+
+    @Delete(':id')
+    @RequirePermissions(Permission.ORGANISATION_MANAGE)
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({
+        summary: 'Delete an organisation',
+        description: 'Only organisations without districts, cooperatives or managers can be deleted; deactivate the others. Admin only.',
+    })
+    @ApiParam({
+        name: 'id',
+        description: 'Organisation ID',
+        example: '507f1f77bcf86cd799439011',
+    })
+    @ApiResponse({
+        status: HttpStatus.OK,
+        description: 'Organisation deleted successfully',
+    })
+    @ApiResponse({
+        status: HttpStatus.NOT_FOUND,
+        description: 'Organisation not found',
+    })
+    @ApiResponse({
+        status: HttpStatus.CONFLICT,
+        description: 'Organisation still has districts, cooperatives or managers',
+    })
+    async remove(
+        @CurrentUser('sub') actorId: string,
+        @Param('id') id: string,
+    ): Promise<{ message: string }> {
+        return this.organisationsService.remove(id, actorId);
+    }
+
+
+    @Get(':id/managers')
+    @RequirePermissions(Permission.ORGANISATION_READ)
+    @ApiOperation({
+        summary: 'List managers of an organisation',
+        description: 'Managers assigned to this organisation itself, not to those below it. ' +
+            'Managers can only view organisations they manage.',
+    })
+    @ApiParam({
+        name: 'id',
+        description: 'Organisation ID',
+        example: '507f1f77bcf86cd799439011',
+    })
+    @ApiResponse({
+        status: HttpStatus.OK,
+        description: 'Managers retrieved successfully',
+        type: [OrganisationManagerDto],
+    })
+    async findManagers(
+        @CurrentUser() user: JwtPayload,
+        @Param('id') id: string,
+    ): Promise<OrganisationManagerDto[]> {
+        return this.organisationsService.findManagers(id, user);
+    }
+
+
+    @Post(':id/managers')
+    @RequirePermissions(Permission.ORGANISATION_MANAGE)
+    @ApiOperation({
+        summary: 'Assign a manager to an organisation',
+        description: 'The manager oversees every cooperative below the organisation and leaves any cooperative or ' +
+            'organisation they managed before. They have to sign in again. Admin only.',
+    })
+    @ApiParam({
+        name: 'id',
+        description: 'Organisation ID',
+        example: '507f1f77bcf86cd799439011',
+    })
+    @ApiResponse({
+        status: HttpStatus.CREATED,
+        description: 'Manager assigned',
+        type: OrganisationManagerDto,
+    })
+    @ApiResponse({
+        status: HttpStatus.BAD_REQUEST,
+        description: 'Organisation is inactive, or the user is not a manager',
+    })
+    @ApiResponse({
+        status: HttpStatus.NOT_FOUND,
+        description: 'Organisation or user not found',
+    })
+    async assignManager(
+        @CurrentUser('sub') actorId: string,
+        @Param('id') id: string,
+        @Body() assignManagerDto: AssignManagerDto,
+    ): Promise<OrganisationManagerDto> {
+        return this.organisationsService.assignManager(id, assignManagerDto.userId, actorId);
+    }
+
+
+    @Delete(':id/managers/:userId')
+    @RequirePermissions(Permission.ORGANISATION_MANAGE)
+    @ApiOperation({
+        summary: 'Remove a manager from an organisation',
+        description: 'The user keeps their account without an organisation and has to sign in again. Admin only.',
+    })
+    @ApiParam({
+        name: 'id',
+        description: 'Organisation ID',
+        example: '507f1f77bcf86cd799439011',
+    })
+    @ApiParam({
+        name: 'userId',
+        description: 'User ID',
+        example: '507f1f77bcf86cd799439012',
+    })
+    @ApiResponse({
+        status: HttpStatus.OK,
+        description: 'Manager removed successfully',
+    })
+    @ApiResponse({
+        status: HttpStatus.NOT_FOUND,
+        description: 'User is not a manager of this organisation',
+    })
+    async removeManager(
+        @CurrentUser('sub') actorId: string,
+        @Param('id') id: string,
+        @Param('userId') userId: string,
+    ): Promise<{ message: string }> {
+        return this.organisationsService.removeManager(id, userId, actorId);
+    }
+}
@@ -0,0 +1,36 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { OrganisationsController } from './organisations.controller';
+import { OrganisationsService } from './organisations.service';
+import { Organisation, OrganisationSchema } from './schemas/organisation.schema';
+import { Cooperative, CooperativeSchema } from '../cooperatives/schemas/cooperative.schema';
+import { User, UserSchema } from '../users/schemas/user.schema';
+import { Invitation, InvitationSchema } from '../invitations/schemas/invitation.schema';
+import { Recommendation, RecommendationSchema } from '../recommendations/schemas/recommendation.schema';
+import { AuditModule } from '../audit/audit.module';
+import { PermissionsModule } from '../permissions/permissions.module';
+
+
+/**
+ * Regions and districts above the cooperatives. Exports OrganisationsService
+ * for placing cooperatives in the tree and for resolving what each caller
+ * may access.
+ */
+@Module({
+    imports: [
+        MongooseModule.forFeature([
+            { name: Organisation.name, schema: OrganisationSchema },
+            { name: Cooperative.name, schema: CooperativeSchema },
+            { name: User.name, schema: UserSchema },
+            { name: Invitation.name, schema: InvitationSchema },
+            { name: Recommendation.name, schema: RecommendationSchema },
+        ]),
+
+        AuditModule,
+        PermissionsModule,
+    ],
+    controllers: [OrganisationsController],
+    providers: [OrganisationsService],
+    exports: [OrganisationsService],
+})
+export class OrganisationsModule { }
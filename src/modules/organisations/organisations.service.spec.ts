@@ -0,0 +1,127 @@
+import { BadRequestException, ConflictException, ForbiddenException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { OrganisationsService } from './organisations.service';
+import { OrganisationLevel } from './schemas/organisation.schema';
+import { UserRole } from '../../common/enums/user-role.enum';
+
+describe('OrganisationsService', () => {
+  const regionId = new Types.ObjectId().toString();
+  const districtId = new Types.ObjectId().toString();
+  const cooperativeId = new Types.ObjectId().toString();
+
+  let region: any;
+  let district: any;
+  let user: any;
+  let organisationModel: any;
+  let cooperativeModel: any;
+  let userModel: any;
+  let auditService: { record: jest.Mock };
+  let service: OrganisationsService;
+
+  beforeEach(() => {
+    region = { _id: new Types.ObjectId(regionId), level: OrganisationLevel.REGION, path: [], isActive: true };
+    district = {
+      _id: new Types.ObjectId(districtId),
+      level: OrganisationLevel.DISTRICT,
+      parentId: regionId,
+      path: [regionId],
+      isActive: true,
+      deleteOne: jest.fn(),
+    };
+    user = {
+      _id: new Types.ObjectId(),
+      roles: [UserRole.MANAGER],
+      cooperativeId,
+      tokenVersion: 1,
+      save: jest.fn(async () => user),
+    };
+    organisationModel = {
+      findById: jest.fn(async (id: string) => ({ [regionId]: region, [districtId]: district })[id] ?? null),
+      exists: jest.fn(async () => null),
+      distinct: jest.fn(async () => [new Types.ObjectId(districtId)]),
+    };
+    cooperativeModel = {
+      exists: jest.fn(async () => null),
+      distinct: jest.fn(async () => [new Types.ObjectId(cooperativeId)]),
+    };
+    userModel = {
+      findById: jest.fn(async () => user),
+      exists: jest.fn(async () => null),
+    };
+    auditService = { record: jest.fn() };
+
+    service = new OrganisationsService(
+      organisationModel, cooperativeModel, userModel, {} as any, {} as any, auditService as any,
+    );
+  });
+
+  it('should place cooperatives below an active district', async () => {
+    await expect(service.resolveCooperativePath(districtId)).resolves.toEqual([regionId, districtId]);
+    await expect(service.resolveCooperativePath(regionId)).rejects.toThrow(BadRequestException);
+
+    district.isActive = false;
+    await expect(service.resolveCooperativePath(districtId)).rejects.toThrow(BadRequestException);
+  });
+
+  it('should move a manager from their cooperative to the organisation and revoke their tokens', async () => {
+    const manager = await service.assignManager(districtId, user._id.toString(), 'admin-1');
+
+    expect(manager.id).toBe(user._id.toString());
+    expect(user.organisationId).toBe(districtId);
+    expect(user.cooperativeId).toBeUndefined();
+    expect(user.tokenVersion).toBe(2);
+    expect(auditService.record).toHaveBeenCalledWith(expect.objectContaining({
+      action: 'organisations.manager_assigned',
+      details: expect.objectContaining({ previousCooperativeId: cooperativeId }),
+    }));
+  });
+
+  it('should only assign managers', async () => {
+    user.roles = [UserRole.FARMER];
+
+    await expect(service.assignManager(districtId, user._id.toString(), 'admin-1')).rejects.toThrow(BadRequestException);
+    expect(user.save).not.toHaveBeenCalled();
+  });
+
+  it('should roll the scope of region managers up over everything below them', async () => {
+    const scope = await service.resolveTenantScope({ sub: 'manager-1', roles: [UserRole.MANAGER], organisationId: regionId });
+
+    expect(organisationModel.distinct).toHaveBeenCalledWith('_id', { $or: [{ _id: regionId }, { path: regionId }] });
+    expect(cooperativeModel.distinct).toHaveBeenCalledWith('_id', { organisationPath: regionId });
+    expect(scope).toEqual({
+      cooperativeId: null,
+      organisationId: regionId,
+      cooperativeIds: [cooperativeId],
+      organisationIds: [districtId],
+      userId: null,
+    });
+  });
+
+  it('should keep cooperative members to their own cooperative without querying the tree', async () => {
+    const scope = await service.resolveTenantScope({ sub: 'farmer-1', roles: [UserRole.FARMER], cooperativeId });
+
+    expect(scope.cooperativeIds).toEqual([cooperativeId]);
+    expect(scope.userId).toBeNull();
+    expect(organisationModel.distinct).not.toHaveBeenCalled();
+  });
+
+  it('should limit callers outside any cooperative to their own documents', async () => {
+    const scope = await service.resolveTenantScope({ sub: 'farmer-1', roles: [UserRole.FARMER] });
+
+    expect(scope).toEqual({ cooperativeId: null, organisationId: null, cooperativeIds: [null], organisationIds: [], userId: 'farmer-1' });
+  });
+
+  it('should not show other organisations to managers', async () => {
+    const manager = { sub: 'manager-1', roles: [UserRole.MANAGER], organisationId: districtId, organisationIds: [districtId] };
+
+    await expect(service.findOne(regionId, manager)).rejects.toThrow(ForbiddenException);
+    await expect(service.findOne(districtId, manager)).resolves.toEqual(expect.objectContaining({ id: districtId }));
+  });
+
+  it('should refuse to delete organisations that still have cooperatives', async () => {
+    cooperativeModel.exists.mockResolvedValue({ _id: cooperativeId });
+
+    await expect(service.remove(districtId, 'admin-1')).rejects.toThrow(ConflictException);
+    expect(district.deleteOne).not.toHaveBeenCalled();
+  });
+});
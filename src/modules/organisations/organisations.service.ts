@@ -0,0 +1,508 @@
+import {
+    Injectable,
+    BadRequestException,
+    ConflictException,
+    ForbiddenException,
+    NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { FilterQuery, Model, isValidObjectId } from 'mongoose';
+import { Organisation, OrganisationDocument, OrganisationLevel } from './schemas/organisation.schema';
+import { CreateOrganisationDto } from './dto/create-organisation.dto';
+import { UpdateOrganisationDto } from './dto/update-organisation.dto';
+import { ListOrganisationsQueryDto } from './dto/list-organisations-query.dto';
+import { OrganisationManagerDto, OrganisationResponseDto } from './dto/organisation-response.dto';
+import { OrganisationSummaryResponseDto } from './dto/organisation-summary-response.dto';
+import { Cooperative, CooperativeDocument } from '../cooperatives/schemas/cooperative.schema';
+import { User, UserDocument } from '../users/schemas/user.schema';
+import { Invitation, InvitationDocument, InvitationStatus } from '../invitations/schemas/invitation.schema';
+import { Recommendation, RecommendationDocument } from '../recommendations/schemas/recommendation.schema';
+import { AuditService } from '../audit/audit.service';
+import { JwtPayload } from '../../common/interfaces/jwt-payload.interface';
+import { UserRole } from '../../common/enums/user-role.enum';
+import { TenantScope } from '../../common/tenancy/tenant-context';
+
+
+const SUMMARY_WINDOW_MS = 30 * 24 * 60 * 60 * 1000;
+const TOP_CLASSIFICATIONS = 5;
+
+
+/**
+ * The region → district → cooperative tree. Managers assigned to a region
+ * or district oversee every cooperative below it, which is what
+ * `resolveTenantScope` works out for each request.
+ */
+@Injectable()
+export class OrganisationsService {
+    constructor(
+        @InjectModel(Organisation.name) private organisationModel: Model<OrganisationDocument>,
+        @InjectModel(Cooperative.name) private cooperativeModel: Model<CooperativeDocument>,
+        @InjectModel(User.name) private userModel: Model<UserDocument>,
+        @InjectModel(Invitation.name) private invitationModel: Model<InvitationDocument>,
+        @InjectModel(Recommendation.name) private recommendationModel: Model<RecommendationDocument>,
+        private auditService: AuditService,
+    ) { }
+
+
+    async create(createOrganisationDto: CreateOrganisationDto, actorId: string): Promise<OrganisationResponseDto> {
+        const { name, level, parentId } = createOrganisationDto;
+        const path = await this.resolvePath(level, parentId);
+        let organisation: OrganisationDocument;
+
+        try {
+            organisation = await this.organisationModel.create({ name, level, parentId, path });
+        } catch (error) {
+            throw this.toConflict(error);
+        }
+
+        await this.auditService.record({
+            action: 'organisations.created',
+            actorId,
+            details: { organisationId: organisation._id.toString(), name, level, parentId },
+        });
+
+        return this.toResponseDto(organisation);
+    }
+
+
+    /**
+     * Organisations ordered by their place in the tree. Managers only see
+     * their own organisation and those below it.
+     */
+    async findAll(
+        listOrganisationsQueryDto: ListOrganisationsQueryDto = {},
+        currentUser?: JwtPayload,
+    ): Promise<OrganisationResponseDto[]> {
+        const { level, ancestorId, isActive } = listOrganisationsQueryDto;
+        const filter: FilterQuery<OrganisationDocument> = {};
+
+        if (level) {
+            filter.level = level;
+        }
+
+        if (ancestorId) {
+            filter.path = ancestorId;
+        }
+
+        if (isActive !== undefined) {
+            filter.isActive = isActive;
+        }
+
+        if (currentUser && !currentUser.roles.includes(UserRole.ADMIN)) {
+            filter._id = { $in: currentUser.organisationIds ?? [] };
+        }
+
+        const organisations = await this.organisationModel.find(filter).sort({ level: -1, name: 1 });
+
+        return organisations.map((organisation) => this.toResponseDto(organisation));
+    }
+
+
+    async findOne(id: string, currentUser?: JwtPayload): Promise<OrganisationResponseDto> {
+        return this.toResponseDto(await this.findVisible(id, currentUser));
+    }
+
+
+    async update(id: string, updateOrganisationDto: UpdateOrganisationDto, actorId: string): Promise<OrganisationResponseDto> {
+        const organisation = await this.findById(id);
+        const { parentId, ...changes } = updateOrganisationDto;
+        const moved = parentId !== undefined && parentId !== organisation.parentId;
+
+        organisation.set(changes);
+
+        if (moved) {
+            organisation.set({ parentId, path: await this.resolvePath(organisation.level, parentId) });
+        }
+
+        try {
+            await organisation.save();
+        } catch (error) {
+            throw this.toConflict(error);
+        }
+
+        // Only districts move, and only cooperatives sit below them
+        if (moved) {
+            await this.cooperativeModel.updateMany(
+                { organisationId: id },
+                { $set: { organisationPath: [...organisation.path, id] } },
+            );
+        }
+
+        await this.auditService.record({
+            action: 'organisations.updated',
+            actorId,
+            details: { organisationId: id, fields: Object.keys(updateOrganisationDto) },
+        });
+
+        return this.toResponseDto(organisation);
+    }
+
+
+    /**
+     * Delete an organisation with nothing below it and no managers.
+     * Deactivate it instead to keep its history.
+     */
+    async remove(id: string, actorId: string): Promise<{ message: string }> {
+        const organisation = await this.findById(id);
+
+        const [hasChildren, hasCooperatives, hasManagers] = await Promise.all([
+            this.organisationModel.exists({ parentId: id }),
+            this.cooperativeModel.exists({ organisationPath: id }),
+            this.userModel.exists({ organisationId: id }),
+        ]);
+
+        if (hasChildren || hasCooperatives || hasManagers) {
+            throw new ConflictException('Organisation still has districts, cooperatives or managers; deactivate it instead');
+        }
+
+        await organisation.deleteOne();
+
+        await this.auditService.record({
+            action: 'organisations.deleted',
+            actorId,
+            details: { organisationId: id, name: organisation.name },
+        });
+
+        return { message: 'Organisation deleted successfully' };
+    }
+
+
+    async findManagers(id: string, currentUser: JwtPayload): Promise<OrganisationManagerDto[]> {
+        await this.findVisible(id, currentUser);
+
+        const managers = await this.userModel.find({ organisationId: id }).sort({ name: 1 });
+
+        return managers.map((manager) => this.toManagerDto(manager));
+    }
+
+
+    /**
+     * Make a manager responsible for the organisation, moving them out of
+     * any cooperative or other organisation. Their tokens are revoked
+     * because they carry both.
+     */
+    async assignManager(id: string, userId: string, actorId: string): Promise<OrganisationManagerDto> {
+        const organisation = await this.findById(id);
+
+        if (!organisation.isActive) {
+            throw new BadRequestException(`Organisation ${id} is inactive and cannot take on new managers`);
+        }
+
+        const user = await this.userModel.findById(userId);
+
+        if (!user) {
+            throw new NotFoundException('User not found');
+        }
+
+        if (!user.roles.includes(UserRole.MANAGER)) {
+            throw new BadRequestException('Only managers can be assigned to an organisation');
+        }
+
+        if (user.organisationId === id) {
+            return this.toManagerDto(user);
+        }
+
+        const previous = { organisationId: user.organisationId, cooperativeId: user.cooperativeId };
+
+        user.organisationId = id;
+        user.cooperativeId = undefined;
+        user.tokenVersion = (user.tokenVersion ?? 0) + 1;
+        await user.save();
+
+        await this.auditService.record({
+            action: 'organisations.manager_assigned',
+            userId,
+            actorId,
+            details: {
+                organisationId: id,
+                previousOrganisationId: previous.organisationId,
+                previousCooperativeId: previous.cooperativeId,
+            },
+        });
+
+        return this.toManagerDto(user);
+    }
+
+
+    async removeManager(id: string, userId: string, actorId: string): Promise<{ message: string }> {
+        const user = isValidObjectId(userId) ? await this.userModel.findOne({ _id: userId, organisationId: id }) : null;
+
+        if (!user) {
+            throw new NotFoundException('User is not a manager of this organisation');
+        }
+
+        user.organisationId = undefined;
+        user.tokenVersion = (user.tokenVersion ?? 0) + 1;
+        await user.save();
+
+        await this.auditService.record({
+            action: 'organisations.manager_removed',
+            userId,
+            actorId,
+            details: { organisationId: id },
+        });
+
+        return { message: 'Manager removed successfully' };
+    }
+
+
+    /**
+     * The cooperative summary, added up over every cooperative below the
+     * organisation, with a line per cooperative
+     */
+    async getSummary(id: string, currentUser: JwtPayload): Promise<OrganisationSummaryResponseDto> {
+        const organisation = await this.findVisible(id, currentUser);
+        const since = new Date(Date.now() - SUMMARY_WINDOW_MS);
+
+        const [cooperatives, districts, descendantIds] = await Promise.all([
+            this.cooperativeModel.find({ organisationPath: id }).select('name isActive').sort({ name: 1 }),
+            this.organisationModel.countDocuments({ path: id, level: OrganisationLevel.DISTRICT }),
+            this.organisationModel.distinct('_id', { path: id }),
+        ]);
+
+        const cooperativeIds = cooperatives.map((cooperative) => cooperative._id.toString());
+        const members = { cooperativeId: { $in: cooperativeIds } };
+
+        const [total, active, byRole, joinedLast30Days, activeLast30Days, pendingInvitations, byCooperative, memberIds, managers] =
+            await Promise.all([
+                this.userModel.countDocuments(members),
+                this.userModel.countDocuments({ ...members, isActive: true }),
+                this.userModel.aggregate([
+                    { $match: members },
+                    { $unwind: '$roles' },
+                    { $group: { _id: '$roles', count: { $sum: 1 } } },
+                ]),
+                this.userModel.countDocuments({ ...members, createdAt: { $gte: since } }),
+                this.userModel.countDocuments({ ...members, lastLoginAt: { $gte: since } }),
+                this.invitationModel.countDocuments({
+                    cooperativeId: { $in: cooperativeIds },
+                    status: InvitationStatus.PENDING,
+                    expiresAt: { $gt: new Date() },
+                }),
+                this.userModel.aggregate([
+                    { $match: members },
+                    {
+                        $group: {
+                            _id: '$cooperativeId',
+                            members: { $sum: 1 },
+                            activeLast30Days: { $sum: { $cond: [{ $gte: ['$lastLoginAt', since] }, 1, 0] } },
+                        },
+                    },
+                ]),
+                this.userModel.distinct('_id', members),
+                this.userModel.countDocuments({
+                    organisationId: { $in: [id, ...descendantIds.map((descendantId) => descendantId.toString())] },
+                }),
+            ]);
+
+        const userIds = memberIds.map((memberId) => memberId.toString());
+
+        const [recommendationTotals] = await this.recommendationModel.aggregate([
+            { $match: { userId: { $in: userIds } } },
+            {
+                $facet: {
+                    total: [{ $count: 'count' }],
+                    recent: [{ $match: { createdAt: { $gte: since } } }, { $count: 'count' }],
+                    classifications: [
+                        { $group: { _id: '$imageClassification', count: { $sum: 1 } } },
+                        { $sort: { count: -1, _id: 1 } },
+                        { $limit: TOP_CLASSIFICATIONS },
+                    ],
+                },
+            },
+        ]);
+
+        const statsByCooperative = new Map(byCooperative.map((item) => [item._id, item]));
+
+        return {
+            organisation: this.toResponseDto(organisation),
+            districts,
+            managers,
+            members: {
+                total,
+                active,
+                inactive: total - active,
+                byRole: byRole.reduce((acc, item) => ({ ...acc, [item._id]: item.count }), {}),
+                joinedLast30Days,
+                activeLast30Days,
+                pendingInvitations,
+            },
+            recommendations: {
+                total: recommendationTotals?.total[0]?.count ?? 0,
+                last30Days: recommendationTotals?.recent[0]?.count ?? 0,
+                topClassifications: (recommendationTotals?.classifications ?? []).map((item) => ({
+                    classification: item._id,
+                    count: item.count,
+                })),
+            },
+            cooperatives: cooperatives.map((cooperative) => {
+                const stats = statsByCooperative.get(cooperative._id.toString());
+
+                return {
+                    id: cooperative._id.toString(),
+                    name: cooperative.name,
+                    isActive: cooperative.isActive,
+                    members: stats?.members ?? 0,
+                    activeLast30Days: stats?.activeLast30Days ?? 0,
+                };
+            }),
+        };
+    }
+
+
+    /**
+     * IDs of the cooperatives below an organisation the caller can see
+     */
+    async findCooperativeIds(id: string, currentUser?: JwtPayload): Promise<string[]> {
+        await this.findVisible(id, currentUser);
+
+        const cooperativeIds = await this.cooperativeModel.distinct('_id', { organisationPath: id });
+
+        return cooperativeIds.map((cooperativeId) => cooperativeId.toString());
+    }
+
+
+    /**
+     * Referential check for placing a cooperative in a district. Returns the
+     * cooperative's `organisationPath`.
+     */
+    async resolveCooperativePath(districtId: string): Promise<string[]> {
+        const district = isValidObjectId(districtId) ? await this.organisationModel.findById(districtId) : null;
+
+        if (!district || district.level !== OrganisationLevel.DISTRICT) {
+            throw new BadRequestException(`District ${districtId} does not exist`);
+        }
+
+        if (!district.isActive) {
+            throw new BadRequestException(`District ${districtId} is inactive and cannot take on new cooperatives`);
+        }
+
+        return [...district.path, districtId];
+    }
+
+
+    /**
+     * What the caller may access: their own cooperative, or for managers of
+     * a region or district, every organisation and cooperative below it.
+     * Callers in neither, such as self-registered farmers, only get their own
+     * documents. Resolved on every request, so changes to the tree apply at once.
+     */
+    async resolveTenantScope(currentUser: JwtPayload): Promise<TenantScope> {
+        const cooperativeId = currentUser.cooperativeId ?? null;
+        const organisationId = currentUser.organisationId ?? null;
+
+        if (!organisationId) {
+            return {
+                cooperativeId,
+                organisationId,
+                cooperativeIds: [cooperativeId],
+                organisationIds: [],
+                userId: cooperativeId ? null : currentUser.sub,
+            };
+        }
+
+        const [organisationIds, cooperativeIds] = await Promise.all([
+            this.organisationModel.distinct('_id', { $or: [{ _id: organisationId }, { path: organisationId }] }),
+            this.cooperativeModel.distinct('_id', { organisationPath: organisationId }),
+        ]);
+
+        return {
+            cooperativeId,
+            organisationId,
+            cooperativeIds: [
+                ...(cooperativeId ? [cooperativeId] : []),
+                ...cooperativeIds.map((id) => id.toString()),
+            ],
+            organisationIds: organisationIds.map((id) => id.toString()),
+            userId: null,
+        };
+    }
+
+
+    /**
+     * The `path` of a new or moved organisation: regions are at the top and
+     * districts sit under an active region
+     */
+    private async resolvePath(level: OrganisationLevel, parentId?: string): Promise<string[]> {
+        if (level === OrganisationLevel.REGION) {
+            if (parentId) {
+                throw new BadRequestException('Regions cannot have a parent');
+            }
+
+            return [];
+        }
+
+        if (!parentId) {
+            throw new BadRequestException('Districts need a parent region');
+        }
+
+        const parent = await this.organisationModel.findById(parentId);
+
+        if (!parent || parent.level !== OrganisationLevel.REGION) {
+            throw new BadRequestException(`Region ${parentId} does not exist`);
+        }
+
+        if (!parent.isActive) {
+            throw new BadRequestException(`Region ${parentId} is inactive and cannot take on new districts`);
+        }
+
+        return [...parent.path, parentId];
+    }
+
+
+    private async findById(id: string): Promise<OrganisationDocument> {
+        const organisation = isValidObjectId(id) ? await this.organisationModel.findById(id) : null;
+
+        if (!organisation) {
+            throw new NotFoundException('Organisation not found');
+        }
+
+        return organisation;
+    }
+
+
+    private async findVisible(id: string, currentUser?: JwtPayload): Promise<OrganisationDocument> {
+        if (
+            currentUser &&
+            !currentUser.roles.includes(UserRole.ADMIN) &&
+            !(currentUser.organisationIds ?? []).includes(id)
+        ) {
+            throw new ForbiddenException('Access denied: You can only view organisations you manage');
+        }
+
+        return this.findById(id);
+    }
+
+
+    private toConflict(error: any): Error {
+        return error?.code === 11000
+            ? new ConflictException('An organisation with this name already exists at this level')
+            : error;
+    }
+
+
+    private toResponseDto(organisation: OrganisationDocument): OrganisationResponseDto {
+        return {
+            id: organisation._id.toString(),
+            name: organisation.name,
+            level: organisation.level,
+            parentId: organisation.parentId,
+            path: organisation.path,
+            isActive: organisation.isActive,
+            createdAt: organisation.createdAt,
+            updatedAt: organisation.updatedAt,
+        };
+    }
+
+
+    private toManagerDto(user: UserDocument): OrganisationManagerDto {
+        return {
+            id: user._id.toString(),
+            name: user.name,
+            email: user.email,
+            phone: user.phone,
+            isActive: user.isActive,
+            lastLoginAt: user.lastLoginAt,
+        };
+    }
+}
@@ -0,0 +1,48 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type OrganisationDocument = Organisation & Document;
+
+export enum OrganisationLevel {
+    REGION = 'region',
+    DISTRICT = 'district',
+}
+
+
+/**
+ * A regional or district office. Districts sit under a region and
+ * cooperatives under a district. Managers assigned to an organisation,
+ * through their `organisationId`, oversee everything below it.
+ */
+@Schema({
+    timestamps: true,
+    collection: 'organisations',
+})
+export class Organisation {
+    @Prop({ required: true, trim: true })
+    name: string;
+
+    @Prop({ type: String, required: true, enum: Object.values(OrganisationLevel) })
+    level: OrganisationLevel;
+
+    // The region of a district
+    @Prop({ required: false })
+    parentId?: string;
+
+    // IDs of the organisations above, top first, so that whole subtrees can be queried at once
+    @Prop({ type: [String], default: [], index: true })
+    path: string[];
+
+    // Inactive organisations keep what they have but cannot take on new districts, cooperatives or managers
+    @Prop({ default: true })
+    isActive: boolean;
+
+    createdAt: Date;
+
+    updatedAt: Date;
+}
+
+export const OrganisationSchema = SchemaFactory.createForClass(Organisation);
+
+// Names are unique among siblings; regions share a missing parentId
+OrganisationSchema.index({ parentId: 1, name: 1 }, { unique: true });
@@ -0,0 +1,27 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+/**
+ * Terms specific to this platform and its users that generic breach lists
+ * do not cover.
+ */
+const SITE_SPECIFIC_PASSWORDS = [
+    'angularleaf', 'angular', 'leaf', 'farmer', 'farming', 'harvest', 'coffee', 'cassava', 'banana1',
+    'maize', 'rwanda', 'kigali', 'africa', 'cooperative', 'agriculture',
+];
+
+
+/**
+ * Frequently used and breached passwords, lowercased. The list ships as
+ * common-passwords.txt, one password per line, so it can be replaced with a
+ * newer breach list without touching code. Candidates are also compared with
+ * surrounding digits and symbols stripped, so variants such as "Password123!"
+ * are caught by the "password" entry.
+ */
+export const COMMON_PASSWORDS: ReadonlySet<string> = new Set([
+    ...readFileSync(join(__dirname, 'common-passwords.txt'), 'utf8')
+        .split(/\r?\n/)
+        .map((line) => line.trim().toLowerCase())
+        .filter(Boolean),
+    ...SITE_SPECIFIC_PASSWORDS,
+]);
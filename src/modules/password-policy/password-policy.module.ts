@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { PasswordPolicyService } from './password-policy.service';
+
+
+@Module({
+    imports: [ConfigModule],
+    providers: [PasswordPolicyService],
+    exports: [PasswordPolicyService],
+})
+export class PasswordPolicyModule { }
@@ -0,0 +1,129 @@
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException } from '@nestjs/common';
+import { PasswordPolicyService } from './password-policy.service';
+
+describe('PasswordPolicyService', () => {
+  const createService = (passwordPolicy: Record<string, unknown> = {}) =>
+    new PasswordPolicyService(
+      new ConfigService({
+        auth: {
+          bcryptSaltRounds: 4,
+          passwordPolicy: {
+            minLength: 8,
+            maxLength: 72,
+            requireUppercase: true,
+            requireLowercase: true,
+            requireNumber: true,
+            requireSymbol: true,
+            historySize: 3,
+            maxAge: '',
+            ...passwordPolicy,
+          },
+        },
+      }),
+    );
+
+  describe('getViolations', () => {
+    const service = createService();
+
+    it('should accept a password that satisfies every rule', () => {
+      expect(service.getViolations('Umuhinzi#2026')).toEqual([]);
+    });
+
+    it('should report each missing character class', () => {
+      expect(service.getViolations('alllowercase')).toEqual([
+        'Password must contain at least one uppercase letter',
+        'Password must contain at least one number',
+        'Password must contain at least one special character',
+      ]);
+    });
+
+    it('should reject short passwords', () => {
+      expect(service.getViolations('Ab1!')).toEqual(['Password must be at least 8 characters long']);
+    });
+
+    it('should reject common passwords decorated with digits and symbols', () => {
+      expect(service.getViolations('Password123!')).toContain('Password is too common and easily guessed');
+      expect(service.getViolations('!Qwerty2024')).toContain('Password is too common and easily guessed');
+    });
+
+    it('should reject passwords from the shipped list and platform terms', () => {
+      expect(service.getViolations('Metallica1!')).toContain('Password is too common and easily guessed');
+      expect(service.getViolations('Cassava#2026')).toContain('Password is too common and easily guessed');
+    });
+
+    it('should honour disabled character classes', () => {
+      expect(createService({ requireSymbol: false }).getViolations('Umuhinzi2026')).toEqual([]);
+    });
+  });
+
+  describe('setPassword', () => {
+    const service = createService();
+
+    it('should hash the password and keep previous hashes', async () => {
+      const user: any = {};
+
+      await service.setPassword(user, 'Umuhinzi#2026');
+      const firstHash = user.password;
+      await service.setPassword(user, 'Ikawa&Nziza7');
+
+      expect(user.password).not.toBe(firstHash);
+      expect(user.passwordHistory).toEqual([firstHash]);
+      expect(user.passwordChangedAt).toBeInstanceOf(Date);
+    });
+
+    it('should reject the current and recent passwords', async () => {
+      const user: any = {};
+
+      await service.setPassword(user, 'Umuhinzi#2026');
+      await service.setPassword(user, 'Ikawa&Nziza7');
+
+      await expect(service.setPassword(user, 'Ikawa&Nziza7')).rejects.toThrow(BadRequestException);
+      await expect(service.setPassword(user, 'Umuhinzi#2026')).rejects.toThrow(BadRequestException);
+    });
+
+    it('should allow a password once it falls out of the history', async () => {
+      const user: any = {};
+
+      for (const password of ['Umuhinzi#2026', 'Ikawa&Nziza7', 'Ibishyimbo%9', 'Amateke@123']) {
+        await service.setPassword(user, password);
+      }
+
+      expect(user.passwordHistory).toHaveLength(2);
+      await expect(service.setPassword(user, 'Umuhinzi#2026')).resolves.toBeUndefined();
+    });
+  });
+
+  describe('setTemporaryPassword', () => {
+    it('should set a compliant password that must be changed at next login', async () => {
+      const service = createService();
+      const user: any = {};
+
+      const password = await service.setTemporaryPassword(user);
+
+      expect(service.getViolations(password)).toEqual([]);
+      expect(user.mustChangePassword).toBe(true);
+      expect(service.isExpired(user)).toBe(true);
+
+      await service.setPassword(user, 'Umuhinzi#2026');
+      expect(user.mustChangePassword).toBe(false);
+      expect(service.isExpired(user)).toBe(false);
+    });
+  });
+
+  describe('isExpired', () => {
+    it('should never expire when no maximum age is configured', () => {
+      const user: any = { password: 'hash', passwordChangedAt: new Date(0) };
+
+      expect(createService().isExpired(user)).toBe(false);
+    });
+
+    it('should expire passwords older than the maximum age', () => {
+      const service = createService({ maxAge: '90d' });
+      const day = 24 * 60 * 60 * 1000;
+
+      expect(service.isExpired({ password: 'hash', passwordChangedAt: new Date(Date.now() - 91 * day) } as any)).toBe(true);
+      expect(service.isExpired({ password: 'hash', passwordChangedAt: new Date(Date.now() - 10 * day) } as any)).toBe(false);
+    });
+  });
+});
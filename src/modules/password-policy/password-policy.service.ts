@@ -0,0 +1,186 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as bcrypt from 'bcrypt';
+import * as ms from 'ms';
+import { randomInt } from 'crypto';
+import { UserDocument } from '../users/schemas/user.schema';
+import { COMMON_PASSWORDS } from './common-passwords';
+
+
+/**
+ * Single source of truth for password rules: length and character classes,
+ * a bundled list of common passwords, reuse of recent passwords and the
+ * optional maximum password age.
+ */
+@Injectable()
+export class PasswordPolicyService {
+    private readonly minLength: number;
+    private readonly maxLength: number;
+    private readonly requireUppercase: boolean;
+    private readonly requireLowercase: boolean;
+    private readonly requireNumber: boolean;
+    private readonly requireSymbol: boolean;
+    private readonly historySize: number;
+    private readonly maxAgeMs: number;
+    private readonly bcryptSaltRounds: number;
+
+    constructor(private configService: ConfigService) {
+        this.minLength = this.configService.get<number>('auth.passwordPolicy.minLength', 8);
+        this.maxLength = this.configService.get<number>('auth.passwordPolicy.maxLength', 72);
+        this.requireUppercase = this.configService.get<boolean>('auth.passwordPolicy.requireUppercase', true);
+        this.requireLowercase = this.configService.get<boolean>('auth.passwordPolicy.requireLowercase', true);
+        this.requireNumber = this.configService.get<boolean>('auth.passwordPolicy.requireNumber', true);
+        this.requireSymbol = this.configService.get<boolean>('auth.passwordPolicy.requireSymbol', true);
+        this.historySize = this.configService.get<number>('auth.passwordPolicy.historySize', 5);
+        this.bcryptSaltRounds = this.configService.get<number>('auth.bcryptSaltRounds', 12);
+
+        const maxAge = this.configService.get<string>('auth.passwordPolicy.maxAge');
+        this.maxAgeMs = maxAge ? ms(maxAge as ms.StringValue) : 0;
+    }
+
+
+    /**
+     * Rule violations for a candidate password, as user-facing messages.
+     * Does not cover reuse, which needs the user's stored hashes.
+     */
+    getViolations(password: string): string[] {
+        const violations: string[] = [];
+
+        if (typeof password !== 'string' || password.length < this.minLength) {
+            violations.push(`Password must be at least ${this.minLength} characters long`);
+            return violations;
+        }
+
+        // bcrypt ignores everything past 72 bytes
+        if (Buffer.byteLength(password) > this.maxLength) {
+            violations.push(`Password must be at most ${this.maxLength} characters long`);
+        }
+
+        if (this.requireUppercase && !/[A-Z]/.test(password)) {
+            violations.push('Password must contain at least one uppercase letter');
+        }
+
+        if (this.requireLowercase && !/[a-z]/.test(password)) {
+            violations.push('Password must contain at least one lowercase letter');
+        }
+
+        if (this.requireNumber && !/\d/.test(password)) {
+            violations.push('Password must contain at least one number');
+        }
+
+        if (this.requireSymbol && !/[^A-Za-z\d]/.test(password)) {
+            violations.push('Password must contain at least one special character');
+        }
+
+        if (this.isCommon(password)) {
+            violations.push('Password is too common and easily guessed');
+        }
+
+        return violations;
+    }
+
+
+    /**
+     * Validate a new password and store its hash on the user, keeping earlier
+     * hashes for the reuse check. The document must be loaded with
+     * `+password +passwordHistory`; the caller saves it.
+     */
+    async setPassword(user: UserDocument, password: string): Promise<void> {
+        const violations = this.getViolations(password);
+
+        if (!violations.length && (await this.isReused(user, password))) {
+            violations.push(`Password must not match any of your last ${this.historySize} passwords`);
+        }
+
+        if (violations.length) {
+            throw new BadRequestException(violations);
+        }
+
+        if (this.historySize > 1 && user.password) {
+            user.passwordHistory = [user.password, ...(user.passwordHistory ?? [])].slice(0, this.historySize - 1);
+        } else {
+            user.passwordHistory = [];
+        }
+
+        user.password = await bcrypt.hash(password, this.bcryptSaltRounds);
+        user.passwordChangedAt = new Date();
+        user.mustChangePassword = false;
+    }
+
+
+    /**
+     * Set a random password that satisfies the policy and must be replaced
+     * at the next login. Returns the plain-text password to hand to the user.
+     */
+    async setTemporaryPassword(user: UserDocument): Promise<string> {
+        const password = this.generatePassword();
+
+        await this.setPassword(user, password);
+        user.mustChangePassword = true;
+
+        return password;
+    }
+
+
+    /**
+     * Whether the user's password is a temporary one or older than the
+     * configured maximum age, and must be rotated before signing in.
+     */
+    isExpired(user: UserDocument): boolean {
+        if (user.mustChangePassword && user.password) {
+            return true;
+        }
+
+        if (!this.maxAgeMs || !user.password) {
+            return false;
+        }
+
+        const changedAt = user.passwordChangedAt ?? user.createdAt;
+
+        return !!changedAt && Date.now() - changedAt.getTime() > this.maxAgeMs;
+    }
+
+
+    private async isReused(user: UserDocument, password: string): Promise<boolean> {
+        const recentHashes = [user.password, ...(user.passwordHistory ?? [])]
+            .filter(Boolean)
+            .slice(0, this.historySize);
+
+        for (const hash of recentHashes) {
+            if (await bcrypt.compare(password, hash)) {
+                return true;
+            }
+        }
+
+        return false;
+    }
+
+
+    private generatePassword(): string {
+        // Unambiguous characters only: temporary passwords are often read out or typed from paper
+        const classes = ['ABCDEFGHJKLMNPQRSTUVWXYZ', 'abcdefghijkmnpqrstuvwxyz', '23456789', '!#%&*+=?@'];
+        const alphabet = classes.join('');
+        const length = Math.min(Math.max(this.minLength, 14), this.maxLength);
+
+        const characters = classes.map((characterClass) => characterClass[randomInt(characterClass.length)]);
+
+        while (characters.length < length) {
+            characters.push(alphabet[randomInt(alphabet.length)]);
+        }
+
+        for (let i = characters.length - 1; i > 0; i--) {
+            const j = randomInt(i + 1);
+            [characters[i], characters[j]] = [characters[j], characters[i]];
+        }
+
+        return characters.join('');
+    }
+
+
+    private isCommon(password: string): boolean {
+        const normalized = password.toLowerCase();
+        const stripped = normalized.replace(/^[^a-z]+|[^a-z]+$/g, '');
+
+        return COMMON_PASSWORDS.has(normalized) || (stripped.length >= 4 && COMMON_PASSWORDS.has(stripped));
+    }
+}
@@ -0,0 +1,31 @@
+import { UserRole } from '../../common/enums/user-role.enum';
+import { Permission } from '../../common/enums/permission.enum';
+
+const FARMER_PERMISSIONS: Permission[] = [
+    Permission.SCAN_CREATE,
+    Permission.RECOMMENDATION_CREATE,
+    Permission.RECOMMENDATION_READ_ANY,
+    Permission.RECOMMENDATION_FEEDBACK,
+    Permission.API_KEY_MANAGE_OWN,
+    Permission.PROFILE_UPDATE_OWN,
+];
+
+const MANAGER_PERMISSIONS: Permission[] = [
+    ...FARMER_PERMISSIONS,
+    Permission.RECOMMENDATION_ANALYTICS,
+    Permission.USER_MANAGE_COOPERATIVE,
+    Permission.COOPERATIVE_READ,
+    Permission.ORGANISATION_READ,
+    Permission.USAGE_READ,
+];
+
+/**
+ * Permissions each role is seeded with, matching what the role could do
+ * before permissions were introduced. Admins may change the stored mapping
+ * and reset a role back to these bundles.
+ */
+export const DEFAULT_ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+    [UserRole.FARMER]: FARMER_PERMISSIONS,
+    [UserRole.MANAGER]: MANAGER_PERMISSIONS,
+    [UserRole.ADMIN]: Object.values(Permission),
+};
@@ -0,0 +1,2 @@
+export * from './update-role-permissions.dto';
+export * from './role-permissions-response.dto';
@@ -0,0 +1,37 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { UserRole } from '../../../common/enums/user-role.enum';
+import { Permission } from '../../../common/enums/permission.enum';
+
+
+export class RolePermissionsResponseDto {
+    @ApiProperty({
+        description: 'Role',
+        enum: UserRole,
+    })
+    role: UserRole;
+
+    @ApiProperty({
+        description: 'Permissions granted to the role',
+        enum: Permission,
+        isArray: true,
+    })
+    permissions: Permission[];
+
+    @ApiProperty({
+        description: 'Whether the role still has its default permissions',
+        example: true,
+    })
+    isDefault: boolean;
+
+    @ApiProperty({
+        description: 'ID of the admin who last changed the mapping',
+        required: false,
+    })
+    updatedBy?: string;
+
+    @ApiProperty({
+        description: 'Last change',
+        required: false,
+    })
+    updatedAt?: Date;
+}
@@ -0,0 +1,17 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { ArrayUnique, IsArray, IsEnum } from 'class-validator';
+import { Permission } from '../../../common/enums/permission.enum';
+
+
+export class UpdateRolePermissionsDto {
+    @ApiProperty({
+        description: 'Complete set of permissions granted to the role; replaces the current set',
+        enum: Permission,
+        isArray: true,
+        example: [Permission.SCAN_CREATE, Permission.RECOMMENDATION_CREATE],
+    })
+    @IsArray()
+    @ArrayUnique()
+    @IsEnum(Permission, { each: true })
+    permissions: Permission[];
+}
@@ -0,0 +1,135 @@
+import {
+    Controller,
+    Get,
+    Put,
+    Post,
+    Body,
+    Param,
+    ParseEnumPipe,
+    UseGuards,
+    HttpCode,
+    HttpStatus,
+} from '@nestjs/common';
+import {
+    ApiTags,
+    ApiOperation,
+    ApiResponse,
+    ApiBearerAuth,
+    ApiParam,
+} from '@nestjs/swagger';
+import { PermissionsService } from './permissions.service';
+import { UpdateRolePermissionsDto } from './dto/update-role-permissions.dto';
+import { RolePermissionsResponseDto } from './dto/role-permissions-response.dto';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../../common/guards/permissions.guard';
+import { RequirePermissions } from '../../common/decorators/require-permissions.decorator';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { NotWhileImpersonating } from '../../common/decorators/not-while-impersonating.decorator';
+import { UserRole } from '../../common/enums/user-role.enum';
+import { Permission } from '../../common/enums/permission.enum';
+
+
+@ApiTags('Permissions')
+@ApiBearerAuth()
+@Controller('permissions')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@RequirePermissions(Permission.ROLE_MANAGE)
+@NotWhileImpersonating()
+export class PermissionsController {
+    constructor(private readonly permissionsService: PermissionsService) { }
+
+
+    @Get()
+    @ApiOperation({
+        summary: 'List available permissions',
+        description: 'All permission names that can be granted to a role.',
+    })
+    @ApiResponse({
+        status: HttpStatus.OK,
+        description: 'Permission names',
+    })
+    @ApiResponse({
+        status: HttpStatus.FORBIDDEN,
+        description: 'role:manage permission required',
+    })
+    listPermissions(): { permissions: Permission[] } {
+        return { permissions: Object.values(Permission) };
+    }
+
+
+    @Get('roles')
+    @ApiOperation({
+        summary: 'Get the role-to-permission mapping',
+        description: 'Permissions currently granted to each role.',
+    })
+    @ApiResponse({
+        status: HttpStatus.OK,
+        description: 'Role permissions',
+        type: [RolePermissionsResponseDto],
+    })
+    @ApiResponse({
+        status: HttpStatus.FORBIDDEN,
+        description: 'role:manage permission required',
+    })
+    async findAll(): Promise<RolePermissionsResponseDto[]> {
+        return this.permissionsService.findAll();
+    }
+
+
+    @Put('roles/:role')
+    @ApiOperation({
+        summary: 'Replace the permissions of a role',
+        description: 'Takes effect for all users with the role within a few seconds, including existing sessions. ' +
+            'The admin role cannot give up role:manage.',
+    })
+    @ApiParam({
+        name: 'role',
+        enum: UserRole,
+    })
+    @ApiResponse({
+        status: HttpStatus.OK,
+        description: 'Role permissions updated',
+        type: RolePermissionsResponseDto,
+    })
+    @ApiResponse({
+        status: HttpStatus.BAD_REQUEST,
+        description: 'Unknown role or permission, or admin would lose role:manage',
+    })
+    @ApiResponse({
+        status: HttpStatus.FORBIDDEN,
+        description: 'role:manage permission required',
+    })
+    async update(
+        @Param('role', new ParseEnumPipe(UserRole)) role: UserRole,
+        @Body() updateRolePermissionsDto: UpdateRolePermissionsDto,
+        @CurrentUser('sub') actorId: string,
+    ): Promise<RolePermissionsResponseDto> {
+        return this.permissionsService.update(role, updateRolePermissionsDto.permissions, actorId);
+    }
+
+
+    @Post('roles/:role/reset')
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({
+        summary: 'Restore the default permissions of a role',
+    })
+    @ApiParam({
+        name: 'role',
+        enum: UserRole,
+    })
+    @ApiResponse({
+        status: HttpStatus.OK,
+        description: 'Role permissions reset',
+        type: RolePermissionsResponseDto,
+    })
+    @ApiResponse({
+        status: HttpStatus.FORBIDDEN,
+        description: 'role:manage permission required',
+    })
+    async reset(
+        @Param('role', new ParseEnumPipe(UserRole)) role: UserRole,
+        @CurrentUser('sub') actorId: string,
+    ): Promise<RolePermissionsResponseDto> {
+        return this.permissionsService.reset(role, actorId);
+    }
+}
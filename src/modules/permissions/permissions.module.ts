@@ -0,0 +1,25 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { PermissionsController } from './permissions.controller';
+import { PermissionsService } from './permissions.service';
+import { RolePermissions, RolePermissionsSchema } from './schemas/role-permissions.schema';
+import { AuditModule } from '../audit/audit.module';
+
+/**
+ * Permissions Module
+ *
+ * Role-to-permission mapping used by PermissionsGuard. Modules whose
+ * controllers use the guard import this module.
+ */
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: RolePermissions.name, schema: RolePermissionsSchema },
+    ]),
+    AuditModule,
+  ],
+  controllers: [PermissionsController],
+  providers: [PermissionsService],
+  exports: [PermissionsService],
+})
+export class PermissionsModule {}
@@ -0,0 +1,106 @@
+import { BadRequestException } from '@nestjs/common';
+import { PermissionsService } from './permissions.service';
+import { DEFAULT_ROLE_PERMISSIONS } from './default-role-permissions';
+import { UserRole } from '../../common/enums/user-role.enum';
+import { Permission } from '../../common/enums/permission.enum';
+
+describe('PermissionsService', () => {
+  let records: any[];
+  let auditService: { record: jest.Mock };
+  let service: PermissionsService;
+
+  beforeEach(() => {
+    records = [];
+    auditService = { record: jest.fn() };
+
+    const model: any = {
+      bulkWrite: jest.fn(async (operations: any[]) => {
+        for (const { updateOne } of operations) {
+          let record = records.find((candidate) => candidate.role === updateOne.filter.role);
+          if (!record) {
+            record = { role: updateOne.filter.role, permissions: [] };
+            records.push(record);
+          }
+          const added = updateOne.update.$addToSet.permissions.$each;
+          record.permissions = [...record.permissions, ...added.filter((permission: Permission) => !record.permissions.includes(permission))];
+          Object.assign(record, updateOne.update.$set);
+        }
+      }),
+      find: jest.fn(() => {
+        const result: any = Promise.resolve(records);
+        result.lean = async () => records;
+        return result;
+      }),
+      findOneAndUpdate: jest.fn(async (filter: any, update: any) => {
+        let record = records.find((candidate) => candidate.role === filter.role);
+        if (!record) {
+          record = { role: filter.role };
+          records.push(record);
+        }
+        return Object.assign(record, update.$set, { updatedAt: new Date() });
+      }),
+    };
+
+    service = new PermissionsService(model, auditService as any);
+  });
+
+  it('should seed every role with its default bundle', async () => {
+    await service.onModuleInit();
+
+    expect(records.map((record) => record.role).sort()).toEqual(Object.values(UserRole).sort());
+    expect(await service.getPermissionsForRoles([UserRole.FARMER])).toEqual(DEFAULT_ROLE_PERMISSIONS[UserRole.FARMER]);
+  });
+
+  it('should grant permissions added in a release to their default roles only once', async () => {
+    const previouslyKnown = Object.values(Permission).filter((permission) => permission !== Permission.USER_MANAGE_ANY);
+    records.push(
+      { role: UserRole.ADMIN, permissions: [Permission.ROLE_MANAGE], knownPermissions: previouslyKnown },
+      { role: UserRole.FARMER, permissions: [Permission.SCAN_CREATE], knownPermissions: previouslyKnown },
+    );
+
+    await service.onModuleInit();
+
+    expect(records.find((record) => record.role === UserRole.ADMIN).permissions).toEqual([
+      Permission.ROLE_MANAGE,
+      Permission.USER_MANAGE_ANY,
+    ]);
+    expect(records.find((record) => record.role === UserRole.FARMER).permissions).toEqual([Permission.SCAN_CREATE]);
+
+    records.find((record) => record.role === UserRole.ADMIN).permissions = [Permission.ROLE_MANAGE];
+    await service.onModuleInit();
+
+    expect(records.find((record) => record.role === UserRole.ADMIN).permissions).toEqual([Permission.ROLE_MANAGE]);
+  });
+
+  it('should grant the union of permissions across roles', async () => {
+    await service.onModuleInit();
+
+    const permissions = await service.getPermissionsForRoles([UserRole.FARMER, UserRole.MANAGER]);
+
+    expect(permissions).toContain(Permission.SCAN_CREATE);
+    expect(permissions).toContain(Permission.USER_MANAGE_COOPERATIVE);
+    expect(permissions).not.toContain(Permission.USER_MANAGE_ANY);
+  });
+
+  it('should apply an edited mapping immediately and audit the change', async () => {
+    await service.onModuleInit();
+    await service.getPermissionsForRoles([UserRole.FARMER]);
+
+    await service.update(UserRole.FARMER, [Permission.SCAN_CREATE], 'admin-1');
+
+    expect(await service.getPermissionsForRoles([UserRole.FARMER])).toEqual([Permission.SCAN_CREATE]);
+    expect(auditService.record).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: 'permissions.role_updated',
+        actorId: 'admin-1',
+        details: expect.objectContaining({ removed: expect.arrayContaining([Permission.RECOMMENDATION_CREATE]) }),
+      }),
+    );
+  });
+
+  it('should not let the admin role lose role management', async () => {
+    await expect(service.update(UserRole.ADMIN, [Permission.USER_MANAGE_ANY], 'admin-1')).rejects.toThrow(
+      BadRequestException,
+    );
+  });
+});
@@ -0,0 +1,182 @@
+import { Injectable, BadRequestException, Logger, OnModuleInit } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { RolePermissions, RolePermissionsDocument } from './schemas/role-permissions.schema';
+import { RolePermissionsResponseDto } from './dto/role-permissions-response.dto';
+import { DEFAULT_ROLE_PERMISSIONS } from './default-role-permissions';
+import { AuditService } from '../audit/audit.service';
+import { UserRole } from '../../common/enums/user-role.enum';
+import { Permission } from '../../common/enums/permission.enum';
+
+
+// Other instances pick up mapping changes within this window
+const CACHE_TTL_MS = 30 * 1000;
+
+
+/**
+ * Role-to-permission mapping stored in MongoDB. Each role is seeded with
+ * its default bundle and can then be edited by admins without a deploy.
+ */
+@Injectable()
+export class PermissionsService implements OnModuleInit {
+    private readonly logger = new Logger(PermissionsService.name);
+    private cache: Map<UserRole, Permission[]> | null = null;
+    private cachedAt = 0;
+
+    constructor(
+        @InjectModel(RolePermissions.name) private rolePermissionsModel: Model<RolePermissionsDocument>,
+        private auditService: AuditService,
+    ) { }
+
+
+    /**
+     * Seed missing roles with their default bundle and grant permissions
+     * introduced since the last start to the roles that have them by default.
+     * Permissions an admin removed stay removed.
+     */
+    async onModuleInit(): Promise<void> {
+        const allPermissions = Object.values(Permission);
+        const records = await this.rolePermissionsModel.find();
+
+        const operations = Object.values(UserRole).flatMap((role) => {
+            const record = records.find((candidate) => candidate.role === role);
+            const introduced = allPermissions.filter((permission) => !record?.knownPermissions?.includes(permission));
+
+            if (!introduced.length) {
+                return [];
+            }
+
+            return [{
+                updateOne: {
+                    filter: { role },
+                    update: {
+                        $addToSet: {
+                            permissions: { $each: DEFAULT_ROLE_PERMISSIONS[role].filter((permission) => introduced.includes(permission)) },
+                        },
+                        $set: { knownPermissions: allPermissions },
+                    },
+                    upsert: true,
+                },
+            }];
+        });
+
+        if (operations.length) {
+            await this.rolePermissionsModel.bulkWrite(operations);
+        }
+    }
+
+
+    /**
+     * Union of the permissions granted by the given roles
+     */
+    async getPermissionsForRoles(roles: UserRole[]): Promise<Permission[]> {
+        const mapping = await this.getMapping();
+        const permissions = new Set<Permission>();
+
+        for (const role of roles) {
+            for (const permission of mapping.get(role) ?? DEFAULT_ROLE_PERMISSIONS[role] ?? []) {
+                permissions.add(permission);
+            }
+        }
+
+        return [...permissions];
+    }
+
+
+    async hasPermission(roles: UserRole[], permission: Permission): Promise<boolean> {
+        return (await this.getPermissionsForRoles(roles)).includes(permission);
+    }
+
+
+    async findAll(): Promise<RolePermissionsResponseDto[]> {
+        const records = await this.rolePermissionsModel.find();
+
+        return Object.values(UserRole).map((role) =>
+            this.toResponseDto(role, records.find((record) => record.role === role)),
+        );
+    }
+
+
+    async update(role: UserRole, permissions: Permission[], actorId: string): Promise<RolePermissionsResponseDto> {
+        // Keep at least one way back in: admins must always be able to edit the mapping
+        if (role === UserRole.ADMIN && !permissions.includes(Permission.ROLE_MANAGE)) {
+            throw new BadRequestException(`The admin role must keep the ${Permission.ROLE_MANAGE} permission`);
+        }
+
+        const previous = await this.getPermissionsForRoles([role]);
+
+        const record = await this.rolePermissionsModel.findOneAndUpdate(
+            { role },
+            { $set: { permissions, knownPermissions: Object.values(Permission), updatedBy: actorId } },
+            { new: true, upsert: true },
+        );
+
+        this.invalidate();
+
+        await this.auditService.record({
+            action: 'permissions.role_updated',
+            actorId,
+            details: {
+                role,
+                added: permissions.filter((permission) => !previous.includes(permission)),
+                removed: previous.filter((permission) => !permissions.includes(permission)),
+            },
+        });
+
+        this.logger.log(`Permissions for role ${role} updated by ${actorId}`);
+
+        return this.toResponseDto(role, record);
+    }
+
+
+    async reset(role: UserRole, actorId: string): Promise<RolePermissionsResponseDto> {
+        const record = await this.rolePermissionsModel.findOneAndUpdate(
+            { role },
+            { $set: { permissions: DEFAULT_ROLE_PERMISSIONS[role], knownPermissions: Object.values(Permission) }, $unset: { updatedBy: 1 } },
+            { new: true, upsert: true },
+        );
+
+        this.invalidate();
+
+        await this.auditService.record({
+            action: 'permissions.role_reset',
+            actorId,
+            details: { role },
+        });
+
+        return this.toResponseDto(role, record);
+    }
+
+
+    private async getMapping(): Promise<Map<UserRole, Permission[]>> {
+        if (this.cache && Date.now() - this.cachedAt < CACHE_TTL_MS) {
+            return this.cache;
+        }
+
+        const records = await this.rolePermissionsModel.find().lean();
+
+        this.cache = new Map(records.map((record) => [record.role, record.permissions]));
+        this.cachedAt = Date.now();
+
+        return this.cache;
+    }
+
+
+    private invalidate(): void {
+        this.cache = null;
+    }
+
+
+    private toResponseDto(role: UserRole, record?: RolePermissionsDocument | null): RolePermissionsResponseDto {
+        const permissions = record?.permissions ?? DEFAULT_ROLE_PERMISSIONS[role];
+        const defaults = DEFAULT_ROLE_PERMISSIONS[role];
+
+        return {
+            role,
+            permissions,
+            isDefault: permissions.length === defaults.length && defaults.every((permission) => permissions.includes(permission)),
+            updatedBy: record?.updatedBy,
+            updatedAt: record?.updatedAt,
+        };
+    }
+}
@@ -0,0 +1,33 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import { UserRole } from '../../../common/enums/user-role.enum';
+import { Permission } from '../../../common/enums/permission.enum';
+
+export type RolePermissionsDocument = RolePermissions & Document;
+
+
+@Schema({
+    timestamps: true,
+    collection: 'role_permissions',
+})
+export class RolePermissions {
+    @Prop({ required: true, unique: true, enum: Object.values(UserRole) })
+    role: UserRole;
+
+    @Prop({ type: [String], enum: Object.values(Permission), default: [] })
+    permissions: Permission[];
+
+    // Every permission that existed when the mapping was last written, so that
+    // permissions added later are granted to their default roles exactly once
+    @Prop({ type: [String], default: [] })
+    knownPermissions: string[];
+
+    // Unset while the role still has its default bundle
+    @Prop()
+    updatedBy?: string;
+
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export const RolePermissionsSchema = SchemaFactory.createForClass(RolePermissions);
@@ -1,10 +1,12 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { RecommendationContent } from './schemas/recommendation.schema';
+import { FarmProfile } from '../users/farm-profile';
 
 interface GenerateRecommendationParams {
   classification: string;
   confidence: number;
   additionalContext?: string;
+  farmProfile?: FarmProfile;
 }
 
 @Injectable()
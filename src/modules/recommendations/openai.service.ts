@@ -2,11 +2,13 @@ import { BadRequestException, Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import OpenAI from 'openai';
 import { RecommendationContent } from './schemas/recommendation.schema';
+import { FarmProfile, describeFarmProfile, languageName } from '../users/farm-profile';
 
 interface GenerateRecommendationParams {
   classification: string;
   confidence: number;
   additionalContext?: string;
+  farmProfile?: FarmProfile;
 }
 
 @Injectable()
@@ -34,12 +36,12 @@ export class OpenaiService {
   }
 
   async generateRecommendation(params: GenerateRecommendationParams): Promise<RecommendationContent> {
-    const { classification, confidence, additionalContext } = params;
+    const { classification, confidence, additionalContext, farmProfile } = params;
     
     try {
       this.logger.log(`Generating recommendation for classification: ${classification} (confidence: ${confidence})`);
       
-      const prompt = this.buildPrompt(classification, confidence, additionalContext);
+      const prompt = this.buildPrompt(classification, confidence, additionalContext, farmProfile);
       
       const startTime = Date.now();
       
@@ -129,15 +131,26 @@ You must respond with valid JSON that matches this exact structure:
 Provide practical, evidence-based recommendations that are safe and effective. Consider organic and chemical treatment options when appropriate. Always prioritize plant and human safety.`;
   }
 
-  private buildPrompt(classification: string, confidence: number, additionalContext?: string): string {
+  private buildPrompt(
+    classification: string,
+    confidence: number,
+    additionalContext?: string,
+    farmProfile?: FarmProfile,
+  ): string {
     const contextSection = additionalContext ? `\n\nAdditional Context: ${additionalContext}` : '';
+    const farmLines = farmProfile ? describeFarmProfile(farmProfile) : [];
+    const farmSection = farmLines.length ? `\n\nFarm Profile:\n${farmLines.map((line) => `- ${line}`).join('\n')}` : '';
+    // JSON keys stay in English so the response can still be parsed
+    const languageSection = farmProfile?.preferredLanguage
+      ? `\n\nWrite all text values in ${languageName(farmProfile.preferredLanguage)}; keep the JSON keys in English.`
+      : '';
     
     const severityIndicator = this.getSeverityFromConfidence(confidence);
     
     return `Plant Disease Analysis Results:
 - Classification: ${classification}
 - AI Model Confidence: ${confidence.toFixed(3)} (${(confidence * 100).toFixed(1)}%)
-- Indicated Severity Level: ${severityIndicator}${contextSection}
+- Indicated Severity Level: ${severityIndicator}${contextSection}${farmSection}
 
 Please provide comprehensive treatment and prevention recommendations for this plant condition. Focus on:
 
@@ -149,7 +162,7 @@ Please provide comprehensive treatment and prevention recommendations for this p
 
 Consider both organic and conventional treatment options where applicable. Ensure all recommendations are safe for home gardeners and commercially viable.
 
-If this appears to be a healthy plant (classification indicates healthy), focus on preventive care and maintenance recommendations instead of treatment.`;
+If this appears to be a healthy plant (classification indicates healthy), focus on preventive care and maintenance recommendations instead of treatment.${farmSection ? ' Tailor the advice to the farm profile: scale, local season and the other crops grown.' : ''}${languageSection}`;
   }
 
   private getSeverityFromConfidence(confidence: number): string {
@@ -19,6 +19,7 @@ import {
     ApiParam,
     ApiQuery,
     ApiResponse,
+    ApiSecurity,
     ApiTags,
 } from '@nestjs/swagger';
 import { ThrottlerGuard } from '@nestjs/throttler';
@@ -35,23 +36,36 @@ import {
 } from './dto/response.dto';
 import { RecommendationsService } from './recommendations.service';
 import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
-import { RolesGuard } from '../../common/guards/roles.guard';
-import { Roles } from '../../common/decorators/roles.decorator';
-import { UserRole } from '../../common/enums/user-role.enum';
+import { PermissionsGuard } from '../../common/guards/permissions.guard';
+import { QuotaGuard } from '../../common/guards/quota.guard';
+import { RequirePermissions } from '../../common/decorators/require-permissions.decorator';
+import { EnforceQuota } from '../../common/decorators/enforce-quota.decorator';
+import { CrossTenant } from '../../common/decorators/cross-tenant.decorator';
+import { Permission } from '../../common/enums/permission.enum';
 import { Public } from '../../common/decorators/public.decorator';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { ApiKeyScopes } from '../../common/decorators/api-key-scopes.decorator';
+import { ApiKeyScope } from '../../common/enums/api-key-scope.enum';
+import { UsageQuota } from '../../common/enums/usage-metric.enum';
+import { JwtPayload } from '../../common/interfaces/jwt-payload.interface';
 
 @ApiTags('recommendations')
 @Controller('recommendations')
-@UseGuards(ThrottlerGuard, JwtAuthGuard, RolesGuard)
+@CrossTenant()
+@UseGuards(ThrottlerGuard, JwtAuthGuard, PermissionsGuard)
 @ApiBearerAuth()
+@ApiSecurity('api-key')
 export class RecommendationsController {
   constructor(private readonly recommendationsService: RecommendationsService) {}
 
   @Post('generate')
-  @Roles(UserRole.FARMER, UserRole.MANAGER, UserRole.ADMIN)
+  @RequirePermissions(Permission.RECOMMENDATION_CREATE)
+  @ApiKeyScopes(ApiKeyScope.RECOMMENDATIONS_WRITE)
+  @UseGuards(QuotaGuard)
+  @EnforceQuota(UsageQuota.RECOMMENDATIONS)
   @ApiOperation({
     summary: 'Generate AI-powered recommendations',
-    description: 'Generate comprehensive treatment and prevention recommendations based on plant disease classification results using OpenAI. Accessible by farmers, managers, and admins.',
+    description: 'Generate comprehensive treatment and prevention recommendations based on plant disease classification results using OpenAI, tailored to the farm profile of the caller (location, farm size, crops, language). Accessible by farmers, managers, and admins.',
   })
   @ApiResponse({
     status: HttpStatus.CREATED,
@@ -69,17 +83,23 @@ export class RecommendationsController {
     status: HttpStatus.FORBIDDEN,
     description: 'Forbidden - insufficient permissions',
   })
+  @ApiResponse({
+    status: HttpStatus.TOO_MANY_REQUESTS,
+    description: "The cooperative's monthly recommendations quota is used up",
+  })
   @ApiInternalServerErrorResponse({
     description: 'Internal server error during recommendation generation',
   })
   async generateRecommendation(
     @Body(ValidationPipe) generateRecommendationDto: GenerateRecommendationDto,
+    @CurrentUser() user: JwtPayload,
   ): Promise<RecommendationGeneratedResponseDto> {
-    return this.recommendationsService.generateRecommendation(generateRecommendationDto);
+    return this.recommendationsService.generateRecommendation(generateRecommendationDto, user);
   }
 
   @Get()
-  @Roles(UserRole.FARMER, UserRole.MANAGER, UserRole.ADMIN)
+  @RequirePermissions(Permission.RECOMMENDATION_READ_ANY)
+  @ApiKeyScopes(ApiKeyScope.RECOMMENDATIONS_READ)
   @ApiOperation({
     summary: 'Get recommendations',
     description: 'Retrieve recommendations with optional filtering by session ID or classification type. Accessible by farmers, managers, and admins.',
@@ -129,7 +149,7 @@ export class RecommendationsController {
   }
 
   @Get('analytics')
-  @Roles(UserRole.MANAGER, UserRole.ADMIN)
+  @RequirePermissions(Permission.RECOMMENDATION_ANALYTICS)
   @ApiOperation({
     summary: 'Get recommendations analytics',
     description: 'Retrieve analytics and statistics about generated recommendations. Accessible by managers and admins.',
@@ -165,7 +185,8 @@ export class RecommendationsController {
   }
 
   @Get(':id')
-  @Roles(UserRole.FARMER, UserRole.MANAGER, UserRole.ADMIN)
+  @RequirePermissions(Permission.RECOMMENDATION_READ_ANY)
+  @ApiKeyScopes(ApiKeyScope.RECOMMENDATIONS_READ)
   @ApiOperation({
     summary: 'Get recommendation by ID',
     description: 'Retrieve a specific recommendation by its unique identifier. Accessible by farmers, managers, and admins.',
@@ -200,7 +221,8 @@ export class RecommendationsController {
   }
 
   @Patch(':id/feedback')
-  @Roles(UserRole.FARMER, UserRole.MANAGER, UserRole.ADMIN)
+  @RequirePermissions(Permission.RECOMMENDATION_FEEDBACK)
+  @ApiKeyScopes(ApiKeyScope.RECOMMENDATIONS_WRITE)
   @ApiOperation({
     summary: 'Submit user feedback',
     description: 'Submit user rating and feedback for a specific recommendation. Accessible by farmers, managers, and admins.',
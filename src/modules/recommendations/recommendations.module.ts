@@ -2,6 +2,10 @@ import { Module } from '@nestjs/common';
 import { ConfigModule, ConfigService } from '@nestjs/config';
 import { MongooseModule } from '@nestjs/mongoose';
 
+import { PermissionsModule } from '../permissions/permissions.module';
+import { MeteringModule } from '../metering/metering.module';
+import { User, UserSchema } from '../users/schemas/user.schema';
+
 import { MockOpenaiService } from './mock-openai.service';
 import { OpenaiService } from './openai.service';
 import { RecommendationsController } from './recommendations.controller';
@@ -13,7 +17,10 @@ import { Recommendation, RecommendationSchema } from './schemas/recommendation.s
     ConfigModule,
     MongooseModule.forFeature([
       { name: Recommendation.name, schema: RecommendationSchema },
+      { name: User.name, schema: UserSchema },
     ]),
+    PermissionsModule,
+    MeteringModule,
   ],
   controllers: [RecommendationsController],
   providers: [
@@ -13,6 +13,11 @@ import {
     RecommendationResponseDto,
 } from './dto/response.dto';
 import { Recommendation, RecommendationDocument } from './schemas/recommendation.schema';
+import { User, UserDocument } from '../users/schemas/user.schema';
+import { FARM_PROFILE_FIELDS, FarmProfile, toFarmProfile } from '../users/farm-profile';
+import { MeteringService, QuotaReservation } from '../metering/metering.service';
+import { JwtPayload } from '../../common/interfaces/jwt-payload.interface';
+import { UsageMetric, UsageQuota } from '../../common/enums/usage-metric.enum';
 
 @Injectable()
 export class RecommendationsService {
@@ -22,33 +27,51 @@ export class RecommendationsService {
   constructor(
     @InjectModel(Recommendation.name)
     private recommendationModel: Model<RecommendationDocument>,
+    @InjectModel(User.name)
+    private userModel: Model<UserDocument>,
     @Inject('AI_SERVICE') private readonly aiService: any,
+    private readonly meteringService: MeteringService,
   ) {}
 
   /**
-   * Generate a new recommendation based on image classification result
+   * Generate a new recommendation based on image classification result,
+   * using the requesting user's farm profile as context, and count it
+   * against their cooperative's quota. Callers that reserved the quota
+   * unit themselves pass their reservation, which is released on failure.
    */
   async generateRecommendation(
     generateRecommendationDto: GenerateRecommendationDto,
+    currentUser?: JwtPayload,
+    quotaReservation?: QuotaReservation | null,
   ): Promise<RecommendationGeneratedResponseDto> {
     const startTime = Date.now();
-    
+    const userId = currentUser?.sub;
+    // Outside the try block, so that a used up quota is answered with 429
+    const reservation = quotaReservation !== undefined
+      ? quotaReservation
+      : await this.meteringService.reserve(currentUser, UsageQuota.RECOMMENDATIONS);
+
     try {
       this.logger.log(
         `Generating recommendation for classification: ${generateRecommendationDto.classification} ` +
         `(session: ${generateRecommendationDto.sessionId})`,
       );
 
+      const farmProfile = await this.getFarmProfile(userId);
+
       // Generate recommendation using AI service
       const content = await this.aiService.generateRecommendation({
         classification: generateRecommendationDto.classification,
         confidence: generateRecommendationDto.confidence,
         additionalContext: generateRecommendationDto.additionalContext,
+        farmProfile,
       });
 
       // Save to database
       const recommendation = new this.recommendationModel({
         sessionId: generateRecommendationDto.sessionId,
+        userId,
+        farmProfile,
         imageClassification: generateRecommendationDto.classification,
         classificationConfidence: generateRecommendationDto.confidence,
         content,
@@ -58,6 +81,8 @@ export class RecommendationsService {
 
       const savedRecommendation = await recommendation.save();
 
+      await this.meteringService.record(currentUser, UsageMetric.RECOMMENDATION);
+
       const processingTime = Date.now() - startTime;
 
       this.logger.log(
@@ -73,7 +98,9 @@ export class RecommendationsService {
       };
     } catch (error) {
       const processingTime = Date.now() - startTime;
-      
+
+      await this.meteringService.release(reservation);
+
       this.logger.error(
         `Failed to generate recommendation: ${error.message}`,
         error.stack,
@@ -87,6 +114,19 @@ export class RecommendationsService {
     }
   }
 
+  /**
+   * Farm profile of a user, for use as generation context
+   */
+  async getFarmProfile(userId?: string): Promise<FarmProfile | undefined> {
+    if (!userId) {
+      return undefined;
+    }
+
+    const user = await this.userModel.findById(userId).select(FARM_PROFILE_FIELDS.join(' ')).lean().exec();
+
+    return toFarmProfile(user);
+  }
+
   /**
    * Get recommendations by various filters
    */
@@ -1,5 +1,7 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { HydratedDocument } from 'mongoose';
+import { FarmProfile } from '../../users/farm-profile';
+import { tenancyPlugin } from '../../../common/tenancy/tenancy.plugin';
 
 export type RecommendationDocument = HydratedDocument<Recommendation>;
 
@@ -37,6 +39,22 @@ export class Recommendation {
   @Prop({ required: true })
   sessionId: string;
 
+  // Absent for recommendations generated before requests were tied to a user
+  @Prop()
+  userId?: string;
+
+  // Cooperative of the requester; absent for users without one and for older recommendations
+  @Prop({ index: true })
+  cooperativeId?: string;
+
+  // Set instead of cooperativeId for managers of a region or district
+  @Prop()
+  organisationId?: string;
+
+  // Snapshot of the requester's farm profile used as generation context
+  @Prop({ type: Object })
+  farmProfile?: FarmProfile;
+
   @Prop({ required: true })
   imageClassification: string;
 
@@ -67,7 +85,10 @@ export class Recommendation {
 
 export const RecommendationSchema = SchemaFactory.createForClass(Recommendation);
 
+RecommendationSchema.plugin(tenancyPlugin);
+
 // Index for faster queries
 RecommendationSchema.index({ sessionId: 1 });
+RecommendationSchema.index({ userId: 1, createdAt: -1 });
 RecommendationSchema.index({ imageClassification: 1 });
 RecommendationSchema.index({ createdAt: -1 });
\ No newline at end of file
@@ -0,0 +1,14 @@
+import { Logger } from '@nestjs/common';
+
+import { SmsMessage, SmsProvider } from './sms-provider.interface';
+
+/**
+ * Development provider that writes outgoing text messages to the application log
+ */
+export class LogSmsProvider implements SmsProvider {
+  private readonly logger = new Logger('Sms');
+
+  async send(message: SmsMessage): Promise<void> {
+    this.logger.log(`To: ${message.to}${message.from ? `\nFrom: ${message.from}` : ''}\n\n${message.text}`);
+  }
+}
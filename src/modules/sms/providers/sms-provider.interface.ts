@@ -0,0 +1,9 @@
+export interface SmsMessage {
+  from?: string;
+  to: string;
+  text: string;
+}
+
+export interface SmsProvider {
+  send(message: SmsMessage): Promise<void>;
+}
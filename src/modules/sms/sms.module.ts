@@ -0,0 +1,28 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+
+import { SmsService } from './sms.service';
+import { LogSmsProvider } from './providers/log-sms.provider';
+
+@Module({
+  imports: [ConfigModule],
+  providers: [
+    SmsService,
+    {
+      provide: 'SMS_PROVIDER',
+      useFactory: (configService: ConfigService) => {
+        const provider = configService.get<string>('sms.provider');
+
+        switch (provider) {
+          case 'log':
+            return new LogSmsProvider();
+          default:
+            throw new Error(`Unsupported SMS provider: ${provider}`);
+        }
+      },
+      inject: [ConfigService],
+    },
+  ],
+  exports: [SmsService],
+})
+export class SmsModule {}
@@ -0,0 +1,56 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+import { SmsProvider } from './providers/sms-provider.interface';
+
+@Injectable()
+export class SmsService {
+  private readonly logger = new Logger(SmsService.name);
+  private readonly senderId: string;
+
+  constructor(
+    @Inject('SMS_PROVIDER') private readonly provider: SmsProvider,
+    private readonly configService: ConfigService,
+  ) {
+    this.senderId = this.configService.get<string>('sms.senderId');
+  }
+
+  /**
+   * Send a text message through the configured provider
+   */
+  async send(to: string, text: string): Promise<void> {
+    await this.provider.send({ from: this.senderId, to, text });
+    this.logger.debug(`Sent SMS to ${to}`);
+  }
+
+  /**
+   * Send a one-time login code
+   */
+  async sendOneTimeCode(to: string, code: string, expiresIn: string): Promise<void> {
+    await this.send(to, `Your Angular Leaf code is ${code}. It expires in ${expiresIn}. Do not share it with anyone.`);
+  }
+
+  /**
+   * Send a cooperative invitation link
+   */
+  async sendInvitation(to: string, inviterName: string, link: string, expiresIn: string): Promise<void> {
+    await this.send(to, `${inviterName} invited you to join Angular Leaf: ${link} (expires in ${expiresIn})`);
+  }
+
+  /**
+   * Send the download link for a personal data export
+   */
+  async sendDataExportReady(to: string, link: string, expiresIn: string): Promise<void> {
+    await this.send(to, `Your Angular Leaf data export is ready: ${link} (expires in ${expiresIn})`);
+  }
+
+  /**
+   * Tell a user when their account is scheduled to be erased
+   */
+  async sendErasureScheduled(to: string, scheduledFor: Date): Promise<void> {
+    await this.send(
+      to,
+      `Your Angular Leaf account will be erased on ${scheduledFor.toISOString().slice(0, 10)}. Sign in to cancel.`,
+    );
+  }
+}
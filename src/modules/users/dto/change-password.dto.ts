@@ -1,4 +1,4 @@
-import { IsString, MinLength, Matches } from 'class-validator';
+import { IsString } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
 
 /**
@@ -13,17 +13,9 @@ export class ChangePasswordDto {
   currentPassword: string;
 
   @ApiProperty({
-    description: 'New password (minimum 8 characters, must contain uppercase, lowercase, number, and special character)',
+    description: 'New password. Must satisfy the password policy (by default at least 8 characters with uppercase, lowercase, number and special character, not a common password)',
     example: 'NewSecurePass123!',
-    minLength: 8,
   })
   @IsString()
-  @MinLength(8)
-  @Matches(
-    /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&])[A-Za-z\d@$!%*?&]/,
-    {
-      message: 'Password must contain at least one uppercase letter, one lowercase letter, one number, and one special character',
-    },
-  )
   newPassword: string;
 }
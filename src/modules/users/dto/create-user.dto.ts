@@ -1,4 +1,4 @@
-import { IsEmail, IsString, IsEnum, IsArray, IsOptional, IsBoolean, MinLength, MaxLength, Matches } from 'class-validator';
+import { IsEmail, IsString, IsEnum, IsArray, IsOptional, IsBoolean, MinLength, MaxLength } from 'class-validator';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { UserRole } from '../../../common/enums/user-role.enum';
 
@@ -23,18 +23,10 @@ export class CreateUserDto {
     email: string;
 
     @ApiProperty({
-        description: 'User password (minimum 8 characters, must contain uppercase, lowercase, number, and special character)',
+        description: 'User password. Must satisfy the password policy (by default at least 8 characters with uppercase, lowercase, number and special character, not a common password)',
         example: 'SecurePass123!',
-        minLength: 8,
     })
     @IsString()
-    @MinLength(8)
-    @Matches(
-        /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&])[A-Za-z\d@$!%*?&]/,
-        {
-            message: 'Password must contain at least one uppercase letter, one lowercase letter, one number, and one special character',
-        },
-    )
     password: string;
 
     @ApiPropertyOptional({
@@ -0,0 +1,9 @@
+import { OmitType } from '@nestjs/swagger';
+import { ListUsersQueryDto } from './list-users-query.dto';
+
+
+/**
+ * Query parameters for GET /users/export: the listing filters and sort,
+ * without pagination
+ */
+export class ExportUsersQueryDto extends OmitType(ListUsersQueryDto, ['cursor', 'limit'] as const) {}
@@ -0,0 +1,15 @@
+import { IsOptional, IsString, Matches } from 'class-validator';
+import { OmitType } from '@nestjs/swagger';
+import { CreateUserDto } from './create-user.dto';
+
+
+/**
+ * One CSV import row, validated with the CreateUserDto rules. Passwords are
+ * never imported; new users get a temporary password or an invitation.
+ */
+export class ImportUserRowDto extends OmitType(CreateUserDto, ['password'] as const) {
+    @IsOptional()
+    @IsString()
+    @Matches(/^\+[1-9]\d{7,14}$/, { message: 'Phone number must be in E.164 format (e.g. +250788123456)' })
+    phone?: string;
+}
@@ -0,0 +1,33 @@
+import { IsEnum, IsOptional, IsBoolean } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+
+export enum ImportOnboarding {
+    PASSWORD = 'password',
+    INVITATION = 'invitation',
+}
+
+
+/**
+ * Query parameters for POST /users/import
+ */
+export class ImportUsersQueryDto {
+    @ApiPropertyOptional({
+        description: 'Validate the file and report what would happen without changing anything',
+        default: false,
+    })
+    @IsOptional()
+    @Transform(({ obj, key }) => obj[key] === true || obj[key] === 'true')
+    @IsBoolean()
+    dryRun?: boolean;
+
+    @ApiPropertyOptional({
+        description: 'How new users get access: a generated temporary password returned in the result file ' +
+            '(changed at first login), or an invitation sent by email or SMS',
+        enum: ImportOnboarding,
+        default: ImportOnboarding.INVITATION,
+    })
+    @IsOptional()
+    @IsEnum(ImportOnboarding)
+    onboarding?: ImportOnboarding;
+}
@@ -0,0 +1,58 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export enum ImportRowStatus {
+    CREATED = 'created',
+    UPDATED = 'updated',
+    UNCHANGED = 'unchanged',
+    INVITED = 'invited',
+    FAILED = 'failed',
+}
+
+
+export class ImportRowResultDto {
+    @ApiProperty({
+        description: 'Line number in the file (the header is line 1)',
+        example: 2,
+    })
+    row: number;
+
+    @ApiProperty({
+        description: 'Email address from the row',
+        example: 'farmer@example.com',
+        required: false,
+    })
+    email?: string;
+
+    @ApiProperty({
+        description: 'Outcome, or the planned outcome for a dry run',
+        enum: ImportRowStatus,
+    })
+    status: ImportRowStatus;
+
+    @ApiProperty({
+        description: 'Validation or processing errors',
+        type: [String],
+    })
+    errors: string[];
+}
+
+
+export class ImportUsersResponseDto {
+    @ApiProperty({
+        description: 'Whether this was a dry run',
+        example: true,
+    })
+    dryRun: boolean;
+
+    @ApiProperty({
+        description: 'Number of rows per status',
+        example: { total: 120, created: 100, updated: 15, unchanged: 0, invited: 0, failed: 5 },
+    })
+    summary: Record<ImportRowStatus | 'total', number>;
+
+    @ApiProperty({
+        description: 'Per-row results',
+        type: [ImportRowResultDto],
+    })
+    rows: ImportRowResultDto[];
+}
@@ -1,4 +1,13 @@
 export * from './create-user.dto';
 export * from './update-user.dto';
+export * from './update-profile.dto';
 export * from './change-password.dto';
 export * from './user-response.dto';
+export * from './list-users-query.dto';
+export * from './paginated-users-response.dto';
+export * from './import-user-row.dto';
+export * from './import-users-query.dto';
+export * from './import-users-response.dto';
+export * from './export-users-query.dto';
+export * from './user-statistics-query.dto';
+export * from './user-statistics-response.dto';
@@ -0,0 +1,129 @@
+import { IsString, IsEnum, IsOptional, IsBoolean, IsDate, IsInt, Min, Max, MaxLength } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform, Type } from 'class-transformer';
+import { UserRole } from '../../../common/enums/user-role.enum';
+
+export enum UserSortField {
+    CREATED_AT = 'createdAt',
+    LAST_LOGIN_AT = 'lastLoginAt',
+    NAME = 'name',
+    EMAIL = 'email',
+}
+
+export enum SortOrder {
+    ASC = 'asc',
+    DESC = 'desc',
+}
+
+
+/**
+ * Query parameters for GET /users
+ */
+export class ListUsersQueryDto {
+    @ApiPropertyOptional({
+        description:
+            'Search name and email, case-insensitive: whole words anywhere (e.g. a surname) or the start of ' +
+            'the name or email (e.g. "Jea" or "jean.u"). Partial words in the middle are not matched.',
+        example: 'Uwimana',
+    })
+    @IsOptional()
+    @IsString()
+    @MaxLength(100)
+    search?: string;
+
+    @ApiPropertyOptional({
+        description: 'Filter by role',
+        enum: UserRole,
+    })
+    @IsOptional()
+    @IsEnum(UserRole)
+    role?: UserRole;
+
+    @ApiPropertyOptional({
+        description: 'Filter by active status',
+    })
+    @IsOptional()
+    // Implicit conversion would turn the string "false" into true
+    @Transform(({ obj, key }) => obj[key] === true || obj[key] === 'true')
+    @IsBoolean()
+    isActive?: boolean;
+
+    @ApiPropertyOptional({
+        description: 'Filter by cooperative ID',
+    })
+    @IsOptional()
+    @IsString()
+    cooperativeId?: string;
+
+    @ApiPropertyOptional({
+        description: 'Only users created at or after this time (ISO 8601)',
+        example: '2026-01-01T00:00:00Z',
+    })
+    @IsOptional()
+    @Type(() => Date)
+    @IsDate()
+    createdFrom?: Date;
+
+    @ApiPropertyOptional({
+        description: 'Only users created before this time (ISO 8601)',
+        example: '2026-02-01T00:00:00Z',
+    })
+    @IsOptional()
+    @Type(() => Date)
+    @IsDate()
+    createdTo?: Date;
+
+    @ApiPropertyOptional({
+        description: 'Only users whose last login was at or after this time (ISO 8601)',
+    })
+    @IsOptional()
+    @Type(() => Date)
+    @IsDate()
+    lastLoginFrom?: Date;
+
+    @ApiPropertyOptional({
+        description: 'Only users whose last login was before this time (ISO 8601)',
+    })
+    @IsOptional()
+    @Type(() => Date)
+    @IsDate()
+    lastLoginTo?: Date;
+
+    @ApiPropertyOptional({
+        description: 'Sort field',
+        enum: UserSortField,
+        default: UserSortField.CREATED_AT,
+    })
+    @IsOptional()
+    @IsEnum(UserSortField)
+    sortBy?: UserSortField;
+
+    @ApiPropertyOptional({
+        description: 'Sort direction',
+        enum: SortOrder,
+        default: SortOrder.DESC,
+    })
+    @IsOptional()
+    @IsEnum(SortOrder)
+    sortOrder?: SortOrder;
+
+    @ApiPropertyOptional({
+        description: 'Page size',
+        default: 20,
+        minimum: 1,
+        maximum: 100,
+    })
+    @IsOptional()
+    @Type(() => Number)
+    @IsInt()
+    @Min(1)
+    @Max(100)
+    limit?: number;
+
+    @ApiPropertyOptional({
+        description: 'nextCursor from the previous page. Only valid with the same filters and sort.',
+    })
+    @IsOptional()
+    @IsString()
+    cursor?: string;
+}
@@ -0,0 +1,24 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { UserResponseDto } from './user-response.dto';
+
+
+export class PaginatedUsersResponseDto {
+    @ApiProperty({
+        description: 'Users on this page',
+        type: [UserResponseDto],
+    })
+    items: UserResponseDto[];
+
+    @ApiProperty({
+        description: 'Cursor for the next page, or null on the last page',
+        example: 'eyJ2IjoiMjAyNi0wMS0xNVQxMDowMDowMC4wMDBaIiwiaWQiOiI1MDdmMWY3N2JjZjg2Y2Q3OTk0MzkwMTEifQ',
+        nullable: true,
+    })
+    nextCursor: string | null;
+
+    @ApiProperty({
+        description: 'Number of users matching the filters across all pages',
+        example: 1342,
+    })
+    total: number;
+}
@@ -0,0 +1,112 @@
+import {
+    IsString,
+    IsEnum,
+    IsArray,
+    IsOptional,
+    IsNumber,
+    IsTimeZone,
+    Matches,
+    Min,
+    Max,
+    MinLength,
+    MaxLength,
+    ArrayMaxSize,
+} from 'class-validator';
+import { Transform } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Language } from '../../../common/enums/language.enum';
+
+
+/**
+ * DTO for a user editing their own profile
+ *
+ * Roles, cooperative, status and email are managed by administrators;
+ * passwords go through PATCH /users/me/change-password
+ */
+export class UpdateProfileDto {
+    @ApiPropertyOptional({
+        description: 'Full name',
+        example: 'Jean Uwimana',
+        minLength: 2,
+        maxLength: 100,
+    })
+    @IsOptional()
+    @IsString()
+    @MinLength(2)
+    @MaxLength(100)
+    name?: string;
+
+    @ApiPropertyOptional({
+        description: 'Phone number in E.164 format. Changing it requires verifying the new number again.',
+        example: '+250788123456',
+    })
+    @IsOptional()
+    @IsString()
+    @Matches(/^\+[1-9]\d{7,14}$/, { message: 'Phone number must be in E.164 format (e.g. +250788123456)' })
+    phone?: string;
+
+    @ApiPropertyOptional({
+        description: 'Language for notifications and recommendations',
+        enum: Language,
+        example: Language.KINYARWANDA,
+    })
+    @IsOptional()
+    @IsEnum(Language)
+    preferredLanguage?: Language;
+
+    @ApiPropertyOptional({
+        description: 'Region or province',
+        example: 'Southern Province',
+        maxLength: 100,
+    })
+    @IsOptional()
+    @IsString()
+    @MaxLength(100)
+    region?: string;
+
+    @ApiPropertyOptional({
+        description: 'District',
+        example: 'Huye',
+        maxLength: 100,
+    })
+    @IsOptional()
+    @IsString()
+    @MaxLength(100)
+    district?: string;
+
+    @ApiPropertyOptional({
+        description: 'Cultivated area in hectares',
+        example: 1.5,
+        minimum: 0,
+        maximum: 100000,
+    })
+    @IsOptional()
+    @IsNumber()
+    @Min(0)
+    @Max(100000)
+    farmSizeHectares?: number;
+
+    @ApiPropertyOptional({
+        description: 'Main crops grown, most important first',
+        example: ['beans', 'maize'],
+        isArray: true,
+        maxItems: 10,
+    })
+    @IsOptional()
+    @IsArray()
+    @ArrayMaxSize(10)
+    @IsString({ each: true })
+    @MaxLength(50, { each: true })
+    @Transform(({ value }) => Array.isArray(value)
+        ? [...new Set(value.map((crop: unknown) => typeof crop === 'string' ? crop.trim().toLowerCase() : crop))]
+        : value)
+    primaryCrops?: string[];
+
+    @ApiPropertyOptional({
+        description: 'IANA time zone',
+        example: 'Africa/Kigali',
+    })
+    @IsOptional()
+    @IsTimeZone()
+    timezone?: string;
+}
@@ -1,5 +1,6 @@
 import { ApiProperty } from '@nestjs/swagger';
 import { UserRole } from '../../../common/enums/user-role.enum';
+import { Language } from '../../../common/enums/language.enum';
 
 
 export class UserResponseDto {
@@ -18,8 +19,16 @@ export class UserResponseDto {
     @ApiProperty({
         description: 'User email address',
         example: 'john.doe@example.com',
+        required: false,
+    })
+    email?: string;
+
+    @ApiProperty({
+        description: 'User phone number (E.164)',
+        example: '+250788123456',
+        required: false,
     })
-    email: string;
+    phone?: string;
 
     @ApiProperty({
         description: 'User roles',
@@ -35,6 +44,24 @@ export class UserResponseDto {
     })
     isActive: boolean;
 
+    @ApiProperty({
+        description: 'Whether the user has verified their email address',
+        example: true,
+    })
+    emailVerified: boolean;
+
+    @ApiProperty({
+        description: 'Whether the user has verified their phone number',
+        example: false,
+    })
+    phoneVerified: boolean;
+
+    @ApiProperty({
+        description: 'Whether two-factor authentication is enabled',
+        example: false,
+    })
+    mfaEnabled: boolean;
+
     @ApiProperty({
         description: 'Cooperative ID',
         example: '507f1f77bcf86cd799439011',
@@ -42,6 +69,49 @@ export class UserResponseDto {
     })
     cooperativeId?: string;
 
+    @ApiProperty({
+        description: 'Preferred language',
+        enum: Language,
+        example: Language.ENGLISH,
+    })
+    preferredLanguage: Language;
+
+    @ApiProperty({
+        description: 'Region or province',
+        example: 'Southern Province',
+        required: false,
+    })
+    region?: string;
+
+    @ApiProperty({
+        description: 'District',
+        example: 'Huye',
+        required: false,
+    })
+    district?: string;
+
+    @ApiProperty({
+        description: 'Cultivated area in hectares',
+        example: 1.5,
+        required: false,
+    })
+    farmSizeHectares?: number;
+
+    @ApiProperty({
+        description: 'Main crops grown',
+        example: ['beans', 'maize'],
+        isArray: true,
+        required: false,
+    })
+    primaryCrops?: string[];
+
+    @ApiProperty({
+        description: 'IANA time zone',
+        example: 'Africa/Kigali',
+        required: false,
+    })
+    timezone?: string;
+
     @ApiProperty({
         description: 'Last login timestamp',
         example: '2026-02-24T10:30:00.000Z',
@@ -0,0 +1,78 @@
+import { IsString, IsEnum, IsOptional, IsDate, IsInt, Min, Max } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { UserRole } from '../../../common/enums/user-role.enum';
+
+export enum StatisticsInterval {
+    DAY = 'day',
+    WEEK = 'week',
+}
+
+
+/**
+ * Query parameters for GET /users/statistics
+ */
+export class UserStatisticsQueryDto {
+    @ApiPropertyOptional({
+        description: 'Start of the range (ISO 8601). Defaults to 30 days before the end.',
+        example: '2026-01-01T00:00:00Z',
+    })
+    @IsOptional()
+    @Type(() => Date)
+    @IsDate()
+    from?: Date;
+
+    @ApiPropertyOptional({
+        description: 'End of the range, exclusive (ISO 8601). Defaults to now. At most 366 days after the start.',
+        example: '2026-02-01T00:00:00Z',
+    })
+    @IsOptional()
+    @Type(() => Date)
+    @IsDate()
+    to?: Date;
+
+    @ApiPropertyOptional({
+        description: 'Bucket size of the signup series. Weeks start on Monday; all buckets are in UTC.',
+        enum: StatisticsInterval,
+        default: StatisticsInterval.DAY,
+    })
+    @IsOptional()
+    @IsEnum(StatisticsInterval)
+    interval?: StatisticsInterval;
+
+    @ApiPropertyOptional({
+        description: 'Only count users with this role',
+        enum: UserRole,
+    })
+    @IsOptional()
+    @IsEnum(UserRole)
+    role?: UserRole;
+
+    @ApiPropertyOptional({
+        description: 'Only count users of this cooperative. Managers are limited to the cooperatives they oversee.',
+    })
+    @IsOptional()
+    @IsString()
+    cooperativeId?: string;
+
+    @ApiPropertyOptional({
+        description: 'Only count users of the cooperatives below this region or district',
+        example: '507f1f77bcf86cd799439011',
+    })
+    @IsOptional()
+    @IsString()
+    organisationId?: string;
+
+    @ApiPropertyOptional({
+        description: 'Days without a login after which an active account counts as churned',
+        default: 30,
+        minimum: 1,
+        maximum: 365,
+    })
+    @IsOptional()
+    @Type(() => Number)
+    @IsInt()
+    @Min(1)
+    @Max(365)
+    inactiveDays?: number;
+}
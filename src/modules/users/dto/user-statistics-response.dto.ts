@@ -0,0 +1,116 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { StatisticsInterval } from './user-statistics-query.dto';
+
+
+export class UserStatisticsPointDto {
+    @ApiProperty({
+        description: 'Start of the period (UTC)',
+        example: '2026-01-05T00:00:00.000Z',
+    })
+    period: Date;
+
+    @ApiProperty({
+        description: 'Number of users in the period',
+        example: 42,
+    })
+    total: number;
+
+    @ApiProperty({
+        description: 'Users per role. Users with several roles count towards each of them.',
+        example: { farmer: 40, manager: 2 },
+    })
+    byRole: Record<string, number>;
+
+    @ApiProperty({
+        description: 'Users per cooperative ID; users without a cooperative are counted as "unassigned"',
+        example: { '507f1f77bcf86cd799439011': 30, unassigned: 12 },
+    })
+    byCooperative: Record<string, number>;
+}
+
+
+export class UserChurnDto {
+    @ApiProperty({
+        description: 'Days without a login after which an account counts as churned',
+        example: 30,
+    })
+    inactiveDays: number;
+
+    @ApiProperty({
+        description: 'Active accounts old enough to have churned by the end of the range',
+        example: 1200,
+    })
+    eligible: number;
+
+    @ApiProperty({
+        description: 'Eligible accounts with no login in the last inactiveDays before the end of the range',
+        example: 180,
+    })
+    churned: number;
+
+    @ApiProperty({
+        description: 'churned / eligible, or 0 when nobody is eligible',
+        example: 0.15,
+    })
+    rate: number;
+
+    @ApiProperty({
+        description: 'Churned users per role',
+        example: { farmer: 175, manager: 5 },
+    })
+    byRole: Record<string, number>;
+
+    @ApiProperty({
+        description: 'Churned users per cooperative ID',
+        example: { '507f1f77bcf86cd799439011': 120, unassigned: 60 },
+    })
+    byCooperative: Record<string, number>;
+}
+
+
+export class UserStatisticsResponseDto {
+    @ApiProperty({ description: 'Users matching the role and cooperative filters', example: 1342 })
+    total: number;
+
+    @ApiProperty({ description: 'Active accounts among them', example: 1300 })
+    active: number;
+
+    @ApiProperty({ description: 'Deactivated accounts among them', example: 42 })
+    inactive: number;
+
+    @ApiProperty({ description: 'Current users per role', example: { farmer: 1300, manager: 40, admin: 2 } })
+    byRole: Record<string, number>;
+
+    @ApiProperty({ description: 'Start of the range', example: '2026-01-01T00:00:00.000Z' })
+    from: Date;
+
+    @ApiProperty({ description: 'End of the range, exclusive', example: '2026-02-01T00:00:00.000Z' })
+    to: Date;
+
+    @ApiProperty({ description: 'Bucket size of the signup series', enum: StatisticsInterval })
+    interval: StatisticsInterval;
+
+    @ApiProperty({
+        description: 'Accounts created per period, including empty periods',
+        type: [UserStatisticsPointDto],
+    })
+    signups: UserStatisticsPointDto[];
+
+    @ApiProperty({
+        description: 'Distinct users who signed in per day',
+        type: [UserStatisticsPointDto],
+    })
+    dailyActiveUsers: UserStatisticsPointDto[];
+
+    @ApiProperty({
+        description: 'Distinct users who signed in per calendar month, counting only logins inside the range',
+        type: [UserStatisticsPointDto],
+    })
+    monthlyActiveUsers: UserStatisticsPointDto[];
+
+    @ApiProperty({
+        description: 'Accounts that stopped signing in, as of the end of the range',
+        type: UserChurnDto,
+    })
+    churn: UserChurnDto;
+}
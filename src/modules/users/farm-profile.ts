@@ -0,0 +1,74 @@
+import { User } from './schemas/user.schema';
+import { Language } from '../../common/enums/language.enum';
+
+
+/**
+ * The parts of a farmer's profile that classification and recommendation
+ * requests use as context
+ */
+export interface FarmProfile {
+    preferredLanguage?: Language;
+    region?: string;
+    district?: string;
+    farmSizeHectares?: number;
+    primaryCrops?: string[];
+    timezone?: string;
+}
+
+export const FARM_PROFILE_FIELDS = [
+    'preferredLanguage',
+    'region',
+    'district',
+    'farmSizeHectares',
+    'primaryCrops',
+    'timezone',
+] as const;
+
+const LANGUAGE_NAMES: Record<Language, string> = {
+    [Language.ENGLISH]: 'English',
+    [Language.KINYARWANDA]: 'Kinyarwanda',
+    [Language.FRENCH]: 'French',
+    [Language.SWAHILI]: 'Swahili',
+};
+
+
+/**
+ * Farm profile of a user, or undefined when none of the fields are set
+ */
+export function toFarmProfile(user: Partial<Pick<User, typeof FARM_PROFILE_FIELDS[number]>> | null): FarmProfile | undefined {
+    if (!user) {
+        return undefined;
+    }
+
+    const profile: FarmProfile = {};
+
+    for (const field of FARM_PROFILE_FIELDS) {
+        const value = user[field];
+
+        if (value !== undefined && value !== null && !(Array.isArray(value) && !value.length)) {
+            (profile as Record<string, unknown>)[field] = value;
+        }
+    }
+
+    return Object.keys(profile).length ? profile : undefined;
+}
+
+
+export function languageName(language: Language): string {
+    return LANGUAGE_NAMES[language] ?? language;
+}
+
+
+/**
+ * One line per known fact, for prompts and other human-readable context
+ */
+export function describeFarmProfile(profile: FarmProfile): string[] {
+    const location = [profile.district, profile.region].filter(Boolean).join(', ');
+
+    return [
+        location && `Location: ${location}`,
+        profile.farmSizeHectares !== undefined && `Farm size: ${profile.farmSizeHectares} ha`,
+        profile.primaryCrops?.length && `Primary crops: ${profile.primaryCrops.join(', ')}`,
+        profile.timezone && `Local time zone: ${profile.timezone}`,
+    ].filter(Boolean) as string[];
+}
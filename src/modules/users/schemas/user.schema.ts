@@ -1,6 +1,8 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document } from 'mongoose';
 import { UserRole } from '../../../common/enums/user-role.enum';
+import { Language } from '../../../common/enums/language.enum';
+import { tenancyPlugin } from '../../../common/tenancy/tenancy.plugin';
 
 export type UserDocument = User & Document;
 
@@ -14,11 +16,17 @@ export class User {
     @Prop({ required: true, trim: true })
     name: string;
 
-    @Prop({ required: true, unique: true, lowercase: true, trim: true })
-    email: string;
+    // Optional for farmers who sign in with their phone number instead
+    @Prop({ required: false, unique: true, sparse: true, lowercase: true, trim: true })
+    email?: string;
 
-    @Prop({ required: true, select: false })
-    password: string;
+    // E.164, e.g. +250788123456
+    @Prop({ required: false, unique: true, sparse: true, trim: true, match: /^\+[1-9]\d{7,14}$/ })
+    phone?: string;
+
+    // Absent for accounts that only use one-time codes
+    @Prop({ required: false, select: false })
+    password?: string;
 
     @Prop({
         type: [String],
@@ -30,11 +38,90 @@ export class User {
     @Prop({ default: true })
     isActive: boolean;
 
+    @Prop({ default: false })
+    emailVerified: boolean;
+
+    @Prop({ required: false })
+    emailVerifiedAt?: Date;
+
+    @Prop({ required: false, select: false })
+    emailVerificationTokenId?: string;
+
+    @Prop({ default: false })
+    phoneVerified: boolean;
+
+    @Prop({ required: false })
+    phoneVerifiedAt?: Date;
+
     @Prop({ required: false, index: true })
     cooperativeId?: string;
 
+    // Region or district office of a manager who oversees every cooperative below it
+    @Prop({ required: false, index: true })
+    organisationId?: string;
+
+    // Farm profile, maintained by the farmer and passed to classification and recommendations
+    @Prop({ type: String, enum: Object.values(Language), default: Language.ENGLISH })
+    preferredLanguage: Language;
+
+    @Prop({ required: false, trim: true })
+    region?: string;
+
+    @Prop({ required: false, trim: true })
+    district?: string;
+
+    @Prop({ required: false, min: 0 })
+    farmSizeHectares?: number;
+
+    @Prop({ type: [String], default: undefined })
+    primaryCrops?: string[];
+
+    // IANA name, e.g. Africa/Kigali
+    @Prop({ required: false })
+    timezone?: string;
+
+    // Embedded in access tokens; incrementing it invalidates every issued access token
+    @Prop({ default: 0 })
+    tokenVersion: number;
+
     @Prop({ required: false, select: false })
-    refreshToken?: string;
+    passwordResetTokenHash?: string;
+
+    @Prop({ required: false, select: false })
+    passwordResetExpiresAt?: Date;
+
+    @Prop({ required: false })
+    passwordChangedAt?: Date;
+
+    // Set for administrator-issued temporary passwords; forces a change at next login
+    @Prop({ default: false })
+    mustChangePassword: boolean;
+
+    // Hashes of previous passwords, newest first, for the reuse check
+    @Prop({ type: [String], select: false, default: undefined })
+    passwordHistory?: string[];
+
+    @Prop({ default: false })
+    mfaEnabled: boolean;
+
+    @Prop({ required: false, select: false })
+    mfaSecret?: string;
+
+    @Prop({ required: false, select: false })
+    mfaPendingSecret?: string;
+
+    @Prop({ type: [String], select: false, default: undefined })
+    mfaRecoveryCodes?: string[];
+
+    @Prop({ required: false, select: false })
+    mfaLastUsedStep?: number;
+
+    // Identity provider account linked through single sign-on
+    @Prop({ required: false })
+    oidcIssuer?: string;
+
+    @Prop({ required: false })
+    oidcSubject?: string;
 
     @Prop({ required: false })
     lastLoginAt?: Date;
@@ -46,14 +133,35 @@ export class User {
 
 export const UserSchema = SchemaFactory.createForClass(User);
 
-// Indexes (email is unique by default, cooperativeId has index: true in @Prop)
+UserSchema.plugin(tenancyPlugin, { ownerField: '_id' });
+
+// Indexes (email and phone are unique by default, cooperativeId has index: true in @Prop)
 UserSchema.index({ roles: 1 });
+// Listing: text search plus one index per sort field, with _id as the cursor tie-breaker
+UserSchema.index({ name: 'text', email: 'text' }, { weights: { name: 2, email: 1 }, name: 'user_search' });
+UserSchema.index({ createdAt: -1, _id: -1 });
+UserSchema.index({ lastLoginAt: -1, _id: -1 });
+UserSchema.index({ name: 1, _id: 1 });
+UserSchema.index({ email: 1, _id: 1 });
+UserSchema.index({ cooperativeId: 1, createdAt: -1, _id: -1 });
+UserSchema.index({ passwordResetTokenHash: 1 }, { sparse: true });
+UserSchema.index(
+    { oidcIssuer: 1, oidcSubject: 1 },
+    { unique: true, partialFilterExpression: { oidcSubject: { $exists: true } } },
+);
 
 UserSchema.methods = {
     toJSON() {
         const obj = this.toObject();
         delete obj.password;
-        delete obj.refreshToken;
+        delete obj.passwordHistory;
+        delete obj.emailVerificationTokenId;
+        delete obj.passwordResetTokenHash;
+        delete obj.passwordResetExpiresAt;
+        delete obj.mfaSecret;
+        delete obj.mfaPendingSecret;
+        delete obj.mfaRecoveryCodes;
+        delete obj.mfaLastUsedStep;
         delete obj.__v;
         return obj;
     },
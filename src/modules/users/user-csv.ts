@@ -0,0 +1,51 @@
+import { UserDocument } from './schemas/user.schema';
+import { UserRole } from '../../common/enums/user-role.enum';
+
+/**
+ * Columns shared by the user CSV import and export, so an exported file can
+ * be edited and imported again. Roles are separated by semicolons.
+ */
+export const USER_CSV_COLUMNS = ['name', 'email', 'phone', 'roles', 'cooperativeId', 'isActive'] as const;
+
+export const ROLE_SEPARATOR = ';';
+
+
+export function toUserCsvCells(user: Pick<UserDocument, 'name' | 'email' | 'phone' | 'roles' | 'cooperativeId' | 'isActive'>): unknown[] {
+    return [
+        user.name,
+        user.email,
+        user.phone,
+        (user.roles ?? []).join(ROLE_SEPARATOR),
+        user.cooperativeId,
+        user.isActive,
+    ];
+}
+
+
+/**
+ * Turn a CSV record into input for ImportUserRowDto. Empty cells are left
+ * out so that they keep the existing value on update.
+ */
+export function fromUserCsvRecord(record: Record<string, string>): Record<string, unknown> {
+    const input: Record<string, unknown> = {};
+
+    for (const column of ['name', 'email', 'phone', 'cooperativeId'] as const) {
+        if (record[column]) {
+            input[column] = column === 'email' ? record[column].toLowerCase() : record[column];
+        }
+    }
+
+    if (record.roles) {
+        input.roles = record.roles
+            .split(ROLE_SEPARATOR)
+            .map((role) => role.trim().toLowerCase())
+            .filter(Boolean) as UserRole[];
+    }
+
+    if (record.isActive) {
+        const value = record.isActive.toLowerCase();
+        input.isActive = ['true', 'yes', '1'].includes(value) ? true : ['false', 'no', '0'].includes(value) ? false : record.isActive;
+    }
+
+    return input;
+}
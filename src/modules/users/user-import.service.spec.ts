@@ -0,0 +1,113 @@
+import mongoose, { Types } from 'mongoose';
+import { UserImportService } from './user-import.service';
+import { User, UserSchema } from './schemas/user.schema';
+import { ImportOnboarding } from './dto/import-users-query.dto';
+import { ImportRowStatus } from './dto/import-users-response.dto';
+import { UserRole } from '../../common/enums/user-role.enum';
+
+describe('UserImportService', () => {
+  // Never connected: only used to build stored documents with change tracking
+  const UserModel = mongoose.createConnection().model(User.name, UserSchema);
+
+  const coopA = new Types.ObjectId().toString();
+  const coopB = new Types.ObjectId().toString();
+  const admin = { sub: 'admin-1', roles: [UserRole.ADMIN] };
+  const manager = { sub: 'manager-1', roles: [UserRole.MANAGER], cooperativeId: coopA };
+
+  let existingUsers: any[];
+  let invitationsService: { create: jest.Mock };
+  let auditService: { record: jest.Mock };
+  let service: UserImportService;
+
+  beforeEach(() => {
+    existingUsers = [
+      UserModel.hydrate({ name: 'Jane Uwase', email: 'jane@example.com', roles: [UserRole.FARMER], cooperativeId: coopA }),
+      UserModel.hydrate({ name: 'Eric Mugabo', email: 'eric@example.com', roles: [UserRole.FARMER], cooperativeId: coopB }),
+    ];
+    for (const user of existingUsers) {
+      user.save = jest.fn(async () => user);
+    }
+
+    invitationsService = { create: jest.fn(async () => ({ link: 'http://app/invitations/accept?token=t' })) };
+    auditService = { record: jest.fn() };
+
+    service = new UserImportService(
+      { find: jest.fn(async () => existingUsers) } as any,
+      { setTemporaryPassword: jest.fn() } as any,
+      invitationsService as any,
+      auditService as any,
+      { findAssignableIds: jest.fn(async (ids: string[]) => new Set(ids.filter((id) => [coopA, coopB].includes(id)))) } as any,
+    );
+  });
+
+  const csv = (...rows: string[]) => Buffer.from(['name,email,phone,roles,cooperativeId,isActive', ...rows].join('\n'));
+
+  it('should update users matched by email and invite the others', async () => {
+    const { summary, rows } = await service.importUsers(
+      admin,
+      csv(`Jane Uwase,JANE@example.com,,farmer;manager,${coopA},`, `Alice Keza,alice@example.com,,,${coopB},`),
+    );
+
+    expect(rows.map((row) => row.status)).toEqual([ImportRowStatus.UPDATED, ImportRowStatus.INVITED]);
+    expect(summary).toEqual(expect.objectContaining({ total: 2, updated: 1, invited: 1, failed: 0 }));
+    expect(existingUsers[0].roles).toEqual([UserRole.FARMER, UserRole.MANAGER]);
+    expect(existingUsers[0].save).toHaveBeenCalled();
+    expect(invitationsService.create).toHaveBeenCalledWith(admin, expect.objectContaining({ email: 'alice@example.com' }));
+  });
+
+  it('should report unchanged rows without saving them', async () => {
+    const { rows } = await service.importUsers(admin, csv(`Jane Uwase,jane@example.com,,farmer,${coopA},`));
+
+    expect(rows[0].status).toBe(ImportRowStatus.UNCHANGED);
+    expect(existingUsers[0].save).not.toHaveBeenCalled();
+  });
+
+  it('should plan every row without writing on a dry run', async () => {
+    const { dryRun, rows } = await service.importUsers(
+      admin,
+      csv(`Jane Renamed,jane@example.com,,,,`, `Alice Keza,alice@example.com,,,${coopA},`),
+      { dryRun: true, onboarding: ImportOnboarding.PASSWORD },
+    );
+
+    expect(dryRun).toBe(true);
+    expect(rows.map((row) => row.status)).toEqual([ImportRowStatus.UPDATED, ImportRowStatus.CREATED]);
+    expect(existingUsers[0].save).not.toHaveBeenCalled();
+    expect(invitationsService.create).not.toHaveBeenCalled();
+    expect(auditService.record).not.toHaveBeenCalled();
+  });
+
+  it('should fail repeated emails after the first occurrence', async () => {
+    const { rows } = await service.importUsers(
+      admin,
+      csv(`Alice Keza,alice@example.com,,,${coopA},`, `Alice Twin,Alice@Example.com,,,${coopA},`),
+    );
+
+    expect(rows.map((row) => row.status)).toEqual([ImportRowStatus.INVITED, ImportRowStatus.FAILED]);
+    expect(rows[1].errors).toContain('Email appears more than once in the file');
+    expect(invitationsService.create).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep managers within their own cooperative', async () => {
+    const { rows } = await service.importUsers(
+      manager,
+      csv(
+        `Alice Keza,alice@example.com,,,,`,
+        `Bob Habimana,bob@example.com,,,${coopB},`,
+        `Eric Mugabo,eric@example.com,,,,`,
+        `Claire Ingabire,claire@example.com,,admin,,`,
+      ),
+    );
+
+    expect(rows.map((row) => row.status)).toEqual([
+      ImportRowStatus.INVITED,
+      ImportRowStatus.FAILED,
+      ImportRowStatus.FAILED,
+      ImportRowStatus.FAILED,
+    ]);
+    expect(invitationsService.create).toHaveBeenCalledWith(manager, expect.objectContaining({ cooperativeId: coopA }));
+    expect(rows[1].errors).toContain('Managers can only import users into their own cooperative');
+    expect(rows[2].errors).toContain('User belongs to another cooperative');
+    expect(rows[3].errors).toContain('Managers cannot grant the admin role');
+    expect(existingUsers[1].save).not.toHaveBeenCalled();
+  });
+});
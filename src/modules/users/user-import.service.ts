@@ -0,0 +1,335 @@
+import {
+    Injectable,
+    BadRequestException,
+    HttpException,
+    Logger,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { plainToInstance } from 'class-transformer';
+import { validate, ValidationError } from 'class-validator';
+import { User, UserDocument } from './schemas/user.schema';
+import { ImportUserRowDto } from './dto/import-user-row.dto';
+import { ImportOnboarding } from './dto/import-users-query.dto';
+import { ImportRowResultDto, ImportRowStatus, ImportUsersResponseDto } from './dto/import-users-response.dto';
+import { USER_CSV_COLUMNS, fromUserCsvRecord, toUserCsvCells } from './user-csv';
+import { PasswordPolicyService } from '../password-policy/password-policy.service';
+import { InvitationsService } from '../invitations/invitations.service';
+import { AuditService } from '../audit/audit.service';
+import { CooperativesService } from '../cooperatives/cooperatives.service';
+import { resolveCooperativeScope } from '../cooperatives/cooperative-scope';
+import { parseCsvRecords, toCsvLine } from '../../common/utils/csv.util';
+import { JwtPayload } from '../../common/interfaces/jwt-payload.interface';
+import { withoutTenantScope } from '../../common/tenancy/tenant-context';
+import { UserRole } from '../../common/enums/user-role.enum';
+
+
+const MAX_IMPORT_ROWS = 5000;
+const REQUIRED_COLUMNS = ['name', 'email'];
+
+interface PlannedRow {
+    result: ImportRowResultDto;
+    input?: ImportUserRowDto;
+    existing?: UserDocument;
+    temporaryPassword?: string;
+    invitationLink?: string;
+}
+
+export interface UserImportOutcome extends ImportUsersResponseDto {
+    // CSV with one line per row, including temporary passwords and invitation links
+    resultFile: string;
+}
+
+
+/**
+ * Bulk onboarding from spreadsheets. Rows are matched to existing users by
+ * email: matches are updated, anything else is created with a temporary
+ * password or invited. Managers are limited to their own cooperative.
+ */
+@Injectable()
+export class UserImportService {
+    private readonly logger = new Logger(UserImportService.name);
+
+    constructor(
+        @InjectModel(User.name) private userModel: Model<UserDocument>,
+        private passwordPolicyService: PasswordPolicyService,
+        private invitationsService: InvitationsService,
+        private auditService: AuditService,
+        private cooperativesService: CooperativesService,
+    ) { }
+
+
+    async importUsers(
+        currentUser: JwtPayload,
+        file: Buffer,
+        options: { dryRun?: boolean; onboarding?: ImportOnboarding } = {},
+    ): Promise<UserImportOutcome> {
+        const { dryRun = false, onboarding = ImportOnboarding.INVITATION } = options;
+
+        // Refuses managers without any cooperative before the file is read
+        resolveCooperativeScope(currentUser);
+
+        const records = this.parseFile(file);
+        const planned = await this.planRows(currentUser, records, onboarding);
+
+        if (!dryRun) {
+            for (const row of planned) {
+                if (row.result.status !== ImportRowStatus.FAILED) {
+                    await this.applyRow(currentUser, row, onboarding);
+                }
+            }
+        }
+
+        const rows = planned.map((row) => row.result);
+        const summary = this.summarize(rows);
+
+        if (!dryRun) {
+            await this.auditService.record({
+                action: 'users.imported',
+                actorId: currentUser.sub,
+                details: { onboarding, ...summary },
+            });
+
+            this.logger.log(`User import by ${currentUser.sub}: ${JSON.stringify(summary)}`);
+        }
+
+        return { dryRun, summary, rows, resultFile: this.buildResultFile(planned) };
+    }
+
+
+    private parseFile(file: Buffer): Record<string, string>[] {
+        const records = parseCsvRecords(file.toString('utf8'));
+
+        if (!records.length) {
+            throw new BadRequestException('The file has no data rows');
+        }
+
+        if (records.length > MAX_IMPORT_ROWS) {
+            throw new BadRequestException(`The file has ${records.length} rows; the maximum is ${MAX_IMPORT_ROWS}`);
+        }
+
+        const missingColumns = REQUIRED_COLUMNS.filter((column) => !(column in records[0]));
+
+        if (missingColumns.length) {
+            throw new BadRequestException(
+                `Missing required columns: ${missingColumns.join(', ')}. Expected columns: ${USER_CSV_COLUMNS.join(', ')}`,
+            );
+        }
+
+        return records;
+    }
+
+
+    /**
+     * Validate every row and decide what would happen to it, without writing
+     */
+    private async planRows(
+        currentUser: JwtPayload,
+        records: Record<string, string>[],
+        onboarding: ImportOnboarding,
+    ): Promise<PlannedRow[]> {
+        const isAdmin = currentUser.roles.includes(UserRole.ADMIN);
+        const scope = resolveCooperativeScope(currentUser);
+        const emails = records.map((record) => record.email?.toLowerCase()).filter(Boolean);
+        const phones = records.map((record) => record.phone).filter(Boolean);
+
+        // Including other cooperatives, so that their users are reported instead of duplicated
+        const existingUsers = await withoutTenantScope(async () => await this.userModel.find({
+            $or: [{ email: { $in: emails } }, { phone: { $in: phones } }],
+        }));
+        const assignableCooperatives = await this.cooperativesService.findAssignableIds([
+            ...records.map((record) => record.cooperativeId).filter(Boolean),
+            ...(scope ?? []),
+        ]);
+
+        const seenEmails = new Set<string>();
+        const planned: PlannedRow[] = [];
+
+        for (const [index, record] of records.entries()) {
+            const input = plainToInstance(ImportUserRowDto, fromUserCsvRecord(record));
+            const errors = this.flattenErrors(await validate(input, { whitelist: true }));
+            const existing = existingUsers.find((user) => input.email && user.email === input.email);
+
+            if (input.email) {
+                if (seenEmails.has(input.email)) {
+                    errors.push('Email appears more than once in the file');
+                }
+                seenEmails.add(input.email);
+            }
+
+            if (input.phone && existingUsers.some((user) => user.phone === input.phone && user !== existing)) {
+                errors.push('Phone number already registered to another user');
+            }
+
+            if (scope) {
+                if (input.cooperativeId && !scope.includes(input.cooperativeId)) {
+                    errors.push('Managers can only import users into their own cooperative');
+                }
+
+                if (input.roles?.includes(UserRole.ADMIN)) {
+                    errors.push('Managers cannot grant the admin role');
+                }
+
+                if (existing && !scope.includes(existing.cooperativeId)) {
+                    errors.push('User belongs to another cooperative');
+                }
+
+                input.cooperativeId ??= existing?.cooperativeId ?? (scope.length === 1 ? scope[0] : undefined);
+
+                if (!input.cooperativeId) {
+                    errors.push('Choose one of the cooperatives you manage');
+                }
+            }
+
+            if (
+                input.cooperativeId &&
+                input.cooperativeId !== existing?.cooperativeId &&
+                !assignableCooperatives.has(input.cooperativeId)
+            ) {
+                errors.push('Cooperative does not exist or is inactive');
+            }
+
+            if (existing?.roles.includes(UserRole.ADMIN) && !isAdmin) {
+                errors.push('Managers cannot modify administrators');
+            }
+
+            if (!existing && onboarding === ImportOnboarding.INVITATION) {
+                if ((input.roles?.length ?? 0) > 1) {
+                    errors.push('Invitations grant a single role');
+                }
+
+                if (!input.cooperativeId) {
+                    errors.push('A cooperative is required for the invitation');
+                }
+            }
+
+            planned.push({
+                input,
+                existing,
+                result: {
+                    row: index + 2,
+                    email: input.email ?? record.email,
+                    status: errors.length ? ImportRowStatus.FAILED : this.plannedStatus(input, existing, onboarding),
+                    errors,
+                },
+            });
+        }
+
+        return planned;
+    }
+
+
+    private plannedStatus(input: ImportUserRowDto, existing: UserDocument | undefined, onboarding: ImportOnboarding): ImportRowStatus {
+        if (!existing) {
+            return onboarding === ImportOnboarding.INVITATION ? ImportRowStatus.INVITED : ImportRowStatus.CREATED;
+        }
+
+        return this.applyUpdate(existing, input) ? ImportRowStatus.UPDATED : ImportRowStatus.UNCHANGED;
+    }
+
+
+    private async applyRow(currentUser: JwtPayload, row: PlannedRow, onboarding: ImportOnboarding): Promise<void> {
+        const { input, existing } = row;
+
+        try {
+            if (existing) {
+                if (existing.isModified()) {
+                    await existing.save();
+                }
+                return;
+            }
+
+            if (onboarding === ImportOnboarding.INVITATION) {
+                const invitation = await this.invitationsService.create(currentUser, {
+                    email: input.email,
+                    phone: input.phone,
+                    role: input.roles?.[0] ?? UserRole.FARMER,
+                    cooperativeId: input.cooperativeId,
+                });
+                row.invitationLink = invitation.link;
+                return;
+            }
+
+            const user = new this.userModel({
+                name: input.name,
+                email: input.email,
+                phone: input.phone,
+                roles: input.roles?.length ? input.roles : [UserRole.FARMER],
+                cooperativeId: input.cooperativeId,
+                isActive: input.isActive ?? true,
+                emailVerified: true,
+            });
+
+            row.temporaryPassword = await this.passwordPolicyService.setTemporaryPassword(user);
+            await user.save();
+        } catch (error) {
+            row.result.status = ImportRowStatus.FAILED;
+            row.result.errors.push(error instanceof HttpException ? error.message : 'Could not save this row');
+
+            if (!(error instanceof HttpException)) {
+                this.logger.error(`Import of row ${row.result.row} failed: ${error.message}`, error.stack);
+            }
+        }
+    }
+
+
+    /**
+     * Copy the row's values onto an existing user in memory. Returns whether
+     * anything changed; access tokens are revoked on role and cooperative
+     * changes and deactivation, as with a manual update.
+     */
+    private applyUpdate(user: UserDocument, input: ImportUserRowDto): boolean {
+        const rolesChanged =
+            input.roles !== undefined && [...input.roles].sort().join(',') !== [...user.roles].sort().join(',');
+        const deactivated = input.isActive === false && user.isActive;
+
+        for (const field of ['name', 'phone', 'roles', 'cooperativeId', 'isActive'] as const) {
+            if (input[field] !== undefined && (field !== 'roles' || rolesChanged)) {
+                user.set(field, input[field]);
+            }
+        }
+
+        if (rolesChanged || deactivated || user.isModified('cooperativeId')) {
+            user.tokenVersion = (user.tokenVersion ?? 0) + 1;
+        }
+
+        return user.isModified();
+    }
+
+
+    private summarize(rows: ImportRowResultDto[]): ImportUsersResponseDto['summary'] {
+        const summary = { total: rows.length } as ImportUsersResponseDto['summary'];
+
+        for (const status of Object.values(ImportRowStatus)) {
+            summary[status] = rows.filter((row) => row.status === status).length;
+        }
+
+        return summary;
+    }
+
+
+    private buildResultFile(rows: PlannedRow[]): string {
+        const header = toCsvLine(['row', ...USER_CSV_COLUMNS, 'status', 'temporaryPassword', 'invitationLink', 'errors']);
+
+        return header + rows
+            .map(({ result, input, temporaryPassword, invitationLink }) =>
+                toCsvLine([
+                    result.row,
+                    ...toUserCsvCells({ ...input, email: result.email } as UserDocument),
+                    result.status,
+                    temporaryPassword,
+                    invitationLink,
+                    result.errors.join('; '),
+                ]),
+            )
+            .join('');
+    }
+
+
+    private flattenErrors(errors: ValidationError[]): string[] {
+        return errors.flatMap((error) => [
+            ...Object.values(error.constraints ?? {}),
+            ...this.flattenErrors(error.children ?? []),
+        ]);
+    }
+}
@@ -0,0 +1,108 @@
+import { BadRequestException } from '@nestjs/common';
+import { UserStatisticsService } from './user-statistics.service';
+import { StatisticsInterval } from './dto/user-statistics-query.dto';
+import { UserRole } from '../../common/enums/user-role.enum';
+
+describe('UserStatisticsService', () => {
+  const admin = { sub: 'admin-1', roles: [UserRole.ADMIN] };
+  const manager = { sub: 'manager-1', roles: [UserRole.MANAGER], cooperativeId: 'coop-1' };
+
+  let userModel: any;
+  let auditLogModel: any;
+  let organisationsService: any;
+  let service: UserStatisticsService;
+
+  // Tells the aggregations apart by their first stage
+  const isSignups = (pipeline: any[]) => pipeline[0].$match?.createdAt?.$gte !== undefined;
+  const isChurn = (pipeline: any[]) => pipeline[0].$match?.isActive === true;
+
+  beforeEach(() => {
+    userModel = {
+      collection: { collectionName: 'users' },
+      countDocuments: jest.fn(async () => 0),
+      aggregate: jest.fn(async (pipeline: any[]) => {
+        if (isSignups(pipeline)) {
+          return [
+            { _id: { period: new Date('2026-01-05T00:00:00Z'), roles: [UserRole.FARMER], cooperativeId: 'coop-1' }, count: 3 },
+            { _id: { period: new Date('2026-01-05T00:00:00Z'), roles: [UserRole.FARMER, UserRole.MANAGER] }, count: 1 },
+            { _id: { period: new Date('2026-01-19T00:00:00Z'), roles: [UserRole.FARMER], cooperativeId: 'coop-2' }, count: 2 },
+          ];
+        }
+        if (isChurn(pipeline)) {
+          return [
+            { _id: { roles: [UserRole.FARMER], cooperativeId: 'coop-1' }, count: 8, churned: 2 },
+            { _id: { roles: [UserRole.MANAGER], cooperativeId: 'coop-1' }, count: 2, churned: 0 },
+          ];
+        }
+        return [];
+      }),
+    };
+    auditLogModel = {
+      collection: { collectionName: 'audit_logs' },
+      aggregate: jest.fn(async () => [
+        { _id: { period: new Date('2026-01-06T00:00:00Z'), roles: [UserRole.FARMER], cooperativeId: 'coop-1' }, count: 5 },
+      ]),
+    };
+    organisationsService = {
+      findCooperativeIds: jest.fn(async () => ['coop-1', 'coop-2']),
+    };
+    service = new UserStatisticsService(userModel, auditLogModel, organisationsService);
+  });
+
+  it('should return weekly signups with empty weeks and breakdowns by role and cooperative', async () => {
+    const statistics = await service.getStatistics(admin, {
+      from: new Date('2026-01-07T00:00:00Z'),
+      to: new Date('2026-01-21T00:00:00Z'),
+      interval: StatisticsInterval.WEEK,
+    });
+
+    expect(statistics.signups).toEqual([
+      {
+        period: new Date('2026-01-05T00:00:00Z'),
+        total: 4,
+        byRole: { farmer: 4, manager: 1 },
+        byCooperative: { 'coop-1': 3, unassigned: 1 },
+      },
+      { period: new Date('2026-01-12T00:00:00Z'), total: 0, byRole: {}, byCooperative: {} },
+      { period: new Date('2026-01-19T00:00:00Z'), total: 2, byRole: { farmer: 2 }, byCooperative: { 'coop-2': 2 } },
+    ]);
+    expect(statistics.dailyActiveUsers).toHaveLength(14);
+    expect(statistics.dailyActiveUsers[0].total).toBe(0);
+    expect(statistics.monthlyActiveUsers).toHaveLength(1);
+    expect(statistics.churn).toEqual({
+      inactiveDays: 30,
+      eligible: 10,
+      churned: 2,
+      rate: 0.2,
+      byRole: { farmer: 2 },
+      byCooperative: { 'coop-1': 2 },
+    });
+  });
+
+  it('should confine managers to their own cooperative', async () => {
+    await service.getStatistics(manager, { cooperativeId: 'coop-2', role: UserRole.FARMER });
+
+    expect(userModel.countDocuments).toHaveBeenCalledWith({ cooperativeId: 'coop-1', roles: UserRole.FARMER });
+    expect(auditLogModel.aggregate.mock.calls[0][0][0].$match).toEqual(expect.objectContaining({
+      action: 'auth.login',
+      'details.cooperativeId': 'coop-1',
+      'details.roles': UserRole.FARMER,
+    }));
+  });
+
+  it('should add up the cooperatives below an organisation the manager oversees', async () => {
+    const districtManager = { ...manager, cooperativeId: undefined, cooperativeIds: ['coop-1', 'coop-2', 'coop-3'] };
+
+    await service.getStatistics(districtManager, { organisationId: 'district-1' });
+
+    expect(organisationsService.findCooperativeIds).toHaveBeenCalledWith('district-1', districtManager);
+    expect(userModel.countDocuments).toHaveBeenCalledWith({ cooperativeId: { $in: ['coop-1', 'coop-2'] } });
+  });
+
+  it('should reject empty and overly long ranges', async () => {
+    const to = new Date('2026-01-01T00:00:00Z');
+
+    await expect(service.getStatistics(admin, { from: to, to })).rejects.toThrow(BadRequestException);
+    await expect(service.getStatistics(admin, { from: new Date('2024-01-01T00:00:00Z'), to })).rejects.toThrow(BadRequestException);
+  });
+});
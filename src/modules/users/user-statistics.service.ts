@@ -0,0 +1,355 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { FilterQuery, Model, PipelineStage } from 'mongoose';
+import { User, UserDocument } from './schemas/user.schema';
+import { StatisticsInterval, UserStatisticsQueryDto } from './dto/user-statistics-query.dto';
+import { UserChurnDto, UserStatisticsPointDto, UserStatisticsResponseDto } from './dto/user-statistics-response.dto';
+import { resolveCooperativeScope, toCooperativeFilter } from '../cooperatives/cooperative-scope';
+import { OrganisationsService } from '../organisations/organisations.service';
+import { AuditLog, AuditLogDocument } from '../audit/schemas/audit-log.schema';
+import { JwtPayload } from '../../common/interfaces/jwt-payload.interface';
+
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_RANGE_DAYS = 30;
+const MAX_RANGE_DAYS = 366;
+const DEFAULT_INACTIVE_DAYS = 30;
+const UNASSIGNED = 'unassigned';
+const LOGIN_ACTION = 'auth.login';
+
+type PeriodUnit = 'day' | 'week' | 'month';
+
+// Counts grouped by period, role set and cooperative, as returned by the aggregations
+interface GroupedCount {
+    _id: { period?: Date; roles?: string[]; cooperativeId?: string };
+    count: number;
+}
+
+
+/**
+ * Growth and activity statistics for dashboards. Activity comes from login
+ * events in the audit log, topped up with `lastLoginAt` for sign-ins that
+ * happened before login events were recorded. Statistics of a region or
+ * district add up every cooperative below it.
+ */
+@Injectable()
+export class UserStatisticsService {
+    constructor(
+        @InjectModel(User.name) private userModel: Model<UserDocument>,
+        @InjectModel(AuditLog.name) private auditLogModel: Model<AuditLogDocument>,
+        private organisationsService: OrganisationsService,
+    ) { }
+
+
+    async getStatistics(
+        currentUser: JwtPayload,
+        userStatisticsQueryDto: UserStatisticsQueryDto = {},
+    ): Promise<UserStatisticsResponseDto> {
+        const {
+            role,
+            interval = StatisticsInterval.DAY,
+            inactiveDays = DEFAULT_INACTIVE_DAYS,
+        } = userStatisticsQueryDto;
+        const to = userStatisticsQueryDto.to ?? new Date();
+        const from = userStatisticsQueryDto.from ?? new Date(to.getTime() - DEFAULT_RANGE_DAYS * DAY_MS);
+
+        if (from >= to) {
+            throw new BadRequestException('from must be before to');
+        }
+
+        if (to.getTime() - from.getTime() > MAX_RANGE_DAYS * DAY_MS) {
+            throw new BadRequestException(`The range cannot be longer than ${MAX_RANGE_DAYS} days`);
+        }
+
+        const cooperativeId = await this.resolveCooperativeFilter(currentUser, userStatisticsQueryDto);
+        const scope: FilterQuery<UserDocument> = {
+            ...(cooperativeId && { cooperativeId }),
+            ...(role && { roles: role }),
+        };
+
+        const [totals, signups, dailyActive, monthlyActive, churn] = await Promise.all([
+            this.getTotals(scope),
+            this.getSignups(scope, from, to, interval),
+            this.getActiveUsers(scope, from, to, 'day'),
+            this.getActiveUsers(scope, from, to, 'month'),
+            this.getChurn(scope, to, inactiveDays),
+        ]);
+
+        return {
+            ...totals,
+            from,
+            to,
+            interval,
+            signups,
+            dailyActiveUsers: dailyActive,
+            monthlyActiveUsers: monthlyActive,
+            churn,
+        };
+    }
+
+
+    /**
+     * The cooperatives to count: the requested cooperative or organisation,
+     * narrowed to those a manager oversees
+     */
+    private async resolveCooperativeFilter(
+        currentUser: JwtPayload,
+        { cooperativeId, organisationId }: UserStatisticsQueryDto,
+    ): Promise<ReturnType<typeof toCooperativeFilter>> {
+        let cooperativeIds = resolveCooperativeScope(currentUser);
+
+        if (organisationId) {
+            const below = await this.organisationsService.findCooperativeIds(organisationId, currentUser);
+            cooperativeIds = cooperativeIds ? cooperativeIds.filter((id) => below.includes(id)) : below;
+        }
+
+        return toCooperativeFilter(cooperativeIds, cooperativeId);
+    }
+
+
+    private async getTotals(scope: FilterQuery<UserDocument>): Promise<Pick<
+        UserStatisticsResponseDto,
+        'total' | 'active' | 'inactive' | 'byRole'
+    >> {
+        const [total, active, inactive, byRole] = await Promise.all([
+            this.userModel.countDocuments(scope),
+            this.userModel.countDocuments({ ...scope, isActive: true }),
+            this.userModel.countDocuments({ ...scope, isActive: false }),
+            this.userModel.aggregate([
+                { $match: scope },
+                { $unwind: '$roles' },
+                { $group: { _id: '$roles', count: { $sum: 1 } } },
+            ]),
+        ]);
+
+        const roleStats = byRole.reduce((acc, item) => {
+            acc[item._id] = item.count;
+            return acc;
+        }, {});
+
+        return { total, active, inactive, byRole: roleStats };
+    }
+
+
+    private async getSignups(
+        scope: FilterQuery<UserDocument>,
+        from: Date,
+        to: Date,
+        interval: StatisticsInterval,
+    ): Promise<UserStatisticsPointDto[]> {
+        const rows: GroupedCount[] = await this.userModel.aggregate([
+            { $match: { ...scope, createdAt: { $gte: from, $lt: to } } },
+            {
+                $group: {
+                    _id: { period: this.truncate('$createdAt', interval), roles: '$roles', cooperativeId: '$cooperativeId' },
+                    count: { $sum: 1 },
+                },
+            },
+        ]);
+
+        return this.toSeries(rows, from, to, interval);
+    }
+
+
+    /**
+     * Distinct users who signed in per period. Each login event carries the
+     * roles and cooperative the user had at the time.
+     */
+    private async getActiveUsers(
+        scope: FilterQuery<UserDocument>,
+        from: Date,
+        to: Date,
+        unit: PeriodUnit,
+    ): Promise<UserStatisticsPointDto[]> {
+        const range = { $gte: from, $lt: to };
+        const eventScope = {
+            ...(scope.cooperativeId && { 'details.cooperativeId': scope.cooperativeId }),
+            ...(scope.roles && { 'details.roles': scope.roles }),
+        };
+
+        const pipeline: PipelineStage[] = [
+            // Events of erased users have lost their userId and are no longer attributable
+            { $match: { ...eventScope, action: LOGIN_ACTION, createdAt: range, userId: { $exists: true, $ne: null } } },
+            {
+                $project: {
+                    userId: 1,
+                    at: '$createdAt',
+                    roles: '$details.roles',
+                    cooperativeId: '$details.cooperativeId',
+                },
+            },
+            {
+                $unionWith: {
+                    coll: this.userModel.collection.collectionName,
+                    pipeline: [
+                        { $match: { ...scope, lastLoginAt: range } },
+                        { $project: { userId: { $toString: '$_id' }, at: '$lastLoginAt', roles: 1, cooperativeId: 1 } },
+                    ],
+                },
+            },
+            // So that each user is counted with their latest roles and cooperative in the period
+            { $sort: { at: 1 } },
+            {
+                $group: {
+                    _id: { period: this.truncate('$at', unit), userId: '$userId' },
+                    roles: { $last: '$roles' },
+                    cooperativeId: { $last: '$cooperativeId' },
+                },
+            },
+            {
+                $group: {
+                    _id: { period: '$_id.period', roles: '$roles', cooperativeId: '$cooperativeId' },
+                    count: { $sum: 1 },
+                },
+            },
+        ];
+
+        const rows: GroupedCount[] = await this.auditLogModel.aggregate(pipeline);
+
+        return this.toSeries(rows, from, to, unit);
+    }
+
+
+    /**
+     * Active accounts that existed for at least `inactiveDays` before the
+     * end of the range without signing in during that window
+     */
+    private async getChurn(scope: FilterQuery<UserDocument>, to: Date, inactiveDays: number): Promise<UserChurnDto> {
+        const cutoff = new Date(to.getTime() - inactiveDays * DAY_MS);
+
+        const rows: (GroupedCount & { churned: number })[] = await this.userModel.aggregate([
+            { $match: { ...scope, isActive: true, createdAt: { $lt: cutoff } } },
+            {
+                $lookup: {
+                    from: this.auditLogModel.collection.collectionName,
+                    let: { userId: { $toString: '$_id' } },
+                    pipeline: [
+                        {
+                            $match: {
+                                action: LOGIN_ACTION,
+                                createdAt: { $gte: cutoff, $lt: to },
+                                $expr: { $eq: ['$userId', '$$userId'] },
+                            },
+                        },
+                        { $limit: 1 },
+                        { $project: { _id: 1 } },
+                    ],
+                    as: 'recentLogins',
+                },
+            },
+            {
+                $addFields: {
+                    isChurned: {
+                        $not: [{
+                            $or: [
+                                { $gt: [{ $size: '$recentLogins' }, 0] },
+                                { $and: [{ $gte: ['$lastLoginAt', cutoff] }, { $lt: ['$lastLoginAt', to] }] },
+                            ],
+                        }],
+                    },
+                },
+            },
+            {
+                $group: {
+                    _id: { roles: '$roles', cooperativeId: '$cooperativeId' },
+                    count: { $sum: 1 },
+                    churned: { $sum: { $cond: ['$isChurned', 1, 0] } },
+                },
+            },
+        ]);
+
+        const eligible = rows.reduce((sum, row) => sum + row.count, 0);
+        const churned = rows.reduce((sum, row) => sum + row.churned, 0);
+        const breakdown = this.breakdown(rows.map((row) => ({ _id: row._id, count: row.churned })));
+
+        return {
+            inactiveDays,
+            eligible,
+            churned,
+            rate: eligible ? Math.round((churned / eligible) * 10000) / 10000 : 0,
+            byRole: breakdown.byRole,
+            byCooperative: breakdown.byCooperative,
+        };
+    }
+
+
+    private truncate(date: string, unit: PeriodUnit): Record<string, unknown> {
+        return {
+            $dateTrunc: {
+                date,
+                unit,
+                ...(unit === 'week' && { startOfWeek: 'monday' }),
+            },
+        };
+    }
+
+
+    /**
+     * One point per period overlapping the range, empty periods included
+     */
+    private toSeries(rows: GroupedCount[], from: Date, to: Date, unit: PeriodUnit): UserStatisticsPointDto[] {
+        const rowsByPeriod = new Map<number, GroupedCount[]>();
+
+        for (const row of rows) {
+            const key = new Date(row._id.period).getTime();
+            rowsByPeriod.set(key, [...(rowsByPeriod.get(key) ?? []), row]);
+        }
+
+        const points: UserStatisticsPointDto[] = [];
+
+        for (let period = this.startOfPeriod(from, unit); period < to; period = this.nextPeriod(period, unit)) {
+            points.push({ period, ...this.breakdown(rowsByPeriod.get(period.getTime()) ?? []) });
+        }
+
+        return points;
+    }
+
+
+    private breakdown(rows: GroupedCount[]): Omit<UserStatisticsPointDto, 'period'> {
+        const point = { total: 0, byRole: {}, byCooperative: {} };
+
+        for (const { _id, count } of rows) {
+            if (!count) {
+                continue;
+            }
+
+            const cooperativeId = _id.cooperativeId || UNASSIGNED;
+
+            point.total += count;
+            point.byCooperative[cooperativeId] = (point.byCooperative[cooperativeId] ?? 0) + count;
+
+            for (const role of _id.roles ?? []) {
+                point.byRole[role] = (point.byRole[role] ?? 0) + count;
+            }
+        }
+
+        return point;
+    }
+
+
+    private startOfPeriod(date: Date, unit: PeriodUnit): Date {
+        const day = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+
+        switch (unit) {
+            case 'week':
+                // getUTCDay() is 0 on Sunday; weeks start on Monday
+                return new Date(day - ((date.getUTCDay() + 6) % 7) * DAY_MS);
+            case 'month':
+                return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+            default:
+                return new Date(day);
+        }
+    }
+
+
+    private nextPeriod(period: Date, unit: PeriodUnit): Date {
+        switch (unit) {
+            case 'week':
+                return new Date(period.getTime() + 7 * DAY_MS);
+            case 'month':
+                return new Date(Date.UTC(period.getUTCFullYear(), period.getUTCMonth() + 1, 1));
+            default:
+                return new Date(period.getTime() + DAY_MS);
+        }
+    }
+}
@@ -10,41 +10,72 @@ import {
     Query,
     HttpCode,
     HttpStatus,
+    UseInterceptors,
+    UploadedFile,
+    BadRequestException,
+    StreamableFile,
+    Res,
 } from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { Response } from 'express';
 import {
     ApiTags,
     ApiOperation,
     ApiResponse,
     ApiBearerAuth,
-    ApiQuery,
     ApiParam,
+    ApiConsumes,
+    ApiBody,
+    ApiProduces,
 } from '@nestjs/swagger';
 import { UsersService } from './users.service';
+import { UserImportService } from './user-import.service';
+import { UserStatisticsService } from './user-statistics.service';
 import { CreateUserDto } from './dto/create-user.dto';
 import { UpdateUserDto } from './dto/update-user.dto';
+import { UpdateProfileDto } from './dto/update-profile.dto';
 import { ChangePasswordDto } from './dto/change-password.dto';
 import { UserResponseDto } from './dto/user-response.dto';
+import { ListUsersQueryDto } from './dto/list-users-query.dto';
+import { PaginatedUsersResponseDto } from './dto/paginated-users-response.dto';
+import { ExportUsersQueryDto } from './dto/export-users-query.dto';
+import { ImportUsersQueryDto } from './dto/import-users-query.dto';
+import { ImportUsersResponseDto } from './dto/import-users-response.dto';
+import { UserStatisticsQueryDto } from './dto/user-statistics-query.dto';
+import { UserStatisticsResponseDto } from './dto/user-statistics-response.dto';
 import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
-import { RolesGuard } from '../../common/guards/roles.guard';
-import { Roles } from '../../common/decorators/roles.decorator';
+import { PermissionsGuard } from '../../common/guards/permissions.guard';
+import { RequirePermissions } from '../../common/decorators/require-permissions.decorator';
+import { CrossTenant } from '../../common/decorators/cross-tenant.decorator';
 import { CurrentUser } from '../../common/decorators/current-user.decorator';
-import { UserRole } from '../../common/enums/user-role.enum';
+import { JwtPayload } from '../../common/interfaces/jwt-payload.interface';
+import { NotWhileImpersonating } from '../../common/decorators/not-while-impersonating.decorator';
+import { Permission } from '../../common/enums/permission.enum';
+
+
+const MAX_IMPORT_FILE_SIZE = 2 * 1024 * 1024;
 
 
 @ApiTags('Users')
 @ApiBearerAuth()
 @Controller('users')
-@UseGuards(JwtAuthGuard, RolesGuard)
+@CrossTenant()
+@UseGuards(JwtAuthGuard, PermissionsGuard)
 export class UsersController {
-    constructor(private readonly usersService: UsersService) { }
+    constructor(
+        private readonly usersService: UsersService,
+        private readonly userImportService: UserImportService,
+        private readonly userStatisticsService: UserStatisticsService,
+    ) { }
 
 
     @Post()
-    @Roles(UserRole.ADMIN)
+    @RequirePermissions(Permission.USER_MANAGE_COOPERATIVE)
     @HttpCode(HttpStatus.CREATED)
     @ApiOperation({
         summary: 'Create a new user',
-        description: 'Create a new user account. Admin only. Allows setting custom roles.',
+        description: 'Create a new user account with custom roles. Managers can only add users to their own ' +
+            'cooperative and cannot grant the admin role.',
     })
     @ApiResponse({
         status: HttpStatus.CREATED,
@@ -61,41 +92,31 @@ export class UsersController {
     })
     @ApiResponse({
         status: HttpStatus.FORBIDDEN,
-        description: 'Admin role required',
+        description: 'user:manage:cooperative permission required, or a manager granted admin or chose another cooperative',
     })
-    async create(@Body() createUserDto: CreateUserDto): Promise<UserResponseDto> {
-        return this.usersService.create(createUserDto);
+    async create(
+        @CurrentUser() user: JwtPayload,
+        @Body() createUserDto: CreateUserDto,
+    ): Promise<UserResponseDto> {
+        return this.usersService.create(createUserDto, user);
     }
 
 
     @Get()
-    @Roles(UserRole.ADMIN)
+    @RequirePermissions(Permission.USER_MANAGE_COOPERATIVE)
     @ApiOperation({
-        summary: 'Get all users',
-        description: 'Retrieve all users with optional filtering. Admin only.',
-    })
-    @ApiQuery({
-        name: 'role',
-        required: false,
-        enum: UserRole,
-        description: 'Filter by role',
-    })
-    @ApiQuery({
-        name: 'isActive',
-        required: false,
-        type: Boolean,
-        description: 'Filter by active status',
-    })
-    @ApiQuery({
-        name: 'cooperativeId',
-        required: false,
-        type: String,
-        description: 'Filter by cooperative ID',
+        summary: 'List users',
+        description: 'Search, filter and sort users, one page at a time. Pass nextCursor from the response as ' +
+            'cursor to fetch the following page. Managers only see their own cooperative.',
     })
     @ApiResponse({
         status: HttpStatus.OK,
         description: 'Users retrieved successfully',
-        type: [UserResponseDto],
+        type: PaginatedUsersResponseDto,
+    })
+    @ApiResponse({
+        status: HttpStatus.BAD_REQUEST,
+        description: 'Invalid filter, sort option or cursor',
     })
     @ApiResponse({
         status: HttpStatus.UNAUTHORIZED,
@@ -103,26 +124,169 @@ export class UsersController {
     })
     @ApiResponse({
         status: HttpStatus.FORBIDDEN,
-        description: 'Admin role required',
+        description: 'user:manage:cooperative permission required',
     })
     async findAll(
-        @Query('role') role?: string,
-        @Query('isActive') isActive?: boolean,
-        @Query('cooperativeId') cooperativeId?: string,
-    ): Promise<UserResponseDto[]> {
-        return this.usersService.findAll({ role, isActive, cooperativeId });
+        @CurrentUser() user: JwtPayload,
+        @Query() listUsersQueryDto: ListUsersQueryDto,
+    ): Promise<PaginatedUsersResponseDto> {
+        return this.usersService.findAll(listUsersQueryDto, user);
+    }
+
+
+    @Post('import')
+    @RequirePermissions(Permission.USER_MANAGE_COOPERATIVE)
+    @HttpCode(HttpStatus.OK)
+    @UseInterceptors(FileInterceptor('file', { limits: { fileSize: MAX_IMPORT_FILE_SIZE } }))
+    @ApiConsumes('multipart/form-data')
+    @ApiProduces('application/json', 'text/csv')
+    @ApiOperation({
+        summary: 'Import users from CSV',
+        description: 'Upload a CSV with the columns name, email, phone, roles (separated by ;), cooperativeId and isActive, ' +
+            'as produced by GET /users/export. Rows are matched by email: existing users are updated, new users are ' +
+            'created with a temporary password or invited. With dryRun=true the rows are only validated and a JSON ' +
+            'report is returned; otherwise the response is a CSV result file with each row\'s outcome, temporary ' +
+            'passwords and invitation links. Managers can only import into their own cooperative and cannot grant admin.',
+    })
+    @ApiBody({
+        schema: {
+            type: 'object',
+            required: ['file'],
+            properties: {
+                file: { type: 'string', format: 'binary', description: 'CSV file (UTF-8, max 2MB, 5000 rows)' },
+            },
+        },
+    })
+    @ApiResponse({
+        status: HttpStatus.OK,
+        description: 'Dry-run report (JSON) or import result file (CSV)',
+        type: ImportUsersResponseDto,
+    })
+    @ApiResponse({
+        status: HttpStatus.BAD_REQUEST,
+        description: 'Missing file, missing required columns or too many rows',
+    })
+    @ApiResponse({
+        status: HttpStatus.FORBIDDEN,
+        description: 'user:manage:cooperative permission required',
+    })
+    async importUsers(
+        @CurrentUser() user: JwtPayload,
+        @UploadedFile() file: Express.Multer.File,
+        @Query() importUsersQueryDto: ImportUsersQueryDto,
+        @Res({ passthrough: true }) res: Response,
+    ): Promise<ImportUsersResponseDto | StreamableFile> {
+        if (!file) {
+            throw new BadRequestException('A CSV file is required');
+        }
+
+        const { resultFile, ...report } = await this.userImportService.importUsers(user, file.buffer, importUsersQueryDto);
+
+        if (report.dryRun) {
+            return report;
+        }
+
+        for (const [status, count] of Object.entries(report.summary)) {
+            res.setHeader(`X-Import-${status[0].toUpperCase()}${status.slice(1)}`, count);
+        }
+
+        return new StreamableFile(Buffer.from(resultFile, 'utf8'), {
+            type: 'text/csv; charset=utf-8',
+            disposition: `attachment; filename="user-import-result-${Date.now()}.csv"`,
+        });
+    }
+
+
+    @Get('export')
+    @RequirePermissions(Permission.USER_MANAGE_COOPERATIVE)
+    @ApiProduces('text/csv')
+    @ApiOperation({
+        summary: 'Export users as CSV',
+        description: 'Download matching users with the same columns POST /users/import accepts. Takes the same filters ' +
+            'and sort options as GET /users, without pagination. Managers only export their own cooperative.',
+    })
+    @ApiResponse({
+        status: HttpStatus.OK,
+        description: 'CSV file',
+    })
+    @ApiResponse({
+        status: HttpStatus.FORBIDDEN,
+        description: 'user:manage:cooperative permission required',
+    })
+    exportUsers(
+        @CurrentUser() user: JwtPayload,
+        @Query() exportUsersQueryDto: ExportUsersQueryDto,
+    ): StreamableFile {
+        return new StreamableFile(this.usersService.exportCsv(user, exportUsersQueryDto), {
+            type: 'text/csv; charset=utf-8',
+            disposition: `attachment; filename="users-${new Date().toISOString().slice(0, 10)}.csv"`,
+        });
+    }
+
+
+    @Get('me')
+    @ApiOperation({
+        summary: 'Get own profile',
+        description: 'Returns the stored profile of the authenticated user, including the farm details used as ' +
+            'context for classification and recommendations.',
+    })
+    @ApiResponse({
+        status: HttpStatus.OK,
+        description: 'Profile retrieved successfully',
+        type: UserResponseDto,
+    })
+    @ApiResponse({
+        status: HttpStatus.UNAUTHORIZED,
+        description: 'Authentication required',
+    })
+    async getProfile(@CurrentUser('sub') userId: string): Promise<UserResponseDto> {
+        return this.usersService.findOne(userId);
+    }
+
+
+    @Patch('me')
+    @RequirePermissions(Permission.PROFILE_UPDATE_OWN)
+    @ApiOperation({
+        summary: 'Update own profile',
+        description: 'Update name, phone, preferred language, region, district, farm size, primary crops and time zone. ' +
+            'A changed phone number must be verified again.',
+    })
+    @ApiResponse({
+        status: HttpStatus.OK,
+        description: 'Profile updated successfully',
+        type: UserResponseDto,
+    })
+    @ApiResponse({
+        status: HttpStatus.BAD_REQUEST,
+        description: 'Invalid input data',
+    })
+    @ApiResponse({
+        status: HttpStatus.CONFLICT,
+        description: 'Phone number already in use',
+    })
+    async updateProfile(
+        @CurrentUser('sub') userId: string,
+        @Body() updateProfileDto: UpdateProfileDto,
+    ): Promise<UserResponseDto> {
+        return this.usersService.updateProfile(userId, updateProfileDto);
     }
 
 
     @Get('statistics')
-    @Roles(UserRole.ADMIN)
+    @RequirePermissions(Permission.USER_MANAGE_COOPERATIVE)
     @ApiOperation({
         summary: 'Get user statistics',
-        description: 'Retrieve user statistics for admin dashboard. Admin only.',
+        description: 'Current totals plus signups, daily and monthly active users and churn over a date range, ' +
+            'broken down by role and cooperative. Managers only see their own cooperative.',
     })
     @ApiResponse({
         status: HttpStatus.OK,
         description: 'Statistics retrieved successfully',
+        type: UserStatisticsResponseDto,
+    })
+    @ApiResponse({
+        status: HttpStatus.BAD_REQUEST,
+        description: 'Invalid or too long date range',
     })
     @ApiResponse({
         status: HttpStatus.UNAUTHORIZED,
@@ -130,20 +294,18 @@ export class UsersController {
     })
     @ApiResponse({
         status: HttpStatus.FORBIDDEN,
-        description: 'Admin role required',
+        description: 'user:manage:cooperative permission required',
     })
-    async getStatistics(): Promise<{
-        total: number;
-        active: number;
-        inactive: number;
-        byRole: { [key: string]: number };
-    }> {
-        return this.usersService.getStatistics();
+    async getStatistics(
+        @CurrentUser() user: JwtPayload,
+        @Query() userStatisticsQueryDto: UserStatisticsQueryDto,
+    ): Promise<UserStatisticsResponseDto> {
+        return this.userStatisticsService.getStatistics(user, userStatisticsQueryDto);
     }
 
 
     @Get(':id')
-    @Roles(UserRole.ADMIN)
+    @RequirePermissions(Permission.USER_READ_ANY)
     @ApiOperation({
         summary: 'Get a user by ID',
         description: 'Retrieve a specific user by ID. Admin only.',
@@ -176,7 +338,7 @@ export class UsersController {
 
 
     @Patch(':id')
-    @Roles(UserRole.ADMIN)
+    @RequirePermissions(Permission.USER_MANAGE_ANY)
     @ApiOperation({
         summary: 'Update a user',
         description: 'Update user information. Admin only. Cannot update password (use separate endpoint).',
@@ -216,7 +378,7 @@ export class UsersController {
 
 
     @Delete(':id')
-    @Roles(UserRole.ADMIN)
+    @RequirePermissions(Permission.USER_MANAGE_ANY)
     @HttpCode(HttpStatus.OK)
     @ApiOperation({
         summary: 'Deactivate a user (soft delete)',
@@ -248,10 +410,10 @@ export class UsersController {
     }
 
     @Patch(':id/activate')
-    @Roles(UserRole.ADMIN)
+    @RequirePermissions(Permission.USER_MANAGE_COOPERATIVE)
     @ApiOperation({
         summary: 'Activate a user account',
-        description: 'Activate a deactivated user account. Admin only.',
+        description: 'Activate a deactivated user account. Managers can only activate non-admin users in their own cooperative.',
     })
     @ApiParam({
         name: 'id',
@@ -273,18 +435,21 @@ export class UsersController {
     })
     @ApiResponse({
         status: HttpStatus.FORBIDDEN,
-        description: 'Admin role required',
+        description: 'user:manage:cooperative permission required, or the user is outside your cooperative',
     })
-    async activate(@Param('id') id: string): Promise<UserResponseDto> {
-        return this.usersService.activate(id);
+    async activate(
+        @CurrentUser() user: JwtPayload,
+        @Param('id') id: string,
+    ): Promise<UserResponseDto> {
+        return this.usersService.activate(id, user);
     }
 
 
     @Patch(':id/deactivate')
-    @Roles(UserRole.ADMIN)
+    @RequirePermissions(Permission.USER_MANAGE_COOPERATIVE)
     @ApiOperation({
         summary: 'Deactivate a user account',
-        description: 'Deactivate a user account. Admin only.',
+        description: 'Deactivate a user account. Managers can only deactivate non-admin users in their own cooperative.',
     })
     @ApiParam({
         name: 'id',
@@ -304,17 +469,56 @@ export class UsersController {
         status: HttpStatus.UNAUTHORIZED,
         description: 'Authentication required',
     })
+    @ApiResponse({
+        status: HttpStatus.FORBIDDEN,
+        description: 'user:manage:cooperative permission required, or the user is outside your cooperative',
+    })
+    async deactivate(
+        @CurrentUser() user: JwtPayload,
+        @Param('id') id: string,
+    ): Promise<UserResponseDto> {
+        return this.usersService.deactivate(id, user);
+    }
+
+
+    @Patch(':id/unlock')
+    @RequirePermissions(Permission.USER_MANAGE_ANY)
+    @ApiOperation({
+        summary: 'Unlock a user account',
+        description: 'Clear failed login attempts and lift a temporary lockout. Admin only.',
+    })
+    @ApiParam({
+        name: 'id',
+        description: 'User ID',
+        example: '507f1f77bcf86cd799439011',
+    })
+    @ApiResponse({
+        status: HttpStatus.OK,
+        description: 'User unlocked successfully',
+    })
+    @ApiResponse({
+        status: HttpStatus.NOT_FOUND,
+        description: 'User not found',
+    })
+    @ApiResponse({
+        status: HttpStatus.UNAUTHORIZED,
+        description: 'Authentication required',
+    })
     @ApiResponse({
         status: HttpStatus.FORBIDDEN,
         description: 'Admin role required',
     })
-    async deactivate(@Param('id') id: string): Promise<UserResponseDto> {
-        return this.usersService.deactivate(id);
+    async unlock(
+        @Param('id') id: string,
+        @CurrentUser('sub') actorId: string,
+    ): Promise<{ message: string }> {
+        return this.usersService.unlock(id, actorId);
     }
 
 
     @Patch('me/change-password')
-    @Roles(UserRole.FARMER, UserRole.MANAGER, UserRole.ADMIN)
+    @RequirePermissions(Permission.PROFILE_UPDATE_OWN)
+    @NotWhileImpersonating()
     @ApiOperation({
         summary: 'Change own password',
         description: 'Change password for the currently authenticated user.',
@@ -325,7 +529,7 @@ export class UsersController {
     })
     @ApiResponse({
         status: HttpStatus.BAD_REQUEST,
-        description: 'Current password is incorrect',
+        description: 'Current password is incorrect, or new password violates the password policy or was used recently',
     })
     @ApiResponse({
         status: HttpStatus.UNAUTHORIZED,
@@ -2,7 +2,17 @@ import { Module } from '@nestjs/common';
 import { MongooseModule } from '@nestjs/mongoose';
 import { UsersController } from './users.controller';
 import { UsersService } from './users.service';
+import { UserImportService } from './user-import.service';
+import { UserStatisticsService } from './user-statistics.service';
 import { User, UserSchema } from './schemas/user.schema';
+import { AuthModule } from '../auth/auth.module';
+import { PasswordPolicyModule } from '../password-policy/password-policy.module';
+import { PermissionsModule } from '../permissions/permissions.module';
+import { InvitationsModule } from '../invitations/invitations.module';
+import { AuditModule } from '../audit/audit.module';
+import { CooperativesModule } from '../cooperatives/cooperatives.module';
+import { OrganisationsModule } from '../organisations/organisations.module';
+import { AuditLog, AuditLogSchema } from '../audit/schemas/audit-log.schema';
 
 /**
  * Users Module
@@ -12,13 +22,26 @@ import { User, UserSchema } from './schemas/user.schema';
  * - User activation/deactivation
  * - Role assignment
  * - Password management
+ * - Unlocking accounts locked after failed logins
+ * - CSV import and export
+ * - Growth and activity statistics
  */
 @Module({
   imports: [
-    MongooseModule.forFeature([{ name: User.name, schema: UserSchema }]),
+    MongooseModule.forFeature([
+      { name: User.name, schema: UserSchema },
+      { name: AuditLog.name, schema: AuditLogSchema },
+    ]),
+    AuthModule,
+    PasswordPolicyModule,
+    PermissionsModule,
+    InvitationsModule,
+    AuditModule,
+    CooperativesModule,
+    OrganisationsModule,
   ],
   controllers: [UsersController],
-  providers: [UsersService],
+  providers: [UsersService, UserImportService, UserStatisticsService],
   exports: [UsersService, MongooseModule],
 })
 export class UsersModule {}
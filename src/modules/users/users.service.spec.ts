@@ -0,0 +1,263 @@
+import { BadRequestException, ConflictException, ForbiddenException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { UsersService } from './users.service';
+import { SortOrder, UserSortField } from './dto/list-users-query.dto';
+import { UserRole } from '../../common/enums/user-role.enum';
+
+describe('UsersService', () => {
+  describe('findAll', () => {
+    let users: any[];
+    let userModel: { find: jest.Mock; countDocuments: jest.Mock };
+    let query: { sort: jest.Mock; limit: jest.Mock };
+    let service: UsersService;
+
+    const createUser = (name: string, createdAt: Date) => {
+      const user: any = { _id: new Types.ObjectId(), name, roles: ['farmer'], createdAt };
+      user.get = (path: string) => user[path];
+      return user;
+    };
+
+    beforeEach(() => {
+      users = [];
+      query = {
+        sort: jest.fn(() => query),
+        limit: jest.fn(async (limit: number) => users.slice(0, limit)),
+      };
+      userModel = {
+        find: jest.fn(() => query),
+        countDocuments: jest.fn(async () => users.length),
+      };
+      service = new UsersService(userModel as any, {} as any, {} as any, {} as any);
+    });
+
+    it('should combine search, filters and date ranges into one query', async () => {
+      const createdFrom = new Date('2026-01-01T00:00:00Z');
+
+      await service.findAll({ search: 'Jean "Uwimana"', role: 'farmer' as any, isActive: false, createdFrom });
+
+      expect(userModel.find).toHaveBeenCalledWith({
+        $or: [
+          { $text: { $search: '"Jean  Uwimana"' } },
+          { email: { $regex: '^jean "uwimana"' } },
+          { name: { $regex: '^Jean "Uwimana"', $options: 'i' } },
+        ],
+        roles: 'farmer',
+        isActive: false,
+        createdAt: { $gte: createdFrom },
+      });
+      expect(query.sort).toHaveBeenCalledWith({ createdAt: -1, _id: -1 });
+    });
+
+    it('should match name and email prefixes with the search escaped', async () => {
+      await service.findAll({ search: ' jean.u+1 ' });
+
+      expect(userModel.find).toHaveBeenCalledWith({
+        $or: [
+          { $text: { $search: '"jean.u+1"' } },
+          { email: { $regex: '^jean\\.u\\+1' } },
+          { name: { $regex: '^jean\\.u\\+1', $options: 'i' } },
+        ],
+      });
+    });
+
+    it('should return a cursor that continues after the last item', async () => {
+      users = [
+        createUser('Amina', new Date('2026-03-03T00:00:00Z')),
+        createUser('Bosco', new Date('2026-03-02T00:00:00Z')),
+        createUser('Claudine', new Date('2026-03-01T00:00:00Z')),
+      ];
+
+      const page = await service.findAll({ limit: 2 });
+
+      expect(page.items.map((user) => user.name)).toEqual(['Amina', 'Bosco']);
+      expect(page.total).toBe(3);
+      expect(page.nextCursor).toEqual(expect.any(String));
+
+      await service.findAll({ limit: 2, cursor: page.nextCursor });
+
+      expect(userModel.find).toHaveBeenLastCalledWith({
+        $and: [
+          {},
+          {
+            $or: [
+              { createdAt: { $lt: users[1].createdAt } },
+              { createdAt: users[1].createdAt, _id: { $lt: users[1]._id } },
+              { createdAt: null },
+            ],
+          },
+        ],
+      });
+    });
+
+    it('should not return a cursor on the last page', async () => {
+      users = [createUser('Amina', new Date())];
+
+      const page = await service.findAll({ sortBy: UserSortField.NAME, sortOrder: SortOrder.ASC });
+
+      expect(page.nextCursor).toBeNull();
+      expect(query.sort).toHaveBeenCalledWith({ name: 1, _id: 1 });
+    });
+
+    it('should reject a malformed cursor', async () => {
+      await expect(service.findAll({ cursor: 'not-a-cursor' })).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('updateProfile', () => {
+    let user: any;
+    let userModel: { findById: jest.Mock; findOne: jest.Mock };
+    let service: UsersService;
+
+    beforeEach(() => {
+      user = {
+        _id: new Types.ObjectId(),
+        name: 'Jean',
+        phone: '+250788000001',
+        phoneVerified: true,
+        phoneVerifiedAt: new Date(),
+        roles: ['farmer'],
+        set: jest.fn((values: object) => Object.assign(user, values)),
+        save: jest.fn(async () => user),
+      };
+      userModel = {
+        findById: jest.fn(async () => user),
+        findOne: jest.fn(async () => null),
+      };
+      service = new UsersService(userModel as any, {} as any, {} as any, {} as any);
+    });
+
+    it('should store farm details', async () => {
+      const profile = await service.updateProfile(user._id.toString(), {
+        district: 'Huye',
+        farmSizeHectares: 1.5,
+        primaryCrops: ['beans'],
+        timezone: 'Africa/Kigali',
+      });
+
+      expect(profile).toMatchObject({ district: 'Huye', farmSizeHectares: 1.5, primaryCrops: ['beans'], phoneVerified: true });
+    });
+
+    it('should require a changed phone number to be verified again', async () => {
+      const profile = await service.updateProfile(user._id.toString(), { phone: '+250788000002' });
+
+      expect(profile.phone).toBe('+250788000002');
+      expect(profile.phoneVerified).toBe(false);
+    });
+
+    it('should reject a phone number used by someone else', async () => {
+      userModel.findOne.mockResolvedValue({ _id: new Types.ObjectId() });
+
+      await expect(service.updateProfile(user._id.toString(), { phone: '+250788000002' })).rejects.toThrow(ConflictException);
+    });
+  });
+
+  describe('cooperative scoping', () => {
+    const manager = { sub: new Types.ObjectId().toString(), roles: [UserRole.MANAGER], cooperativeId: 'coop-1' };
+    const admin = { sub: new Types.ObjectId().toString(), roles: [UserRole.ADMIN] };
+
+    let target: any;
+    let userModel: any;
+    let passwordPolicyService: { setPassword: jest.Mock };
+    let cooperativesService: { assertAssignable: jest.Mock };
+    let service: UsersService;
+
+    beforeEach(() => {
+      target = {
+        _id: new Types.ObjectId(),
+        name: 'Jean',
+        roles: [UserRole.FARMER],
+        cooperativeId: 'coop-1',
+        isActive: true,
+        save: jest.fn(async () => target),
+      };
+      const query = { sort: jest.fn(() => query), limit: jest.fn(async () => []) };
+
+      userModel = jest.fn((values: object) => {
+        const created: any = { _id: new Types.ObjectId(), roles: [UserRole.FARMER], ...values };
+        created.save = jest.fn(async () => created);
+        return created;
+      });
+      Object.assign(userModel, {
+        findOne: jest.fn(async () => null),
+        findById: jest.fn(async () => target),
+        find: jest.fn(() => query),
+        countDocuments: jest.fn(async () => 0),
+      });
+      passwordPolicyService = { setPassword: jest.fn() };
+      cooperativesService = { assertAssignable: jest.fn() };
+      service = new UsersService(userModel, {} as any, passwordPolicyService as any, cooperativesService as any);
+    });
+
+    it('should confine the user list to the manager\'s cooperative', async () => {
+      await service.findAll({ cooperativeId: 'coop-2' }, manager);
+
+      expect(userModel.countDocuments).toHaveBeenCalledWith({ cooperativeId: 'coop-1' });
+    });
+
+    it('should let admins list any cooperative', async () => {
+      await service.findAll({ cooperativeId: 'coop-2' }, admin);
+
+      expect(userModel.countDocuments).toHaveBeenCalledWith({ cooperativeId: 'coop-2' });
+    });
+
+    it('should create users in the manager\'s cooperative', async () => {
+      const created = await service.create({ name: 'Aline', email: 'aline@example.com', password: 'Secret123!' }, manager);
+
+      expect(created.cooperativeId).toBe('coop-1');
+      expect(cooperativesService.assertAssignable).toHaveBeenCalledWith('coop-1');
+    });
+
+    it('should refuse to assign users to a cooperative that does not exist', async () => {
+      cooperativesService.assertAssignable.mockRejectedValue(new BadRequestException('Cooperative coop-9 does not exist'));
+
+      await expect(
+        service.create({ name: 'Aline', email: 'aline@example.com', password: 'Secret123!', cooperativeId: 'coop-9' }, admin),
+      ).rejects.toThrow(BadRequestException);
+      expect(userModel).not.toHaveBeenCalled();
+    });
+
+    it('should not let managers grant the admin role', async () => {
+      await expect(
+        service.create({ name: 'Aline', email: 'aline@example.com', password: 'Secret123!', roles: [UserRole.ADMIN] }, manager),
+      ).rejects.toThrow(ForbiddenException);
+      expect(userModel).not.toHaveBeenCalled();
+    });
+
+    it('should not let managers assign users to another cooperative', async () => {
+      await expect(
+        service.create({ name: 'Aline', email: 'aline@example.com', password: 'Secret123!', cooperativeId: 'coop-2' }, manager),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('should require managers to belong to a cooperative', async () => {
+      await expect(service.findAll({}, { ...manager, cooperativeId: undefined })).rejects.toThrow(ForbiddenException);
+    });
+
+    it('should let managers deactivate and activate users in their cooperative', async () => {
+      expect((await service.deactivate(target._id.toString(), manager)).isActive).toBe(false);
+      expect((await service.activate(target._id.toString(), manager)).isActive).toBe(true);
+    });
+
+    it('should revoke the access tokens of deactivated users', async () => {
+      target.tokenVersion = 3;
+
+      await service.deactivate(target._id.toString(), manager);
+
+      expect(target.tokenVersion).toBe(4);
+    });
+
+    it('should not let managers change users of another cooperative', async () => {
+      target.cooperativeId = 'coop-2';
+
+      await expect(service.deactivate(target._id.toString(), manager)).rejects.toThrow(ForbiddenException);
+      expect(target.save).not.toHaveBeenCalled();
+      await expect(service.activate(target._id.toString(), admin)).resolves.toBeDefined();
+    });
+
+    it('should not let managers deactivate administrators', async () => {
+      target.roles = [UserRole.ADMIN];
+
+      await expect(service.deactivate(target._id.toString(), manager)).rejects.toThrow(ForbiddenException);
+    });
+  });
+});
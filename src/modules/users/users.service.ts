@@ -3,73 +3,159 @@ import {
     NotFoundException,
     ConflictException,
     BadRequestException,
+    ForbiddenException,
 } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
-import { Model } from 'mongoose';
+import { FilterQuery, Model, SortOrder as MongoSortOrder, Types } from 'mongoose';
 import * as bcrypt from 'bcrypt';
-import { ConfigService } from '@nestjs/config';
+import { Readable } from 'stream';
 import { User, UserDocument } from './schemas/user.schema';
 import { CreateUserDto } from './dto/create-user.dto';
 import { UpdateUserDto } from './dto/update-user.dto';
+import { UpdateProfileDto } from './dto/update-profile.dto';
 import { ChangePasswordDto } from './dto/change-password.dto';
 import { UserResponseDto } from './dto/user-response.dto';
+import { ListUsersQueryDto, UserSortField, SortOrder } from './dto/list-users-query.dto';
+import { PaginatedUsersResponseDto } from './dto/paginated-users-response.dto';
+import { ExportUsersQueryDto } from './dto/export-users-query.dto';
+import { USER_CSV_COLUMNS, toUserCsvCells } from './user-csv';
+import { resolveCooperativeScope, toCooperativeFilter } from '../cooperatives/cooperative-scope';
+import { LoginAttemptsService } from '../auth/login-attempts.service';
+import { PasswordPolicyService } from '../password-policy/password-policy.service';
+import { CooperativesService } from '../cooperatives/cooperatives.service';
+import { toCsvLine } from '../../common/utils/csv.util';
+import { withoutTenantScope } from '../../common/tenancy/tenant-context';
+import { JwtPayload } from '../../common/interfaces/jwt-payload.interface';
+import { UserRole } from '../../common/enums/user-role.enum';
+
+
+const DEFAULT_PAGE_SIZE = 20;
 
 
 @Injectable()
 export class UsersService {
-    private readonly bcryptSaltRounds: number;
-
     constructor(
         @InjectModel(User.name) private userModel: Model<UserDocument>,
-        private configService: ConfigService,
-    ) {
-        this.bcryptSaltRounds = this.configService.get<number>('auth.bcryptSaltRounds', 12);
-    }
+        private loginAttemptsService: LoginAttemptsService,
+        private passwordPolicyService: PasswordPolicyService,
+        private cooperativesService: CooperativesService,
+    ) { }
+
+    /**
+     * Create a user with a password set by the caller. Managers can only
+     * create users in cooperatives they manage and cannot grant the admin
+     * role; managers of several cooperatives have to choose one.
+     */
+    async create(createUserDto: CreateUserDto, currentUser?: JwtPayload): Promise<UserResponseDto> {
+        const scope = resolveCooperativeScope(currentUser);
+
+        if (scope) {
+            if (createUserDto.roles?.includes(UserRole.ADMIN)) {
+                throw new ForbiddenException('Access denied: Managers cannot grant the admin role');
+            }
+
+            const cooperativeId = createUserDto.cooperativeId ?? (scope.length === 1 ? scope[0] : undefined);
+
+            if (!cooperativeId) {
+                throw new BadRequestException('Choose one of the cooperatives you manage');
+            }
+
+            if (!scope.includes(cooperativeId)) {
+                throw new ForbiddenException('Access denied: Managers can only add users to their own cooperative');
+            }
+
+            createUserDto = { ...createUserDto, cooperativeId };
+        }
+
+        if (createUserDto.cooperativeId) {
+            await this.cooperativesService.assertAssignable(createUserDto.cooperativeId);
+        }
 
-    async create(createUserDto: CreateUserDto): Promise<UserResponseDto> {
         const { email, password, ...userData } = createUserDto;
 
-        const existingUser = await this.userModel.findOne({ email });
+        // Email addresses are unique across cooperatives
+        const existingUser = await withoutTenantScope(async () => await this.userModel.findOne({ email }));
         if (existingUser) {
             throw new ConflictException('Email already registered');
         }
 
-        const hashedPassword = await bcrypt.hash(password, this.bcryptSaltRounds);
-
         const newUser = new this.userModel({
             ...userData,
             email,
-            password: hashedPassword,
+            emailVerified: true,
         });
 
+        await this.passwordPolicyService.setPassword(newUser, password);
+
         const savedUser = await newUser.save();
 
         return this.toResponseDto(savedUser);
     }
 
 
-    async findAll(filters?: {
-        role?: string;
-        isActive?: boolean;
-        cooperativeId?: string;
-    }): Promise<UserResponseDto[]> {
-        const query: any = {};
+    /**
+     * One page of users matching the filters, in a stable order. Pages are
+     * addressed by an opaque cursor holding the sort value and ID of the last
+     * user returned, so results do not shift as users sign up. Managers only
+     * see the cooperatives they manage.
+     */
+    async findAll(
+        listUsersQueryDto: ListUsersQueryDto = {},
+        currentUser?: JwtPayload,
+    ): Promise<PaginatedUsersResponseDto> {
+        const scope = resolveCooperativeScope(currentUser);
+
+        const {
+            sortBy = UserSortField.CREATED_AT,
+            sortOrder = SortOrder.DESC,
+            limit = DEFAULT_PAGE_SIZE,
+            cursor,
+        } = listUsersQueryDto;
+
+        const filter = this.buildListFilter(listUsersQueryDto, scope);
+        const direction: MongoSortOrder = sortOrder === SortOrder.ASC ? 1 : -1;
+
+        const pageFilter = cursor
+            ? { $and: [filter, this.buildCursorFilter(this.decodeCursor(cursor), sortBy, sortOrder)] }
+            : filter;
+
+        const [users, total] = await Promise.all([
+            this.userModel
+                .find(pageFilter)
+                .sort({ [sortBy]: direction, _id: direction })
+                .limit(limit + 1),
+            this.userModel.countDocuments(filter),
+        ]);
 
-        if (filters?.role) {
-            query.roles = filters.role;
-        }
+        const hasMore = users.length > limit;
+        const items = hasMore ? users.slice(0, limit) : users;
+        const last = items[items.length - 1];
 
-        if (filters?.isActive !== undefined) {
-            query.isActive = filters.isActive;
-        }
+        return {
+            items: items.map((user) => this.toResponseDto(user)),
+            nextCursor: hasMore ? this.encodeCursor(last.get(sortBy) ?? null, last._id.toString()) : null,
+            total,
+        };
+    }
 
-        if (filters?.cooperativeId) {
-            query.cooperativeId = filters.cooperativeId;
-        }
 
-        const users = await this.userModel.find(query).sort({ createdAt: -1 });
+    /**
+     * Stream matching users as CSV with the same columns the import accepts.
+     * Managers only export the cooperatives they manage.
+     */
+    exportCsv(currentUser: JwtPayload, exportUsersQueryDto: ExportUsersQueryDto = {}): Readable {
+        const scope = resolveCooperativeScope(currentUser);
+        const { sortBy = UserSortField.CREATED_AT, sortOrder = SortOrder.ASC } = exportUsersQueryDto;
+        const direction: MongoSortOrder = sortOrder === SortOrder.ASC ? 1 : -1;
+
+        const filter = this.buildListFilter(exportUsersQueryDto, scope);
 
-        return users.map((user) => this.toResponseDto(user));
+        const cursor = this.userModel
+            .find(filter)
+            .sort({ [sortBy]: direction, _id: direction })
+            .cursor();
+
+        return Readable.from(this.toCsvLines(cursor));
     }
 
 
@@ -103,130 +189,328 @@ export class UsersService {
         }
 
         if (updateUserDto.email && updateUserDto.email !== user.email) {
-            const existingUser = await this.userModel.findOne({ email: updateUserDto.email });
+            const existingUser = await withoutTenantScope(async () => await this.userModel.findOne({ email: updateUserDto.email }));
             if (existingUser) {
                 throw new ConflictException('Email already in use');
             }
         }
 
+        const cooperativeChanged =
+            updateUserDto.cooperativeId !== undefined && updateUserDto.cooperativeId !== user.cooperativeId;
+
+        if (cooperativeChanged) {
+            await this.cooperativesService.assertAssignable(updateUserDto.cooperativeId);
+        }
+
+        const rolesChanged =
+            updateUserDto.roles !== undefined &&
+            [...updateUserDto.roles].sort().join(',') !== [...user.roles].sort().join(',');
+
         Object.assign(user, updateUserDto);
+
+        // Access tokens carry the roles and cooperative
+        if (rolesChanged || cooperativeChanged || updateUserDto.isActive === false) {
+            this.revokeAccessTokens(user);
+        }
+
         const updatedUser = await user.save();
 
         return this.toResponseDto(updatedUser);
     }
 
-    async remove(id: string): Promise<{ message: string }> {
-        const user = await this.userModel.findById(id);
+    /**
+     * Self-service update of the caller's own profile. A new phone number
+     * has to be verified again before it can be used to sign in.
+     */
+    async updateProfile(userId: string, updateProfileDto: UpdateProfileDto): Promise<UserResponseDto> {
+        const user = await this.userModel.findById(userId);
 
         if (!user) {
             throw new NotFoundException('User not found');
         }
 
+        if (updateProfileDto.phone && updateProfileDto.phone !== user.phone) {
+            const existingUser = await withoutTenantScope(async () => await this.userModel.findOne({ phone: updateProfileDto.phone }));
+            if (existingUser) {
+                throw new ConflictException('Phone number already in use');
+            }
 
-        user.isActive = false;
-        await user.save();
+            user.phoneVerified = false;
+            user.phoneVerifiedAt = undefined;
+        }
 
-        return { message: 'User deactivated successfully' };
+        user.set(updateProfileDto);
+
+        const updatedUser = await user.save();
+
+        return this.toResponseDto(updatedUser);
     }
 
 
-    async hardDelete(id: string): Promise<{ message: string }> {
-        const result = await this.userModel.findByIdAndDelete(id);
+    async remove(id: string): Promise<{ message: string }> {
+        const user = await this.userModel.findById(id);
 
-        if (!result) {
+        if (!user) {
             throw new NotFoundException('User not found');
         }
 
-        return { message: 'User permanently deleted' };
+
+        user.isActive = false;
+        this.revokeAccessTokens(user);
+        await user.save();
+
+        return { message: 'User deactivated successfully' };
     }
 
 
-    async activate(id: string): Promise<UserResponseDto> {
+    async activate(id: string, currentUser?: JwtPayload): Promise<UserResponseDto> {
         const user = await this.userModel.findById(id);
 
         if (!user) {
             throw new NotFoundException('User not found');
         }
 
+        this.assertCanManage(user, currentUser);
+
         user.isActive = true;
         const updatedUser = await user.save();
 
         return this.toResponseDto(updatedUser);
     }
 
-    async deactivate(id: string): Promise<UserResponseDto> {
+    async deactivate(id: string, currentUser?: JwtPayload): Promise<UserResponseDto> {
         const user = await this.userModel.findById(id);
 
         if (!user) {
             throw new NotFoundException('User not found');
         }
 
+        this.assertCanManage(user, currentUser);
+
         user.isActive = false;
+        this.revokeAccessTokens(user);
         const updatedUser = await user.save();
 
         return this.toResponseDto(updatedUser);
     }
 
 
+    async unlock(id: string, actorId: string): Promise<{ message: string }> {
+        const user = await this.userModel.findById(id);
+
+        if (!user) {
+            throw new NotFoundException('User not found');
+        }
+
+        await this.loginAttemptsService.unlockAccount(
+            [user.email, user.phone].filter(Boolean),
+            user._id.toString(),
+            actorId,
+        );
+
+        return { message: 'User account unlocked successfully' };
+    }
+
+
     async changePassword(
         userId: string,
         changePasswordDto: ChangePasswordDto,
     ): Promise<{ message: string }> {
         const { currentPassword, newPassword } = changePasswordDto;
 
-        const user = await this.userModel.findById(userId).select('+password');
+        const user = await this.userModel.findById(userId).select('+password +passwordHistory');
 
         if (!user) {
             throw new NotFoundException('User not found');
         }
-        const isPasswordValid = await bcrypt.compare(currentPassword, user.password);
+
+        // Accounts created through one-time codes have no password to compare against
+        const isPasswordValid = !!user.password && await bcrypt.compare(currentPassword, user.password);
 
         if (!isPasswordValid) {
             throw new BadRequestException('Current password is incorrect');
         }
-        user.password = await bcrypt.hash(newPassword, this.bcryptSaltRounds);
+        await this.passwordPolicyService.setPassword(user, newPassword);
+        this.revokeAccessTokens(user);
         await user.save();
 
         return { message: 'Password changed successfully' };
     }
 
 
-    async getStatistics(): Promise<{
-        total: number;
-        active: number;
-        inactive: number;
-        byRole: { [key: string]: number };
-    }> {
-        const [total, active, inactive, byRole] = await Promise.all([
-            this.userModel.countDocuments(),
-            this.userModel.countDocuments({ isActive: true }),
-            this.userModel.countDocuments({ isActive: false }),
-            this.userModel.aggregate([
-                { $unwind: '$roles' },
-                { $group: { _id: '$roles', count: { $sum: 1 } } },
-            ]),
-        ]);
+    /**
+     * Invalidate every access token issued to the user. The caller must save the document.
+     */
+    private revokeAccessTokens(user: UserDocument): void {
+        user.tokenVersion = (user.tokenVersion ?? 0) + 1;
+    }
 
-        const roleStats = byRole.reduce((acc, item) => {
-            acc[item._id] = item.count;
-            return acc;
-        }, {});
 
-        return {
-            total,
-            active,
-            inactive,
-            byRole: roleStats,
-        };
+    private assertCanManage(user: UserDocument, currentUser?: JwtPayload): void {
+        const scope = resolveCooperativeScope(currentUser);
+
+        if (!scope) {
+            return;
+        }
+
+        if (!scope.includes(user.cooperativeId)) {
+            throw new ForbiddenException('Access denied: User belongs to another cooperative');
+        }
+
+        if (user.roles.includes(UserRole.ADMIN)) {
+            throw new ForbiddenException('Access denied: Managers cannot modify administrators');
+        }
     }
+
+
+    /**
+     * Filters for listing and exporting users, restricted to the scope of
+     * managers when given
+     */
+    private buildListFilter(listUsersQueryDto: ListUsersQueryDto, scope?: string[]): FilterQuery<UserDocument> {
+        const {
+            search,
+            role,
+            isActive,
+            cooperativeId,
+            createdFrom,
+            createdTo,
+            lastLoginFrom,
+            lastLoginTo,
+        } = listUsersQueryDto;
+
+        const filter: FilterQuery<UserDocument> = {};
+
+        if (search?.trim()) {
+            const term = search.trim();
+            const prefix = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+            // Whole words anywhere in the name or email (phrase search, in order), or the
+            // start of the name or email. $text inside $or needs every other clause to be
+            // indexed, which the anchored prefixes on name and email are.
+            filter.$or = [
+                { $text: { $search: `"${term.replace(/"/g, ' ').trim()}"` } },
+                { email: { $regex: `^${prefix.toLowerCase()}` } },
+                { name: { $regex: `^${prefix}`, $options: 'i' } },
+            ];
+        }
+
+        if (role) {
+            filter.roles = role;
+        }
+
+        if (isActive !== undefined) {
+            filter.isActive = isActive;
+        }
+
+        const cooperativeFilter = toCooperativeFilter(scope, cooperativeId);
+
+        if (cooperativeFilter) {
+            filter.cooperativeId = cooperativeFilter;
+        }
+
+        if (createdFrom || createdTo) {
+            filter.createdAt = {
+                ...(createdFrom && { $gte: createdFrom }),
+                ...(createdTo && { $lt: createdTo }),
+            };
+        }
+
+        if (lastLoginFrom || lastLoginTo) {
+            filter.lastLoginAt = {
+                ...(lastLoginFrom && { $gte: lastLoginFrom }),
+                ...(lastLoginTo && { $lt: lastLoginTo }),
+            };
+        }
+
+        return filter;
+    }
+
+
+    /**
+     * Users strictly after the cursor position. MongoDB sorts missing values
+     * (e.g. users who never logged in) before everything else, so they come
+     * first in ascending order and last in descending order.
+     */
+    private buildCursorFilter(
+        position: { value: unknown; id: Types.ObjectId },
+        sortBy: UserSortField,
+        sortOrder: SortOrder,
+    ): FilterQuery<UserDocument> {
+        const after = sortOrder === SortOrder.ASC ? '$gt' : '$lt';
+        const { value, id } = position;
+
+        if (value === null) {
+            return sortOrder === SortOrder.ASC
+                ? { $or: [{ [sortBy]: null, _id: { $gt: id } }, { [sortBy]: { $ne: null } }] }
+                : { [sortBy]: null, _id: { $lt: id } };
+        }
+
+        const conditions: FilterQuery<UserDocument>[] = [
+            { [sortBy]: { [after]: value } },
+            { [sortBy]: value, _id: { [after]: id } },
+        ];
+
+        if (sortOrder === SortOrder.DESC) {
+            conditions.push({ [sortBy]: null });
+        }
+
+        return { $or: conditions };
+    }
+
+
+    private async *toCsvLines(users: AsyncIterable<UserDocument>): AsyncGenerator<string> {
+        yield toCsvLine([...USER_CSV_COLUMNS]);
+
+        for await (const user of users) {
+            yield toCsvLine(toUserCsvCells(user));
+        }
+    }
+
+
+    private encodeCursor(value: unknown, id: string): string {
+        const typedValue = value instanceof Date ? { d: value.toISOString() } : { v: value };
+
+        return Buffer.from(JSON.stringify({ ...typedValue, id })).toString('base64url');
+    }
+
+
+    private decodeCursor(cursor: string): { value: unknown; id: Types.ObjectId } {
+        try {
+            const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+
+            if (!Types.ObjectId.isValid(decoded.id)) {
+                throw new Error('Invalid cursor ID');
+            }
+
+            return {
+                value: 'd' in decoded ? new Date(decoded.d) : decoded.v,
+                id: new Types.ObjectId(decoded.id),
+            };
+        } catch {
+            throw new BadRequestException('Invalid cursor');
+        }
+    }
+
+
     private toResponseDto(user: UserDocument): UserResponseDto {
         return {
             _id: user._id.toString(),
             name: user.name,
             email: user.email,
+            phone: user.phone,
             roles: user.roles,
             isActive: user.isActive,
+            emailVerified: user.emailVerified,
+            phoneVerified: user.phoneVerified,
+            mfaEnabled: user.mfaEnabled,
             cooperativeId: user.cooperativeId,
+            preferredLanguage: user.preferredLanguage,
+            region: user.region,
+            district: user.district,
+            farmSizeHectares: user.farmSizeHectares,
+            primaryCrops: user.primaryCrops,
+            timezone: user.timezone,
             lastLoginAt: user.lastLoginAt,
             createdAt: user.createdAt,
             updatedAt: user.updatedAt,
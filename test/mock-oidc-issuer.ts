@@ -0,0 +1,210 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { createHash, generateKeyPairSync, KeyObject, randomBytes } from 'crypto';
+import { JwtService } from '@nestjs/jwt';
+
+/**
+ * Minimal OpenID Connect provider for local development and tests.
+ *
+ * Supports discovery, the authorization code flow with PKCE (S256), JWKS and
+ * userinfo. The authorize endpoint signs in `profile` without prompting and
+ * redirects straight back to the client; pass `login_hint` to use a
+ * different email address.
+ *
+ * Run standalone with `pnpm oidc:mock`.
+ */
+
+export interface MockOidcProfile {
+  sub: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+  [claim: string]: unknown;
+}
+
+export interface MockOidcIssuerOptions {
+  port?: number;
+  clientId?: string;
+  profile?: MockOidcProfile;
+}
+
+export interface MockOidcIssuer {
+  issuer: string;
+  clientId: string;
+  profile: MockOidcProfile;
+  // Published in the JWKS next to the signing key, e.g. keys the client cannot use
+  additionalKeys: Record<string, unknown>[];
+  close(): Promise<void>;
+}
+
+interface PendingCode {
+  clientId: string;
+  redirectUri: string;
+  nonce?: string;
+  codeChallenge: string;
+  profile: MockOidcProfile;
+}
+
+const DEFAULT_PROFILE: MockOidcProfile = {
+  sub: 'mock-user-1',
+  email: 'sso.user@example.com',
+  email_verified: true,
+  name: 'SSO User',
+  roles: ['leaf-managers'],
+};
+
+export async function startMockOidcIssuer(options: MockOidcIssuerOptions = {}): Promise<MockOidcIssuer> {
+  const clientId = options.clientId ?? 'angular-leaf-local';
+  const keyId = randomBytes(8).toString('hex');
+  const { publicKey, privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const jwtService = new JwtService({});
+  const codes = new Map<string, PendingCode>();
+  const accessTokens = new Map<string, MockOidcProfile>();
+
+  const mock: MockOidcIssuer = {
+    issuer: '',
+    clientId,
+    profile: { ...DEFAULT_PROFILE, ...options.profile },
+    additionalKeys: [],
+    close: () => new Promise((resolve, reject) => server.close((error) => (error ? reject(error) : resolve()))),
+  };
+
+  const handle = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const url = new URL(req.url, mock.issuer);
+
+    if (req.method === 'GET' && url.pathname === '/.well-known/openid-configuration') {
+      return json(res, 200, {
+        issuer: mock.issuer,
+        authorization_endpoint: `${mock.issuer}/authorize`,
+        token_endpoint: `${mock.issuer}/token`,
+        jwks_uri: `${mock.issuer}/jwks`,
+        userinfo_endpoint: `${mock.issuer}/userinfo`,
+        response_types_supported: ['code'],
+        subject_types_supported: ['public'],
+        id_token_signing_alg_values_supported: ['RS256'],
+        code_challenge_methods_supported: ['S256'],
+      });
+    }
+
+    if (req.method === 'GET' && url.pathname === '/jwks') {
+      return json(res, 200, {
+        keys: [...mock.additionalKeys, { ...exportJwk(publicKey), kid: keyId, use: 'sig', alg: 'RS256' }],
+      });
+    }
+
+    if (req.method === 'GET' && url.pathname === '/authorize') {
+      const params = url.searchParams;
+
+      if (params.get('client_id') !== clientId || params.get('response_type') !== 'code') {
+        return json(res, 400, { error: 'unauthorized_client' });
+      }
+
+      if (!params.get('code_challenge') || params.get('code_challenge_method') !== 'S256') {
+        return json(res, 400, { error: 'invalid_request', error_description: 'PKCE with S256 is required' });
+      }
+
+      const code = randomBytes(16).toString('hex');
+      const loginHint = params.get('login_hint');
+
+      codes.set(code, {
+        clientId,
+        redirectUri: params.get('redirect_uri'),
+        nonce: params.get('nonce') ?? undefined,
+        codeChallenge: params.get('code_challenge'),
+        profile: loginHint ? { ...mock.profile, sub: `mock-${loginHint}`, email: loginHint } : { ...mock.profile },
+      });
+
+      const redirect = new URL(params.get('redirect_uri'));
+      redirect.searchParams.set('code', code);
+      redirect.searchParams.set('state', params.get('state') ?? '');
+
+      res.writeHead(302, { Location: redirect.toString() });
+      res.end();
+      return;
+    }
+
+    if (req.method === 'POST' && url.pathname === '/token') {
+      const body = new URLSearchParams(await readBody(req));
+      const pending = codes.get(body.get('code'));
+      codes.delete(body.get('code'));
+
+      const challenge = createHash('sha256').update(body.get('code_verifier') ?? '').digest('base64url');
+
+      if (
+        !pending ||
+        body.get('grant_type') !== 'authorization_code' ||
+        body.get('client_id') !== pending.clientId ||
+        body.get('redirect_uri') !== pending.redirectUri ||
+        challenge !== pending.codeChallenge
+      ) {
+        return json(res, 400, { error: 'invalid_grant' });
+      }
+
+      const accessToken = randomBytes(16).toString('hex');
+      accessTokens.set(accessToken, pending.profile);
+
+      const idToken = jwtService.sign(
+        { ...pending.profile, nonce: pending.nonce },
+        {
+          privateKey: exportPem(privateKey),
+          algorithm: 'RS256',
+          keyid: keyId,
+          issuer: mock.issuer,
+          audience: pending.clientId,
+          expiresIn: 300,
+        },
+      );
+
+      return json(res, 200, { access_token: accessToken, token_type: 'Bearer', expires_in: 300, id_token: idToken });
+    }
+
+    if (req.method === 'GET' && url.pathname === '/userinfo') {
+      const profile = accessTokens.get((req.headers.authorization ?? '').replace(/^Bearer /, ''));
+
+      return profile ? json(res, 200, profile) : json(res, 401, { error: 'invalid_token' });
+    }
+
+    json(res, 404, { error: 'not_found' });
+  };
+
+  const server: Server = createServer((req, res) => {
+    handle(req, res).catch((error) => json(res, 500, { error: 'server_error', error_description: error.message }));
+  });
+
+  await new Promise<void>((resolve) => server.listen(options.port ?? 0, '127.0.0.1', resolve));
+  mock.issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return mock;
+}
+
+function json(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let data = '';
+    req.on('data', (chunk) => (data += chunk));
+    req.on('end', () => resolve(data));
+    req.on('error', reject);
+  });
+}
+
+function exportJwk(key: KeyObject): Record<string, unknown> {
+  return key.export({ format: 'jwk' }) as Record<string, unknown>;
+}
+
+function exportPem(key: KeyObject): string {
+  return key.export({ type: 'pkcs8', format: 'pem' }).toString();
+}
+
+if (require.main === module) {
+  startMockOidcIssuer({
+    port: parseInt(process.env.MOCK_OIDC_PORT, 10) || 4010,
+    clientId: process.env.OIDC_CLIENT_ID || undefined,
+  }).then((mock) => {
+    console.log(`Mock OIDC issuer listening at ${mock.issuer}`);
+    console.log(`Set OIDC_ISSUER=${mock.issuer} and OIDC_CLIENT_ID=${mock.clientId}`);
+  });
+}
@@ -0,0 +1,318 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import { getModelToken } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import * as request from 'supertest';
+import { AppModule } from '../src/app.module';
+import { HttpExceptionFilter } from '../src/common/filters/http-exception.filter';
+import { TransformInterceptor } from '../src/common/interceptors/transform.interceptor';
+import { UserRole } from '../src/common/enums/user-role.enum';
+import { SigningKeysService } from '../src/modules/auth/signing-keys.service';
+import { User, UserDocument } from '../src/modules/users/schemas/user.schema';
+import { Cooperative, CooperativeDocument } from '../src/modules/cooperatives/schemas/cooperative.schema';
+import {
+  Organisation,
+  OrganisationDocument,
+  OrganisationLevel,
+} from '../src/modules/organisations/schemas/organisation.schema';
+import {
+  Recommendation,
+  RecommendationDocument,
+} from '../src/modules/recommendations/schemas/recommendation.schema';
+
+describe('Tenant isolation (e2e)', () => {
+  const suffix = Date.now().toString(36);
+
+  let app: INestApplication;
+  let userModel: Model<UserDocument>;
+  let cooperativeModel: Model<CooperativeDocument>;
+  let organisationModel: Model<OrganisationDocument>;
+  let recommendationModel: Model<RecommendationDocument>;
+
+  let cooperativeA: CooperativeDocument;
+  let cooperativeB: CooperativeDocument;
+  let cooperativeC: CooperativeDocument;
+  let region: OrganisationDocument;
+  let district: OrganisationDocument;
+  let districtManager: UserDocument;
+  let managerA: UserDocument;
+  let farmerA: UserDocument;
+  let farmerB: UserDocument;
+  let farmerC: UserDocument;
+  let soloFarmer: UserDocument;
+  let otherSoloFarmer: UserDocument;
+  let admin: UserDocument;
+  let recommendationA: RecommendationDocument;
+  let recommendationB: RecommendationDocument;
+  let soloRecommendation: RecommendationDocument;
+  let otherSoloRecommendation: RecommendationDocument;
+  const tokens: Record<string, string> = {};
+
+  const recommendationFor = (user: UserDocument) => ({
+    sessionId: `sess_${suffix}_${user._id}`,
+    userId: user._id.toString(),
+    cooperativeId: user.cooperativeId,
+    imageClassification: 'angular_leaf_spot',
+    classificationConfidence: 0.9,
+    content: { disease: 'Angular Leaf Spot', severity: 'moderate' },
+    generatedBy: 'MockOpenaiService',
+    promptVersion: 'e2e',
+  });
+
+  const signIn = (user: UserDocument) =>
+    app.get(SigningKeysService).signAccessToken({
+      sub: user._id.toString(),
+      email: user.email,
+      roles: user.roles,
+      cooperativeId: user.cooperativeId,
+      organisationId: user.organisationId,
+      ver: user.tokenVersion ?? 0,
+    });
+
+  beforeAll(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    // Same pipeline as main.ts
+    app = moduleFixture.createNestApplication();
+    app.setGlobalPrefix('api/v1');
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        forbidNonWhitelisted: true,
+        transform: true,
+        transformOptions: { enableImplicitConversion: true },
+      }),
+    );
+    app.useGlobalFilters(new HttpExceptionFilter());
+    app.useGlobalInterceptors(new TransformInterceptor());
+    await app.init();
+
+    userModel = app.get(getModelToken(User.name));
+    cooperativeModel = app.get(getModelToken(Cooperative.name));
+    organisationModel = app.get(getModelToken(Organisation.name));
+    recommendationModel = app.get(getModelToken(Recommendation.name));
+
+    // Seeded outside of any request, so without tenant scope. A and B are in
+    // the same district, C is not.
+    region = await organisationModel.create({ name: `Region ${suffix}`, level: OrganisationLevel.REGION, path: [] });
+    district = await organisationModel.create({
+      name: `District ${suffix}`,
+      level: OrganisationLevel.DISTRICT,
+      parentId: region.id,
+      path: [region.id],
+    });
+
+    const inDistrict = { organisationId: district.id, organisationPath: [region.id, district.id] };
+
+    [cooperativeA, cooperativeB, cooperativeC] = await cooperativeModel.create([
+      { name: `Tenant A ${suffix}`, country: 'KE', ...inDistrict },
+      { name: `Tenant B ${suffix}`, country: 'KE', ...inDistrict },
+      { name: `Tenant C ${suffix}`, country: 'KE' },
+    ]);
+
+    const member = (name: string, roles: UserRole[], cooperative?: CooperativeDocument) => ({
+      name,
+      email: `${name}-${suffix}@example.com`,
+      roles,
+      cooperativeId: cooperative?._id.toString(),
+      isActive: true,
+      emailVerified: true,
+      mfaEnabled: true,
+    });
+
+    // Self-registered farmers belong to no cooperative
+    [managerA, farmerA, farmerB, farmerC, admin, districtManager, soloFarmer, otherSoloFarmer] = await userModel.create([
+      member('manager-a', [UserRole.MANAGER], cooperativeA),
+      member('farmer-a', [UserRole.FARMER], cooperativeA),
+      member('farmer-b', [UserRole.FARMER], cooperativeB),
+      member('farmer-c', [UserRole.FARMER], cooperativeC),
+      member('admin', [UserRole.ADMIN]),
+      { ...member('district-manager', [UserRole.MANAGER]), organisationId: district.id },
+      member('solo-farmer', [UserRole.FARMER]),
+      member('other-solo-farmer', [UserRole.FARMER]),
+    ]);
+
+    [recommendationA, recommendationB, soloRecommendation, otherSoloRecommendation] = await recommendationModel.create([
+      recommendationFor(farmerA),
+      recommendationFor(farmerB),
+      recommendationFor(soloFarmer),
+      recommendationFor(otherSoloFarmer),
+    ]);
+
+    for (const [key, user] of Object.entries({ managerA, farmerA, farmerB, admin, districtManager, soloFarmer })) {
+      tokens[key] = await signIn(user);
+    }
+  });
+
+  afterAll(async () => {
+    const userIds = [managerA, farmerA, farmerB, farmerC, admin, districtManager, soloFarmer, otherSoloFarmer]
+      .filter(Boolean)
+      .map((user) => user._id.toString());
+
+    await recommendationModel.deleteMany({ userId: { $in: userIds } });
+    await userModel.deleteMany({ _id: { $in: userIds } });
+    await cooperativeModel.deleteMany({ _id: { $in: [cooperativeA?._id, cooperativeB?._id, cooperativeC?._id] } });
+    await organisationModel.deleteMany({ _id: { $in: [region?._id, district?._id] } });
+    await app.close();
+  });
+
+  describe('reads', () => {
+    it('should only list users of the caller\'s cooperative', async () => {
+      const res = await request(app.getHttpServer())
+        .get('/api/v1/users')
+        .set('Authorization', `Bearer ${tokens.managerA}`)
+        .expect(200);
+
+      const ids = res.body.data.items.map((user: { _id: string }) => user._id.toString());
+      expect(ids).toEqual(expect.arrayContaining([managerA.id, farmerA.id]));
+      expect(ids).not.toContain(farmerB.id);
+    });
+
+    it('should not find a recommendation of another cooperative', async () => {
+      await request(app.getHttpServer())
+        .get(`/api/v1/recommendations/${recommendationB.id}`)
+        .set('Authorization', `Bearer ${tokens.farmerA}`)
+        .expect(404);
+
+      await request(app.getHttpServer())
+        .get(`/api/v1/recommendations/${recommendationA.id}`)
+        .set('Authorization', `Bearer ${tokens.farmerA}`)
+        .expect(200);
+    });
+
+    it('should leave other cooperatives out of listings', async () => {
+      const res = await request(app.getHttpServer())
+        .get('/api/v1/recommendations')
+        .query({ limit: 100 })
+        .set('Authorization', `Bearer ${tokens.managerA}`)
+        .expect(200);
+
+      const ids = res.body.data.recommendations.map((recommendation: { id: string }) => recommendation.id);
+      expect(ids).toContain(recommendationA.id);
+      expect(ids).not.toContain(recommendationB.id);
+    });
+  });
+
+  describe('callers without a cooperative', () => {
+    it('should only show self-registered farmers their own recommendations', async () => {
+      const res = await request(app.getHttpServer())
+        .get('/api/v1/recommendations')
+        .query({ limit: 100 })
+        .set('Authorization', `Bearer ${tokens.soloFarmer}`)
+        .expect(200);
+
+      const ids = res.body.data.recommendations.map((recommendation: { id: string }) => recommendation.id);
+      expect(ids).toContain(soloRecommendation.id);
+      expect(ids).not.toContain(otherSoloRecommendation.id);
+
+      await request(app.getHttpServer())
+        .get(`/api/v1/recommendations/${otherSoloRecommendation.id}`)
+        .set('Authorization', `Bearer ${tokens.soloFarmer}`)
+        .expect(404);
+    });
+
+    it('should not let self-registered farmers rate each other\'s recommendations', async () => {
+      await request(app.getHttpServer())
+        .patch(`/api/v1/recommendations/${otherSoloRecommendation.id}/feedback`)
+        .set('Authorization', `Bearer ${tokens.soloFarmer}`)
+        .send({ recommendationId: otherSoloRecommendation.id, rating: 1 })
+        .expect(404);
+
+      const stored = await recommendationModel.findById(otherSoloRecommendation._id);
+      expect(stored.userRating).toBe(0);
+    });
+  });
+
+  describe('writes', () => {
+    it('should not let a manager deactivate a user of another cooperative', async () => {
+      await request(app.getHttpServer())
+        .patch(`/api/v1/users/${farmerB.id}/deactivate`)
+        .set('Authorization', `Bearer ${tokens.managerA}`)
+        .expect(404);
+
+      const stored = await userModel.findById(farmerB._id);
+      expect(stored.isActive).toBe(true);
+    });
+
+    it('should not let a farmer rate a recommendation of another cooperative', async () => {
+      await request(app.getHttpServer())
+        .patch(`/api/v1/recommendations/${recommendationB.id}/feedback`)
+        .set('Authorization', `Bearer ${tokens.farmerA}`)
+        .send({ recommendationId: recommendationB.id, rating: 1 })
+        .expect(404);
+
+      const stored = await recommendationModel.findById(recommendationB._id);
+      expect(stored.userRating).toBe(0);
+    });
+
+    it('should attach the caller\'s cooperative to new documents', async () => {
+      const res = await request(app.getHttpServer())
+        .post('/api/v1/recommendations/generate')
+        .set('Authorization', `Bearer ${tokens.farmerA}`)
+        .send({ classification: 'angular_leaf_spot', confidence: 0.9, sessionId: `sess_${suffix}_generated` })
+        .expect(201);
+
+      const stored = await recommendationModel.findById(res.body.data.data.id);
+      expect(stored.cooperativeId).toBe(cooperativeA.id);
+    });
+  });
+
+  describe('admin bypass', () => {
+    it('should let admins work across cooperatives on cross-tenant routes', async () => {
+      const res = await request(app.getHttpServer())
+        .get('/api/v1/users')
+        .query({ cooperativeId: cooperativeB.id })
+        .set('Authorization', `Bearer ${tokens.admin}`)
+        .expect(200);
+
+      const ids = res.body.data.items.map((user: { _id: string }) => user._id.toString());
+      expect(ids).toContain(farmerB.id);
+
+      await request(app.getHttpServer())
+        .get(`/api/v1/recommendations/${recommendationB.id}`)
+        .set('Authorization', `Bearer ${tokens.admin}`)
+        .expect(200);
+    });
+
+    it('should not let other roles bypass the scope through filters', async () => {
+      const res = await request(app.getHttpServer())
+        .get('/api/v1/users')
+        .query({ cooperativeId: cooperativeB.id })
+        .set('Authorization', `Bearer ${tokens.managerA}`);
+
+      const ids = (res.body.data?.items ?? []).map((user: { _id: string }) => user._id.toString());
+      expect(ids).not.toContain(farmerB.id);
+    });
+  });
+
+  describe('organisations', () => {
+    it('should let district managers see every cooperative below them', async () => {
+      const res = await request(app.getHttpServer())
+        .get('/api/v1/users')
+        .query({ limit: 100 })
+        .set('Authorization', `Bearer ${tokens.districtManager}`)
+        .expect(200);
+
+      const ids = res.body.data.items.map((user: { _id: string }) => user._id.toString());
+      expect(ids).toEqual(expect.arrayContaining([managerA.id, farmerA.id, farmerB.id, districtManager.id]));
+      expect(ids).not.toContain(farmerC.id);
+    });
+
+    it('should add up the statistics of the district', async () => {
+      const res = await request(app.getHttpServer())
+        .get(`/api/v1/organisations/${district.id}/summary`)
+        .set('Authorization', `Bearer ${tokens.districtManager}`)
+        .expect(200);
+
+      expect(res.body.data.members.total).toBe(3);
+      expect(res.body.data.cooperatives).toHaveLength(2);
+
+      await request(app.getHttpServer())
+        .get(`/api/v1/organisations/${region.id}/summary`)
+        .set('Authorization', `Bearer ${tokens.districtManager}`)
+        .expect(403);
+    });
+  });
+});